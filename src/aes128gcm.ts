@@ -0,0 +1,133 @@
+import createError from 'http-errors';
+import {createDecipheriv, hkdfSync} from 'crypto';
+import {Transform, TransformCallback} from 'stream';
+import {DecompressorOptions} from './decompressStream.js';
+
+/**
+ * Resolves the key id of the encryption header to the input keying material, the key is missing when undefined is returned
+ */
+export type Aes128gcmKeyResolver = (keyId: Buffer) => Buffer | undefined | Promise<Buffer | undefined>;
+
+type ContentEncryptionKeys = {
+  key: Buffer;
+  nonce: Buffer;
+  recordSize: number;
+};
+
+const tagLength = 16;
+const headerLength = 21;
+
+/**
+ * Creates a decompressor for the content coding 'aes128gcm' (RFC 8188) used e.g. by Web Push. The header with salt, record size and
+ * key id is parsed from the start of the body, the records are decrypted as soon as they are received. The encrypted bytes are counted
+ * against the limit of the parser configuration, the decrypted bytes are counted like the bytes of every other decompressor.
+ * @param keyResolver The function resolving the key id to the input keying material
+ */
+export function getAes128gcmDecryptor(keyResolver: Aes128gcmKeyResolver) {
+  return ({limit}: DecompressorOptions = {limit: null}) => {
+    let buffer = Buffer.alloc(0);
+    let received = 0;
+    let sequence = 0;
+    let last = false;
+    let keys: ContentEncryptionKeys | undefined;
+    const decryptor = new Transform({
+      transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback) {
+        received += chunk.length;
+        if (limit !== null && received > limit) {
+          callback(createError(413, 'request entity too large', {
+            limit,
+            received,
+            type: 'entity.too.large',
+          }));
+          return;
+        }
+        buffer = buffer.length === 0 ? chunk : Buffer.concat([buffer, chunk]);
+        decryptRecords(false).then(() => callback(), callback);
+      },
+      flush(callback: TransformCallback) {
+        decryptRecords(true).then(() => callback(), callback);
+      },
+    });
+    return decryptor;
+
+    async function decryptRecords(end: boolean) {
+      if (!keys) {
+        keys = await readHeader(end);
+        if (!keys) return;
+      }
+      while (buffer.length >= keys.recordSize || (end && buffer.length > 0)) {
+        const record = buffer.slice(0, keys.recordSize);
+        buffer = buffer.slice(record.length);
+        decryptor.push(decryptRecord(record, keys));
+      }
+      if (end && !last) {
+        throw createError(400, 'encrypted content is truncated', {type: 'encryption.record.invalid'});
+      }
+    }
+
+    async function readHeader(end: boolean) {
+      if (buffer.length < headerLength || buffer.length < headerLength + buffer[headerLength - 1]) {
+        if (end) {
+          throw createError(400, 'encryption header is incomplete', {type: 'encryption.header.invalid'});
+        }
+        return undefined;
+      }
+      const salt = buffer.slice(0, 16);
+      const recordSize = buffer.readUInt32BE(16);
+      const keyId = buffer.slice(headerLength, headerLength + buffer[headerLength - 1]);
+      if (recordSize <= tagLength + 1) {
+        throw createError(400, `record size ${recordSize} of encryption header is too small`, {type: 'encryption.header.invalid'});
+      }
+      buffer = buffer.slice(headerLength + keyId.length);
+      const inputKey = await keyResolver(keyId);
+      if (!inputKey) {
+        throw createError(400, 'no key for the key id of the encryption header', {type: 'encryption.key.missing'});
+      }
+      return {
+        key: Buffer.from(hkdfSync('sha256', inputKey, salt, 'Content-Encoding: aes128gcm\0', 16)),
+        nonce: Buffer.from(hkdfSync('sha256', inputKey, salt, 'Content-Encoding: nonce\0', 12)),
+        recordSize,
+      };
+    }
+
+    function decryptRecord(record: Buffer, {key, nonce}: ContentEncryptionKeys) {
+      if (last) {
+        throw createError(400, 'encrypted content has data after the last record', {type: 'encryption.record.invalid'});
+      }
+      if (record.length <= tagLength) {
+        throw createError(400, `record ${sequence} is too short`, {type: 'encryption.record.invalid'});
+      }
+      const decipher = createDecipheriv('aes-128-gcm', key, getRecordNonce(nonce, sequence));
+      decipher.setAuthTag(record.slice(-tagLength));
+      let plaintext: Buffer;
+      try {
+        plaintext = Buffer.concat([decipher.update(record.slice(0, -tagLength)), decipher.final()]);
+      } catch {
+        throw createError(400, `authentication tag of record ${sequence} did not match`, {type: 'encryption.tag.invalid'});
+      }
+      let delimiterIndex = plaintext.length - 1;
+      while (delimiterIndex >= 0 && plaintext[delimiterIndex] === 0) {
+        delimiterIndex--;
+      }
+      if (plaintext[delimiterIndex] !== 1 && plaintext[delimiterIndex] !== 2) {
+        throw createError(400, `record ${sequence} has an invalid padding`, {type: 'encryption.record.invalid'});
+      }
+      last = plaintext[delimiterIndex] === 2;
+      sequence++;
+      return plaintext.slice(0, delimiterIndex);
+    }
+  };
+}
+
+/**
+ * Calculates the nonce of a record by combining the sequence number with the nonce of the content with exclusive or
+ * @param nonce The nonce derived from the input keying material
+ * @param sequence The sequence number of the record
+ */
+function getRecordNonce(nonce: Buffer, sequence: number) {
+  const recordNonce = Buffer.from(nonce);
+  for (let index = 0; index < 6; index++) {
+    recordNonce[11 - index] ^= Math.floor(sequence / 2 ** (8 * index)) % 256;
+  }
+  return recordNonce;
+}
@@ -0,0 +1,374 @@
+import createError from 'http-errors';
+import bytes from 'bytes';
+import zlib from 'zlib';
+import {Buffer} from 'buffer';
+import {ParsedMediaType} from 'content-type';
+import {ParserConfiguration} from './bufferEncoding.js';
+
+/**
+ * @typedef ArchiveEntry
+ * @property name The name of the entry with the path inside the archive
+ * @property type The type of the entry
+ * @property size The uncompressed size of the entry in bytes
+ * @property modified The time of the last modification
+ * @property data The content of a file entry, not set when the entries are only listed or handed to the function onEntry
+ */
+export type ArchiveEntry = {
+  name: string;
+  type: 'file' | 'directory';
+  size: number;
+  modified: Date;
+  data?: Buffer;
+};
+
+/**
+ * @typedef Archive
+ * @property format The format of the archive
+ * @property entries The entries in the order of the archive
+ */
+export type Archive = {
+  format: 'zip' | 'tar';
+  entries: ArchiveEntry[];
+};
+
+/**
+ * @typedef ArchiveOptions
+ * @property maxEntries The maximum number of entries, default is 1000
+ * @property maxTotalSize The maximum uncompressed size of all entries as a number in bytes or as a bytes string, default is '10mb'
+ * @property maxEntrySize The maximum uncompressed size of a single entry as a number in bytes or as a bytes string, default is no limit
+ * @property maxRatio The maximum ratio of the uncompressed to the compressed size of a zip entry or a gzip compressed tar archive,
+ * default is 100
+ * @property extract When false the entries are only listed, default is true
+ * @property onEntry Function receiving each extracted file entry with its content, the content is then not kept in the entry
+ */
+export type ArchiveOptions = {
+  maxEntries?: number;
+  maxTotalSize?: number | string;
+  maxEntrySize?: number | string;
+  maxRatio?: number;
+  extract?: boolean;
+  onEntry?: (entry: ArchiveEntry, data: Buffer) => void;
+};
+
+type EntryCollector = {
+  entries: ArchiveEntry[];
+  add: (entry: ArchiveEntry, compressedSize: number, read: () => Buffer) => void;
+};
+
+const zipMediaTypes = ['application/zip', 'application/x-zip-compressed'];
+const gzipMediaTypes = ['application/gzip', 'application/x-gzip'];
+const tarMediaTypes = ['application/x-tar'];
+
+const blockSize = 512;
+const crcTable = Array.from({length: 256}, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+/**
+ * Creates a parser configuration for zip archives, tar archives and gzip compressed tar archives. The entries are listed and the files
+ * are extracted into memory or handed to the function onEntry. Entry names with absolute paths or '..' segments are rejected. The
+ * configuration allows the zlib decompressors for the 'Content-Encoding' of tar archives, the decompressed size is then limited by the
+ * limit of the parser configuration. Gzip compressed tar archives are decompressed with the gzip decompressor of the body parser while
+ * they arrive, the decompressed size is limited by maxTotalSize and maxRatio.
+ * @param options The limits for the entries of the archive
+ */
+export function getArchiveParserConfiguration(options: ArchiveOptions = {}): ParserConfiguration<Buffer, Archive> {
+  const maxEntries = options.maxEntries === undefined ? 1000 : options.maxEntries;
+  const maxTotalSize = getLimit(options.maxTotalSize, '10mb');
+  const maxEntrySize = getLimit(options.maxEntrySize, Infinity);
+  const maxRatio = options.maxRatio === undefined ? 100 : options.maxRatio;
+  if (maxEntries < 0) {
+    throw new Error('maxEntries can not be smaller than 0');
+  }
+  if (maxTotalSize < 0) {
+    throw new Error('maxTotalSize can not be smaller than 0');
+  }
+  if (maxEntrySize < 0) {
+    throw new Error('maxEntrySize can not be smaller than 0');
+  }
+  if (maxRatio < 1) {
+    throw new Error('maxRatio can not be smaller than 1');
+  }
+  // The headers of the entries, the pax or GNU headers with long names and the padding of the last record are allowed in addition
+  const maxTarSize = maxTotalSize + maxEntries * 4 * blockSize + 20 * blockSize;
+
+  return {
+    matcher: [...zipMediaTypes, ...tarMediaTypes, ...gzipMediaTypes],
+    inflate: ['identity', 'gzip', 'deflate', 'br'],
+    compressedMediaTypes: Object.fromEntries(gzipMediaTypes.map((type) => [type, 'gzip'])),
+    verifyDecompression: (decompressedSize, compressedSize) => {
+      if (decompressedSize > maxTarSize) {
+        throw createError(413, 'uncompressed archive too large', {limit: maxTotalSize, type: 'archive.too.large'});
+      }
+      if (decompressedSize > compressedSize * maxRatio) {
+        throw createError(413, 'compression ratio of archive too high', {limit: maxRatio, type: 'ratio.too.high'});
+      }
+    },
+    parser: (payload: Buffer, mediaType: ParsedMediaType) => {
+      const collector = getEntryCollector();
+      if (zipMediaTypes.includes(mediaType.type)) {
+        parseZip(payload, collector);
+        return {format: 'zip', entries: collector.entries};
+      }
+      parseTar(payload, collector);
+      return {format: 'tar', entries: collector.entries};
+    },
+  };
+
+  function getEntryCollector(): EntryCollector {
+    const entries: ArchiveEntry[] = [];
+    let totalSize = 0;
+    return {
+      entries,
+      add: (entry, compressedSize, read) => {
+        if (entries.length >= maxEntries) {
+          throw createError(413, 'too many entries', {limit: maxEntries, type: 'entries.too.many'});
+        }
+        validateEntryName(entry.name);
+        if (entry.size > maxEntrySize) {
+          throw createError(413, `entry '${entry.name}' too large`, {limit: maxEntrySize, type: 'entry.too.large'});
+        }
+        totalSize += entry.size;
+        if (totalSize > maxTotalSize) {
+          throw createError(413, 'uncompressed archive too large', {limit: maxTotalSize, type: 'archive.too.large'});
+        }
+        if (entry.size > compressedSize * maxRatio) {
+          throw createError(413, `compression ratio of entry '${entry.name}' too high`, {limit: maxRatio, type: 'ratio.too.high'});
+        }
+        if (options.extract !== false && entry.type === 'file') {
+          const data = read();
+          if (options.onEntry) {
+            options.onEntry(entry, data);
+          } else {
+            entry.data = data;
+          }
+        }
+        entries.push(entry);
+      },
+    };
+  }
+}
+
+/**
+ * Parses the entries of a tar archive in the ustar, pax or GNU format
+ * @param buffer The tar archive
+ * @param collector The collector of the entries
+ */
+function parseTar(buffer: Buffer, collector: EntryCollector) {
+  let offset = 0;
+  let longName: string | undefined;
+  let extendedHeaders: Record<string, string> = {};
+  while (offset + blockSize <= buffer.length) {
+    const header = buffer.slice(offset, offset + blockSize);
+    if (header.every((byte) => byte === 0)) {
+      return;
+    }
+    const checksum = header.reduce((sum, byte, index) => sum + (index >= 148 && index < 156 ? 32 : byte), 0);
+    if (checksum !== readOctal(header, 148, 8)) {
+      throw createError(400, `Invalid checksum of tar header at offset ${offset}`, {type: 'archive.invalid'});
+    }
+    const typeFlag = String.fromCharCode(header[156]);
+    const paxSize = ['L', 'x', 'g'].includes(typeFlag) ? undefined : extendedHeaders.size;
+    if (paxSize !== undefined && !/^\d+$/.test(paxSize)) {
+      throw createError(400, `Invalid size '${paxSize}' in pax extended header`, {type: 'archive.invalid'});
+    }
+    const size = paxSize !== undefined ? parseInt(paxSize, 10) : readOctal(header, 124, 12);
+    const dataOffset = offset + blockSize;
+    if (!Number.isSafeInteger(size) || dataOffset + size > buffer.length) {
+      throw createError(400, 'Tar archive is truncated', {type: 'archive.invalid'});
+    }
+    const data = buffer.slice(dataOffset, dataOffset + size);
+    const nextOffset = dataOffset + Math.ceil(size / blockSize) * blockSize;
+    // the offset has to increase, otherwise the same headers would be read again
+    if (nextOffset <= offset) {
+      throw createError(400, `Invalid size of tar entry at offset ${offset}`, {type: 'archive.invalid'});
+    }
+    offset = nextOffset;
+    if (typeFlag === 'L') {
+      longName = readString(data, 0, data.length);
+      continue;
+    }
+    if (typeFlag === 'x') {
+      extendedHeaders = parseExtendedHeaders(data);
+      continue;
+    }
+    if (typeFlag === 'g') {
+      continue;
+    }
+    const prefix = header.slice(257, 263).toString('latin1') === 'ustar\0' ? readString(header, 345, 155) : '';
+    const name = extendedHeaders.path ?? longName ?? (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+    if (!['0', '\0', '7', '5'].includes(typeFlag)) {
+      throw createError(400, `Type '${typeFlag}' of entry '${name}' is not supported`, {type: 'entry.unsupported'});
+    }
+    collector.add({
+      name,
+      type: typeFlag === '5' ? 'directory' : 'file',
+      size,
+      modified: new Date(readOctal(header, 136, 12) * 1000),
+    }, Infinity, () => data);
+    longName = undefined;
+    extendedHeaders = {};
+  }
+  throw createError(400, 'Tar archive is truncated', {type: 'archive.invalid'});
+}
+
+/**
+ * Reads a number field of a tar header, which is octal or base-256 encoded when the highest bit is set
+ * @param header The tar header
+ * @param offset The offset of the field
+ * @param length The length of the field
+ */
+function readOctal(header: Buffer, offset: number, length: number) {
+  if (header[offset] & 0x80) {
+    return header.slice(offset + 1, offset + length).reduce((value, byte) => value * 256 + byte, header[offset] & 0x7f);
+  }
+  const field = header.slice(offset, offset + length).toString('latin1').replace(/[\0 ]+$/, '').trim();
+  if (!/^[0-7]*$/.test(field)) {
+    throw createError(400, `Invalid number '${field}' in tar header`, {type: 'archive.invalid'});
+  }
+  return field === '' ? 0 : parseInt(field, 8);
+}
+
+/**
+ * Reads a string field of a tar header, which ends at the first NUL byte
+ * @param header The tar header
+ * @param offset The offset of the field
+ * @param length The length of the field
+ */
+function readString(header: Buffer, offset: number, length: number) {
+  const field = header.slice(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.slice(0, end === -1 ? field.length : end).toString('utf-8');
+}
+
+/**
+ * Parses the records 'length key=value\n' of a pax extended header
+ * @param data The content of the extended header
+ */
+function parseExtendedHeaders(data: Buffer) {
+  const headers: Record<string, string> = Object.create(null);
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = parseInt(data.slice(offset, space).toString('latin1'), 10);
+    if (space === -1 || !(length > space - offset) || offset + length > data.length) {
+      throw createError(400, 'Invalid pax extended header', {type: 'archive.invalid'});
+    }
+    const record = data.slice(space + 1, offset + length - 1).toString('utf-8');
+    const separatorIndex = record.indexOf('=');
+    headers[record.slice(0, separatorIndex)] = record.slice(separatorIndex + 1);
+    offset += length;
+  }
+  return headers;
+}
+
+/**
+ * Parses the entries of a zip archive from the central directory
+ * @param buffer The zip archive
+ * @param collector The collector of the entries
+ */
+function parseZip(buffer: Buffer, collector: EntryCollector) {
+  const end = findEndOfCentralDirectory(buffer);
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw createError(400, 'ZIP64 archives are not supported', {type: 'archive.invalid'});
+  }
+  for (let index = 0; index < count; index++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw createError(400, 'Invalid central directory of zip archive', {type: 'archive.invalid'});
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const time = buffer.readUInt16LE(offset + 12);
+    const date = buffer.readUInt16LE(offset + 14);
+    const crc = buffer.readUInt32LE(offset + 16);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.slice(offset + 46, offset + 46 + nameLength).toString(flags & 0x800 ? 'utf-8' : 'latin1');
+    offset += 46 + nameLength + buffer.readUInt16LE(offset + 30) + buffer.readUInt16LE(offset + 32);
+    collector.add({
+      name,
+      type: name.endsWith('/') ? 'directory' : 'file',
+      size,
+      modified: new Date(1980 + (date >> 9), ((date >> 5) & 0xf) - 1, date & 0x1f, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2),
+    }, compressedSize, () => {
+      if (flags & 0x1) {
+        throw createError(400, `Entry '${name}' is encrypted`, {type: 'entry.unsupported'});
+      }
+      if (method !== 0 && method !== 8) {
+        throw createError(400, `Compression method ${method} of entry '${name}' is not supported`, {type: 'entry.unsupported'});
+      }
+      if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== 0x04034b50) {
+        throw createError(400, `Invalid local header of entry '${name}'`, {type: 'archive.invalid'});
+      }
+      const dataOffset = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      if (dataOffset + compressedSize > buffer.length) {
+        throw createError(400, 'Zip archive is truncated', {type: 'archive.invalid'});
+      }
+      const compressed = buffer.slice(dataOffset, dataOffset + compressedSize);
+      let data: Buffer;
+      try {
+        data = method === 0 ? compressed : zlib.inflateRawSync(compressed, {maxOutputLength: Math.max(size, 1)});
+      } catch {
+        throw createError(400, `Entry '${name}' can not be decompressed to its size`, {type: 'archive.invalid'});
+      }
+      if (data.length !== size || crc32(data) !== crc) {
+        throw createError(400, `Entry '${name}' does not match its size or checksum`, {type: 'archive.invalid'});
+      }
+      return data;
+    });
+  }
+}
+
+/**
+ * Finds the offset of the end of central directory record, which can be followed by a comment
+ * @param buffer The zip archive
+ */
+function findEndOfCentralDirectory(buffer: Buffer) {
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === 0x06054b50) {
+      return offset;
+    }
+  }
+  throw createError(400, 'End of central directory of zip archive not found', {type: 'archive.invalid'});
+}
+
+/**
+ * Rejects empty entry names, absolute paths and paths leaving the directory of the archive
+ * @param name The name of the entry
+ */
+function validateEntryName(name: string) {
+  const path = name.replace(/\\/g, '/');
+  if (path === '' || path.includes('\0') || path.startsWith('/') || /^[a-zA-Z]:/.test(path) || path.split('/').includes('..')) {
+    throw createError(400, `Invalid entry name '${name}'`, {type: 'entry.name.invalid'});
+  }
+}
+
+/**
+ * Calculates the CRC-32 checksum of zip entries
+ * @param buffer The content of the entry
+ */
+function crc32(buffer: Buffer) {
+  let crc = 0xffffffff;
+  for (let index = 0; index < buffer.length; index++) {
+    crc = crcTable[(crc ^ buffer[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Converts a limit as a bytes string or number to a number of bytes
+ * @param limit The limit from the options
+ * @param defaultLimit The limit if the option is not set
+ */
+function getLimit(limit: number | string | undefined, defaultLimit: number | string) {
+  const value = limit === undefined ? defaultLimit : limit;
+  return typeof value === 'string' ? bytes(value) : value;
+}
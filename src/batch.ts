@@ -0,0 +1,171 @@
+import createError from 'http-errors';
+import {Buffer} from 'buffer';
+import {ParsedMediaType} from 'content-type';
+import {EmbeddedBodyOptions, getEmbeddedBodyParser, ParsedBody, ParserError, Request} from './bodyParser.js';
+import {ParserConfigurations, StreamParser} from './bufferEncoding.js';
+import {getBoundary, getMultipartSplitter, MultipartHeaders, parseHeaderParameters, parseHeaders} from './multipart.js';
+
+/**
+ * @typedef BatchError
+ * @property status The http status code for the failed request
+ * @property type The type of the error
+ * @property message The message of the error
+ */
+export type BatchError = {
+  status: number;
+  type: string;
+  message: string;
+};
+
+/**
+ * @typedef BatchRequest
+ * A request embedded in a batch request. The properties of the request are set as far as the request could be parsed, when the request
+ * failed then the property error is set.
+ * @property contentId The value of the 'Content-ID' header of the body part
+ * @property method The method of the request
+ * @property url The request target
+ * @property httpVersion The http version of the request
+ * @property headers The headers of the request with lower case header names
+ * @property body The parsed body of the request
+ * @property error The error when the request could not be parsed
+ */
+export type BatchRequest<U, V> = {
+  contentId?: string;
+  method?: string;
+  url?: string;
+  httpVersion?: string;
+  headers?: MultipartHeaders;
+  body?: ParsedBody<U, V>;
+  error?: BatchError;
+};
+
+/**
+ * @typedef BatchOptions
+ * @property maxParts The maximum number of requests in the batch, default is 100
+ * @property maxHeaderSize The maximum size of the headers of a body part or of an embedded request in bytes, default is 8192
+ * @property defaultLimit The default limit for the bodies of the embedded requests, default is '20kb'
+ * @property bufferEncodings Additional or altered buffer encodings for the bodies of the embedded requests
+ */
+export type BatchOptions<T, U> = EmbeddedBodyOptions<T, U> & {
+  maxParts?: number;
+  maxHeaderSize?: number;
+};
+
+/**
+ * Creates a stream parser for 'multipart/mixed' batch requests where each body part is an 'application/http' request. The body of each
+ * request is parsed with the parser configuration selected for the media type of the request. Errors of single requests are set on the
+ * request and do not fail the whole batch.
+ * @param parserConfigurations The parser configurations for the bodies of the embedded requests, defaults to the default parsers
+ * @param options The options for the batch and the embedded requests
+ */
+export function getBatchParser<T, U, V>(parserConfigurations?: ParserConfigurations<U, V>, options: BatchOptions<T, U> = {}) {
+  const maxParts = options.maxParts === undefined ? 100 : options.maxParts;
+  const maxHeaderSize = options.maxHeaderSize === undefined ? 8192 : options.maxHeaderSize;
+  if (maxParts < 0) {
+    throw new Error('maxParts can not be smaller than 0');
+  }
+  const parseEmbeddedBody = getEmbeddedBodyParser<T, U, V>(parserConfigurations, options);
+  return (mediaType: ParsedMediaType): StreamParser<BatchRequest<U, V>[]> => {
+    const requests: BatchRequest<U, V>[] = [];
+    let partHeaders: MultipartHeaders = {};
+    let chunks: Buffer[] = [];
+
+    const splitter = getMultipartSplitter(getBoundary(mediaType), {
+      onPartBegin: (headers) => {
+        if (requests.length >= maxParts) {
+          throw createError(413, 'too many requests in batch', {type: 'parts.too.many'});
+        }
+        partHeaders = headers;
+        chunks = [];
+      },
+      onPartData: (chunk) => {
+        chunks.push(chunk);
+      },
+      onPartEnd: () => {
+        requests.push(parseBatchPart(partHeaders, Buffer.concat(chunks)));
+        chunks = [];
+      },
+    }, maxHeaderSize);
+
+    return {
+      onData: splitter.onData,
+      onEnd: () => {
+        splitter.onEnd();
+        return requests;
+      },
+    };
+  };
+
+  //-------------------------------------------------
+  function parseBatchPart(headers: MultipartHeaders, buffer: Buffer) {
+    const request: BatchRequest<U, V> = headers['content-id'] !== undefined ? {contentId: headers['content-id']} : {};
+    try {
+      const partType = parseHeaderParameters(headers['content-type'] || '').value.toLowerCase();
+      if (partType !== 'application/http') {
+        throw createError(415, `Unsupported Media Type '${partType}' for body part, expected 'application/http'`, {
+          type: 'mediaType.unsupported',
+        });
+      }
+      const message = parseHttpMessage(buffer, maxHeaderSize);
+      request.method = message.method;
+      request.url = message.url;
+      request.httpVersion = message.httpVersion;
+      request.headers = message.headers;
+      const body = parseEmbeddedBody(message.body, message.headers['content-type'], <Request<U, V>><unknown>request);
+      if (body !== undefined) {
+        request.body = body;
+      }
+    } catch (err: unknown) {
+      request.error = {
+        status: (<ParserError>err).status || 400,
+        type: (<ParserError>err).type || 'entity.parse.failed',
+        message: (<ParserError>err).message,
+      };
+    }
+    return request;
+  }
+}
+
+/**
+ * Parses an 'application/http' request message into the request line, the headers and the raw body. Line breaks can be CRLF or LF.
+ * @param buffer The request message
+ * @param maxHeaderSize The maximum size of the request line and the headers in bytes
+ */
+export function parseHttpMessage(buffer: Buffer, maxHeaderSize = 8192) {
+  const crlfIndex = buffer.indexOf('\r\n\r\n');
+  const lfIndex = buffer.indexOf('\n\n');
+  const [headerEnd, bodyStart] = crlfIndex !== -1 && (lfIndex === -1 || crlfIndex < lfIndex)
+    ? [crlfIndex, crlfIndex + 4]
+    : lfIndex !== -1 ? [lfIndex, lfIndex + 2] : [buffer.length, buffer.length];
+  if (headerEnd > maxHeaderSize) {
+    throw createError(413, 'request headers too large', {limit: maxHeaderSize, type: 'headers.too.large'});
+  }
+  const [requestLine, ...headerLines] = buffer.subarray(0, headerEnd).toString('utf-8').replace(/^(\r?\n)+/, '').split(/\r?\n/);
+  const match = /^([!#$%&'*+.^_`|~0-9A-Za-z-]+) (\S+)(?: (HTTP\/\d\.\d))?$/.exec(requestLine);
+  if (!match) {
+    throw createError(400, `Invalid request line '${requestLine}'`, {type: 'request.invalid'});
+  }
+  const headers = parseHeaders(headerLines.join('\r\n'));
+  let body = buffer.subarray(bodyStart);
+  if (headers['content-length'] !== undefined) {
+    if (!/^\d+$/.test(headers['content-length'])) {
+      throw createError(400, `Invalid content length '${headers['content-length']}'`, {type: 'request.size.invalid'});
+    }
+    const contentLength = parseInt(headers['content-length'], 10);
+    if (contentLength > body.length) {
+      throw createError(400, 'request size did not match content length', {
+        expected: contentLength,
+        received: body.length,
+        type: 'request.size.invalid',
+      });
+    }
+    body = body.subarray(0, contentLength);
+  }
+  return {
+    method: match[1],
+    url: match[2],
+    httpVersion: match[3] || 'HTTP/1.1',
+    headers,
+    body,
+  };
+}
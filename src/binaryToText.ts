@@ -0,0 +1,292 @@
+import createError from 'http-errors';
+import {Buffer} from 'buffer';
+import {ChunkedBufferEncoder} from './bufferEncoding.js';
+
+/**
+ * @typedef BinaryToTextOptions
+ * @property encodings The names of the charsets the decoder is used for, the default is the name of the encoding
+ * @property outputEncoding When set the decoded bytes are converted to a string with this encoding, otherwise the body is a buffer
+ */
+export type BinaryToTextOptions = {
+  encodings?: string[];
+  outputEncoding?: BufferEncoding;
+};
+
+/**
+ * @typedef Base58Options
+ * @property maxLength The maximum number of base58 characters without whitespace, default is 2048
+ */
+export type Base58Options = BinaryToTextOptions & {
+  maxLength?: number;
+};
+
+/**
+ * @typedef GroupCodec
+ * @property name The name of the encoding for the error messages
+ * @property alphabet The characters of the digits in the order of their values
+ * @property aliases Characters which are decoded like a character of the alphabet
+ * @property groupLength The number of characters of a full group
+ * @property byteLength The number of bytes of a full group
+ * @property partialLengths The allowed numbers of characters of the last group
+ * @property padDigit The value of the digits which complete the last group
+ * @property padding Allows '=' padding after the last group
+ * @property onSpecial Function handling a character which is not a digit, returns the decoded bytes or false if the character is invalid
+ */
+type GroupCodec = {
+  name: string;
+  alphabet: string;
+  aliases?: Record<string, string>;
+  groupLength: number;
+  byteLength: number;
+  partialLengths: number[];
+  padDigit: number;
+  padding?: boolean;
+  onSpecial?: (char: string, state: GroupState) => number[] | false;
+};
+
+/**
+ * @typedef GroupState
+ * @property digits The digits of the current group
+ * @property offset The number of bytes of the body which have been read
+ * @property characters The number of characters which are not whitespace
+ * @property final The character after which no more digits are allowed
+ */
+type GroupState = {
+  digits: number[];
+  offset: number;
+  characters: number;
+  final?: string;
+};
+
+const whitespace = [0x09, 0x0a, 0x0c, 0x0d, 0x20];
+
+const base32: GroupCodec = {
+  name: 'base32',
+  alphabet: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567',
+  aliases: Object.fromEntries(Array.from('abcdefghijklmnopqrstuvwxyz', (char) => [char, char.toUpperCase()])),
+  groupLength: 8,
+  byteLength: 5,
+  partialLengths: [2, 4, 5, 7],
+  padDigit: 0,
+  padding: true,
+};
+
+const base64: GroupCodec = {
+  name: 'base64',
+  alphabet: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/',
+  aliases: {'-': '+', '_': '/'},
+  groupLength: 4,
+  byteLength: 3,
+  partialLengths: [2, 3],
+  padDigit: 0,
+  padding: true,
+};
+
+const ascii85: GroupCodec = {
+  name: 'base85',
+  alphabet: Array.from({length: 85}, (_, index) => String.fromCharCode(33 + index)).join(''),
+  groupLength: 5,
+  byteLength: 4,
+  partialLengths: [2, 3, 4],
+  padDigit: 84,
+  onSpecial: (char, state) => {
+    if (state.final === undefined) {
+      if (char === 'z' && state.digits.length === 0) {
+        return [0, 0, 0, 0];
+      }
+      if (char === '~' && state.characters === 1 && state.digits[0] === 27) {
+        state.digits = [];
+        return [];
+      }
+      if (char === '~') {
+        state.final = char;
+        return [];
+      }
+    }
+    if (char === '>' && state.final === '~') {
+      state.final = char;
+      return [];
+    }
+    return false;
+  },
+};
+
+const z85: GroupCodec = {
+  name: 'z85',
+  alphabet: '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ.-:+=^!/*?&<>()[]{}@%$#',
+  groupLength: 5,
+  byteLength: 4,
+  partialLengths: [],
+  padDigit: 0,
+};
+
+const base58Alphabet = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Creates a streaming decoder for base64, the standard and the URL safe alphabet of RFC 4648 are accepted and padding is optional
+ * @param options The charset names and the output encoding
+ */
+export function getBase64Decoder(options: BinaryToTextOptions = {}) {
+  return getGroupDecoder(base64, {encodings: ['base64'], ...options});
+}
+
+/**
+ * Creates a streaming decoder for base32 of RFC 4648, lower case letters are accepted and padding is optional
+ * @param options The charset names and the output encoding
+ */
+export function getBase32Decoder(options: BinaryToTextOptions = {}) {
+  return getGroupDecoder(base32, {encodings: ['base32'], ...options});
+}
+
+/**
+ * Creates a streaming decoder for Ascii85, 'z' is decoded to four zero bytes and the delimiters '<~' and '~>' are optional
+ * @param options The charset names and the output encoding
+ */
+export function getBase85Decoder(options: BinaryToTextOptions = {}) {
+  return getGroupDecoder(ascii85, {encodings: ['base85', 'ascii85'], ...options});
+}
+
+/**
+ * Creates a streaming decoder for Z85 of ZeroMQ, the number of characters has to be a multiple of 5
+ * @param options The charset names and the output encoding
+ */
+export function getZ85Decoder(options: BinaryToTextOptions = {}) {
+  return getGroupDecoder(z85, {encodings: ['z85'], ...options});
+}
+
+/**
+ * Creates a decoder for base58 with the alphabet of Bitcoin. Base58 has no groups, so the characters are validated when the chunks are
+ * received and the bytes are decoded at the end of the body. The time of the decoding grows with the square of the length, so the number
+ * of characters is limited.
+ * @param options The charset names, the output encoding and the maximum length
+ */
+export function getBase58Decoder(options: Base58Options = {}): ChunkedBufferEncoder<Buffer, Buffer | string> {
+  const {encodings = ['base58'], outputEncoding, maxLength = 2048} = options;
+  if (maxLength < 0) {
+    throw new Error('maxLength can not be smaller than 0');
+  }
+  const values = getAlphabetValues(base58Alphabet);
+  const create = (): ChunkedBufferEncoder<Buffer, Buffer | string> => {
+    const digits: number[] = [];
+    let offset = 0;
+    return {
+      encodings,
+      onData: (chunk) => {
+        chunk.forEach((code) => {
+          if (!whitespace.includes(code)) {
+            if (values[code] === undefined) {
+              throw invalidCharacter('base58', code, offset);
+            }
+            if (digits.length >= maxLength) {
+              throw createError(413, 'base58 body too long', {limit: maxLength, type: 'entity.too.large'});
+            }
+            digits.push(values[code]);
+          }
+          offset++;
+        });
+        return Buffer.alloc(0);
+      },
+      onEnd: () => {
+        const leadingZeros = digits.findIndex((digit) => digit !== 0);
+        const value = digits.reduce((result, digit) => result * 58n + BigInt(digit), 0n);
+        const hex = value === 0n ? '' : value.toString(16);
+        return Buffer.concat([
+          Buffer.alloc(leadingZeros === -1 ? digits.length : leadingZeros),
+          Buffer.from(hex.length % 2 === 1 ? `0${hex}` : hex, 'hex'),
+        ]);
+      },
+      reduce: getReduce(outputEncoding),
+    };
+  };
+  return {...create(), create};
+}
+
+/**
+ * Creates a chunked buffer encoder for an encoding which decodes groups of characters to groups of bytes. The digits of a group which is
+ * split between two chunks are kept until the next chunk, ASCII whitespace is ignored.
+ * @param codec The definition of the encoding
+ * @param options The charset names and the output encoding
+ */
+function getGroupDecoder(codec: GroupCodec, options: BinaryToTextOptions): ChunkedBufferEncoder<Buffer, Buffer | string> {
+  const {encodings = [codec.name], outputEncoding} = options;
+  const values = getAlphabetValues(codec.alphabet, codec.aliases);
+  const create = (): ChunkedBufferEncoder<Buffer, Buffer | string> => {
+    const state: GroupState = {digits: [], offset: 0, characters: 0};
+    return {
+      encodings,
+      onData: (chunk) => {
+        const bytes: number[] = [];
+        chunk.forEach((code) => {
+          const offset = state.offset++;
+          if (whitespace.includes(code)) {
+            return;
+          }
+          const value = values[code];
+          if (value !== undefined && state.final === undefined) {
+            state.digits.push(value);
+            if (state.digits.length === codec.groupLength) {
+              bytes.push(...decodeGroup(codec, state.digits, offset));
+              state.digits = [];
+            }
+          } else if (codec.padding && code === 0x3d && (state.digits.length > 0 || state.final === '=')) {
+            bytes.push(...decodeGroup(codec, state.digits, offset));
+            state.digits = [];
+            state.final = '=';
+          } else {
+            const special = codec.onSpecial ? codec.onSpecial(String.fromCharCode(code), state) : false;
+            if (special === false) {
+              throw invalidCharacter(codec.name, code, offset);
+            }
+            bytes.push(...special);
+          }
+          state.characters++;
+        });
+        return Buffer.from(bytes);
+      },
+      onEnd: () => Buffer.from(decodeGroup(codec, state.digits, state.offset)),
+      reduce: getReduce(outputEncoding),
+    };
+  };
+  return {...create(), create};
+}
+
+/**
+ * Decodes the digits of a group, the last group can be shorter and is completed with the pad digit before decoding
+ * @param codec The definition of the encoding
+ * @param digits The digits of the group
+ * @param offset The offset of the last character of the group for the error messages
+ */
+function decodeGroup(codec: GroupCodec, digits: number[], offset: number) {
+  if (digits.length === 0) {
+    return [];
+  }
+  if (digits.length < codec.groupLength && !codec.partialLengths.includes(digits.length)) {
+    throw createError(400, `Incomplete ${codec.name} group at offset ${offset}`, {type: 'encoding.invalid'});
+  }
+  const value = [...digits, ...Array(codec.groupLength - digits.length).fill(codec.padDigit)]
+    .reduce((result, digit) => result * codec.alphabet.length + digit, 0);
+  if (value >= 256 ** codec.byteLength) {
+    throw createError(400, `Invalid ${codec.name} group at offset ${offset}`, {type: 'encoding.invalid'});
+  }
+  const byteCount = Math.floor(digits.length * codec.byteLength / codec.groupLength);
+  return Array.from({length: byteCount}, (_, index) => Math.floor(value / 256 ** (codec.byteLength - 1 - index)) % 256);
+}
+
+function getAlphabetValues(alphabet: string, aliases: Record<string, string> = {}) {
+  const values: Record<number, number> = Object.create(null);
+  Array.from(alphabet).forEach((char, index) => {
+    values[char.charCodeAt(0)] = index;
+  });
+  Object.entries(aliases).forEach(([alias, char]) => {
+    values[alias.charCodeAt(0)] = alphabet.indexOf(char);
+  });
+  return values;
+}
+
+function getReduce(outputEncoding?: BufferEncoding) {
+  return (chunks: Buffer[]) => outputEncoding ? Buffer.concat(chunks).toString(outputEncoding) : Buffer.concat(chunks);
+}
+
+function invalidCharacter(name: string, code: number, offset: number) {
+  return createError(400, `Invalid ${name} character '${String.fromCharCode(code)}' at offset ${offset}`, {type: 'encoding.invalid'});
+}
@@ -1,13 +1,15 @@
 import createError from 'http-errors';
 import {
-  BufferEncoder, ChunkedBufferEncoder,
+  BufferEncoder, BufferEncodingRegistry, ChunkedBufferEncoder, decodeBuffer,
   getAvailableBufferEncodings,
+  getBufferEncodingRegistry,
+  getBodyBufferEncoding,
   getEncodingVariations,
   joinParserConfigurations, matchCharsetEncoding,
   ParserConfigurations,
-  PatchedParser, UnchunkedBufferEncoder,
+  PatchedParser, StreamParser, UnchunkedBufferEncoder,
 } from './bufferEncoding.js';
-import {Stream, Transform} from 'stream';
+import {Stream} from 'stream';
 import {Decompressors, getAvailableDecompressors, matchContentEncoding} from './decompressStream.js';
 import contentType, {ParsedMediaType} from 'content-type';
 import {matchAnyType, MediaType} from './mediaTypes.js';
@@ -75,6 +77,7 @@ export function bodyParser<T, U, V> (
   const {availableBufferEncodings, availableBufferEncodingNames} = getAvailableBufferEncodings(
     parsers, encodingVariations, nodeEncodingVariations, bufferEncodings
   );
+  const bufferEncodingRegistry = getBufferEncodingRegistry(bufferEncodings);
   let defaultContentTypeEncoding: string | false = false;
   if (defaultContentType) {
     const defaultParser = parsers.find(({matcher}) => matchAnyType(matcher, defaultContentType));
@@ -96,6 +99,7 @@ export function bodyParser<T, U, V> (
       availableDecompressorNames,
       availableBufferEncodings,
       availableBufferEncodingNames,
+      bufferEncodingRegistry,
       requireContentLength,
       defaultContentTypeEncoding,
       defaultContentType,
@@ -173,16 +177,18 @@ export function readStreamCallback<U, V>(next: Next, req: Request<U, V>) {
  * @param availableDecompressorNames The names of the available decompressor functions
  * @param availableBufferEncodings The available buffer encodings (charsets)
  * @param availableBufferEncodingNames The names of the available buffer encodings
+ * @param bufferEncodingRegistry All buffer encodings by their names, which are handed to the stream parsers
  * @param requireContentLength Specifies if the header 'Content-Length' has to be set in the request
  * @param defaultContentTypeEncoding
  * @param defaultContentType
  */
 export function mediaTypeParser<T, U, V>(
   parsers: PatchedParser<U, V>[],
-  availableDecompressors: Record<string, () => Transform>,
+  availableDecompressors: Decompressors,
   availableDecompressorNames: string[],
   availableBufferEncodings: {[p: string]: BufferEncoder<string, string> | BufferEncoder<T, U>},
   availableBufferEncodingNames: string[],
+  bufferEncodingRegistry: BufferEncodingRegistry,
   requireContentLength: boolean,
   defaultContentTypeEncoding: string | false,
   defaultContentType?: MediaType,
@@ -232,37 +238,14 @@ export function mediaTypeParser<T, U, V>(
       throw new Error(`Header 'Content-Type' has to be specified`);
     }
 
-    const allowedMediaTypeParsers = parsers.filter(({matcher}) => matchAnyType(matcher, mediaType));
-    if (allowedMediaTypeParsers.length === 0) {
-      callback(createError(415, `Unsupported Media Type`, {
-        mediaType,
-        type: 'mediaType.unsupported',
-      }));
-      return;
-    }
-
     const encoding = parsedMediaType
       ? 'parameters' in parsedMediaType && 'charset' in parsedMediaType.parameters && parsedMediaType.parameters.charset.toLowerCase()
       : defaultContentTypeEncoding;
-    const allowedCharsetParsers = allowedMediaTypeParsers
-      .filter(({encodings, defaultEncoding}) => matchCharsetEncoding(encodings, encoding, availableBufferEncodingNames, defaultEncoding));
-    if (allowedCharsetParsers.length === 0) {
-      if (!encoding) {
-        callback(createError(415, `Default charset is not set for this 'Media-Type'. Please provide the 'charset' for this 'Media-Type'`, {
-          charset: encoding,
-          type: 'charset.unsupported',
-        }));
-      } else if (availableBufferEncodingNames.includes(encoding)) {
-        callback(createError(415, createErrorString(`charset=${encoding}`, ['Media-Type']), {
-          charset: encoding,
-          type: 'charset.unsupported',
-        }));
-      } else {
-        callback(createError(415, createErrorString(`charset=${encoding}`), {
-          charset: encoding,
-          type: 'charset.unsupported',
-        }));
-      }
+    let allowedCharsetParsers: PatchedParser<U, V>[];
+    try {
+      allowedCharsetParsers = matchParserConfigurations(parsers, mediaType, encoding, availableBufferEncodingNames);
+    } catch (err: unknown) {
+      callback(<Error>err);
       return;
     }
     const parseConfiguration = allowedCharsetParsers.find(({inflate}) => matchContentEncoding(contentEncoding, inflate, availableDecompressorNames));
@@ -288,7 +271,7 @@ export function mediaTypeParser<T, U, V>(
 
     const defaultEncoding = encoding || parseConfiguration.defaultEncoding || false;
     const limit = parseConfiguration.limit;
-    const bufferEncoding = defaultEncoding !== false && availableBufferEncodings[defaultEncoding];
+    const bufferEncoding = defaultEncoding !== false && getBodyBufferEncoding(availableBufferEncodings[defaultEncoding]);
     const bufferEncodingIsStreamDecoder = bufferEncoding !== false && 'onData' in bufferEncoding;
 
 
@@ -304,16 +287,65 @@ export function mediaTypeParser<T, U, V>(
       defaultEncoding,
       limit,
       bufferEncoding,
-      bufferEncodingIsStreamDecoder
+      bufferEncodingIsStreamDecoder,
+      parsedMediaType || {type: mediaType.join('/'), parameters: {}},
+      bufferEncodingRegistry,
     );
+  };
+}
 
-    //-------------------------------------------------
-    function createErrorString(type: string, preTypes?: string[]) {
-      return `Specified '${type}' is not available${
-        preTypes && preTypes.length > 0 ? ` for this ${preTypes.map((preType) => `'${preType}'`).join(' and ')}` : ''
-      } on this server.`;
+/**
+ * Function to find the parser configurations which match the media type and the charset of a request. Throws an error with status 415
+ * when no parser configuration matches.
+ * @param parsers The parser configurations
+ * @param mediaType The media type of the request
+ * @param encoding The charset of the request or the default charset, false when not set
+ * @param availableBufferEncodingNames The names of the available buffer encodings
+ */
+export function matchParserConfigurations<U, V>(
+  parsers: PatchedParser<U, V>[],
+  mediaType: MediaType,
+  encoding: string | false,
+  availableBufferEncodingNames: string[],
+) {
+  const allowedMediaTypeParsers = parsers.filter(({matcher}) => matchAnyType(matcher, mediaType));
+  if (allowedMediaTypeParsers.length === 0) {
+    throw createError(415, `Unsupported Media Type`, {
+      mediaType,
+      type: 'mediaType.unsupported',
+    });
+  }
+  const allowedCharsetParsers = allowedMediaTypeParsers
+    .filter(({encodings, defaultEncoding}) => matchCharsetEncoding(encodings, encoding, availableBufferEncodingNames, defaultEncoding));
+  if (allowedCharsetParsers.length === 0) {
+    if (!encoding) {
+      throw createError(415, `Default charset is not set for this 'Media-Type'. Please provide the 'charset' for this 'Media-Type'`, {
+        charset: encoding,
+        type: 'charset.unsupported',
+      });
+    } else if (availableBufferEncodingNames.includes(encoding)) {
+      throw createError(415, createErrorString(`charset=${encoding}`, ['Media-Type']), {
+        charset: encoding,
+        type: 'charset.unsupported',
+      });
     }
-  };
+    throw createError(415, createErrorString(`charset=${encoding}`), {
+      charset: encoding,
+      type: 'charset.unsupported',
+    });
+  }
+  return allowedCharsetParsers;
+}
+
+/**
+ * Function to create the message for a feature of the request which is not available
+ * @param type The feature of the request
+ * @param preTypes The features of the request for which the feature is not available
+ */
+export function createErrorString(type: string, preTypes?: string[]) {
+  return `Specified '${type}' is not available${
+    preTypes && preTypes.length > 0 ? ` for this ${preTypes.map((preType) => `'${preType}'`).join(' and ')}` : ''
+  } on this server.`;
 }
 
 /**
@@ -330,12 +362,14 @@ export function mediaTypeParser<T, U, V>(
  * @param limit The limit for the request, no limit when null
  * @param bufferEncoding The buffer encoding, false when buffer should not be decoded
  * @param bufferEncodingIsStreamDecoder true if buffer should be decoded in the data event, false when concatenated buffer should be decoded at the end event.
+ * @param mediaType The parsed media type of the request which is supplied to the parser and the stream parser
+ * @param bufferEncodingRegistry All buffer encodings by their names, which are handed to the stream parser
  */
 export function rawBodyParser<T, U, V>(
   req: Request<U, V>,
   res: Response,
   callback: Done<U, V>,
-  availableDecompressors: Record<string, () => Transform>,
+  availableDecompressors: Decompressors,
   availableDecompressorNames: string[],
   parseConfiguration: PatchedParser<U, V>,
   contentLength: number | null,
@@ -344,10 +378,15 @@ export function rawBodyParser<T, U, V>(
   limit: number | null,
   bufferEncoding: false | BufferEncoder<string, string> | BufferEncoder<T, U>,
   bufferEncodingIsStreamDecoder: boolean,
+  mediaType: ParsedMediaType,
+  bufferEncodingRegistry: BufferEncodingRegistry,
 ) {
   let complete = false;
   let sync = true;
   let received = 0;
+  let compressedReceived = 0;
+  const mediaTypeDecompressor = parseConfiguration.compressedMediaTypes?.[mediaType.type];
+  let early = false;
   const chunks: (Buffer | T)[] = [];
   const verifyBuffer: Buffer[] = [];
 
@@ -362,11 +401,22 @@ export function rawBodyParser<T, U, V>(
     }));
     return;
   }
+  let streamParser: StreamParser<V> | undefined;
+  try {
+    streamParser = parseConfiguration.streamParser ? parseConfiguration.streamParser(mediaType, req, {limit, bufferEncodings: bufferEncodingRegistry}) : undefined;
+  } catch(err: unknown) {
+    done(createParseError(err));
+    return;
+  }
+  early = streamParser?.body !== undefined;
   stream.on('aborted', onAborted);
   stream.on('data', onData);
   stream.on('end', onEnd);
   stream.on('error', onEnd);
   stream.on('close', cleanup);
+  if (early) {
+    process.nextTick(callback, null, (<StreamParser<V>>streamParser).body);
+  }
   sync = false;
 
   //----------------------------------------------------------------------------------
@@ -374,6 +424,21 @@ export function rawBodyParser<T, U, V>(
   function done(err: null, result?: ParsedBody<U, V>): void;
   function done(err: Error | null, result?: ParsedBody<U, V>) {
     complete = true;
+    if (early) {
+      // The body was already handed to the next middleware, so the stream parser is ended or receives the error
+      if (!err) {
+        try {
+          (<StreamParser<V>>streamParser).onEnd();
+          return;
+        } catch (parseError: unknown) {
+          err = createParseError(parseError);
+        }
+      }
+      stream.unpipe();
+      req.resume();
+      (<StreamParser<V>>streamParser).onError?.(err);
+      return;
+    }
     sync ? process.nextTick(invokeCallback) : invokeCallback();
 
     // -----------------------------------------
@@ -403,14 +468,38 @@ export function rawBodyParser<T, U, V>(
     if (complete) return;
     received += chunk.length;
 
-    if (limit !== null && received > limit) {
+    if (limit !== null && !mediaTypeDecompressor && received > limit) {
       done(createError(413, 'request entity too large', {
         limit,
         received,
         type: 'entity.too.large',
       }));
+      return;
+    }
+    if (mediaTypeDecompressor && parseConfiguration.verifyDecompression) {
+      try {
+        parseConfiguration.verifyDecompression(received, compressedReceived);
+      } catch (err: unknown) {
+        done(createParseError(err));
+        return;
+      }
+    }
+    if (streamParser) {
+      try {
+        streamParser.onData(chunk);
+      } catch (err: unknown) {
+        done(createParseError(err));
+        return;
+      }
+      if (parseConfiguration.verify) verifyBuffer.push(chunk);
+      return;
+    }
+    try {
+      chunks.push(bufferEncodingIsStreamDecoder ? (<ChunkedBufferEncoder<T, U>>bufferEncoding).onData(chunk) : chunk);
+    } catch (err: unknown) {
+      done(createParseError(err));
+      return;
     }
-    chunks.push(bufferEncodingIsStreamDecoder ? (<ChunkedBufferEncoder<T, U>>bufferEncoding).onData(chunk) : chunk);
     if (parseConfiguration.verify && bufferEncodingIsStreamDecoder) verifyBuffer.push(chunk);
   }
 
@@ -427,50 +516,70 @@ export function rawBodyParser<T, U, V>(
       type: 'end.of.file',
     }));
     if (err) return done(err);
-    if (contentLength !== null && received !== contentLength && contentEncoding === 'identity') {
+    const bodyLength = mediaTypeDecompressor ? compressedReceived : received;
+    if (contentLength !== null && bodyLength !== contentLength && contentEncoding === 'identity') {
       done(createError(400, 'request size did not match content length', {
         expected: contentLength,
         length: contentLength,
-        received,
+        received: bodyLength,
         type: 'request.size.invalid',
       }));
     } else {
-      bufferEncodingIsStreamDecoder && chunks.push((<ChunkedBufferEncoder<T, U>>bufferEncoding).onEnd());
-      if (received === 0) {
+      let buffer: Buffer | U;
+      try {
+        bufferEncodingIsStreamDecoder && chunks.push((<ChunkedBufferEncoder<T, U>>bufferEncoding).onEnd());
+        buffer = <Buffer | U>(bufferEncodingIsStreamDecoder
+          ? (<ChunkedBufferEncoder<T, U>>bufferEncoding).reduce(<(string & T) []>chunks)
+          : Buffer.concat(<Buffer []>chunks));
+      } catch (err: unknown) {
+        done(createParseError(err));
+        return;
+      }
+      if (received === 0 && !early) {
         done(null, parseConfiguration.emptyResponse);
         return;
       }
-      const buffer = <Buffer | U>(bufferEncodingIsStreamDecoder
-        ? (<ChunkedBufferEncoder<T, U>>bufferEncoding).reduce(<(string & T) []>chunks)
-        : Buffer.concat(<Buffer []>chunks));
+      if (streamParser) {
+        let body: V;
+        try {
+          body = early ? <V>streamParser.body : streamParser.onEnd();
+        } catch (err: unknown) {
+          done(createParseError(err));
+          return;
+        }
+        verifyBody(Buffer.concat(verifyBuffer), body);
+        return;
+      }
       const decoded = parseConfiguration?.encodings && !bufferEncodingIsStreamDecoder && bufferEncoding !== false
         ? (<UnchunkedBufferEncoder<U>>bufferEncoding).transform(<Buffer>buffer)
         : buffer;
       let body: U | V | Buffer;
       try {
-        body = parseConfiguration?.parser ? parseConfiguration.parser(decoded) : decoded;
+        body = parseConfiguration?.parser ? parseConfiguration.parser(decoded, mediaType) : decoded;
       } catch (err: unknown) {
-        done(createError((<ParserError>err).status || 400, `Parse error: ${(<ParserError>err).message}`, {
-          body: decoded,
-          type: (<ParserError>err).type || 'entity.parse.failed',
-        }));
+        done(createParseError(err, {body: decoded}));
         return;
       }
-      if (parseConfiguration?.verify) {
-        try {
-          parseConfiguration.verify(req, res, bufferEncodingIsStreamDecoder ? Buffer.concat(verifyBuffer) : buffer, body, defaultEncoding);
-          verifyBuffer.length = 0;
-        } catch(err: unknown) {
-          done(createError((<ParserError><unknown>err).status || 403, `Verify function did not match: ${(<ParserError>err).message}`, {
-            body: typeof body === 'string' ? body : JSON.stringify(body),
-            type: (<ParserError><unknown>err).type || 'entity.verify.failed',
-          }));
-          return;
-        }
+      verifyBody(bufferEncodingIsStreamDecoder ? Buffer.concat(verifyBuffer) : buffer, body);
+    }
+  }
+
+  function verifyBody(buffer: Buffer | U, body: ParsedBody<U, V>) {
+    if (parseConfiguration?.verify) {
+      try {
+        parseConfiguration.verify(req, res, buffer, body, defaultEncoding);
+        verifyBuffer.length = 0;
+      } catch(err: unknown) {
+        done(createError((<ParserError><unknown>err).status || 403, `Verify function did not match: ${(<ParserError>err).message}`, {
+          body: typeof body === 'string' ? body : JSON.stringify(body),
+          type: (<ParserError><unknown>err).type || 'entity.verify.failed',
+        }));
+        return;
       }
-      done(null, body);
     }
+    done(null, body);
   }
+
   function cleanup() {
     chunks.length = 0;
     stream.removeListener('aborted', onAborted);
@@ -481,10 +590,33 @@ export function rawBodyParser<T, U, V>(
   }
 
   function decompressStream(req: Request<U, V>) {
+    const stream = decompressContentEncoding(req);
+    if (!mediaTypeDecompressor) {
+      return stream;
+    }
+    // The body of a compressed media type is decompressed after the content encoding, the limit applies to the compressed body
+    const decompressor = availableDecompressors[mediaTypeDecompressor]({limit});
+    stream.on('data', (chunk: Buffer) => {
+      if (complete) return;
+      compressedReceived += chunk.length;
+      if (limit !== null && compressedReceived > limit) {
+        done(createError(413, 'request entity too large', {
+          limit,
+          received: compressedReceived,
+          type: 'entity.too.large',
+        }));
+      }
+    });
+    stream.on('error', (err: Error) => decompressor.emit('error', err));
+    stream.pipe(decompressor);
+    return <Request<U, V>><unknown>decompressor;
+  }
+
+  function decompressContentEncoding(req: Request<U, V>) {
     if (contentEncoding === 'identity' && availableDecompressorNames.includes('identity')) {
       return req;
     } else if (contentEncoding !== 'identity') {
-      const stream = <Transform>availableDecompressors[contentEncoding]();
+      const stream = availableDecompressors[contentEncoding]({limit});
       req.pipe(stream);
       return <Request<U, V>><unknown>stream;
     }
@@ -494,3 +626,96 @@ export function rawBodyParser<T, U, V>(
   }
 
 }
+
+/**
+ * Creates the error for a failed parser with the status, the type and the other properties of the error thrown by the parser
+ * @param err The error thrown by the parser
+ * @param properties Additional properties of the error
+ * @param prefix The prefix of the message instead of 'Parse error: ' for errors of nested bodies, which replaces their 'Parse error: '
+ */
+export function createParseError(err: unknown, properties: Record<string, unknown> = {}, prefix?: string) {
+  const errorProperties = typeof err === 'object' && err !== null
+    ? Object.fromEntries(Object.entries(err).filter(([key]) => !['status', 'statusCode', 'expose', 'message'].includes(key)))
+    : {};
+  const message = prefix === undefined
+    ? `Parse error: ${(<ParserError>err).message}`
+    : `${prefix}${(<ParserError>err).message.replace(/^Parse error: /, '')}`;
+  return createError((<ParserError>err).status || 400, message, {
+    ...errorProperties,
+    ...properties,
+    type: (<ParserError>err).type || 'entity.parse.failed',
+  });
+}
+
+/**
+ * @typedef EmbeddedBodyOptions
+ * @property defaultLimit The default limit for the embedded bodies, default is '20kb'
+ * @property bufferEncodings Additional or altered buffer encodings for the embedded bodies
+ */
+export type EmbeddedBodyOptions<T, U> = {
+  defaultLimit?: number | string;
+  bufferEncodings?: BufferEncoder<T, U>[];
+};
+
+/**
+ * Creates a function to parse a body which is embedded in another body, e.g. the body of a request in a batch request. The parser
+ * configuration is selected in the same way as for the request itself, embedded bodies can not be compressed.
+ * @param parserConfigurations The parser configurations for the embedded bodies, defaults to the default parsers when undefined
+ * @param options The options for the embedded bodies
+ */
+export function getEmbeddedBodyParser<T, U, V>(parserConfigurations?: ParserConfigurations<U, V>, options: EmbeddedBodyOptions<T, U> = {}) {
+  const {encodingVariations, nodeEncodingVariations} = getEncodingVariations<T, U>(options.bufferEncodings);
+  const parsers = joinParserConfigurations(parserConfigurations, options.defaultLimit || '20kb', 'identity', encodingVariations, false);
+  const {availableBufferEncodings, availableBufferEncodingNames} = getAvailableBufferEncodings(
+    parsers, encodingVariations, nodeEncodingVariations, options.bufferEncodings
+  );
+  const bufferEncodingRegistry = getBufferEncodingRegistry(options.bufferEncodings);
+  /**
+   * Parses the embedded body, throws an error with status and type when the body can not be parsed
+   * @param buffer The embedded body
+   * @param contentTypeHeader The value of the 'Content-Type' header of the embedded body
+   * @param req The object which is handed to a stream parser as request
+   */
+  return function parseEmbeddedBody(buffer: Buffer, contentTypeHeader: string | undefined, req: Request<U, V>): ParsedBody<U, V> | undefined {
+    if (!contentTypeHeader) {
+      if (buffer.length === 0) return undefined;
+      throw createError(415, `Header 'Content-Type' has to be specified`, {type: 'mediaType.invalid'});
+    }
+    let parsedMediaType: ParsedMediaType;
+    try {
+      parsedMediaType = contentType.parse(contentTypeHeader);
+    } catch (err: unknown) {
+      throw createError(400, `${(<{message: string}>err).message}: ${contentTypeHeader}`, {type: 'mediaType.invalid'});
+    }
+    const encoding = 'charset' in parsedMediaType.parameters && parsedMediaType.parameters.charset.toLowerCase();
+    const [parseConfiguration] = matchParserConfigurations(
+      parsers, <MediaType>parsedMediaType.type.split('/'), encoding, availableBufferEncodingNames
+    );
+    if (buffer.length === 0) {
+      return parseConfiguration.emptyResponse;
+    }
+    if (parseConfiguration.limit !== null && buffer.length > parseConfiguration.limit) {
+      throw createError(413, 'request entity too large', {
+        limit: parseConfiguration.limit,
+        received: buffer.length,
+        type: 'entity.too.large',
+      });
+    }
+    const defaultEncoding = encoding || parseConfiguration.defaultEncoding || false;
+    const bufferEncoding = defaultEncoding !== false && availableBufferEncodings[defaultEncoding];
+    try {
+      if (parseConfiguration.streamParser) {
+        const streamParser = parseConfiguration.streamParser(parsedMediaType, req, {
+          limit: parseConfiguration.limit,
+          bufferEncodings: bufferEncodingRegistry,
+        });
+        streamParser.onData(buffer);
+        return streamParser.onEnd();
+      }
+      const decoded = bufferEncoding !== false ? <U>decodeBuffer(bufferEncoding, buffer) : buffer;
+      return parseConfiguration.parser ? parseConfiguration.parser(decoded, parsedMediaType) : decoded;
+    } catch (err: unknown) {
+      throw createParseError(err);
+    }
+  };
+}
@@ -1,9 +1,26 @@
 import querystring from 'querystring';
 import {Buffer} from 'buffer';
-import {getMediaTypeMatchers, MediaTypeIdentifier, MediaTypeMatchers} from './mediaTypes.js';
+import {getMediaTypeMatchers, getSuffixMatcher, MediaTypeIdentifier, MediaTypeMatchers} from './mediaTypes.js';
 import bytes from 'bytes';
 import {StringDecoder} from 'string_decoder';
 import {Request, Response, ParsedBody, ParserError} from './bodyParser';
+import {ParsedMediaType} from 'content-type';
+import {getMultipartParser} from './multipart.js';
+import {getXmlParser} from './xml.js';
+import {getSvgParser} from './svg.js';
+import {getGrpcWebParser} from './grpcWeb.js';
+import {getDnsMessageParser} from './dnsMessage.js';
+import {getCsvParser} from './csv.js';
+import {emptyRecords, getNdjsonParser} from './ndjson.js';
+import {getYamlParser} from './yaml.js';
+import {getCborParser} from './cbor.js';
+import {getMsgpackParser} from './msgpack.js';
+import {getJson5Parser} from './json5.js';
+import {parseJson} from './json.js';
+import {getGraphqlParser} from './graphql.js';
+import {getJsonRpcParser} from './jsonRpc.js';
+import {getJsonPatchParser, getMergePatchParser} from './jsonPatch.js';
+import {getCloudEventsParser} from './cloudEvents.js';
 
 export const nodeBufferEncodings: BufferEncoding[] = ['utf-8', 'utf8', 'ucs-2', 'ucs2', 'utf16le', 'latin1', 'ascii', 'base64', 'base64url', 'hex', 'binary'];
 
@@ -13,12 +30,15 @@ export const nodeBufferEncodings: BufferEncoding[] = ['utf-8', 'utf8', 'ucs-2',
  * @property onEnd function to run when end event of stream is emitted
  * @property reduce function to reduce the array containing the elements of the transformed array
  * @property encodings Array<string> names of valid encodings for this function
+ * @property create function creating an encoder with its own state, when set it is called for each body instead of sharing the state of
+ * this encoder between concurrent bodies
  */
 export type ChunkedBufferEncoder<T, U> = {
   onData: (buffer: Buffer) => T;
   onEnd: () => T;
   reduce: (array: T[]) => U;
   encodings: string[];
+  create?: () => ChunkedBufferEncoder<T, U>;
 };
 
 /**
@@ -33,6 +53,66 @@ export type UnchunkedBufferEncoder<U> = {
 
 export type BufferEncoder<T, U> = ChunkedBufferEncoder<T, U> | UnchunkedBufferEncoder<U>;
 
+/**
+ * @typedef StreamParser
+ * @property onData function to parse the chunk of the decompressed stream in the data event, it should throw when the data is invalid
+ * @property onEnd function to return the parsed body when the end event of the stream is emitted
+ * @property body When set the body is handed to the next middleware before the stream is read, e.g. an async iterator which is filled in
+ * the data events
+ * @property onError function which receives the errors occurring after the body was handed to the next middleware
+ */
+export type StreamParser<V> = {
+  onData: (chunk: Buffer) => void;
+  onEnd: () => V;
+  body?: V;
+  onError?: (err: Error) => void;
+};
+
+/**
+ * @typedef StreamParserOptions
+ * @property limit The limit of the parser configuration, null when there is no limit
+ * @property bufferEncodings The buffer encodings of the body parser by each of their encoding names, e.g. to decode charsets which are
+ * declared within the body
+ */
+export type StreamParserOptions = {
+  limit: number | null;
+  bufferEncodings?: BufferEncodingRegistry;
+};
+
+/**
+ * @typedef BufferEncodingRegistry
+ * The buffer encodings of node and the additional buffer encodings by each of their encoding names
+ */
+export type BufferEncodingRegistry = Map<string, BufferEncoder<unknown, unknown>>;
+
+/**
+ * @typedef StreamParserFactory
+ * Function to create a StreamParser for each request from the parsed media type, the request and the options of the parser configuration
+ */
+export type StreamParserFactory<U, V> = (mediaType: ParsedMediaType, req: Request<U, V>, options?: StreamParserOptions) => StreamParser<V>;
+
+/**
+ * Decodes a complete buffer with a buffer encoding
+ * @param bufferEncoding The buffer encoding
+ * @param buffer The buffer to decode
+ */
+export function decodeBuffer<T, U>(bufferEncoding: BufferEncoder<T, U> | BufferEncoder<string, string>, buffer: Buffer) {
+  if ('onData' in bufferEncoding) {
+    const encoder = <ChunkedBufferEncoder<T | string, U | string>>getBodyBufferEncoding(bufferEncoding);
+    const chunks = [encoder.onData(buffer), encoder.onEnd()];
+    return encoder.reduce(chunks);
+  }
+  return bufferEncoding.transform(buffer);
+}
+
+/**
+ * Gets the buffer encoding for a single body, chunked buffer encoders with the function create get their own state
+ * @param bufferEncoding The buffer encoding
+ */
+export function getBodyBufferEncoding<T, U>(bufferEncoding: BufferEncoder<T, U> | BufferEncoder<string, string>) {
+  return 'onData' in bufferEncoding && bufferEncoding.create ? bufferEncoding.create() : bufferEncoding;
+}
+
 /**
  * Matches the encoding available in the parser definition with the encoding specified in the request
  * @param charsetEncodings The charsetEncodings defined in the parser definition.
@@ -108,14 +188,12 @@ export function getEncodingVariations<T, U>(bufferEncodings?: BufferEncoder<T, U
 }
 
 /**
- * Gets all available encodings and tests if for each encoding defined in a parser there is an encoding available
- * @param parsers The available parsers
+ * Gets the buffer encodings of node, which are not replaced, together with the additional buffer encodings
  * @param encodingVariations The object containing all equivalent encoding names for each encoding
  * @param nodeEncodingVariations The object containing variations to filter out of the nodeBufferEncodings array to avoid duplicated definitions
  * @param bufferEncodings Additional bufferEncodings
  */
-export function getAvailableBufferEncodings<T, U, V>(
-  parsers: PatchedParser<U, V>[],
+function getBufferEncoders<T, U>(
   encodingVariations: Record<string, string[]>,
   nodeEncodingVariations: string[],
   bufferEncodings?: BufferEncoder<T, U>[]
@@ -131,7 +209,7 @@ export function getAvailableBufferEncodings<T, U, V>(
   }
   const nativeNodeEncodings = nodeBufferEncodings
     .filter((nodeEncoding) => !suppliedBufferEncodings.includes(nodeEncoding) && !nodeEncodingVariations.includes(nodeEncoding));
-  const availableBufferEncodingsArray = [
+  return [
     ...<BufferEncoder<string, string> []>nativeNodeEncodings.map((nodeEncoding) => {
       const decoder = new StringDecoder(nodeEncoding);
       return {
@@ -143,6 +221,40 @@ export function getAvailableBufferEncodings<T, U, V>(
     }),
     ...(bufferEncodings ? bufferEncodings : <BufferEncoder<T, U> []>[]),
   ];
+}
+
+/**
+ * Gets the buffer encodings of node and the additional buffer encodings by each of their encoding names, e.g. to decode charsets which
+ * are declared within a body
+ * @param bufferEncodings Additional or altered bufferEncodings
+ */
+export function getBufferEncodingRegistry<T, U>(bufferEncodings?: BufferEncoder<T, U>[]) {
+  const {encodingVariations, nodeEncodingVariations} = getEncodingVariations<T, U>(bufferEncodings);
+  const registry: BufferEncodingRegistry = new Map();
+  getBufferEncoders(encodingVariations, nodeEncodingVariations, bufferEncodings).forEach((bufferEncoding) => {
+    bufferEncoding.encodings.forEach((encoding) => {
+      if (!registry.has(encoding)) {
+        registry.set(encoding, <BufferEncoder<unknown, unknown>>bufferEncoding);
+      }
+    });
+  });
+  return registry;
+}
+
+/**
+ * Gets all available encodings and tests if for each encoding defined in a parser there is an encoding available
+ * @param parsers The available parsers
+ * @param encodingVariations The object containing all equivalent encoding names for each encoding
+ * @param nodeEncodingVariations The object containing variations to filter out of the nodeBufferEncodings array to avoid duplicated definitions
+ * @param bufferEncodings Additional bufferEncodings
+ */
+export function getAvailableBufferEncodings<T, U, V>(
+  parsers: PatchedParser<U, V>[],
+  encodingVariations: Record<string, string[]>,
+  nodeEncodingVariations: string[],
+  bufferEncodings?: BufferEncoder<T, U>[]
+) {
+  const availableBufferEncodingsArray = getBufferEncoders(encodingVariations, nodeEncodingVariations, bufferEncodings);
   const suppliedEncodingNames = [...new Set(Object.values(parsers)
     .filter((parser) => parser.encodings !== undefined || parser.defaultEncoding !== undefined)
     .flatMap((parser) => Array.isArray(parser.encodings)
@@ -175,19 +287,25 @@ export function getAvailableBufferEncodings<T, U, V>(
  * @typedef DefaultParser
  * @property parser A parser to convert the data to the desired object.
  * @property defaultEncoding The encoding to convert the buffer to the data.
+ * @property matcher The matchers for the default media type when it should match more than the media type itself.
  */
-type DefaultParser<U, V> = {
-  parser: (payload: U) => V;
+type DefaultParser<U, V> = ({
+  parser: (payload: U, mediaType: ParsedMediaType) => V;
   defaultEncoding: string;
   emptyResponse?: any;
 } | {
-  parser: (payload: Buffer) => V;
+  parser: (payload: Buffer, mediaType: ParsedMediaType) => V;
+  emptyResponse?: any;
+} | {
+  streamParser: StreamParserFactory<any, any>;
   emptyResponse?: any;
 } | {
   defaultEncoding: string;
   emptyResponse?: any;
 } | {
   emptyResponse?: any;
+}) & {
+  matcher?: MediaTypeIdentifier[];
 };
 /* eslint-enable @typescript-eslint/no-explicit-any */
 
@@ -196,7 +314,10 @@ type DefaultParser<U, V> = {
  * @property inflate Allows the data to be unzipped/deflated before further processing when set to true
  * @property limit The limit for the max size of the payload as a bytes string e.g. '1kB' or a number for the number of bytes
  * @property requireContentLength When true then the header 'Content-Length' has to be set on the request
- * @property parser A parser to convert the buffer or the decoded string to the desired object
+ * @property parser A parser to convert the buffer or the decoded string to the desired object, the parsed media type of the request is
+ * supplied as second argument
+ * @property streamParser A function creating a parser which parses the chunks of the decompressed stream while they arrive instead of the
+ * concatenated buffer
  * @property matcher A matcher or array of matchers to match the desired media types
  * @property encodings A string or array of strings defining the allowed charsets, false to remove encodings from default parsers or
  * a string or array of strings to define allowed encodings for which we have to supply a decoder function which should be able to decode each of these
@@ -205,21 +326,29 @@ type DefaultParser<U, V> = {
  * @property defaultEncoding When set then this encoding will be set by default when 'charset' is missing on 'Content-Encoding' header of request. When not set
  * and no charset is specified, then the encoder will return a Buffer
  * @property verify A function which has access to the whole data and which should throw an error if the data can not be verified
+ * @property compressedMediaTypes The media types of compressed bodies with the name of the decompressor, e.g. {'application/gzip': 'gzip'},
+ * these bodies are decompressed with the decompressors of the body parser after the 'Content-Encoding' and the limit applies to the
+ * compressed body
+ * @property verifyDecompression A function receiving the decompressed and the compressed size of the body of a compressed media type while
+ * it is decompressed, it should throw an error when the decompressed body is too large
  */
 export type ParserConfiguration<U, V> = {
   inflate?: true | string | string[];
   limit?: string | number;
   requireContentLength?: boolean;
   parser?:
-    | ((payload: Buffer | U) => V)
+    | ((payload: Buffer | U, mediaType: ParsedMediaType) => V)
     | null;
   // parser?: ((payload: string) => any) | ((payload: Buffer) => any) | ((payload: U) => any) | null;
+  streamParser?: StreamParserFactory<U, V> | null;
   matcher: MediaTypeIdentifier | MediaTypeIdentifier[];
   encodings?: string | string[] | boolean | null;
   defaultEncoding?: string;
   emptyResponse?: U | V;
   verify?:
     ((req: Request<U, V>, res: Response, buffer: Buffer | U | V, body?: ParsedBody<U, V>, encoding?: string | false) => void);
+  compressedMediaTypes?: Record<string, string>;
+  verifyDecompression?: (decompressedSize: number, compressedSize: number) => void;
 };
 
 /**
@@ -232,8 +361,11 @@ export type ParserConfiguration<U, V> = {
  * and no charset is specified, then the encoder will return a Buffer
  * @property emptyResponse Set what the body parser should parse when body is empty and content-length is 0
  * @property parser A parser to convert the buffer or the decoded string to the desired object
+ * @property streamParser A function creating a parser which parses the chunks of the decompressed stream while they arrive
  * @property matcher An array of matchers to match the desired media types
  * @property verify A function which has access to the whole data and which should throw an error if the data can not be verified
+ * @property compressedMediaTypes The media types of compressed bodies with the name of the decompressor
+ * @property verifyDecompression A function receiving the decompressed and the compressed size of the body of a compressed media type
  */
 export type PatchedParser<U, V> = {
   inflate: true | string[];
@@ -242,17 +374,42 @@ export type PatchedParser<U, V> = {
   encodings?: string[] | true;
   defaultEncoding?: string;
   emptyResponse?: U | V;
-  parser?: ((payload: Buffer | U) => V) | null;
+  parser?: ((payload: Buffer | U, mediaType: ParsedMediaType) => V) | null;
+  streamParser?: StreamParserFactory<U, V>;
   matcher: MediaTypeMatchers;
   verify?:
     ((req: Request<U, V>, res: Response, buffer: Buffer | U | V, body?: ParsedBody<U, V>, encoding?: string | false) => void);
+  compressedMediaTypes?: Record<string, string>;
+  verifyDecompression?: (decompressedSize: number, compressedSize: number) => void;
 };
 
 /**
  * @typedef DefaultMediaType
  * The media types used in the defaultMediaTypeParsers object
  */
-export type DefaultMediaType = 'application/x-www-form-urlencoded' | 'application/json' | 'text/plain' | 'application/octet-stream';
+export type DefaultMediaType =
+  | 'application/x-www-form-urlencoded'
+  | 'application/json'
+  | 'text/plain'
+  | 'application/octet-stream'
+  | 'multipart/form-data'
+  | 'application/xml'
+  | 'text/csv'
+  | 'text/tab-separated-values'
+  | 'application/x-ndjson'
+  | 'application/json-seq'
+  | 'application/yaml'
+  | 'application/cbor'
+  | 'application/msgpack'
+  | 'application/json5'
+  | 'application/graphql'
+  | 'application/json-rpc'
+  | 'application/json-patch+json'
+  | 'application/merge-patch+json'
+  | 'application/cloudevents+json'
+  | 'image/svg+xml'
+  | 'application/grpc-web'
+  | 'application/dns-message';
 
 /**
  * @typedef ParserConfigurations
@@ -272,17 +429,7 @@ export const defaultMediaTypeParsers: Record<DefaultMediaType, DefaultParser<str
     emptyResponse: {},
   },
   'application/json': {
-    parser: (payload: string) => {
-      const raw = JSON.parse(payload);
-      // Prevent prototype pollution of first level by forbidding to add any keys to '__proto__'
-      // For speed considerations we do not search for '__proto__' keys in nested objects, which
-      // is not necessary if we are careful not to use Object.assign on nested child objects.
-      // For a nested implementation please look at the README file.
-      if (typeof raw === 'object' && !Array.isArray(raw) && Object.keys(raw.__proto__).length > 0) {
-        throw new Error('__proto__ key not allowed in JSON body on main level');
-      }
-      return raw;
-    },
+    parser: parseJson,
     defaultEncoding: 'utf-8',
     emptyResponse: {},
   },
@@ -293,6 +440,92 @@ export const defaultMediaTypeParsers: Record<DefaultMediaType, DefaultParser<str
   'application/octet-stream': {
     emptyResponse: Buffer.from(''),
   },
+  'multipart/form-data': {
+    streamParser: getMultipartParser(),
+    emptyResponse: {},
+  },
+  'application/xml': {
+    // SVG documents are only parsed by the sanitizing parser of the default media type 'image/svg+xml'
+    matcher: ['application/xml', 'text/xml', (mediaType) => mediaType.join('/') !== 'image/svg+xml' && getSuffixMatcher('xml')(mediaType)],
+    parser: getXmlParser(),
+    defaultEncoding: 'utf-8',
+    emptyResponse: {},
+  },
+  'text/csv': {
+    parser: getCsvParser(),
+    defaultEncoding: 'utf-8',
+    emptyResponse: [],
+  },
+  'text/tab-separated-values': {
+    parser: getCsvParser(),
+    defaultEncoding: 'utf-8',
+    emptyResponse: [],
+  },
+  'application/x-ndjson': {
+    matcher: ['application/x-ndjson', 'application/jsonl'],
+    streamParser: getNdjsonParser(),
+    defaultEncoding: 'utf-8',
+    emptyResponse: emptyRecords,
+  },
+  'application/json-seq': {
+    streamParser: getNdjsonParser(),
+    defaultEncoding: 'utf-8',
+    emptyResponse: emptyRecords,
+  },
+  'application/yaml': {
+    matcher: ['application/yaml', 'text/yaml', 'application/x-yaml', 'text/x-yaml', getSuffixMatcher('yaml')],
+    parser: getYamlParser(),
+    defaultEncoding: 'utf-8',
+    emptyResponse: {},
+  },
+  'application/cbor': {
+    matcher: ['application/cbor', getSuffixMatcher('cbor')],
+    parser: getCborParser(),
+  },
+  'application/msgpack': {
+    matcher: ['application/msgpack', 'application/x-msgpack'],
+    parser: getMsgpackParser(),
+  },
+  'application/json5': {
+    matcher: ['application/json5', getSuffixMatcher('json5')],
+    parser: getJson5Parser(),
+    defaultEncoding: 'utf-8',
+    emptyResponse: {},
+  },
+  'application/graphql': {
+    matcher: ['application/graphql', 'application/graphql-response+json'],
+    parser: getGraphqlParser(),
+    defaultEncoding: 'utf-8',
+  },
+  'application/json-rpc': {
+    parser: getJsonRpcParser(),
+    defaultEncoding: 'utf-8',
+  },
+  'application/json-patch+json': {
+    parser: getJsonPatchParser(),
+    defaultEncoding: 'utf-8',
+  },
+  'application/merge-patch+json': {
+    parser: getMergePatchParser(),
+    defaultEncoding: 'utf-8',
+  },
+  'application/cloudevents+json': {
+    matcher: ['application/cloudevents+json', 'application/cloudevents-batch+json'],
+    streamParser: getCloudEventsParser(),
+    defaultEncoding: 'utf-8',
+  },
+  'image/svg+xml': {
+    parser: getSvgParser(),
+    defaultEncoding: 'utf-8',
+  },
+  'application/grpc-web': {
+    matcher: ['application/grpc-web', 'application/grpc-web+proto', 'application/grpc-web-text', 'application/grpc-web-text+proto'],
+    streamParser: getGrpcWebParser(),
+    emptyResponse: [],
+  },
+  'application/dns-message': {
+    parser: getDnsMessageParser(),
+  },
 };
 
 export function getQuerystringParser(maxKeys = 1000) {
@@ -311,10 +544,10 @@ export function getQuerystringParser(maxKeys = 1000) {
   };
 }
 
-export function parameterCount(body: string, limit: number) {
+export function parameterCount(body: string, limit: number, separator = '&') {
   let count = 0;
   let index = 0;
-  while((index = body.indexOf('&', index)) !== -1) {
+  while((index = body.indexOf(separator, index)) !== -1) {
     count++;
     index++;
     if (count === limit) {
@@ -417,13 +650,14 @@ export function joinParserConfigurations<U, V>(
     if (typeof parser === 'string') {
       const defaultMediaTypeParser = defaultMediaTypeParsers[parser];
       return {
-        matcher: getMediaTypeMatchers(parser),
+        matcher: getMediaTypeMatchers(defaultMediaTypeParser.matcher || parser),
         ...getEncodings(
           <ParserConfiguration<U, V>>defaultMediaTypeParser,
           encodingVariations,
           (<{defaultEncoding?: string}>defaultMediaTypeParser).defaultEncoding
         ),
         ...('parser' in defaultMediaTypeParser ? {parser: defaultMediaTypeParser.parser} : {}),
+        ...('streamParser' in defaultMediaTypeParser ? {streamParser: defaultMediaTypeParser.streamParser} : {}),
         ...('emptyResponse' in defaultMediaTypeParser ? {emptyResponse: defaultMediaTypeParser.emptyResponse} : {}),
         limit,
         inflate: getInflate(inflate),
@@ -436,6 +670,14 @@ export function joinParserConfigurations<U, V>(
           matcher: getMediaTypeMatchers(parser.matcher),
           ...getEncodings(parser, encodingVariations, (<{defaultEncoding?: string}>defaultParser).defaultEncoding),
           ...(parser.parser ? {parser: parser.parser} : parser.parser === null ? {} : 'parser' in defaultParser ? {parser: defaultParser.parser} : {}),
+          ...(parser.streamParser
+            ? {streamParser: parser.streamParser}
+            : parser.streamParser === null || parser.parser
+              ? {}
+              : 'streamParser' in defaultParser
+                ? {streamParser: defaultParser.streamParser}
+                : {}
+          ),
           ...('emptyResponse' in parser && parser.emptyResponse !== null
             ? {emptyResponse: parser.emptyResponse}
             : parser.emptyResponse === null
@@ -0,0 +1,241 @@
+import createError from 'http-errors';
+import {Buffer} from 'buffer';
+import {ParserConfiguration} from './bufferEncoding.js';
+
+/**
+ * @typedef CalendarProperty
+ * @property name The upper case name of the property
+ * @property parameters The parameters with upper case names, parameters with more than one value are arrays
+ * @property value The decoded value. Text values are unescaped, integer values are numbers, the values of CATEGORIES, RESOURCES,
+ * EXDATE, RDATE and FREEBUSY are arrays, all other values are the strings of the content line
+ */
+export type CalendarProperty = {
+  name: string;
+  parameters: Record<string, string | string[]>;
+  value: string | number | string[];
+};
+
+/**
+ * @typedef CalendarComponent
+ * @property name The upper case name of the component, e.g. 'VCALENDAR', 'VEVENT', 'VTODO' or 'VTIMEZONE'
+ * @property properties The properties in the order of the content lines
+ * @property components The nested components
+ */
+export type CalendarComponent = {
+  name: string;
+  properties: CalendarProperty[];
+  components: CalendarComponent[];
+};
+
+/**
+ * @typedef CalendarOptions
+ * @property maxComponents The maximum number of components including the calendar object, default is 10000
+ * @property maxLineLength The maximum length of an unfolded content line in characters, default is 65536
+ */
+export type CalendarOptions = {
+  maxComponents?: number;
+  maxLineLength?: number;
+};
+
+const textProperties = [
+  'CALSCALE', 'METHOD', 'PRODID', 'VERSION', 'CATEGORIES', 'CLASS', 'COMMENT', 'DESCRIPTION', 'LOCATION', 'RESOURCES', 'STATUS', 'SUMMARY',
+  'TZID', 'TZNAME', 'CONTACT', 'RELATED-TO', 'UID', 'ACTION', 'REQUEST-STATUS', 'TRANSP', 'NAME', 'COLOR', 'IMAGE',
+];
+const integerProperties = ['PRIORITY', 'SEQUENCE', 'PERCENT-COMPLETE', 'REPEAT'];
+const listProperties = ['CATEGORIES', 'RESOURCES', 'EXDATE', 'RDATE', 'FREEBUSY'];
+// Properties with the value types of RFC 5545 which are neither text nor integer
+const otherProperties = [
+  'ATTACH', 'GEO', 'COMPLETED', 'DTEND', 'DUE', 'DTSTART', 'DURATION', 'FREEBUSY', 'TZOFFSETFROM', 'TZOFFSETTO', 'TZURL', 'ATTENDEE',
+  'ORGANIZER', 'RECURRENCE-ID', 'URL', 'EXDATE', 'RDATE', 'RRULE', 'TRIGGER', 'CREATED', 'DTSTAMP', 'LAST-MODIFIED', 'REFRESH-INTERVAL',
+  'SOURCE',
+];
+const nameRegExp = /^[A-Za-z0-9-]+$/;
+
+/**
+ * Creates a parser configuration for iCalendar bodies ('text/calendar', RFC 5545). The content lines are unfolded, the parameters and
+ * the values are decoded and the components are built into a tree. The body is the VCALENDAR component.
+ * @param options The limits for the calendar object
+ */
+export function getCalendarParserConfiguration(options: CalendarOptions = {}): ParserConfiguration<string, CalendarComponent> {
+  const maxComponents = options.maxComponents === undefined ? 10000 : options.maxComponents;
+  const maxLineLength = options.maxLineLength === undefined ? 65536 : options.maxLineLength;
+  if (maxComponents < 0) {
+    throw new Error('maxComponents can not be smaller than 0');
+  }
+  if (maxLineLength < 0) {
+    throw new Error('maxLineLength can not be smaller than 0');
+  }
+
+  return {
+    matcher: 'text/calendar',
+    defaultEncoding: 'utf-8',
+    parser: (payload: string | Buffer) => {
+      const stack: CalendarComponent[] = [];
+      let calendar: CalendarComponent | undefined;
+      let components = 0;
+      getContentLines(payload.toString()).forEach(({line, lineNumber}) => {
+        const {name, parameters, rawValue} = parseContentLine(line, lineNumber);
+        if (name === 'BEGIN' || name === 'END') {
+          const componentName = rawValue.toUpperCase();
+          if (!nameRegExp.test(componentName)) {
+            throw invalidCalendar(`Invalid component name '${rawValue}' in line ${lineNumber}`);
+          }
+          if (name === 'BEGIN') {
+            if (calendar !== undefined && stack.length === 0) {
+              throw invalidCalendar(`Unexpected component after the end of the calendar object in line ${lineNumber}`);
+            }
+            if (stack.length === 0 && componentName !== 'VCALENDAR') {
+              throw invalidCalendar(`Expected component 'VCALENDAR' in line ${lineNumber} but got '${componentName}'`);
+            }
+            components++;
+            if (components > maxComponents) {
+              throw createError(413, 'too many components', {limit: maxComponents, type: 'components.too.many'});
+            }
+            const component: CalendarComponent = {name: componentName, properties: [], components: []};
+            if (stack.length === 0) {
+              calendar = component;
+            } else {
+              stack[stack.length - 1].components.push(component);
+            }
+            stack.push(component);
+            return;
+          }
+          const component = stack.pop();
+          if (component === undefined || component.name !== componentName) {
+            throw invalidCalendar(`Unexpected end of component '${componentName}' in line ${lineNumber}`);
+          }
+          return;
+        }
+        if (stack.length === 0) {
+          throw invalidCalendar(`Property '${name}' outside of a component in line ${lineNumber}`);
+        }
+        stack[stack.length - 1].properties.push({name, parameters, value: decodeValue(name, parameters, rawValue, lineNumber)});
+      });
+      if (calendar === undefined) {
+        throw invalidCalendar('Missing calendar object');
+      }
+      if (stack.length > 0) {
+        throw invalidCalendar(`Missing end of component '${stack[stack.length - 1].name}'`);
+      }
+      return calendar;
+    },
+  };
+
+  /**
+   * Unfolds the content lines, a line break followed by a space or a tab continues the previous line. Empty lines are skipped.
+   * @param text The iCalendar object
+   */
+  function getContentLines(text: string) {
+    const contentLines: {line: string, lineNumber: number}[] = [];
+    text.split(/\r?\n/).forEach((physicalLine, index) => {
+      const current = contentLines[contentLines.length - 1];
+      if ((physicalLine.startsWith(' ') || physicalLine.startsWith('\t')) && current !== undefined) {
+        current.line += physicalLine.slice(1);
+      } else if (physicalLine !== '') {
+        contentLines.push({line: physicalLine, lineNumber: index + 1});
+      }
+      const line = contentLines[contentLines.length - 1];
+      if (line !== undefined && line.line.length > maxLineLength) {
+        throw createError(413, `content line ${line.lineNumber} too long`, {limit: maxLineLength, type: 'line.too.long'});
+      }
+    });
+    return contentLines;
+  }
+}
+
+/**
+ * Splits a content line into the name, the parameters and the value. Parameter values are unquoted and the caret encoding of RFC 6868
+ * is decoded.
+ * @param line The unfolded content line
+ * @param lineNumber The number of the first line of the content line for the error messages
+ */
+function parseContentLine(line: string, lineNumber: number) {
+  const nameMatch = /^[A-Za-z0-9-]+/.exec(line);
+  if (!nameMatch) {
+    throw invalidCalendar(`Malformed content line ${lineNumber}`);
+  }
+  const parameters: Record<string, string | string[]> = Object.create(null);
+  let offset = nameMatch[0].length;
+  while (line[offset] === ';') {
+    const parameterMatch = /^([A-Za-z0-9-]+)=/.exec(line.slice(offset + 1));
+    if (!parameterMatch) {
+      throw invalidCalendar(`Malformed parameter in content line ${lineNumber}`);
+    }
+    offset += parameterMatch[0].length + 1;
+    const values: string[] = [];
+    do {
+      if (values.length > 0) offset++;
+      const valueMatch = <RegExpExecArray>/^(?:"([^"]*)"|([^";:,]*))/.exec(line.slice(offset));
+      values.push((valueMatch[1] !== undefined ? valueMatch[1] : valueMatch[2])
+        .replace(/\^([n^'])/g, (_, char) => char === 'n' ? '\n' : char === '\'' ? '"' : '^'));
+      offset += valueMatch[0].length;
+    } while (line[offset] === ',');
+    const name = parameterMatch[1].toUpperCase();
+    if (parameters[name] !== undefined) {
+      throw invalidCalendar(`Duplicate parameter '${name}' in content line ${lineNumber}`);
+    }
+    parameters[name] = values.length === 1 ? values[0] : values;
+  }
+  if (line[offset] !== ':') {
+    throw invalidCalendar(`Malformed content line ${lineNumber}`);
+  }
+  return {name: nameMatch[0].toUpperCase(), parameters, rawValue: line.slice(offset + 1)};
+}
+
+/**
+ * Decodes the value with the type of the parameter 'VALUE' or the default type of the property, properties which are not defined in
+ * RFC 5545 have the default type text
+ * @param name The name of the property
+ * @param parameters The parameters of the property
+ * @param rawValue The value of the content line
+ * @param lineNumber The number of the first line of the content line for the error messages
+ */
+function decodeValue(name: string, parameters: Record<string, string | string[]>, rawValue: string, lineNumber: number) {
+  const valueType = typeof parameters.VALUE === 'string'
+    ? parameters.VALUE.toUpperCase()
+    : integerProperties.includes(name)
+      ? 'INTEGER'
+      : textProperties.includes(name) || !otherProperties.includes(name) ? 'TEXT' : undefined;
+  const isList = listProperties.includes(name);
+  if (valueType === 'TEXT') {
+    return isList ? splitText(rawValue).map(unescapeText) : unescapeText(rawValue);
+  }
+  if (valueType === 'INTEGER') {
+    if (!/^[+-]?\d+$/.test(rawValue)) {
+      throw invalidCalendar(`Invalid integer value of property '${name}' in line ${lineNumber}`);
+    }
+    return parseInt(rawValue, 10);
+  }
+  return isList ? rawValue.split(',') : rawValue;
+}
+
+/**
+ * Splits a text value at the commas which are not escaped
+ * @param value The text value
+ */
+function splitText(value: string) {
+  const parts = [''];
+  for (let index = 0; index < value.length; index++) {
+    if (value[index] === '\\' && index + 1 < value.length) {
+      parts[parts.length - 1] += value.slice(index, index + 2);
+      index++;
+    } else if (value[index] === ',') {
+      parts.push('');
+    } else {
+      parts[parts.length - 1] += value[index];
+    }
+  }
+  return parts;
+}
+
+/**
+ * Unescapes a text value, '\n' and '\N' are line breaks
+ * @param value The escaped text
+ */
+function unescapeText(value: string) {
+  return value.replace(/\\([\\;,nN])/g, (_, char) => char === 'n' || char === 'N' ? '\n' : char);
+}
+
+function invalidCalendar(message: string) {
+  return createError(400, message, {type: 'calendar.invalid'});
+}
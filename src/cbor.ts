@@ -0,0 +1,389 @@
+import createError from 'http-errors';
+import bytes from 'bytes';
+import {Buffer} from 'buffer';
+
+/**
+ * @typedef CborValue
+ * A decoded CBOR data item
+ */
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Buffer
+  | Date
+  | CborValue[]
+  | CborObject
+  | CborTag
+  | Map<CborValue, CborValue>;
+
+/**
+ * @typedef CborObject
+ * A CBOR map decoded to an object, integer keys are converted to strings
+ */
+export type CborObject = {[key: string]: CborValue};
+
+/**
+ * @typedef CborTag
+ * @property tag The number of a tag without decoder
+ * @property value The tagged data item
+ */
+export type CborTag = {
+  tag: number | bigint;
+  value: CborValue;
+};
+
+/**
+ * @typedef CborOptions
+ * @property mapType 'object' to decode maps to objects with text or integer keys, 'map' to decode maps to Map objects with any keys,
+ * default is 'object'
+ * @property maxDepth The maximum nesting depth of arrays, maps and tags, default is 64
+ * @property maxItems The maximum number of data items, default is 100000
+ * @property maxStringLength The maximum length of a byte or text string in bytes as a number or as a bytes string, default is '1mb'
+ * @property tags Decoders for tags which are called with the tagged data item, they overwrite the decoders of the tags 0 to 3
+ */
+export type CborOptions = {
+  mapType?: 'object' | 'map';
+  maxDepth?: number;
+  maxItems?: number;
+  maxStringLength?: number | string;
+  tags?: Record<number, (value: CborValue) => CborValue>;
+};
+
+const BREAK = Symbol('break');
+const dateTimeRegExp = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+
+const defaultTags: Record<number, (value: CborValue) => CborValue> = {
+  0: (value) => {
+    // Date parses more formats than the RFC 3339 date/time strings of the tag 0
+    const date = typeof value === 'string' && dateTimeRegExp.test(value) ? new Date(value) : undefined;
+    if (!date || isNaN(date.getTime())) {
+      throw parseError('Invalid date/time string of tag 0');
+    }
+    return date;
+  },
+  1: (value) => {
+    if (typeof value !== 'number' && typeof value !== 'bigint') {
+      throw parseError('Invalid epoch-based date/time of tag 1');
+    }
+    const date = new Date(Number(value) * 1000);
+    if (isNaN(date.getTime())) {
+      throw parseError('Invalid epoch-based date/time of tag 1');
+    }
+    return date;
+  },
+  2: (value) => {
+    if (!Buffer.isBuffer(value)) {
+      throw parseError('Invalid bignum of tag 2');
+    }
+    return value.length === 0 ? BigInt(0) : BigInt(`0x${value.toString('hex')}`);
+  },
+  3: (value) => {
+    if (!Buffer.isBuffer(value)) {
+      throw parseError('Invalid bignum of tag 3');
+    }
+    return BigInt(-1) - (value.length === 0 ? BigInt(0) : BigInt(`0x${value.toString('hex')}`));
+  },
+  // Self-described CBOR (RFC 8949, section 3.4.6)
+  55799: (value) => value,
+};
+
+/**
+ * Creates a parser for 'application/cbor' bodies as defined in RFC 8949. Byte strings are decoded to Buffers, bignums and integers
+ * which are not safe integers to BigInts and the tags 0 and 1 to Dates. Tags without decoder are returned as CborTag objects.
+ * @param options The output format, the decoders of tags and the limits for the body
+ */
+export function getCborParser(options: CborOptions = {}) {
+  const {mapType = 'object', maxDepth = 64, maxItems = 100000} = options;
+  const maxStringLength = typeof options.maxStringLength === 'string'
+    ? bytes(options.maxStringLength)
+    : options.maxStringLength === undefined ? bytes('1mb') : options.maxStringLength;
+  const tags = {...defaultTags, ...options.tags};
+  if (maxItems < 0) {
+    throw new Error('maxItems can not be smaller than 0');
+  }
+  return (payload: Buffer) => decodeCbor(payload, {mapType, maxDepth, maxItems, maxStringLength, tags});
+}
+
+/**
+ * Decodes a buffer which contains exactly one CBOR data item
+ * @param buffer The buffer
+ * @param options The output format, the decoders of tags and the limits
+ */
+export function decodeCbor(buffer: Buffer, options: Required<Omit<CborOptions, 'maxStringLength'>> & {maxStringLength: number}) {
+  const decoder = new TextDecoder('utf-8', {fatal: true});
+  let position = 0;
+  let items = 0;
+
+  const value = decodeItem(0);
+  if (value === BREAK) {
+    throw parseError('Unexpected break');
+  }
+  if (position !== buffer.length) {
+    throw parseError('Unexpected data after the end of the data item');
+  }
+  return value;
+
+  //-------------------------------------------------
+  function decodeItem(depth: number): CborValue | typeof BREAK {
+    if (++items > options.maxItems) {
+      throw createError(413, 'too many data items', {limit: options.maxItems, type: 'items.too.many'});
+    }
+    const initialByte = readUint(1);
+    const majorType = initialByte >> 5;
+    const additionalInformation = initialByte & 0x1f;
+    if (majorType === 7) {
+      return decodeSimpleValue(additionalInformation);
+    }
+    if (additionalInformation === 31) {
+      return decodeIndefinite(majorType, depth);
+    }
+    const argument = readArgument(additionalInformation);
+    switch (majorType) {
+      case 0:
+        return toInteger(argument);
+      case 1:
+        return toInteger(typeof argument === 'bigint' ? BigInt(-1) - argument : -1 - argument);
+      case 2:
+        return Buffer.from(readBytes(getStringLength(argument)));
+      case 3:
+        return decodeText(readBytes(getStringLength(argument)));
+      case 4: {
+        const length = getItemCount(argument, 1);
+        checkDepth(depth);
+        const array: CborValue[] = [];
+        for (let index = 0; index < length; index++) {
+          array.push(decodeDefiniteItem(depth + 1));
+        }
+        return array;
+      }
+      case 5: {
+        const length = getItemCount(argument, 2);
+        checkDepth(depth);
+        const map = createMap();
+        for (let index = 0; index < length; index++) {
+          map.set(decodeDefiniteItem(depth + 1), decodeDefiniteItem(depth + 1));
+        }
+        return map.value;
+      }
+      default: {
+        checkDepth(depth);
+        const tagged = decodeDefiniteItem(depth + 1);
+        const tagDecoder = typeof argument === 'number' && Object.prototype.hasOwnProperty.call(options.tags, argument)
+          ? options.tags[argument]
+          : undefined;
+        if (tagDecoder) {
+          return tagDecoder(tagged);
+        }
+        const tag: CborTag = Object.create(null);
+        tag.tag = argument;
+        tag.value = tagged;
+        return tag;
+      }
+    }
+  }
+
+  function decodeDefiniteItem(depth: number) {
+    const value = decodeItem(depth);
+    if (value === BREAK) {
+      throw parseError('Unexpected break');
+    }
+    return value;
+  }
+
+  function decodeIndefinite(majorType: number, depth: number): CborValue {
+    switch (majorType) {
+      case 2:
+      case 3: {
+        const chunks: Buffer[] = [];
+        let length = 0;
+        for (;;) {
+          const initialByte = readUint(1);
+          if (initialByte === 0xff) break;
+          if (initialByte >> 5 !== majorType || (initialByte & 0x1f) === 31) {
+            throw parseError('Invalid chunk of indefinite length string');
+          }
+          items++;
+          const chunk = readBytes(getStringLength(readArgument(initialByte & 0x1f)));
+          length += chunk.length;
+          if (length > options.maxStringLength) {
+            throw stringTooLarge(options.maxStringLength);
+          }
+          chunks.push(chunk);
+        }
+        return majorType === 2 ? Buffer.concat(chunks) : decodeText(Buffer.concat(chunks));
+      }
+      case 4: {
+        checkDepth(depth);
+        const array: CborValue[] = [];
+        for (;;) {
+          const value = decodeItem(depth + 1);
+          if (value === BREAK) break;
+          array.push(value);
+        }
+        return array;
+      }
+      case 5: {
+        checkDepth(depth);
+        const map = createMap();
+        for (;;) {
+          const key = decodeItem(depth + 1);
+          if (key === BREAK) break;
+          map.set(key, decodeDefiniteItem(depth + 1));
+        }
+        return map.value;
+      }
+      default:
+        throw parseError(`Invalid indefinite length of major type ${majorType}`);
+    }
+  }
+
+  function decodeSimpleValue(additionalInformation: number): CborValue | typeof BREAK {
+    switch (additionalInformation) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+      case 25:
+        return decodeHalf(readUint(2));
+      case 26:
+        return readBytes(4).readFloatBE(0);
+      case 27:
+        return readBytes(8).readDoubleBE(0);
+      case 31:
+        items--;
+        return BREAK;
+      default:
+        throw parseError(`Unsupported simple value ${additionalInformation === 24 ? readUint(1) : additionalInformation}`);
+    }
+  }
+
+  function readArgument(additionalInformation: number): number | bigint {
+    if (additionalInformation < 24) return additionalInformation;
+    switch (additionalInformation) {
+      case 24:
+        return readUint(1);
+      case 25:
+        return readUint(2);
+      case 26:
+        return readUint(4);
+      case 27: {
+        const value = readBytes(8).readBigUInt64BE(0);
+        return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+      }
+      default:
+        throw parseError(`Invalid additional information ${additionalInformation}`);
+    }
+  }
+
+  function readUint(length: 1 | 2 | 4) {
+    return readBytes(length).readUIntBE(0, length);
+  }
+
+  function readBytes(length: number) {
+    if (position + length > buffer.length) {
+      throw parseError('Unexpected end of data');
+    }
+    const chunk = buffer.subarray(position, position + length);
+    position += length;
+    return chunk;
+  }
+
+  function getStringLength(argument: number | bigint) {
+    if (argument > options.maxStringLength) {
+      throw stringTooLarge(options.maxStringLength);
+    }
+    return Number(argument);
+  }
+
+  function getItemCount(argument: number | bigint, itemsPerEntry: number) {
+    // Each data item needs at least one byte, so the count can be checked before the items are decoded
+    if (BigInt(argument) * BigInt(itemsPerEntry) > BigInt(buffer.length - position)) {
+      throw parseError('Unexpected end of data');
+    }
+    return Number(argument);
+  }
+
+  function checkDepth(depth: number) {
+    if (depth >= options.maxDepth) {
+      throw createError(413, 'CBOR data item too deeply nested', {limit: options.maxDepth, type: 'depth.too.large'});
+    }
+  }
+
+  function decodeText(chunk: Buffer) {
+    try {
+      return decoder.decode(chunk);
+    } catch {
+      throw parseError('Invalid UTF-8 in text string');
+    }
+  }
+
+  function createMap() {
+    if (options.mapType === 'map') {
+      const map = new Map<CborValue, CborValue>();
+      return {
+        value: map,
+        set: (key: CborValue, value: CborValue) => {
+          if (map.has(key)) {
+            throw parseError(`Duplicate map key '${String(key)}'`);
+          }
+          map.set(key, value);
+        },
+      };
+    }
+    const object: CborObject = Object.create(null);
+    return {
+      value: object,
+      set: (key: CborValue, value: CborValue) => {
+        if (typeof key !== 'string' && typeof key !== 'number' && typeof key !== 'bigint') {
+          throw parseError('Only text and integer map keys are supported for objects');
+        }
+        const name = String(key);
+        if (name in object) {
+          throw parseError(`Duplicate map key '${name}'`);
+        }
+        object[name] = value;
+      },
+    };
+  }
+}
+
+/**
+ * Converts an integer to a number when it is a safe integer
+ * @param value The integer
+ */
+function toInteger(value: number | bigint) {
+  return typeof value === 'bigint' && value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(value)
+    : value;
+}
+
+/**
+ * Decodes an IEEE 754 half-precision float
+ * @param half The 16 bits of the float
+ */
+function decodeHalf(half: number) {
+  const exponent = (half >> 10) & 0x1f;
+  const mantissa = half & 0x3ff;
+  const value = exponent === 0
+    ? mantissa * 2 ** -24
+    : exponent !== 31
+      ? (mantissa + 1024) * 2 ** (exponent - 25)
+      : mantissa === 0 ? Infinity : NaN;
+  return half & 0x8000 ? -value : value;
+}
+
+function stringTooLarge(limit: number) {
+  return createError(413, 'string too large', {limit, type: 'string.too.large'});
+}
+
+function parseError(message: string) {
+  return createError(400, message, {type: 'entity.parse.failed'});
+}
@@ -0,0 +1,222 @@
+import createError from 'http-errors';
+import {Buffer} from 'buffer';
+import {IncomingHttpHeaders} from 'http';
+import {ParsedMediaType} from 'content-type';
+import {createParseError, EmbeddedBodyOptions, getEmbeddedBodyParser, ParsedBody, Request} from './bodyParser.js';
+import {ParserConfigurations, StreamParser} from './bufferEncoding.js';
+import {parseJson} from './json.js';
+
+/**
+ * @typedef CloudEvent
+ * A CloudEvent of version 1.0, extension attributes are set as additional properties
+ * @property specversion The version of the CloudEvents specification, always '1.0'
+ * @property id The identifier of the event
+ * @property source The context in which the event happened
+ * @property type The type of the event
+ * @property datacontenttype The media type of the data
+ * @property dataschema The schema of the data
+ * @property subject The subject of the event in the context of the source
+ * @property time The timestamp of the event as RFC 3339 string
+ * @property data The data of the event
+ */
+export type CloudEvent = {
+  specversion: '1.0';
+  id: string;
+  source: string;
+  type: string;
+  datacontenttype?: string;
+  dataschema?: string;
+  subject?: string;
+  time?: string;
+  data?: unknown;
+  [extension: string]: unknown;
+};
+
+/**
+ * @typedef CloudEventsOptions
+ * @property maxEvents The maximum number of events in a batch, default is 100
+ * @property defaultLimit The default limit for the data of events in binary mode and of base64 encoded data, default is '20kb'
+ * @property bufferEncodings Additional or altered buffer encodings for the data of the events
+ */
+export type CloudEventsOptions<T, U> = EmbeddedBodyOptions<T, U> & {
+  maxEvents?: number;
+};
+
+const requiredAttributes = ['id', 'source', 'type'];
+const stringAttributes = ['datacontenttype', 'dataschema', 'subject', 'time'];
+
+/**
+ * Creates a stream parser for CloudEvents over HTTP. Bodies of the media types 'application/cloudevents+json' and
+ * 'application/cloudevents-batch+json' are parsed in structured mode, all other bodies in binary mode where the attributes are taken from
+ * the 'ce-*' headers and the body is the data of the event. The data in binary mode and base64 encoded data in structured mode is parsed
+ * with the parser configuration selected for the content type of the data.
+ * @param parserConfigurations The parser configurations for the data of the events, defaults to the default parsers
+ * @param options The options for batches and the data of the events
+ */
+export function getCloudEventsParser<T, U, V>(parserConfigurations?: ParserConfigurations<U, V>, options: CloudEventsOptions<T, U> = {}) {
+  const {maxEvents = 100} = options;
+  if (maxEvents < 0) {
+    throw new Error('maxEvents can not be smaller than 0');
+  }
+  // created on first use, as the default parsers contain this parser
+  let parseEmbeddedBody:
+    ((buffer: Buffer, contentTypeHeader: string | undefined, req: Request<U, V>) => ParsedBody<U, V> | undefined) | undefined;
+
+  return (mediaType: ParsedMediaType, req: Request<U, V>): StreamParser<CloudEvent | CloudEvent[]> => {
+    const chunks: Buffer[] = [];
+    const onData = (chunk: Buffer) => {
+      chunks.push(chunk);
+    };
+    const [, format] = /^application\/cloudevents(?:-batch)?\+(.*)$/.exec(mediaType.type) || [];
+    if (format === undefined) {
+      const event = getBinaryCloudEvent(<IncomingHttpHeaders>req.headers);
+      return {
+        onData,
+        onEnd: () => {
+          const buffer = Buffer.concat(chunks);
+          if (buffer.length > 0) {
+            event.data = parseData(buffer, event.datacontenttype, req);
+          }
+          return event;
+        },
+      };
+    }
+    if (format !== 'json') {
+      throw createError(415, `Unsupported event format '${format}'`, {type: 'mediaType.unsupported'});
+    }
+    const charset = mediaType.parameters.charset?.toLowerCase();
+    if (charset !== undefined && charset !== 'utf-8' && charset !== 'utf8') {
+      throw createError(415, `Unsupported charset '${charset}', events have to be encoded in UTF-8`, {
+        charset,
+        type: 'charset.unsupported',
+      });
+    }
+    const isBatch = mediaType.type === 'application/cloudevents-batch+json';
+    return {
+      onData,
+      onEnd: () => {
+        const raw = parseJson(Buffer.concat(chunks).toString('utf-8'));
+        if (!isBatch) {
+          return parseStructuredCloudEvent(raw, req);
+        }
+        if (!Array.isArray(raw)) {
+          throw invalidCloudEvent('Batch of events has to be an array');
+        }
+        if (raw.length > maxEvents) {
+          throw createError(413, 'too many events in batch', {limit: maxEvents, type: 'events.too.many'});
+        }
+        return raw.map((event, index) => {
+          try {
+            return parseStructuredCloudEvent(event, req);
+          } catch (err: unknown) {
+            throw createParseError(err, {}, `Event ${index}: `);
+          }
+        });
+      },
+    };
+  };
+
+  //-------------------------------------------------
+  function parseStructuredCloudEvent(raw: unknown, req: Request<U, V>) {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw invalidCloudEvent('Event has to be an object');
+    }
+    const {data, data_base64: dataBase64, ...attributes} = <Record<string, unknown>>raw;
+    const event = validateCloudEvent(attributes);
+    if (data !== undefined && dataBase64 !== undefined) {
+      throw invalidCloudEvent(`Event can not have both 'data' and 'data_base64'`);
+    }
+    if (dataBase64 !== undefined && dataBase64 !== null) {
+      if (typeof dataBase64 !== 'string' || !/^[A-Za-z0-9+/]*={0,2}$/.test(dataBase64) || dataBase64.length % 4 !== 0) {
+        throw invalidCloudEvent(`Attribute 'data_base64' has to be a base64 encoded string`);
+      }
+      const buffer = Buffer.from(dataBase64, 'base64');
+      event.data = event.datacontenttype !== undefined ? parseData(buffer, event.datacontenttype, req) : buffer;
+    } else if (data !== undefined && data !== null) {
+      event.data = data;
+    }
+    return event;
+  }
+
+  function parseData(buffer: Buffer, datacontenttype: string | undefined, req: Request<U, V>) {
+    if (!parseEmbeddedBody) {
+      parseEmbeddedBody = getEmbeddedBodyParser<T, U, V>(parserConfigurations, options);
+    }
+    try {
+      return parseEmbeddedBody(buffer, datacontenttype, req);
+    } catch (err: unknown) {
+      throw createParseError(err, {}, 'Invalid data: ');
+    }
+  }
+}
+
+/**
+ * Creates a CloudEvent without data from the 'ce-*' headers of a request in binary mode. The header values are percent-decoded and the
+ * 'Content-Type' header is used as 'datacontenttype'. Throws errors with status 400 when the attributes are invalid.
+ * @param headers The headers of the request
+ */
+export function getBinaryCloudEvent(headers: IncomingHttpHeaders) {
+  const attributes: Record<string, unknown> = {};
+  Object.entries(headers).forEach(([name, value]) => {
+    const lowerCaseName = name.toLowerCase();
+    if (!lowerCaseName.startsWith('ce-') || value === undefined) return;
+    const attribute = lowerCaseName.slice(3);
+    if (attribute === 'datacontenttype') {
+      throw invalidCloudEvent(`Attribute 'datacontenttype' has to be set with the header 'Content-Type'`);
+    }
+    try {
+      attributes[attribute] = decodeURIComponent(Array.isArray(value) ? value.join(', ') : value);
+    } catch {
+      throw invalidCloudEvent(`Header '${name}' is not correctly percent-encoded`);
+    }
+  });
+  if (headers['content-type'] !== undefined) {
+    attributes.datacontenttype = headers['content-type'];
+  }
+  return validateCloudEvent(attributes);
+}
+
+/**
+ * Validates the context attributes of a CloudEvent, attributes with null values are removed
+ * @param attributes The context attributes
+ */
+function validateCloudEvent(attributes: Record<string, unknown>) {
+  const event: Record<string, unknown> = {};
+  Object.entries(attributes).forEach(([name, value]) => {
+    if (!/^[a-z0-9]+$/.test(name)) {
+      throw invalidCloudEvent(`Invalid attribute name '${name}'`);
+    }
+    if (value === null) return;
+    if (!(typeof value === 'string' || typeof value === 'boolean' || (Number.isInteger(value) && <number>value >= -(2 ** 31) && <number>value < 2 ** 31))) {
+      throw invalidCloudEvent(`Attribute '${name}' has to be a string, a boolean or an integer`);
+    }
+    Object.defineProperty(event, name, {value, enumerable: true, writable: true, configurable: true});
+  });
+  if (event.specversion === undefined) {
+    throw invalidCloudEvent(`Missing required attribute 'specversion'`);
+  }
+  if (event.specversion !== '1.0') {
+    throw invalidCloudEvent(`Unsupported specversion '${event.specversion}'`);
+  }
+  requiredAttributes.forEach((name) => {
+    if (event[name] === undefined) {
+      throw invalidCloudEvent(`Missing required attribute '${name}'`);
+    }
+    if (typeof event[name] !== 'string' || event[name] === '') {
+      throw invalidCloudEvent(`Attribute '${name}' has to be a non-empty string`);
+    }
+  });
+  stringAttributes.forEach((name) => {
+    if (event[name] !== undefined && typeof event[name] !== 'string') {
+      throw invalidCloudEvent(`Attribute '${name}' has to be a string`);
+    }
+  });
+  if (event.time !== undefined && !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(<string>event.time)) {
+    throw invalidCloudEvent(`Attribute 'time' has to be a RFC 3339 timestamp`);
+  }
+  return <CloudEvent>event;
+}
+
+function invalidCloudEvent(message: string) {
+  return createError(400, message, {type: 'cloudevent.invalid'});
+}
@@ -0,0 +1,150 @@
+import createError from 'http-errors';
+import {ParsedMediaType} from 'content-type';
+
+/**
+ * @typedef CsvRecord
+ * A row mapped to the names of the columns in the header row
+ */
+export type CsvRecord = Record<string, string>;
+
+/**
+ * @typedef CsvOptions
+ * @property header When true the first row is a header row and the rows are returned as objects with the column names as keys, when false
+ * the rows are returned as arrays. The media type parameter 'header=present|absent' overrides this option, default is false
+ * @property delimiter The delimiter of the fields, default is ',' for 'text/csv' and a tab for 'text/tab-separated-values'
+ * @property quote Allow fields quoted with '"' as defined in RFC 4180, default is true for 'text/csv' and false for
+ * 'text/tab-separated-values'
+ * @property maxRows The maximum number of rows including the header row, default is 10000
+ * @property maxColumns The maximum number of columns of a row, default is 1000
+ */
+export type CsvOptions = {
+  header?: boolean;
+  delimiter?: string;
+  quote?: boolean;
+  maxRows?: number;
+  maxColumns?: number;
+};
+
+/**
+ * Creates a parser for 'text/csv' and 'text/tab-separated-values' bodies as defined in RFC 4180. Empty lines are skipped.
+ * @param options The options for the format and the limits of the body
+ */
+export function getCsvParser(options: CsvOptions = {}) {
+  const {maxRows = 10000, maxColumns = 1000} = options;
+  if (options.delimiter !== undefined && (options.delimiter.length !== 1 || ['"', '\r', '\n'].includes(options.delimiter))) {
+    throw new Error('delimiter has to be a single character other than \'"\', CR or LF');
+  }
+  return (payload: string, mediaType?: ParsedMediaType): string[][] | CsvRecord[] => {
+    const isTsv = mediaType?.type === 'text/tab-separated-values';
+    const headerParameter = mediaType?.parameters.header?.toLowerCase();
+    const header = headerParameter === 'present' ? true : headerParameter === 'absent' ? false : !!options.header;
+    const rows = parseCsv(
+      payload,
+      options.delimiter || (isTsv ? '\t' : ','),
+      options.quote !== undefined ? options.quote : !isTsv,
+      maxRows,
+      maxColumns,
+    );
+    if (!header) {
+      return rows;
+    }
+    const [columns, ...records] = rows;
+    if (!columns) {
+      return [];
+    }
+    const duplicate = columns.find((column, index) => columns.indexOf(column) !== index);
+    if (duplicate !== undefined) {
+      throw createError(400, `Duplicate column '${duplicate}' in header row`, {type: 'entity.parse.failed'});
+    }
+    return records.map((record, index) => {
+      if (record.length !== columns.length) {
+        throw createError(400, `Row ${index + 2} has ${record.length} columns, expected ${columns.length}`, {type: 'entity.parse.failed'});
+      }
+      const mapped: CsvRecord = Object.create(null);
+      columns.forEach((column, columnIndex) => {
+        mapped[column] = record[columnIndex];
+      });
+      return mapped;
+    });
+  };
+}
+
+/**
+ * Parses the rows of a CSV document. Lines can be separated with CRLF or LF.
+ * @param csv The CSV document
+ * @param delimiter The delimiter of the fields
+ * @param quote Allow quoted fields
+ * @param maxRows The maximum number of rows
+ * @param maxColumns The maximum number of columns of a row
+ */
+export function parseCsv(csv: string, delimiter: string, quote: boolean, maxRows: number, maxColumns: number) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let quotedRow = false;
+  let position = csv.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  while (position < csv.length) {
+    let field: string;
+    if (quote && csv[position] === '"') {
+      let end = position + 1;
+      field = '';
+      quotedRow = true;
+      for (;;) {
+        const next = csv.indexOf('"', end);
+        if (next === -1) {
+          throw parseError(`Unterminated quoted field in row ${rows.length + 1}`);
+        }
+        field += csv.slice(end, next);
+        if (csv[next + 1] === '"') {
+          field += '"';
+          end = next + 2;
+        } else {
+          position = next + 1;
+          break;
+        }
+      }
+      if (position < csv.length && csv[position] !== delimiter && csv[position] !== '\n' && !csv.startsWith('\r\n', position)) {
+        throw parseError(`Invalid character after quoted field in row ${rows.length + 1}`);
+      }
+    } else {
+      let end = position;
+      while (end < csv.length && csv[end] !== delimiter && csv[end] !== '\n' && !csv.startsWith('\r\n', end)) end++;
+      field = csv.slice(position, end);
+      if (quote && field.includes('"')) {
+        throw parseError(`Invalid quote in unquoted field in row ${rows.length + 1}`);
+      }
+      position = end;
+    }
+    row.push(field);
+    if (row.length > maxColumns) {
+      throw createError(413, 'too many columns', {limit: maxColumns, type: 'columns.too.many'});
+    }
+    if (csv[position] === delimiter) {
+      position++;
+      if (position === csv.length) {
+        row.push('');
+      }
+    } else {
+      position += csv[position] === '\n' ? 1 : 2;
+      endRow();
+    }
+  }
+  endRow();
+  return rows;
+
+  //-------------------------------------------------
+  function endRow() {
+    if (row.length > 1 || (row.length === 1 && (row[0] !== '' || quotedRow))) {
+      rows.push(row);
+      if (rows.length > maxRows) {
+        throw createError(413, 'too many rows', {limit: maxRows, type: 'rows.too.many'});
+      }
+    }
+    row = [];
+    quotedRow = false;
+  }
+}
+
+function parseError(message: string) {
+  return createError(400, message, {type: 'entity.parse.failed'});
+}
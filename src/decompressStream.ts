@@ -2,7 +2,15 @@ import zlib from 'zlib';
 import {PatchedParser} from './bufferEncoding.js';
 import {Transform} from 'stream';
 
-export type Decompressors = Record<string, () => Transform>;
+/**
+ * @typedef DecompressorOptions
+ * @property limit The limit of the parser configuration for the request, null when there is no limit
+ */
+export type DecompressorOptions = {
+  limit: number | null;
+};
+
+export type Decompressors = Record<string, (options?: DecompressorOptions) => Transform>;
 /**
  * Matches the contentEncoding with the allowed decompressors.
  * @param contentEncoding The contentEncoding of the request
@@ -37,21 +45,24 @@ export function deleteMissingKeys(obj: Record<string, unknown> | undefined, need
  * @param parsers - The patched parser configuration
  * @param decompressors - Additional decompressors
  */
-export function getAvailableDecompressors<U, V>(parsers: PatchedParser<U, V>[], decompressors?: Record<string, () => Transform>) {
+export function getAvailableDecompressors<U, V>(parsers: PatchedParser<U, V>[], decompressors?: Decompressors) {
   const standardDecompressors = {
-    deflate: zlib.createInflate,
-    gzip: zlib.createGunzip,
-    br: zlib.createBrotliDecompress,
+    deflate: () => zlib.createInflate(),
+    gzip: () => zlib.createGunzip(),
+    br: () => zlib.createBrotliDecompress(),
   };
   const allowsAllDecompressors = Object.values(parsers).some(({inflate}) => inflate === true);
   const suppliedDecompressorNames = [...new Set(
     (<string []>Object.values(parsers)
-      .flatMap(({inflate}) => <string[]>(Array.isArray(inflate) ? inflate : []))))];
+      .flatMap(({inflate, compressedMediaTypes}) => [
+        ...<string[]>(Array.isArray(inflate) ? inflate : []),
+        ...Object.values(compressedMediaTypes || {}),
+      ])))];
   if (!allowsAllDecompressors) {
     deleteMissingKeys(standardDecompressors, suppliedDecompressorNames);
     deleteMissingKeys(decompressors, suppliedDecompressorNames);
   }
-  const availableDecompressors = <Record<string, () => Transform>><unknown>{...standardDecompressors, ...decompressors};
+  const availableDecompressors = <Decompressors>{...standardDecompressors, ...decompressors};
   const availableDecompressorNames = [
     ...(allowsAllDecompressors || suppliedDecompressorNames.includes('identity') ? ['identity'] : []),
     ...Object.keys(availableDecompressors),
@@ -0,0 +1,328 @@
+import createError from 'http-errors';
+import {Buffer} from 'buffer';
+
+/**
+ * @typedef DnsHeader
+ * The header of a DNS message, the section counts are given by the length of the sections
+ */
+export type DnsHeader = {
+  id: number;
+  qr: boolean;
+  opcode: number;
+  aa: boolean;
+  tc: boolean;
+  rd: boolean;
+  ra: boolean;
+  z: boolean;
+  ad: boolean;
+  cd: boolean;
+  rcode: number;
+};
+
+/**
+ * @typedef DnsQuestion
+ * @property name The domain name, '.' for the root
+ * @property type The numeric type of the question, e.g. 1 for A or 28 for AAAA
+ * @property class The numeric class of the question, 1 for IN
+ */
+export type DnsQuestion = {
+  name: string;
+  type: number;
+  class: number;
+};
+
+/**
+ * @typedef DnsRecordData
+ * The decoded data of a resource record. Addresses of A and AAAA records are strings, the names of NS, CNAME, PTR and DNAME records are
+ * strings, TXT records are arrays of strings, MX, SOA, SRV and OPT records are objects and the data of other types is a buffer.
+ */
+export type DnsRecordData =
+  | string
+  | string[]
+  | Buffer
+  | {preference: number, exchange: string}
+  | {mname: string, rname: string, serial: number, refresh: number, retry: number, expire: number, minimum: number}
+  | {priority: number, weight: number, port: number, target: string}
+  | {code: number, data: Buffer}[];
+
+/**
+ * @typedef DnsRecord
+ * @property name The domain name of the owner, '.' for the root
+ * @property type The numeric type of the record
+ * @property class The numeric class of the record, for OPT records the UDP payload size of the requestor
+ * @property ttl The time to live in seconds, for OPT records the extended RCODE and flags
+ * @property data The decoded data of the record, a buffer when not decoded
+ */
+export type DnsRecord = DnsQuestion & {
+  ttl: number;
+  data: DnsRecordData;
+};
+
+/**
+ * @typedef DnsMessage
+ */
+export type DnsMessage = {
+  header: DnsHeader;
+  question: DnsQuestion[];
+  answer: DnsRecord[];
+  authority: DnsRecord[];
+  additional: DnsRecord[];
+};
+
+/**
+ * @typedef DnsMessageOptions
+ * @property decodeData When false the data of all records is a buffer, default is true
+ */
+export type DnsMessageOptions = {
+  decodeData?: boolean;
+};
+
+const maxMessageSize = 65535;
+const maxNameLength = 255;
+// A name of 255 bytes has at most 127 labels, so more pointers are only used to slow down the parsing
+const maxPointers = 127;
+
+/**
+ * Creates a parser for DNS messages in the wire format of RFC 1035 ('application/dns-message', RFC 8484). Compressed names may only point
+ * to earlier names, which prevents pointer loops. Messages larger than 65535 bytes are rejected independently of the limit of the parser
+ * configuration.
+ * @param options The options for the records
+ */
+export function getDnsMessageParser(options: DnsMessageOptions = {}) {
+  const {decodeData = true} = options;
+  return (payload: Buffer): DnsMessage => {
+    if (payload.length > maxMessageSize) {
+      throw createError(413, 'DNS message too large', {limit: maxMessageSize, received: payload.length, type: 'entity.too.large'});
+    }
+    const reader = getReader(payload);
+    const id = reader.uint16();
+    const flags = reader.uint16();
+    const counts = [reader.uint16(), reader.uint16(), reader.uint16(), reader.uint16()];
+    const question = Array.from({length: counts[0]}, () => ({name: reader.name(), type: reader.uint16(), class: reader.uint16()}));
+    const [answer, authority, additional] = counts.slice(1).map((count) => Array.from({length: count}, () => readRecord(reader)));
+    if (reader.offset !== payload.length) {
+      throw invalidMessage(`Unexpected data after the last record at offset ${reader.offset}`);
+    }
+    return {
+      header: {
+        id,
+        qr: (flags & 0x8000) !== 0,
+        opcode: (flags >> 11) & 0xf,
+        aa: (flags & 0x400) !== 0,
+        tc: (flags & 0x200) !== 0,
+        rd: (flags & 0x100) !== 0,
+        ra: (flags & 0x80) !== 0,
+        z: (flags & 0x40) !== 0,
+        ad: (flags & 0x20) !== 0,
+        cd: (flags & 0x10) !== 0,
+        rcode: flags & 0xf,
+      },
+      question,
+      answer,
+      authority,
+      additional,
+    };
+  };
+
+  function readRecord(reader: ReturnType<typeof getReader>): DnsRecord {
+    const name = reader.name();
+    const type = reader.uint16();
+    const recordClass = reader.uint16();
+    const ttl = reader.uint32();
+    const length = reader.uint16();
+    const end = reader.offset + length;
+    if (end > reader.buffer.length) {
+      throw invalidMessage(`Message is truncated at offset ${reader.buffer.length}`);
+    }
+    const data = decodeData ? readRecordData(reader, type, end) : reader.buffer.slice(reader.offset, end);
+    if (decodeData && reader.offset !== end) {
+      throw invalidMessage(`Invalid length of the data of the record '${name}'`);
+    }
+    reader.offset = end;
+    return {name, type, class: recordClass, ttl, data};
+  }
+}
+
+/**
+ * Decodes the data of the record types with a defined format
+ * @param reader The reader positioned at the start of the data
+ * @param type The type of the record
+ * @param end The end of the data
+ */
+function readRecordData(reader: ReturnType<typeof getReader>, type: number, end: number): DnsRecordData {
+  const length = end - reader.offset;
+  switch (type) {
+    case 1:
+      return Array.from(reader.bytes(4)).join('.');
+    case 28:
+      return formatIpv6(reader.bytes(16));
+    case 2:
+    case 5:
+    case 12:
+    case 39:
+      return reader.name();
+    case 15:
+      return {preference: reader.uint16(), exchange: reader.name()};
+    case 6:
+      return {
+        mname: reader.name(),
+        rname: reader.name(),
+        serial: reader.uint32(),
+        refresh: reader.uint32(),
+        retry: reader.uint32(),
+        expire: reader.uint32(),
+        minimum: reader.uint32(),
+      };
+    case 16: {
+      const strings: string[] = [];
+      while (reader.offset < end) {
+        strings.push(reader.bytes(reader.uint8()).toString('utf-8'));
+      }
+      return strings;
+    }
+    case 33:
+      return {priority: reader.uint16(), weight: reader.uint16(), port: reader.uint16(), target: reader.name()};
+    case 41: {
+      const ednsOptions: {code: number, data: Buffer}[] = [];
+      while (reader.offset < end) {
+        ednsOptions.push({code: reader.uint16(), data: reader.bytes(reader.uint16())});
+      }
+      return ednsOptions;
+    }
+    default:
+      return reader.bytes(length);
+  }
+}
+
+/**
+ * Formats an IPv6 address with the longest run of at least two zero groups replaced by '::' (RFC 5952)
+ * @param address The 16 bytes of the address
+ */
+function formatIpv6(address: Buffer) {
+  const groups = Array.from({length: 8}, (_, index) => address.readUInt16BE(index * 2).toString(16));
+  let [zerosStart, zerosLength] = [-1, 1];
+  for (let start = 0; start < groups.length; start++) {
+    let length = 0;
+    while (groups[start + length] === '0') {
+      length++;
+    }
+    if (length > zerosLength) {
+      [zerosStart, zerosLength] = [start, length];
+    }
+  }
+  if (zerosStart === -1) {
+    return groups.join(':');
+  }
+  return `${groups.slice(0, zerosStart).join(':')}::${groups.slice(zerosStart + zerosLength).join(':')}`;
+}
+
+/**
+ * Creates a reader for the fields of a DNS message which throws when the message is truncated
+ * @param buffer The DNS message
+ */
+function getReader(buffer: Buffer) {
+  const reader = {
+    buffer,
+    offset: 0,
+    uint8: () => {
+      ensure(1);
+      return buffer[reader.offset++];
+    },
+    uint16: () => {
+      ensure(2);
+      reader.offset += 2;
+      return buffer.readUInt16BE(reader.offset - 2);
+    },
+    uint32: () => {
+      ensure(4);
+      reader.offset += 4;
+      return buffer.readUInt32BE(reader.offset - 4);
+    },
+    bytes: (length: number) => {
+      ensure(length);
+      reader.offset += length;
+      return buffer.slice(reader.offset - length, reader.offset);
+    },
+    name: () => {
+      const {name, end} = readName(buffer, reader.offset);
+      reader.offset = end;
+      return name;
+    },
+  };
+  return reader;
+
+  function ensure(length: number) {
+    if (reader.offset + length > buffer.length) {
+      throw invalidMessage(`Message is truncated at offset ${buffer.length}`);
+    }
+  }
+}
+
+/**
+ * Reads a domain name with compression. Pointers have to point before the labels read since the last jump, so that every pointer moves
+ * backwards and pointer loops are impossible, the number of pointers of a name is limited as well.
+ * @param buffer The DNS message
+ * @param start The offset of the name
+ * @returns The name in presentation format and the offset after the name
+ */
+function readName(buffer: Buffer, start: number) {
+  const labels: string[] = [];
+  let offset = start;
+  let segmentStart = start;
+  let end: number | undefined;
+  let length = 1;
+  let pointers = 0;
+  for (;;) {
+    if (offset >= buffer.length) {
+      throw invalidMessage(`Message is truncated at offset ${buffer.length}`);
+    }
+    const labelLength = buffer[offset];
+    if ((labelLength & 0xc0) === 0xc0) {
+      if (offset + 1 >= buffer.length) {
+        throw invalidMessage(`Message is truncated at offset ${buffer.length}`);
+      }
+      const pointer = buffer.readUInt16BE(offset) & 0x3fff;
+      if (pointer >= segmentStart) {
+        throw invalidMessage(`Compression pointer at offset ${offset} does not point to a previous name`);
+      }
+      if (++pointers > maxPointers) {
+        throw invalidMessage(`Name at offset ${start} has more than ${maxPointers} compression pointers`);
+      }
+      end = end === undefined ? offset + 2 : end;
+      offset = segmentStart = pointer;
+      continue;
+    }
+    if (labelLength & 0xc0) {
+      throw invalidMessage(`Unsupported label type at offset ${offset}`);
+    }
+    if (labelLength === 0) {
+      return {name: labels.length === 0 ? '.' : labels.join('.'), end: end === undefined ? offset + 1 : end};
+    }
+    length += labelLength + 1;
+    if (length > maxNameLength) {
+      throw invalidMessage(`Name at offset ${start} is longer than ${maxNameLength} bytes`);
+    }
+    if (offset + 1 + labelLength > buffer.length) {
+      throw invalidMessage(`Message is truncated at offset ${buffer.length}`);
+    }
+    labels.push(escapeLabel(buffer.slice(offset + 1, offset + 1 + labelLength)));
+    offset += labelLength + 1;
+  }
+}
+
+/**
+ * Converts a label to the presentation format, dots, backslashes and bytes which are not printable are escaped (RFC 4343)
+ * @param label The label
+ */
+function escapeLabel(label: Buffer) {
+  return Array.from(label, (byte) => {
+    if (byte === 0x2e || byte === 0x5c) {
+      return `\\${String.fromCharCode(byte)}`;
+    }
+    return byte > 0x20 && byte < 0x7f ? String.fromCharCode(byte) : `\\${String(byte).padStart(3, '0')}`;
+  }).join('');
+}
+
+function invalidMessage(message: string) {
+  return createError(400, message, {type: 'dns.message.invalid'});
+}
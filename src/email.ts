@@ -0,0 +1,344 @@
+import createError from 'http-errors';
+import {Buffer} from 'buffer';
+import {
+  BufferEncodingRegistry, decodeBuffer, getBufferEncodingRegistry, ParserConfiguration, StreamParserOptions,
+} from './bufferEncoding.js';
+import {parseHeaderParameters} from './multipart.js';
+
+/**
+ * @typedef EmailHeaders
+ * The headers of a message or of a body part with lower case header names and decoded encoded words, repeated headers are joined with a
+ * comma
+ */
+export type EmailHeaders = Record<string, string>;
+
+/**
+ * @typedef EmailAttachment
+ * @property fileName The file name from the 'Content-Disposition' or 'Content-Type' header
+ * @property contentType The content type of the attachment
+ * @property disposition The disposition of the attachment, 'inline' for e.g. images referenced by the HTML body
+ * @property contentId The value of the 'Content-ID' header without the angle brackets
+ * @property size The size of the decoded content in bytes
+ * @property data The decoded content
+ */
+export type EmailAttachment = {
+  fileName?: string;
+  contentType: string;
+  disposition: 'attachment' | 'inline';
+  contentId?: string;
+  size: number;
+  data: Buffer;
+};
+
+/**
+ * @typedef EmailMessage
+ * @property headers The headers of the message
+ * @property text The text/plain parts of the message joined with a line break
+ * @property html The text/html parts of the message joined with a line break
+ * @property attachments All other parts of the message, nested messages included
+ */
+export type EmailMessage = {
+  headers: EmailHeaders;
+  text?: string;
+  html?: string;
+  attachments: EmailAttachment[];
+};
+
+/**
+ * @typedef EmailOptions
+ * @property maxParts The maximum number of body parts, default is 100
+ * @property maxDepth The maximum nesting depth of multipart bodies, default is 10
+ * @property maxHeaderSize The maximum size of the headers of the message or of a body part in bytes, default is 65536
+ */
+export type EmailOptions = {
+  maxParts?: number;
+  maxDepth?: number;
+  maxHeaderSize?: number;
+};
+
+type Entity = {
+  headers: EmailHeaders;
+  body: Buffer;
+};
+
+const CRLF = Buffer.from('\r\n');
+const HEADER_END = Buffer.from('\r\n\r\n');
+const encodedWordRegExp = /=\?([^?\s*]+)(?:\*[^?\s]*)?\?([BbQq])\?([^?\s]*)\?=/g;
+const encodedWordsRegExp = /=\?[^?\s]+\?[BbQq]\?[^?\s]*\?=(?:[ \t]*=\?[^?\s]+\?[BbQq]\?[^?\s]*\?=)*/g;
+const base64RegExp = /^[A-Za-z0-9+/]*={0,2}$/;
+
+// Charsets used in emails which are available in node with another name
+const charsetAliases: Record<string, string> = {
+  'us-ascii': 'ascii',
+  'iso-8859-1': 'latin1',
+  'utf-16le': 'utf16le',
+};
+
+/**
+ * Creates a parser configuration for 'message/rfc822' bodies, e.g. from inbound email webhooks. The headers are parsed with RFC 2047
+ * encoded words decoded, nested multipart bodies are walked and the 'base64' and 'quoted-printable' transfer encodings are decoded. The
+ * text/plain and text/html parts and the encoded words are decoded with the buffer encodings of the body parser for their charsets, which
+ * are selected in the same way as the charsets of request bodies, all other parts are returned as attachments. Without a body parser only
+ * the buffer encodings of node are available. Messages with bare line feeds are converted to CRLF.
+ * @param options The limits for the parts of the message
+ */
+export function getEmailParserConfiguration(options: EmailOptions = {}): ParserConfiguration<Buffer, EmailMessage> {
+  const maxParts = options.maxParts === undefined ? 100 : options.maxParts;
+  const maxDepth = options.maxDepth === undefined ? 10 : options.maxDepth;
+  const maxHeaderSize = options.maxHeaderSize === undefined ? 65536 : options.maxHeaderSize;
+  if (maxParts < 0) {
+    throw new Error('maxParts can not be smaller than 0');
+  }
+  if (maxDepth < 0) {
+    throw new Error('maxDepth can not be smaller than 0');
+  }
+  if (maxHeaderSize < 0) {
+    throw new Error('maxHeaderSize can not be smaller than 0');
+  }
+
+  return {
+    matcher: 'message/rfc822',
+    streamParser: (mediaType, req, {bufferEncodings}: StreamParserOptions = {limit: null}) => {
+      const chunks: Buffer[] = [];
+      return {
+        onData: (chunk: Buffer) => {
+          chunks.push(chunk);
+        },
+        onEnd: () => parseEmail(Buffer.concat(chunks), bufferEncodings || getBufferEncodingRegistry()),
+      };
+    },
+  };
+
+  /**
+   * Parses the message, walks the body parts and collects the texts and the attachments
+   * @param payload The message
+   * @param bufferEncodings The buffer encodings by their encoding names to decode the charsets
+   */
+  function parseEmail(payload: Buffer, bufferEncodings: BufferEncodingRegistry): EmailMessage {
+    const firstLineFeed = payload.indexOf(0x0a);
+    const message = firstLineFeed > 0 && payload[firstLineFeed - 1] !== 0x0d
+      ? Buffer.from(payload.toString('latin1').replace(/\r?\n/g, '\r\n'), 'latin1')
+      : payload;
+    const root = parseEntity(message);
+    const email: EmailMessage = {headers: root.headers, attachments: []};
+    const texts: {text: string[], html: string[]} = {text: [], html: []};
+    let parts = 0;
+    walk(root, 0, 'text/plain');
+    if (texts.text.length > 0) {
+      email.text = texts.text.join('\n');
+    }
+    if (texts.html.length > 0) {
+      email.html = texts.html.join('\n');
+    }
+    return email;
+
+    function walk({headers, body}: Entity, depth: number, defaultType: string) {
+      const contentType = parseHeaderParameters(headers['content-type'] || '');
+      const type = contentType.value.toLowerCase() || defaultType;
+      if (type.startsWith('multipart/')) {
+        if (depth >= maxDepth) {
+          throw createError(413, 'multipart body too deeply nested', {limit: maxDepth, type: 'depth.too.large'});
+        }
+        const boundary = contentType.parameters.boundary;
+        if (!boundary || boundary.length > 70) {
+          throw invalidEmail(`Missing or invalid boundary for media type '${type}'`);
+        }
+        splitMultipart(body, boundary).forEach((part) => {
+          parts++;
+          if (parts > maxParts) {
+            throw createError(413, 'too many parts', {limit: maxParts, type: 'parts.too.many'});
+          }
+          walk(parseEntity(part), depth + 1, type === 'multipart/digest' ? 'message/rfc822' : 'text/plain');
+        });
+        return;
+      }
+      const content = decodeTransferEncoding(body, headers['content-transfer-encoding']);
+      const disposition = parseHeaderParameters(headers['content-disposition'] || '');
+      const dispositionType = disposition.value.toLowerCase();
+      const fileName = disposition.parameters.filename || contentType.parameters.name;
+      if (dispositionType !== 'attachment' && fileName === undefined && (type === 'text/plain' || type === 'text/html')) {
+        texts[type === 'text/plain' ? 'text' : 'html'].push(decodeCharset(content, contentType.parameters.charset || 'us-ascii'));
+        return;
+      }
+      const contentId = headers['content-id'];
+      email.attachments.push({
+        ...(fileName !== undefined ? {fileName: decodeEncodedWords(fileName)} : {}),
+        contentType: type,
+        disposition: dispositionType === 'inline' ? 'inline' : 'attachment',
+        ...(contentId !== undefined ? {contentId: contentId.replace(/^\s*<|>\s*$/g, '')} : {}),
+        size: content.length,
+        data: content,
+      });
+    }
+
+    /**
+     * Splits a message or body part into the headers and the body
+     * @param buffer The message or body part
+     */
+    function parseEntity(buffer: Buffer): Entity {
+      if (buffer.subarray(0, CRLF.length).equals(CRLF)) {
+        return {headers: Object.create(null), body: buffer.subarray(CRLF.length)};
+      }
+      const index = buffer.indexOf(HEADER_END);
+      if ((index === -1 ? buffer.length : index) > maxHeaderSize) {
+        throw createError(413, 'headers too large', {limit: maxHeaderSize, type: 'headers.too.large'});
+      }
+      const headerString = buffer.subarray(0, index === -1 ? buffer.length : index).toString('utf-8');
+      return {
+        headers: parseEmailHeaders(headerString),
+        body: index === -1 ? Buffer.alloc(0) : buffer.subarray(index + HEADER_END.length),
+      };
+    }
+
+    /**
+     * Parses the header lines, folded lines are unfolded and encoded words are decoded except in the headers with parameters
+     * @param headerString The header lines without the terminating empty line
+     */
+    function parseEmailHeaders(headerString: string): EmailHeaders {
+      const headers: EmailHeaders = Object.create(null);
+      headerString.split(/\r\n(?![ \t])/).filter((line) => line !== '').forEach((foldedLine) => {
+        const line = foldedLine.replace(/\r\n/g, '');
+        const index = line.indexOf(':');
+        if (index < 1) {
+          throw invalidEmail(`Malformed header '${line}'`);
+        }
+        const name = line.slice(0, index).trim().toLowerCase();
+        const rawValue = line.slice(index + 1).trim();
+        const value = name === 'content-type' || name === 'content-disposition' ? rawValue : decodeEncodedWords(rawValue);
+        headers[name] = headers[name] === undefined ? value : `${headers[name]}, ${value}`;
+      });
+      return headers;
+    }
+
+    /**
+     * Decodes the encoded words of RFC 2047, the bytes of adjacent encoded words with the same charset are decoded together. Encoded words
+     * with a charset which is not available are kept.
+     * @param value The header value
+     */
+    function decodeEncodedWords(value: string) {
+      return value.replace(encodedWordsRegExp, (encodedWords) => {
+        const words = [...encodedWords.matchAll(encodedWordRegExp)].map(([word, charset, encoding, text]) => ({
+          word,
+          charset: charset.toLowerCase(),
+          data: encoding.toLowerCase() === 'b'
+            ? Buffer.from(text, 'base64')
+            : Buffer.from(
+              text.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))), 'latin1'
+            ),
+        }));
+        return words.reduce<{charset: string, words: typeof words}[]>((groups, word) => {
+          const group = groups[groups.length - 1];
+          if (group && group.charset === word.charset) {
+            group.words.push(word);
+          } else {
+            groups.push({charset: word.charset, words: [word]});
+          }
+          return groups;
+        }, []).map(({charset, words: groupWords}) => {
+          const bufferEncoding = getBufferEncoding(charset);
+          return bufferEncoding
+            ? <string>decodeBuffer(bufferEncoding, Buffer.concat(groupWords.map(({data}) => data)))
+            : groupWords.map(({word}) => word).join(' ');
+        }).join('');
+      });
+    }
+
+    /**
+     * Decodes the content of a text part with the buffer encoding of the charset, throws when the charset is not available
+     * @param content The content after the transfer decoding
+     * @param charset The charset of the part
+     */
+    function decodeCharset(content: Buffer, charset: string) {
+      const bufferEncoding = getBufferEncoding(charset.toLowerCase());
+      if (!bufferEncoding) {
+        throw createError(415, `Unsupported charset '${charset}' in email part`, {charset, type: 'charset.unsupported'});
+      }
+      return <string>decodeBuffer(bufferEncoding, content);
+    }
+
+    function getBufferEncoding(charset: string) {
+      return bufferEncodings.get(charset)
+        || (charsetAliases[charset] !== undefined ? bufferEncodings.get(charsetAliases[charset]) : undefined);
+    }
+  }
+}
+
+/**
+ * Splits a multipart body into the body parts, the preamble and the epilogue are skipped
+ * @param body The multipart body
+ * @param boundary The boundary from the content type
+ */
+function splitMultipart(body: Buffer, boundary: string) {
+  // The first delimiter is not preceded by a line break, so we prepend one to find all delimiters in the same way
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  const data = Buffer.concat([CRLF, body]);
+  const parts: Buffer[] = [];
+  let partStart = -1;
+  let index = data.indexOf(delimiter);
+  while (index !== -1) {
+    let end = index + delimiter.length;
+    if (data[end] === 0x2d && data[end + 1] === 0x2d) {
+      if (partStart !== -1) {
+        parts.push(data.subarray(partStart, index));
+      }
+      return parts;
+    }
+    while (data[end] === 0x20 || data[end] === 0x09) end++;
+    // Lines which only start with the delimiter are part of the content
+    if (data[end] === 0x0d && data[end + 1] === 0x0a) {
+      if (partStart !== -1) {
+        parts.push(data.subarray(partStart, index));
+      }
+      partStart = end + CRLF.length;
+    }
+    index = data.indexOf(delimiter, end);
+  }
+  throw invalidEmail(partStart === -1 ? `Missing boundary '${boundary}' in multipart body` : 'Missing closing boundary of multipart body');
+}
+
+/**
+ * Removes the spaces and tabs at the end of a line of quoted-printable content without a regular expression, which would backtrack on
+ * long runs of whitespace
+ * @param line The line without the line break
+ */
+function trimTrailingBlanks(line: string) {
+  let end = line.length;
+  while (end > 0 && (line[end - 1] === ' ' || line[end - 1] === '\t')) {
+    end--;
+  }
+  return line.slice(0, end);
+}
+
+/**
+ * Decodes the content of a body part with the 'Content-Transfer-Encoding'
+ * @param body The content of the body part
+ * @param transferEncoding The value of the 'Content-Transfer-Encoding' header
+ */
+function decodeTransferEncoding(body: Buffer, transferEncoding = '7bit') {
+  switch (transferEncoding.trim().toLowerCase()) {
+    case '7bit':
+    case '8bit':
+    case 'binary':
+      return body;
+    case 'base64': {
+      const base64 = body.toString('latin1').replace(/\s/g, '');
+      if (!base64RegExp.test(base64) || base64.length % 4 === 1) {
+        throw invalidEmail('Invalid base64 content in email part');
+      }
+      return Buffer.from(base64, 'base64');
+    }
+    case 'quoted-printable':
+      return Buffer.from(body.toString('latin1').split('\r\n').map(trimTrailingBlanks).join('\r\n')
+        .replace(/=\r\n/g, '')
+        .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+    default:
+      throw createError(415, `Unsupported Content-Transfer-Encoding '${transferEncoding}'`, {
+        encoding: transferEncoding,
+        type: 'encoding.unsupported',
+      });
+  }
+}
+
+function invalidEmail(message: string) {
+  return createError(400, message, {type: 'email.invalid'});
+}
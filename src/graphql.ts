@@ -0,0 +1,162 @@
+import createError from 'http-errors';
+import bytes from 'bytes';
+import {createHash} from 'crypto';
+import {Buffer} from 'buffer';
+import {ParsedMediaType} from 'content-type';
+import {parseJson} from './json.js';
+
+/**
+ * @typedef GraphqlRequest
+ * @property query The GraphQL document
+ * @property variables The values of the variables of the operation
+ * @property operationName The name of the operation which should be executed
+ * @property extensions The extensions of the request, e.g. persisted queries
+ */
+export type GraphqlRequest = {
+  query: string;
+  variables: Record<string, unknown> | null;
+  operationName: string | null;
+  extensions: Record<string, unknown> | null;
+};
+
+/**
+ * @typedef GraphqlPersistedQueries
+ * A store for persisted queries by their SHA-256 hashes, e.g. a Map
+ * @property get Function to get a query by its hash
+ * @property set Function to register a query which was sent together with its hash
+ */
+export type GraphqlPersistedQueries = {
+  get: (sha256Hash: string) => string | undefined;
+  set?: (sha256Hash: string, query: string) => unknown;
+};
+
+/**
+ * @typedef GraphqlOptions
+ * @property maxQueryLength The maximum size of the query document in bytes as a number or as a bytes string, default is '100kb'
+ * @property maxTokens The maximum number of lexical tokens of the query document, default is 10000
+ * @property persistedQueries The store for persisted queries, when not set persisted queries are only verified
+ */
+export type GraphqlOptions = {
+  maxQueryLength?: number | string;
+  maxTokens?: number;
+  persistedQueries?: GraphqlPersistedQueries;
+};
+
+const punctuators = '!$&()[]{}|:=@';
+
+/**
+ * Creates a parser for GraphQL POST requests which normalizes 'application/graphql' bodies containing the query document and JSON bodies
+ * to GraphQL requests. JSON bodies are parsed with the default JSON parser and the types of the fields are validated. The query document
+ * is limited by size and number of tokens. Persisted queries with a SHA-256 hash in 'extensions.persistedQuery' are resolved from the
+ * store, when the query is missing, or are verified and registered in the store.
+ * @param options The limits for the query document and the store for persisted queries
+ */
+export function getGraphqlParser(options: GraphqlOptions = {}) {
+  const {maxTokens = 10000, persistedQueries} = options;
+  const maxQueryLength = typeof options.maxQueryLength === 'string'
+    ? bytes(options.maxQueryLength)
+    : options.maxQueryLength === undefined ? bytes('100kb') : options.maxQueryLength;
+  if (maxTokens < 0) {
+    throw new Error('maxTokens can not be smaller than 0');
+  }
+  return (payload: string, mediaType?: ParsedMediaType): GraphqlRequest => {
+    const raw = mediaType?.type === 'application/graphql' ? {query: payload} : parseJson(payload);
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw invalidRequest('GraphQL request has to be an object');
+    }
+    const {variables = null, operationName = null, extensions = null} = raw;
+    let {query} = raw;
+    if (operationName !== null && typeof operationName !== 'string') {
+      throw invalidRequest(`'operationName' has to be a string`);
+    }
+    if (!isObject(variables)) {
+      throw invalidRequest(`'variables' has to be an object`);
+    }
+    if (!isObject(extensions)) {
+      throw invalidRequest(`'extensions' has to be an object`);
+    }
+    const persistedQuery = extensions?.persistedQuery;
+    let sha256Hash: string | undefined;
+    if (persistedQuery !== undefined) {
+      if (!isObject(persistedQuery) || persistedQuery?.version !== 1 || typeof persistedQuery.sha256Hash !== 'string'
+        || !/^[0-9a-f]{64}$/i.test(persistedQuery.sha256Hash)) {
+        throw invalidRequest('Unsupported persisted query');
+      }
+      sha256Hash = persistedQuery.sha256Hash.toLowerCase();
+      if (query === undefined || query === null) {
+        if (!persistedQueries) {
+          throw createError(400, 'PersistedQueryNotSupported', {type: 'persisted.query.not.supported'});
+        }
+        query = persistedQueries.get(sha256Hash);
+        if (query === undefined) {
+          throw createError(400, 'PersistedQueryNotFound', {type: 'persisted.query.not.found'});
+        }
+      } else if (typeof query === 'string' && createHash('sha256').update(query).digest('hex') !== sha256Hash) {
+        throw createError(400, 'provided sha does not match query', {type: 'persisted.query.invalid'});
+      }
+    }
+    if (typeof query !== 'string') {
+      throw invalidRequest(`'query' has to be a string`);
+    }
+    const length = Buffer.byteLength(query);
+    if (length > maxQueryLength) {
+      throw createError(413, 'query too large', {length, limit: maxQueryLength, type: 'query.too.large'});
+    }
+    countTokens(query, maxTokens);
+    if (sha256Hash !== undefined && raw.query !== undefined && raw.query !== null) {
+      persistedQueries?.set?.(sha256Hash, query);
+    }
+    return {query, variables, operationName, extensions};
+  };
+}
+
+/**
+ * Counts the lexical tokens of a GraphQL document and throws for invalid characters, unterminated strings or too many tokens
+ * @param document The GraphQL document
+ * @param maxTokens The maximum number of tokens
+ */
+export function countTokens(document: string, maxTokens: number) {
+  const name = /[_A-Za-z][_0-9A-Za-z]*/y;
+  const number = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?(?![._A-Za-z\d])/y;
+  const string = /"(?:[^"\\\n\r]|\\(?:["\\/bfnrt]|u[0-9A-Fa-f]{4}|u\{[0-9A-Fa-f]+\}))*"/y;
+  const blockString = /"""(?:[^"\\]|\\(?!""")|\\"""|"(?!""))*"""/y;
+  let tokens = 0;
+  let position = 0;
+  while (position < document.length) {
+    const char = document[position];
+    // Ignored tokens are the byte order mark, white space, line terminators, commas and comments
+    if (char === '\ufeff' || char === ' ' || char === '\t' || char === '\n' || char === '\r' || char === ',') {
+      position++;
+      continue;
+    }
+    if (char === '#') {
+      while (position < document.length && document[position] !== '\n' && document[position] !== '\r') position++;
+      continue;
+    }
+    if (++tokens > maxTokens) {
+      throw createError(413, 'too many tokens in query', {limit: maxTokens, type: 'tokens.too.many'});
+    }
+    if (punctuators.includes(char)) {
+      position++;
+    } else if (document.startsWith('...', position)) {
+      position += 3;
+    } else {
+      const pattern = char === '"' ? document.startsWith('"""', position) ? blockString : string : char === '-' || /\d/.test(char) ? number : name;
+      pattern.lastIndex = position;
+      const match = pattern.exec(document);
+      if (!match) {
+        throw invalidRequest(`Syntax Error: Unexpected ${JSON.stringify(char)} in query at position ${position}`);
+      }
+      position += match[0].length;
+    }
+  }
+  return tokens;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> | null {
+  return value === null || (typeof value === 'object' && !Array.isArray(value));
+}
+
+function invalidRequest(message: string) {
+  return createError(400, message, {type: 'entity.parse.failed'});
+}
@@ -0,0 +1,123 @@
+import createError from 'http-errors';
+import zlib from 'zlib';
+import {Buffer, constants} from 'buffer';
+import {ParsedMediaType} from 'content-type';
+import {Request} from './bodyParser.js';
+import {StreamParser, StreamParserOptions} from './bufferEncoding.js';
+
+/**
+ * @typedef GrpcWebOptions
+ * @property decoder Function decoding each message, e.g. a parser created with getProtobufParser, the messages are buffers when not set
+ * @property maxMessages The maximum number of messages, default is 100
+ */
+export type GrpcWebOptions<V> = {
+  decoder?: (message: Buffer, mediaType: ParsedMediaType) => V;
+  maxMessages?: number;
+};
+
+const headerLength = 5;
+const base64RegExp = /^(?:[A-Za-z0-9+/]{4}|[A-Za-z0-9+/]{3}=|[A-Za-z0-9+/]{2}==)*$/;
+
+const messageDecompressors: Record<string, (buffer: Buffer, options: zlib.ZlibOptions) => Buffer> = {
+  gzip: zlib.gunzipSync,
+  deflate: zlib.inflateSync,
+};
+
+/**
+ * Creates a stream parser for gRPC-Web requests ('application/grpc-web' and 'application/grpc-web-text'). The length-prefixed messages
+ * are deframed while the body arrives, the base64 encoding of 'application/grpc-web-text' is decoded incrementally. Compressed messages
+ * are decompressed with the encoding of the header 'grpc-encoding'. The limit of the parser configuration is applied to each message
+ * and to all messages together after the decompression as well. The body is the array of the messages.
+ * @param options The decoder and the limits for the messages
+ */
+export function getGrpcWebParser<V = Buffer>(options: GrpcWebOptions<V> = {}) {
+  const {decoder, maxMessages = 100} = options;
+  if (maxMessages < 0) {
+    throw new Error('maxMessages can not be smaller than 0');
+  }
+  return <U, W>(mediaType: ParsedMediaType, req: Request<U, W>, {limit}: StreamParserOptions = {limit: null}): StreamParser<(Buffer | V)[]> => {
+    const isText = /^application\/grpc-web-text(?:\+|$)/.test(mediaType.type);
+    const encoding = (<string | undefined>req.headers['grpc-encoding'])?.toLowerCase() || 'identity';
+    if (encoding !== 'identity' && !messageDecompressors[encoding]) {
+      throw createError(415, `Unsupported grpc-encoding '${encoding}'`, {encoding, type: 'encoding.unsupported'});
+    }
+    const messages: (Buffer | V)[] = [];
+    let buffer = Buffer.alloc(0);
+    let text = '';
+    let received = 0;
+
+    return {
+      onData: (chunk) => {
+        if (!isText) {
+          addFrameData(chunk);
+          return;
+        }
+        text += chunk.toString('latin1').replace(/[\t\n\r ]/g, '');
+        const end = text.length - text.length % 4;
+        decodeText(text.slice(0, end));
+        text = text.slice(end);
+      },
+      onEnd: () => {
+        if (text !== '') {
+          throw createError(400, 'Invalid base64 encoding of grpc-web-text body', {type: 'frame.invalid'});
+        }
+        if (buffer.length > 0) {
+          throw createError(400, 'Incomplete frame at the end of the body', {type: 'frame.invalid'});
+        }
+        return messages;
+      },
+    };
+
+    function decodeText(base64: string) {
+      if (!base64RegExp.test(base64)) {
+        throw createError(400, 'Invalid base64 encoding of grpc-web-text body', {type: 'frame.invalid'});
+      }
+      // Each frame can be encoded separately, so padding is allowed within the body
+      base64.split(/(?<==)(?=[^=])/).forEach((part) => addFrameData(Buffer.from(part, 'base64')));
+    }
+
+    function addFrameData(chunk: Buffer) {
+      buffer = buffer.length === 0 ? chunk : Buffer.concat([buffer, chunk]);
+      while (buffer.length >= headerLength) {
+        const flags = buffer[0];
+        const length = buffer.readUInt32BE(1);
+        if (flags & 0x80) {
+          throw createError(400, 'Trailer frames are not allowed in requests', {type: 'frame.invalid'});
+        }
+        if (limit !== null && length > limit) {
+          throw createError(413, 'message too large', {limit, received: length, type: 'entity.too.large'});
+        }
+        if (buffer.length < headerLength + length) {
+          return;
+        }
+        const frame = buffer.slice(headerLength, headerLength + length);
+        buffer = buffer.slice(headerLength + length);
+        if (messages.length >= maxMessages) {
+          throw createError(413, 'too many messages', {limit: maxMessages, type: 'messages.too.many'});
+        }
+        const message = flags & 0x01 ? decompress(frame) : frame;
+        received += message.length;
+        if (limit !== null && received > limit) {
+          throw createError(413, 'messages too large', {limit, received, type: 'entity.too.large'});
+        }
+        messages.push(decoder ? decoder(message, mediaType) : message);
+      }
+    }
+
+    function decompress(frame: Buffer) {
+      if (encoding === 'identity') {
+        throw createError(400, 'Compressed message without grpc-encoding', {type: 'frame.invalid'});
+      }
+      try {
+        // The output is limited to the rest of the limit for all messages
+        const maxOutputLength = limit === null ? constants.MAX_LENGTH : Math.max(limit - received, 1);
+        return messageDecompressors[encoding](frame, {maxOutputLength});
+      } catch (err: unknown) {
+        if ((<{code?: string}>err).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw createError(413, 'message too large', {limit, type: 'entity.too.large'});
+        }
+        throw createError(400, `Invalid ${encoding} compression of message`, {type: 'frame.invalid'});
+      }
+    }
+  };
+}
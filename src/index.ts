@@ -1,3 +1,76 @@
-export {bodyParser, Request, Response, ParsedBody, Next, Done, ParserError, DefaultOptions} from './bodyParser.js';
-export {ParserConfiguration, ParserConfigurations, DefaultMediaType} from './bufferEncoding.js';
-export {MediaTypeFunction, MediaTypeIdentifier} from './mediaTypes.js';
+export {bodyParser, Request, Response, ParsedBody, Next, Done, ParserError, DefaultOptions, EmbeddedBodyOptions} from './bodyParser.js';
+export {
+  ParserConfiguration,
+  ParserConfigurations,
+  DefaultMediaType,
+  StreamParser,
+  StreamParserFactory,
+  StreamParserOptions,
+  BufferEncodingRegistry,
+  BufferEncoder,
+  ChunkedBufferEncoder,
+  UnchunkedBufferEncoder,
+} from './bufferEncoding.js';
+export {MediaTypeFunction, MediaTypeIdentifier, getSuffixMatcher} from './mediaTypes.js';
+export {getMultipartParser, MultipartOptions, MultipartFile, MultipartFiles, MultipartFields} from './multipart.js';
+export {getBatchParser, BatchOptions, BatchRequest, BatchError} from './batch.js';
+export {getXmlParser, XmlOptions, XmlElement, XmlNode, XmlObject, XmlValue} from './xml.js';
+export {getCsvParser, CsvOptions, CsvRecord} from './csv.js';
+export {getNdjsonParser, NdjsonOptions} from './ndjson.js';
+export {getYamlParser, YamlOptions} from './yaml.js';
+export {getCborParser, CborOptions, CborValue, CborObject, CborTag} from './cbor.js';
+export {getMsgpackParser, MsgpackOptions, MsgpackValue, MsgpackObject, MsgpackExtension} from './msgpack.js';
+export {
+  getProtobufParser,
+  ProtobufOptions,
+  ProtobufDescriptor,
+  ProtobufMessageDescriptor,
+  ProtobufFieldDescriptor,
+  ProtobufEnumDescriptor,
+  ProtobufNamespaceDescriptor,
+  ProtobufMessage,
+  ProtobufValue,
+  ProtobufUnknownField,
+} from './protobuf.js';
+export {getJson5Parser, Json5Options, Json5Syntax} from './json5.js';
+export {getGraphqlParser, GraphqlOptions, GraphqlRequest, GraphqlPersistedQueries} from './graphql.js';
+export {getJsonRpcParser, jsonRpcErrorCodes, JsonRpcOptions, JsonRpcRequest, JsonRpcError} from './jsonRpc.js';
+export {
+  getJsonPatchParser,
+  getMergePatchParser,
+  createJsonPatch,
+  createMergePatch,
+  JsonPatch,
+  JsonPatchOperation,
+  JsonPatchOptions,
+  MergePatch,
+} from './jsonPatch.js';
+export {getCloudEventsParser, getBinaryCloudEvent, CloudEvent, CloudEventsOptions} from './cloudEvents.js';
+export {getTextFormParser} from './textForm.js';
+export {
+  getJoseParserConfiguration,
+  JoseOptions,
+  JoseMessage,
+  JoseHeader,
+  JoseKeySet,
+  JoseJsonWebKey,
+} from './jose.js';
+export {Decompressors, DecompressorOptions} from './decompressStream.js';
+export {getAes128gcmDecryptor, Aes128gcmKeyResolver} from './aes128gcm.js';
+export {getArchiveParserConfiguration, ArchiveOptions, Archive, ArchiveEntry} from './archive.js';
+export {getSvgParser, svgElements, svgAttributes, SvgOptions, SvgRemoval, SanitizedSvg} from './svg.js';
+export {getGrpcWebParser, GrpcWebOptions} from './grpcWeb.js';
+export {getDnsMessageParser, DnsMessageOptions, DnsMessage, DnsHeader, DnsQuestion, DnsRecord, DnsRecordData} from './dnsMessage.js';
+export {getEmailParserConfiguration, EmailOptions, EmailMessage, EmailAttachment, EmailHeaders} from './email.js';
+export {getCalendarParserConfiguration, CalendarOptions, CalendarComponent, CalendarProperty} from './calendar.js';
+export {
+  getJsonApiParserConfiguration,
+  JsonApiOptions,
+  JsonApiDocument,
+  JsonApiResource,
+  JsonApiResourceIdentifier,
+  JsonApiRelationship,
+  JsonApiErrorObject,
+  JsonApiLinks,
+} from './jsonApi.js';
+export {getBase64Decoder, getBase32Decoder, getBase58Decoder, getBase85Decoder, getZ85Decoder, BinaryToTextOptions, Base58Options} from './binaryToText.js';
@@ -0,0 +1,523 @@
+import createError from 'http-errors';
+import {Buffer} from 'buffer';
+import {
+  CipherGCMTypes,
+  constants,
+  createDecipheriv,
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  createSecretKey,
+  JsonWebKey,
+  KeyObject,
+  privateDecrypt,
+  timingSafeEqual,
+  verify as verifySignature,
+} from 'crypto';
+import {ParsedMediaType} from 'content-type';
+import {createParseError, EmbeddedBodyOptions, getEmbeddedBodyParser, ParsedBody, Request} from './bodyParser.js';
+import {ParserConfiguration, ParserConfigurations} from './bufferEncoding.js';
+import {parseJson} from './json.js';
+
+/**
+ * @typedef JoseHeader
+ * The joined protected and unprotected header parameters of a JWS signature or of a JWE recipient
+ */
+export type JoseHeader = {
+  alg: string;
+  enc?: string;
+  kid?: string;
+  typ?: string;
+  cty?: string;
+  [parameter: string]: unknown;
+};
+
+/**
+ * @typedef JoseJsonWebKey
+ * A JSON Web Key, keys of type 'oct' are used for HMAC signatures, direct encryption and AES key wrapping, private keys are needed for
+ * RSA-OAEP key management
+ */
+export type JoseJsonWebKey = JsonWebKey & {
+  kid?: string;
+  alg?: string;
+  use?: string;
+};
+
+/**
+ * @typedef JoseKeySet
+ * A JWK Set, a PEM encoded key or certificate or an array of JSON Web Keys and PEM encoded keys, keys without 'kid' are used for messages
+ * with any 'kid' header parameter
+ */
+export type JoseKeySet = {keys: JoseJsonWebKey[]} | string | (string | JoseJsonWebKey)[];
+
+/**
+ * @typedef JoseMessage
+ * @property payload The payload parsed with the parser configuration matching the 'cty' header parameter, set after the verification
+ * @property signatureHeader The header of the verified signature when the payload was signed
+ * @property encryptionHeader The header of the recipient which could decrypt the payload when the payload was encrypted
+ */
+export type JoseMessage = {
+  payload?: unknown;
+  signatureHeader?: JoseHeader;
+  encryptionHeader?: JoseHeader;
+};
+
+/**
+ * @typedef JoseOptions
+ * @property keys The keys for the verification of signatures and for the decryption
+ * @property algorithms The allowed 'alg' values of signatures and of the key management of encrypted payloads
+ * @property encryptionAlgorithms The allowed 'enc' values of encrypted payloads, defaults to all supported content encryption algorithms
+ * @property requireSignature Set if encrypted payloads have to contain a signed payload, default is true
+ * @property defaultContentType The media type of payloads without 'cty' header parameter, the payload is a buffer when not set
+ * @property defaultLimit The default limit for the payloads, default is '20kb'
+ * @property bufferEncodings Additional or altered buffer encodings for the payloads
+ */
+export type JoseOptions<T, U> = EmbeddedBodyOptions<T, U> & {
+  keys: JoseKeySet;
+  algorithms: string[];
+  encryptionAlgorithms?: string[];
+  requireSignature?: boolean;
+  defaultContentType?: string;
+};
+
+type JoseKey = {
+  kid?: string;
+  alg?: string;
+  use?: string;
+  secretKey?: KeyObject;
+  publicKey?: KeyObject;
+  privateKey?: KeyObject;
+};
+
+type JwsSignature = {
+  protected: string;
+  header: JoseHeader;
+  signature: Buffer;
+};
+
+type Jws = {
+  type: 'JWS';
+  payload: string;
+  signatures: JwsSignature[];
+};
+
+type Jwe = {
+  type: 'JWE';
+  protected: string;
+  aad?: string;
+  recipients: {header: JoseHeader; encryptedKey: Buffer}[];
+  iv: Buffer;
+  ciphertext: Buffer;
+  tag: Buffer;
+};
+
+const signatureAlgorithms = ['HS256', 'HS384', 'HS512', 'RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512', 'EdDSA'];
+const keyManagementAlgorithms = ['dir', 'RSA-OAEP', 'RSA-OAEP-256', 'A128KW', 'A192KW', 'A256KW'];
+const contentEncryptionAlgorithms = ['A128GCM', 'A192GCM', 'A256GCM', 'A128CBC-HS256', 'A192CBC-HS384', 'A256CBC-HS512'];
+const ecCurves: Record<string, string> = {ES256: 'prime256v1', ES384: 'secp384r1', ES512: 'secp521r1'};
+const joseContentTypes = ['application/jose', 'application/jose+json', 'application/jwt'];
+
+/**
+ * Creates the parser configuration for 'application/jose' (compact serialization) and 'application/jose+json' (JSON serialization) bodies
+ * with JWS or JWE messages. The parser only checks the syntax of the message. The signature is verified and the payload is decrypted and
+ * parsed in the verify function, so that failed verifications are rejected with status 401, not allowed algorithms and missing signatures
+ * with status 403. A JWE can contain a JWS when its 'cty' header parameter is 'JWT' or 'JOSE', the payload is parsed with the parser
+ * configuration matching the 'cty' header parameter.
+ * @param options The keys, the allowed algorithms and the options for the payloads
+ * @param parserConfigurations The parser configurations for the payloads, defaults to the default parsers
+ */
+export function getJoseParserConfiguration<T, U, V>(
+  options: JoseOptions<T, U>,
+  parserConfigurations?: ParserConfigurations<U, V>,
+): ParserConfiguration<string, JoseMessage> {
+  const {algorithms, encryptionAlgorithms = contentEncryptionAlgorithms, requireSignature = true, defaultContentType} = options;
+  if (!Array.isArray(algorithms) || algorithms.length === 0) {
+    throw new Error('algorithms has to contain at least one algorithm');
+  }
+  [...algorithms, ...encryptionAlgorithms].forEach((algorithm) => {
+    if (![...signatureAlgorithms, ...keyManagementAlgorithms, ...contentEncryptionAlgorithms].includes(algorithm)) {
+      throw new Error(`Unsupported algorithm '${algorithm}'`);
+    }
+  });
+  const keys = importKeys(options.keys);
+  const parsedMessages = new WeakMap<JoseMessage, Jws | Jwe>();
+  let parseEmbeddedBody: ((buffer: Buffer, contentTypeHeader: string | undefined, req: Request<U, V>) => ParsedBody<U, V> | undefined) | undefined;
+
+  return {
+    matcher: ['application/jose', 'application/jose+json'],
+    defaultEncoding: 'utf-8',
+    parser: (payload: Buffer | string, mediaType: ParsedMediaType) => {
+      const message: JoseMessage = {};
+      parsedMessages.set(message, parseJose(payload.toString(), mediaType.type === 'application/jose+json'));
+      return message;
+    },
+    verify: (req, res, buffer, body) => {
+      const message = <JoseMessage>body;
+      const parsedMessage = parsedMessages.get(message);
+      if (!parsedMessage) {
+        throw invalidJose('Invalid JOSE message');
+      }
+      let jws: Jws;
+      if (parsedMessage.type === 'JWE') {
+        const {plaintext, header} = decrypt(parsedMessage);
+        message.encryptionHeader = header;
+        if (!joseContentTypes.includes(normalizeContentType(header.cty)?.toLowerCase() || '')) {
+          if (requireSignature) {
+            throw createError(403, 'Encrypted payload has to be signed', {type: 'jose.signature.missing'});
+          }
+          message.payload = parsePayload(plaintext, header.cty, <Request<U, V>><unknown>req);
+          return;
+        }
+        const nestedMessage = parseJose(plaintext.toString('utf-8'), plaintext[0] === 0x7b);
+        if (nestedMessage.type === 'JWE') {
+          throw unsupportedJose('Nested encryption is not supported');
+        }
+        jws = nestedMessage;
+      } else {
+        jws = parsedMessage;
+      }
+      const header = verifyJws(jws);
+      message.signatureHeader = header;
+      message.payload = parsePayload(Buffer.from(jws.payload, 'base64url'), header.cty, <Request<U, V>><unknown>req);
+    },
+  };
+
+  //-------------------------------------------------
+  function verifyJws(jws: Jws) {
+    let allowed = false;
+    let keyFound = false;
+    for (const {protected: protectedHeader, header, signature} of jws.signatures) {
+      if (!algorithms.includes(header.alg) || !signatureAlgorithms.includes(header.alg)) continue;
+      allowed = true;
+      const signingInput = Buffer.from(`${protectedHeader}.${jws.payload}`, 'ascii');
+      for (const key of selectKeys(header, 'sig')) {
+        keyFound = true;
+        if (verifyJwsSignature(header.alg, key, signingInput, signature)) {
+          return header;
+        }
+      }
+    }
+    throw !allowed
+      ? createError(403, `Signature algorithm '${jws.signatures[0].header.alg}' is not allowed`, {type: 'jose.algorithm.forbidden'})
+      : !keyFound
+        ? createError(401, 'No matching key found for the signature', {type: 'jose.key.missing'})
+        : createError(401, 'Signature verification failed', {type: 'jose.signature.invalid'});
+  }
+
+  function decrypt(jwe: Jwe) {
+    let allowed = false;
+    let keyFound = false;
+    for (const {header, encryptedKey} of jwe.recipients) {
+      if (!algorithms.includes(header.alg) || !keyManagementAlgorithms.includes(header.alg)
+        || !encryptionAlgorithms.includes(<string>header.enc)) continue;
+      allowed = true;
+      for (const key of selectKeys(header, 'enc')) {
+        keyFound = true;
+        try {
+          return {plaintext: decryptContent(<string>header.enc, unwrapKey(header.alg, key, encryptedKey), jwe), header};
+        } catch {
+          // try the next key
+        }
+      }
+    }
+    const [{header}] = jwe.recipients;
+    throw !allowed
+      ? createError(403, `Encryption algorithm '${header.alg}' with '${header.enc}' is not allowed`, {type: 'jose.algorithm.forbidden'})
+      : !keyFound
+        ? createError(401, 'No matching key found for the decryption', {type: 'jose.key.missing'})
+        : createError(401, 'Decryption failed', {type: 'jose.decryption.failed'});
+  }
+
+  /**
+   * Selects the keys for the header, keys without 'kid' like PEM encoded keys are used for any 'kid' header parameter
+   * @param header The header of the signature or of the recipient
+   * @param use The use of the key
+   */
+  function selectKeys(header: JoseHeader, use: 'sig' | 'enc') {
+    return keys.filter((key) => (header.kid === undefined || key.kid === undefined || key.kid === header.kid)
+      && (key.alg === undefined || key.alg === header.alg)
+      && (key.use === undefined || key.use === use)
+      && isKeyCompatible(header.alg, key));
+  }
+
+  function parsePayload(payload: Buffer, cty: string | undefined, req: Request<U, V>) {
+    const contentType = normalizeContentType(cty) || defaultContentType;
+    if (contentType === undefined) {
+      return payload;
+    }
+    if (!parseEmbeddedBody) {
+      parseEmbeddedBody = getEmbeddedBodyParser<T, U, V>(parserConfigurations, options);
+    }
+    try {
+      return parseEmbeddedBody(payload, contentType, req);
+    } catch (err: unknown) {
+      throw createParseError(err, {}, 'Invalid payload: ');
+    }
+  }
+}
+
+/**
+ * Parses the compact or the JSON serialization of a JWS or a JWE, throws errors with status 400 when the message is invalid
+ * @param text The serialized message
+ * @param json True for the JSON serialization
+ */
+function parseJose(text: string, json: boolean): Jws | Jwe {
+  if (!json) {
+    const parts = text.trim().split('.');
+    if (parts.length === 3) {
+      return {type: 'JWS', payload: checkBase64url(parts[1], 'payload'), signatures: [parseSignature(parts[0], undefined, parts[2])]};
+    }
+    if (parts.length === 5) {
+      return parseJwe({protected: parts[0], encrypted_key: parts[1], iv: parts[2], ciphertext: parts[3], tag: parts[4]});
+    }
+    throw invalidJose('Invalid JOSE compact serialization');
+  }
+  const raw = parseJson(text);
+  if (!isObject(raw)) {
+    throw invalidJose('JOSE JSON serialization has to be an object');
+  }
+  if ('payload' in raw) {
+    if (raw.signatures === undefined) {
+      return {type: 'JWS', payload: checkBase64url(raw.payload, 'payload'), signatures: [parseSignature(raw.protected, raw.header, raw.signature)]};
+    }
+    if (!Array.isArray(raw.signatures) || raw.signatures.length === 0 || !raw.signatures.every(isObject)) {
+      throw invalidJose(`'signatures' has to be an array of objects`);
+    }
+    return {
+      type: 'JWS',
+      payload: checkBase64url(raw.payload, 'payload'),
+      signatures: raw.signatures.map((signature: Record<string, unknown>) => parseSignature(signature.protected, signature.header, signature.signature)),
+    };
+  }
+  if ('ciphertext' in raw) {
+    return parseJwe(raw);
+  }
+  throw invalidJose('JOSE JSON serialization has to contain a payload or a ciphertext');
+}
+
+function parseSignature(protectedHeader: unknown, header: unknown, signature: unknown): JwsSignature {
+  return {
+    protected: protectedHeader === undefined ? '' : checkBase64url(protectedHeader, 'protected'),
+    header: joinHeaders(protectedHeader, header),
+    signature: decodeBase64url(signature, 'signature'),
+  };
+}
+
+function parseJwe(raw: Record<string, unknown>): Jwe {
+  const recipients = raw.recipients === undefined ? [{header: raw.header, encrypted_key: raw.encrypted_key}] : raw.recipients;
+  if (!Array.isArray(recipients) || recipients.length === 0 || !recipients.every(isObject)) {
+    throw invalidJose(`'recipients' has to be an array of objects`);
+  }
+  if (raw.aad !== undefined) {
+    checkBase64url(raw.aad, 'aad');
+  }
+  return {
+    type: 'JWE',
+    protected: raw.protected === undefined ? '' : checkBase64url(raw.protected, 'protected'),
+    aad: <string | undefined>raw.aad,
+    recipients: recipients.map((recipient: Record<string, unknown>) => {
+      const header = joinHeaders(raw.protected, recipient.header, raw.unprotected);
+      if (typeof header.enc !== 'string') {
+        throw invalidJose(`Header parameter 'enc' has to be a string`);
+      }
+      if (header.zip !== undefined) {
+        throw unsupportedJose('Compressed payloads are not supported');
+      }
+      return {header, encryptedKey: recipient.encrypted_key === undefined ? Buffer.alloc(0) : decodeBase64url(recipient.encrypted_key, 'encrypted_key')};
+    }),
+    iv: decodeBase64url(raw.iv, 'iv'),
+    ciphertext: decodeBase64url(raw.ciphertext, 'ciphertext'),
+    tag: decodeBase64url(raw.tag, 'tag'),
+  };
+}
+
+/**
+ * Joins the base64url encoded protected header with the unprotected headers, the header parameter names have to be disjoint
+ * @param protectedHeader The base64url encoded protected header
+ * @param headers The unprotected headers
+ */
+function joinHeaders(protectedHeader: unknown, ...headers: unknown[]) {
+  const joinedHeader: Record<string, unknown> = {};
+  let decodedHeader: unknown = {};
+  if (protectedHeader !== undefined) {
+    try {
+      decodedHeader = JSON.parse(decodeBase64url(protectedHeader, 'protected').toString('utf-8'));
+    } catch (err: unknown) {
+      throw invalidJose(`Invalid protected header: ${(<Error>err).message}`);
+    }
+  }
+  [decodedHeader, ...headers].forEach((header) => {
+    if (header === undefined) return;
+    if (!isObject(header)) {
+      throw invalidJose('Header has to be an object');
+    }
+    Object.entries(header).forEach(([name, value]) => {
+      if (Object.prototype.hasOwnProperty.call(joinedHeader, name)) {
+        throw invalidJose(`Header parameter '${name}' is not disjoint`);
+      }
+      Object.defineProperty(joinedHeader, name, {value, enumerable: true, writable: true, configurable: true});
+    });
+  });
+  if (joinedHeader.crit !== undefined) {
+    throw unsupportedJose('Critical header parameters are not supported');
+  }
+  if (typeof joinedHeader.alg !== 'string') {
+    throw invalidJose(`Header parameter 'alg' has to be a string`);
+  }
+  if (joinedHeader.cty !== undefined && typeof joinedHeader.cty !== 'string') {
+    throw invalidJose(`Header parameter 'cty' has to be a string`);
+  }
+  return <JoseHeader>joinedHeader;
+}
+
+function checkBase64url(value: unknown, name: string) {
+  if (typeof value !== 'string' || !/^[A-Za-z0-9_-]*$/.test(value) || value.length % 4 === 1) {
+    throw invalidJose(`'${name}' has to be base64url encoded`);
+  }
+  return value;
+}
+
+function decodeBase64url(value: unknown, name: string) {
+  return Buffer.from(checkBase64url(value, name), 'base64url');
+}
+
+function invalidJose(message: string) {
+  return createError(400, message, {type: 'jose.invalid'});
+}
+
+function unsupportedJose(message: string) {
+  return createError(400, message, {type: 'jose.unsupported'});
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function normalizeContentType(cty: string | undefined) {
+  return cty === undefined || cty.includes('/') ? cty : `application/${cty}`;
+}
+
+function importKeys(keySet: JoseKeySet) {
+  const entries = typeof keySet === 'string' ? [keySet] : Array.isArray(keySet) ? keySet : keySet?.keys;
+  if (!Array.isArray(entries)) {
+    throw new Error('keys has to be a JWK Set, a PEM encoded key or an array of JSON Web Keys and PEM encoded keys');
+  }
+  return entries.map((entry): JoseKey => {
+    try {
+      if (typeof entry === 'string') {
+        if (entry.includes('PRIVATE KEY')) {
+          const privateKey = createPrivateKey(entry);
+          return {privateKey, publicKey: createPublicKey(privateKey)};
+        }
+        return {publicKey: createPublicKey(entry)};
+      }
+      const {kid, alg, use} = entry;
+      if (entry.kty === 'oct') {
+        return {kid, alg, use, secretKey: createSecretKey(Buffer.from(<string>entry.k, 'base64url'))};
+      }
+      if (entry.d !== undefined) {
+        const privateKey = createPrivateKey({key: entry, format: 'jwk'});
+        return {kid, alg, use, privateKey, publicKey: createPublicKey(privateKey)};
+      }
+      return {kid, alg, use, publicKey: createPublicKey({key: entry, format: 'jwk'})};
+    } catch (err: unknown) {
+      throw new Error(`Invalid key: ${(<Error>err).message}`);
+    }
+  });
+}
+
+function isKeyCompatible(alg: string, {secretKey, publicKey, privateKey}: JoseKey) {
+  const keyType = publicKey?.asymmetricKeyType;
+  switch (alg.slice(0, 2)) {
+    case 'HS':
+      return secretKey !== undefined;
+    case 'RS':
+      return alg.startsWith('RSA-OAEP') ? privateKey?.asymmetricKeyType === 'rsa' : keyType === 'rsa';
+    case 'PS':
+      return keyType === 'rsa' || keyType === 'rsa-pss';
+    case 'ES':
+      return keyType === 'ec' && publicKey?.asymmetricKeyDetails?.namedCurve === ecCurves[alg];
+    case 'Ed':
+      return keyType === 'ed25519' || keyType === 'ed448';
+    case 'di':
+      return secretKey !== undefined;
+    default:
+      return secretKey?.symmetricKeySize === Number(alg.slice(1, 4)) / 8;
+  }
+}
+
+function verifyJwsSignature(alg: string, {secretKey, publicKey}: JoseKey, signingInput: Buffer, signature: Buffer) {
+  const hash = `sha${alg.slice(2)}`;
+  try {
+    switch (alg.slice(0, 2)) {
+      case 'HS': {
+        const expected = createHmac(hash, <KeyObject>secretKey).update(signingInput).digest();
+        return expected.length === signature.length && timingSafeEqual(expected, signature);
+      }
+      case 'RS':
+        return verifySignature(hash, signingInput, <KeyObject>publicKey, signature);
+      case 'PS':
+        return verifySignature(hash, signingInput, {
+          key: <KeyObject>publicKey,
+          padding: constants.RSA_PKCS1_PSS_PADDING,
+          saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+        }, signature);
+      case 'ES':
+        return verifySignature(hash, signingInput, {key: <KeyObject>publicKey, dsaEncoding: 'ieee-p1363'}, signature);
+      default:
+        return verifySignature(null, signingInput, <KeyObject>publicKey, signature);
+    }
+  } catch {
+    return false;
+  }
+}
+
+function unwrapKey(alg: string, {secretKey, privateKey}: JoseKey, encryptedKey: Buffer) {
+  switch (alg) {
+    case 'dir':
+      if (encryptedKey.length !== 0) {
+        throw new Error('The encrypted key has to be empty for direct encryption');
+      }
+      return (<KeyObject>secretKey).export();
+    case 'RSA-OAEP':
+    case 'RSA-OAEP-256':
+      return privateDecrypt({
+        key: <KeyObject>privateKey,
+        padding: constants.RSA_PKCS1_OAEP_PADDING,
+        oaepHash: alg === 'RSA-OAEP' ? 'sha1' : 'sha256',
+      }, encryptedKey);
+    default: {
+      const decipher = createDecipheriv(`id-aes${alg.slice(1, 4)}-wrap`, <KeyObject>secretKey, Buffer.from('A6A6A6A6A6A6A6A6', 'hex'));
+      return Buffer.concat([decipher.update(encryptedKey), decipher.final()]);
+    }
+  }
+}
+
+function decryptContent(enc: string, cek: Buffer, {protected: protectedHeader, aad, iv, ciphertext, tag}: Jwe) {
+  const bits = Number(enc.slice(1, 4));
+  const additionalData = Buffer.from(aad === undefined ? protectedHeader : `${protectedHeader}.${aad}`, 'ascii');
+  if (enc.endsWith('GCM')) {
+    if (cek.length !== bits / 8) {
+      throw new Error('Invalid content encryption key length');
+    }
+    const decipher = createDecipheriv(<CipherGCMTypes>`aes-${bits}-gcm`, cek, iv, {authTagLength: 16});
+    decipher.setAAD(additionalData);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
+  const keyLength = bits / 8;
+  if (cek.length !== keyLength * 2) {
+    throw new Error('Invalid content encryption key length');
+  }
+  const additionalDataLength = Buffer.alloc(8);
+  additionalDataLength.writeBigUInt64BE(BigInt(additionalData.length * 8));
+  const expectedTag = createHmac(`sha${bits * 2}`, cek.subarray(0, keyLength))
+    .update(additionalData).update(iv).update(ciphertext).update(additionalDataLength)
+    .digest()
+    .subarray(0, keyLength);
+  if (tag.length !== keyLength || !timingSafeEqual(expectedTag, tag)) {
+    throw new Error('Invalid authentication tag');
+  }
+  const decipher = createDecipheriv(`aes-${bits}-cbc`, cek.subarray(keyLength), iv);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
@@ -0,0 +1,13 @@
+/**
+ * Parses a JSON body. Prevents prototype pollution of first level by forbidding to add any keys to '__proto__'.
+ * For speed considerations we do not search for '__proto__' keys in nested objects, which is not necessary if we are careful not to use
+ * Object.assign on nested child objects. For a nested implementation please look at the README file.
+ * @param payload The decoded body
+ */
+export function parseJson(payload: string) {
+  const raw = JSON.parse(payload);
+  if (typeof raw === 'object' && !Array.isArray(raw) && Object.keys(raw.__proto__).length > 0) {
+    throw new Error('__proto__ key not allowed in JSON body on main level');
+  }
+  return raw;
+}
@@ -0,0 +1,303 @@
+import createError from 'http-errors';
+import {ParsedMediaType} from 'content-type';
+
+/**
+ * @typedef Json5Syntax
+ * 'json' for strict JSON, 'jsonc' for JSON with comments and trailing commas and 'json5' for JSON5
+ */
+export type Json5Syntax = 'json' | 'jsonc' | 'json5';
+
+/**
+ * @typedef Json5Options
+ * @property syntax The syntax of bodies without JSON5 media type or 'variant' parameter, default is 'json'
+ * @property maxDepth The maximum nesting depth of arrays and objects, default is 64
+ */
+export type Json5Options = {
+  syntax?: Json5Syntax;
+  maxDepth?: number;
+};
+
+const syntaxes: Json5Syntax[] = ['json', 'jsonc', 'json5'];
+
+const escapes: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+const json5Escapes: Record<string, string> = {...escapes, '\'': '\'', v: '\v'};
+
+/**
+ * Creates a parser for human-authored JSON. Bodies with the media type 'application/json5' or the suffix '+json5' are parsed as JSON5,
+ * bodies with the media type parameter 'variant=jsonc' as JSON with comments and trailing commas and all other bodies with the syntax of
+ * the options. As for JSON, '__proto__' keys are not allowed on the main level and are own properties on nested objects.
+ * @param options The default syntax and the limits for the body
+ */
+export function getJson5Parser(options: Json5Options = {}) {
+  const {syntax = 'json', maxDepth = 64} = options;
+  if (!syntaxes.includes(syntax)) {
+    throw new Error(`Syntax '${syntax}' is not supported`);
+  }
+  return (payload: string, mediaType?: ParsedMediaType) => {
+    const raw = parseJson5(payload, getSyntax(mediaType) || syntax, maxDepth);
+    // Prevent prototype pollution of first level in the same way as for JSON bodies
+    if (typeof raw === 'object' && raw !== null && !Array.isArray(raw) && Object.prototype.hasOwnProperty.call(raw, '__proto__')) {
+      throw createError(400, '__proto__ key not allowed in JSON body on main level', {type: 'entity.parse.failed'});
+    }
+    return raw;
+  };
+}
+
+/**
+ * Gets the syntax from the media type of the request
+ * @param mediaType The parsed media type
+ */
+function getSyntax(mediaType?: ParsedMediaType): Json5Syntax | undefined {
+  const variant = mediaType?.parameters.variant?.toLowerCase();
+  if (variant !== undefined) {
+    if (!(<string[]>syntaxes).includes(variant)) {
+      throw createError(415, `Unsupported variant '${variant}'`, {type: 'mediaType.unsupported'});
+    }
+    return <Json5Syntax>variant;
+  }
+  const subtype = mediaType?.type.split('/')[1];
+  return subtype === 'json5' || subtype?.endsWith('+json5') ? 'json5' : undefined;
+}
+
+/**
+ * Parses a string which contains exactly one JSON, JSONC or JSON5 value
+ * @param text The string
+ * @param syntax The syntax of the string
+ * @param maxDepth The maximum nesting depth of arrays and objects
+ */
+export function parseJson5(text: string, syntax: Json5Syntax, maxDepth: number): unknown {
+  const json5 = syntax === 'json5';
+  const relaxed = syntax !== 'json';
+  let position = 0;
+
+  skipWhitespace();
+  const value = parseValue(0);
+  skipWhitespace();
+  if (position < text.length) {
+    throw unexpected();
+  }
+  return value;
+
+  //-------------------------------------------------
+  function parseValue(depth: number): unknown {
+    const char = text[position];
+    switch (char) {
+      case '{':
+        return parseObject(depth);
+      case '[':
+        return parseArray(depth);
+      case '"':
+        return parseString();
+      case '\'':
+        if (json5) return parseString();
+        break;
+      case 't':
+        return parseLiteral('true', true);
+      case 'f':
+        return parseLiteral('false', false);
+      case 'n':
+        return parseLiteral('null', null);
+      default:
+        if (char !== undefined && /[-+.\d]|[IN]/.test(char)) return parseNumber();
+    }
+    throw unexpected();
+  }
+
+  function parseObject(depth: number) {
+    checkDepth(depth);
+    const object: Record<string, unknown> = {};
+    position++;
+    skipWhitespace();
+    while (text[position] !== '}') {
+      const key = parseKey();
+      skipWhitespace();
+      expect(':');
+      skipWhitespace();
+      // Set '__proto__' as own property in the same way as JSON.parse does
+      Object.defineProperty(object, key, {value: parseValue(depth + 1), enumerable: true, writable: true, configurable: true});
+      skipWhitespace();
+      if (text[position] !== ',') break;
+      position++;
+      skipWhitespace();
+      if (!relaxed && text[position] === '}') throw unexpected();
+    }
+    expect('}');
+    return object;
+  }
+
+  function parseArray(depth: number) {
+    checkDepth(depth);
+    const array: unknown[] = [];
+    position++;
+    skipWhitespace();
+    while (text[position] !== ']') {
+      array.push(parseValue(depth + 1));
+      skipWhitespace();
+      if (text[position] !== ',') break;
+      position++;
+      skipWhitespace();
+      if (!relaxed && text[position] === ']') throw unexpected();
+    }
+    expect(']');
+    return array;
+  }
+
+  function parseKey() {
+    if (text[position] === '"' || (json5 && text[position] === '\'')) {
+      return parseString();
+    }
+    if (!json5) throw unexpected();
+    // Unquoted keys are ECMAScript 5.1 identifier names
+    let key = '';
+    for (;;) {
+      let char = text[position];
+      if (char === '\\') {
+        if (text[position + 1] !== 'u') throw unexpected(position + 1);
+        position += 2;
+        char = String.fromCharCode(parseHex(4));
+        position--;
+      }
+      const pattern = key === '' ? /[\p{ID_Start}$_]/u : /[\p{ID_Continue}$_\u200c\u200d]/u;
+      if (char === undefined || !pattern.test(char)) {
+        if (key === '') throw unexpected();
+        return key;
+      }
+      key += char;
+      position++;
+    }
+  }
+
+  function parseString() {
+    const quote = text[position++];
+    let value = '';
+    let start = position;
+    for (;;) {
+      const char = text[position];
+      if (char === undefined) {
+        throw unexpected();
+      }
+      if (char === quote) {
+        value += text.slice(start, position++);
+        return value;
+      }
+      if (char === '\\') {
+        value += text.slice(start, position++);
+        value += parseEscape();
+        start = position;
+        continue;
+      }
+      if (json5 ? char === '\n' || char === '\r' : char < ' ') {
+        throw unexpected();
+      }
+      position++;
+    }
+  }
+
+  function parseEscape() {
+    const char = text[position++];
+    if (char === 'u') return String.fromCharCode(parseHex(4));
+    if (Object.prototype.hasOwnProperty.call(json5 ? json5Escapes : escapes, char)) {
+      return (json5 ? json5Escapes : escapes)[char];
+    }
+    if (json5) {
+      if (char === 'x') return String.fromCharCode(parseHex(2));
+      if (char === '0' && !/\d/.test(text[position] || '')) return '\0';
+      // Line continuations
+      if (char === '\r') {
+        if (text[position] === '\n') position++;
+        return '';
+      }
+      if (char === '\n' || char === '\u2028' || char === '\u2029') return '';
+      if (char !== undefined && !/\d/.test(char)) return char;
+    }
+    throw unexpected(position - 1);
+  }
+
+  function parseHex(length: number) {
+    const digits = text.slice(position, position + length);
+    if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(digits)) {
+      throw unexpected();
+    }
+    position += length;
+    return parseInt(digits, 16);
+  }
+
+  function parseNumber() {
+    const pattern = json5
+      ? /[-+]?(?:Infinity|NaN|0[xX][0-9a-fA-F]+|(?:(?:0|[1-9]\d*)(?:\.\d*)?|\.\d+)(?:[eE][-+]?\d+)?)/y
+      : /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][-+]?\d+)?/y;
+    pattern.lastIndex = position;
+    const match = pattern.exec(text);
+    if (!match) throw unexpected();
+    position += match[0].length;
+    // Numbers may not be followed directly by identifier characters or digits, e.g. '01' or '1a'
+    if (position < text.length && /[\p{ID_Continue}$.]/u.test(text[position])) throw unexpected();
+    const hex = /^([-+]?)0[xX]([0-9a-fA-F]+)$/.exec(match[0]);
+    if (hex) {
+      return (hex[1] === '-' ? -1 : 1) * parseInt(hex[2], 16);
+    }
+    return Number(match[0]);
+  }
+
+  function parseLiteral(literal: string, value: boolean | null) {
+    if (text.startsWith(literal, position)) {
+      position += literal.length;
+      return value;
+    }
+    throw unexpected();
+  }
+
+  function skipWhitespace() {
+    for (;;) {
+      const char = text[position];
+      if (char === ' ' || char === '\t' || char === '\n' || char === '\r'
+        || (json5 && char !== undefined && /[\v\f\u00a0\u2028\u2029\ufeff\p{Zs}]/u.test(char))) {
+        position++;
+      } else if (relaxed && char === '/' && text[position + 1] === '/') {
+        while (position < text.length && !/[\n\r\u2028\u2029]/.test(text[position])) position++;
+      } else if (relaxed && char === '/' && text[position + 1] === '*') {
+        const end = text.indexOf('*/', position + 2);
+        if (end === -1) {
+          position = text.length;
+          throw unexpected();
+        }
+        position = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  function expect(char: string) {
+    if (text[position] !== char) throw unexpected();
+    position++;
+  }
+
+  function checkDepth(depth: number) {
+    if (depth >= maxDepth) {
+      throw createError(413, 'JSON value too deeply nested', {limit: maxDepth, type: 'depth.too.large'});
+    }
+  }
+
+  function unexpected(at = position) {
+    if (at >= text.length) {
+      return createError(400, 'Unexpected end of data', {type: 'entity.parse.failed'});
+    }
+    const lines = text.slice(0, at).split(/\r\n|[\n\r\u2028\u2029]/);
+    return createError(
+      400,
+      `Unexpected character ${JSON.stringify(text[at])} at line ${lines.length} column ${lines[lines.length - 1].length + 1}`,
+      {type: 'entity.parse.failed'},
+    );
+  }
+}
@@ -0,0 +1,347 @@
+import createError from 'http-errors';
+import {Buffer} from 'buffer';
+import {ParsedMediaType} from 'content-type';
+import {ParserConfiguration} from './bufferEncoding.js';
+import {parseJson} from './json.js';
+
+/**
+ * @typedef JsonApiLinks
+ * The links object, a link is a URI, a link object with the member 'href' or null
+ */
+export type JsonApiLinks = Record<string, string | null | {href: string, [member: string]: unknown}>;
+
+/**
+ * @typedef JsonApiResourceIdentifier
+ * @property type The type of the resource
+ * @property id The identifier of the resource, not set for resources which are created by the request
+ * @property lid The local identifier of a resource which is created by the request
+ * @property meta Non-standard meta-information
+ */
+export type JsonApiResourceIdentifier = {
+  type: string;
+  id?: string;
+  lid?: string;
+  meta?: Record<string, unknown>;
+};
+
+/**
+ * @typedef JsonApiRelationship
+ * @property data The resource linkage
+ * @property links The links of the relationship
+ * @property meta Non-standard meta-information
+ */
+export type JsonApiRelationship = {
+  data?: JsonApiResourceIdentifier | JsonApiResourceIdentifier[] | null;
+  links?: JsonApiLinks;
+  meta?: Record<string, unknown>;
+};
+
+/**
+ * @typedef JsonApiResource
+ * A resource object where the members attributes and relationships are always set
+ */
+export type JsonApiResource = JsonApiResourceIdentifier & {
+  attributes: Record<string, unknown>;
+  relationships: Record<string, JsonApiRelationship>;
+  links?: JsonApiLinks;
+};
+
+/**
+ * @typedef JsonApiErrorObject
+ * An error object of the member errors
+ */
+export type JsonApiErrorObject = {
+  id?: string;
+  links?: JsonApiLinks;
+  status?: string;
+  code?: string;
+  title?: string;
+  detail?: string;
+  source?: {pointer?: string, parameter?: string, header?: string};
+  meta?: Record<string, unknown>;
+};
+
+/**
+ * @typedef JsonApiDocument
+ * A validated JSON:API document. Members of extensions, whose names contain a colon, are kept as additional properties.
+ * @property data The primary data
+ * @property errors The error objects
+ * @property meta Non-standard meta-information
+ * @property jsonapi The object describing the implementation of the client
+ * @property links The links of the document
+ * @property included The included resources indexed by type and by id or local id
+ * @property extensions The extensions of the parameter 'ext' of the media type
+ * @property profiles The profiles of the parameter 'profile' of the media type
+ */
+export type JsonApiDocument = {
+  data?: JsonApiResource | JsonApiResource[] | null;
+  errors?: JsonApiErrorObject[];
+  meta?: Record<string, unknown>;
+  jsonapi?: Record<string, unknown>;
+  links?: JsonApiLinks;
+  included: Record<string, Record<string, JsonApiResource>>;
+  extensions: string[];
+  profiles: string[];
+  [extensionMember: string]: unknown;
+};
+
+/**
+ * @typedef JsonApiOptions
+ * @property extensions The URIs of the supported extensions, requests with other extensions are rejected, default is no extension
+ */
+export type JsonApiOptions = {
+  extensions?: string[];
+};
+
+type JsonObject = Record<string, unknown>;
+
+const documentMembers = ['data', 'errors', 'meta', 'jsonapi', 'links', 'included'];
+const resourceMembers = ['id', 'lid', 'type', 'attributes', 'relationships', 'links', 'meta'];
+const identifierMembers = ['id', 'lid', 'type', 'meta'];
+const relationshipMembers = ['data', 'links', 'meta'];
+const errorMembers = ['id', 'links', 'status', 'code', 'title', 'detail', 'source', 'meta'];
+const mediaTypeParameters = ['ext', 'profile'];
+
+/**
+ * Creates a parser configuration for JSON:API documents ('application/vnd.api+json'). The top-level members, the resource objects and
+ * the relationships are validated. Media type parameters other than 'ext' and 'profile' and extensions which are not supported are
+ * rejected with the status 415 as the specification requires. The included resources are indexed by type and id.
+ * @param options The supported extensions
+ */
+export function getJsonApiParserConfiguration(options: JsonApiOptions = {}): ParserConfiguration<string, JsonApiDocument> {
+  const {extensions: supportedExtensions = []} = options;
+
+  return {
+    matcher: 'application/vnd.api+json',
+    defaultEncoding: 'utf-8',
+    parser: (payload: string | Buffer, mediaType: ParsedMediaType) => {
+      const parameter = Object.keys(mediaType.parameters).find((name) => !mediaTypeParameters.includes(name));
+      if (parameter !== undefined) {
+        throw createError(415, `Unsupported media type parameter '${parameter}' for '${mediaType.type}'`, {
+          type: 'mediaType.unsupported',
+        });
+      }
+      const extensions = splitUris(mediaType.parameters.ext);
+      const extension = extensions.find((uri) => !supportedExtensions.includes(uri));
+      if (extension !== undefined) {
+        throw createError(415, `Unsupported JSON:API extension '${extension}'`, {extension, type: 'mediaType.unsupported'});
+      }
+      const raw = parseJson(payload.toString());
+      const document = expectObject(raw, '');
+      checkMembers(document, documentMembers, '');
+      if (!('data' in document) && !('errors' in document) && !('meta' in document)) {
+        throw invalidDocument('', `has to contain at least one of the members 'data', 'errors' or 'meta'`);
+      }
+      if ('data' in document && 'errors' in document) {
+        throw invalidDocument('', `can not contain both the members 'data' and 'errors'`);
+      }
+      if ('included' in document && !('data' in document)) {
+        throw invalidDocument('', `can not contain the member 'included' without the member 'data'`);
+      }
+      const included: Record<string, Record<string, JsonApiResource>> = Object.create(null);
+      if ('included' in document) {
+        expectArray(document.included, '/included').forEach((value, index) => {
+          const resource = normalizeResource(value, `/included/${index}`);
+          const key = <string>(resource.id !== undefined ? resource.id : resource.lid);
+          const resources = included[resource.type] = included[resource.type] || Object.create(null);
+          if (resources[key] !== undefined) {
+            throw invalidDocument(`/included/${index}`, `is a duplicate of the resource of type '${resource.type}' with id '${key}'`);
+          }
+          resources[key] = resource;
+        });
+      }
+      return {
+        ...Object.fromEntries(Object.entries(document).filter(([name]) => !documentMembers.includes(name))),
+        ...('data' in document ? {data: normalizePrimaryData(document.data)} : {}),
+        ...('errors' in document ? {errors: expectArray(document.errors, '/errors').map(validateError)} : {}),
+        ...('meta' in document ? {meta: expectObject(document.meta, '/meta')} : {}),
+        ...('jsonapi' in document ? {jsonapi: validateJsonApi(document.jsonapi)} : {}),
+        ...('links' in document ? {links: validateLinks(document.links, '/links')} : {}),
+        included,
+        extensions,
+        profiles: splitUris(mediaType.parameters.profile),
+      };
+    },
+  };
+}
+
+/**
+ * Splits the space separated URIs of the media type parameters 'ext' and 'profile'
+ * @param value The value of the parameter
+ */
+function splitUris(value: string | undefined) {
+  return value === undefined ? [] : value.split(' ').filter((uri) => uri !== '');
+}
+
+function normalizePrimaryData(data: unknown) {
+  if (data === null) {
+    return null;
+  }
+  // Resources of the primary data can be sent without id and lid to create them
+  return Array.isArray(data)
+    ? data.map((resource, index) => normalizeResource(resource, `/data/${index}`, false))
+    : normalizeResource(data, '/data', false);
+}
+
+/**
+ * Validates a resource object and sets the members attributes and relationships, a resource has to have an id or a local id unless it is
+ * created
+ * @param value The resource object
+ * @param pointer The JSON pointer of the resource object for the error messages
+ * @param requireId Requires the member id or lid
+ */
+function normalizeResource(value: unknown, pointer: string, requireId = true): JsonApiResource {
+  const resource = expectObject(value, pointer);
+  checkMembers(resource, resourceMembers, pointer);
+  const attributes = 'attributes' in resource ? expectObject(resource.attributes, `${pointer}/attributes`) : {};
+  const relationships = 'relationships' in resource ? expectObject(resource.relationships, `${pointer}/relationships`) : {};
+  const fields = [...Object.keys(attributes), ...Object.keys(relationships)];
+  const reservedField = fields.find((field) => field === 'id' || field === 'type');
+  if (reservedField !== undefined) {
+    throw invalidDocument(pointer, `can not have a field named '${reservedField}'`);
+  }
+  const duplicateField = Object.keys(attributes).find((field) => field in relationships);
+  if (duplicateField !== undefined) {
+    throw invalidDocument(pointer, `can not have the attribute and the relationship '${duplicateField}'`);
+  }
+  return {
+    ...validateIdentifier(resource, pointer, requireId),
+    attributes,
+    relationships: Object.fromEntries(Object.entries(relationships)
+      .map(([name, relationship]) => [name, validateRelationship(relationship, `${pointer}/relationships/${name}`)])),
+    ...('links' in resource ? {links: validateLinks(resource.links, `${pointer}/links`)} : {}),
+  };
+}
+
+/**
+ * Validates the members type, id, lid and meta of a resource object or resource identifier object
+ * @param identifier The resource object or resource identifier object
+ * @param pointer The JSON pointer of the object for the error messages
+ * @param requireId Requires the member id or lid
+ */
+function validateIdentifier(identifier: JsonObject, pointer: string, requireId = true): JsonApiResourceIdentifier {
+  if (typeof identifier.type !== 'string' || identifier.type === '') {
+    throw invalidDocument(`${pointer}/type`, 'has to be a non-empty string');
+  }
+  ['id', 'lid'].filter((name) => name in identifier && typeof identifier[name] !== 'string').forEach((name) => {
+    throw invalidDocument(`${pointer}/${name}`, 'has to be a string');
+  });
+  if (requireId && identifier.id === undefined && identifier.lid === undefined) {
+    throw invalidDocument(pointer, `has to contain the member 'id' or 'lid'`);
+  }
+  return {
+    type: identifier.type,
+    ...(identifier.id !== undefined ? {id: <string>identifier.id} : {}),
+    ...(identifier.lid !== undefined ? {lid: <string>identifier.lid} : {}),
+    ...('meta' in identifier ? {meta: expectObject(identifier.meta, `${pointer}/meta`)} : {}),
+  };
+}
+
+/**
+ * Validates a relationship object, which has to contain at least one of the members data, links and meta
+ * @param value The relationship object
+ * @param pointer The JSON pointer of the relationship object for the error messages
+ */
+function validateRelationship(value: unknown, pointer: string): JsonApiRelationship {
+  const relationship = expectObject(value, pointer);
+  checkMembers(relationship, relationshipMembers, pointer);
+  if (!('data' in relationship) && !('links' in relationship) && !('meta' in relationship)) {
+    throw invalidDocument(pointer, `has to contain at least one of the members 'data', 'links' or 'meta'`);
+  }
+  const {data} = relationship;
+  return {
+    ...('data' in relationship ? {
+      data: data === null
+        ? null
+        : Array.isArray(data)
+          ? data.map((identifier, index) => validateResourceIdentifier(identifier, `${pointer}/data/${index}`))
+          : validateResourceIdentifier(data, `${pointer}/data`),
+    } : {}),
+    ...('links' in relationship ? {links: validateLinks(relationship.links, `${pointer}/links`)} : {}),
+    ...('meta' in relationship ? {meta: expectObject(relationship.meta, `${pointer}/meta`)} : {}),
+  };
+}
+
+function validateResourceIdentifier(value: unknown, pointer: string) {
+  const identifier = expectObject(value, pointer);
+  checkMembers(identifier, identifierMembers, pointer);
+  return validateIdentifier(identifier, pointer);
+}
+
+/**
+ * Validates a links object
+ * @param value The links object
+ * @param pointer The JSON pointer of the links object for the error messages
+ */
+function validateLinks(value: unknown, pointer: string): JsonApiLinks {
+  const links = expectObject(value, pointer);
+  Object.entries(links).forEach(([name, link]) => {
+    if (link !== null && typeof link !== 'string' && typeof expectObject(link, `${pointer}/${name}`).href !== 'string') {
+      throw invalidDocument(`${pointer}/${name}/href`, 'has to be a string');
+    }
+  });
+  return <JsonApiLinks>links;
+}
+
+function validateError(value: unknown, index: number): JsonApiErrorObject {
+  const pointer = `/errors/${index}`;
+  const error = expectObject(value, pointer);
+  checkMembers(error, errorMembers, pointer);
+  ['id', 'status', 'code', 'title', 'detail'].filter((name) => name in error && typeof error[name] !== 'string').forEach((name) => {
+    throw invalidDocument(`${pointer}/${name}`, 'has to be a string');
+  });
+  if ('source' in error) {
+    expectObject(error.source, `${pointer}/source`);
+  }
+  if ('links' in error) {
+    validateLinks(error.links, `${pointer}/links`);
+  }
+  if ('meta' in error) {
+    expectObject(error.meta, `${pointer}/meta`);
+  }
+  return error;
+}
+
+function validateJsonApi(value: unknown) {
+  const jsonapi = expectObject(value, '/jsonapi');
+  if ('version' in jsonapi && typeof jsonapi.version !== 'string') {
+    throw invalidDocument('/jsonapi/version', 'has to be a string');
+  }
+  ['ext', 'profile'].filter((name) => name in jsonapi).forEach((name) => {
+    if (!expectArray(jsonapi[name], `/jsonapi/${name}`).every((uri) => typeof uri === 'string')) {
+      throw invalidDocument(`/jsonapi/${name}`, 'has to be an array of strings');
+    }
+  });
+  return jsonapi;
+}
+
+/**
+ * Throws when the object has a member which is not allowed, members of extensions with a colon in the name are allowed
+ * @param object The object to check
+ * @param members The allowed members
+ * @param pointer The JSON pointer of the object for the error messages
+ */
+function checkMembers(object: JsonObject, members: string[], pointer: string) {
+  const member = Object.keys(object).find((name) => !members.includes(name) && !name.includes(':'));
+  if (member !== undefined) {
+    throw invalidDocument(pointer, `can not contain the member '${member}'`);
+  }
+}
+
+function expectObject(value: unknown, pointer: string) {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalidDocument(pointer, 'has to be an object');
+  }
+  return <JsonObject>value;
+}
+
+function expectArray(value: unknown, pointer: string) {
+  if (!Array.isArray(value)) {
+    throw invalidDocument(pointer, 'has to be an array');
+  }
+  return <unknown[]>value;
+}
+
+function invalidDocument(pointer: string, message: string) {
+  return createError(400, `${pointer === '' ? 'Document' : `Member '${pointer}'`} ${message}`, {type: 'jsonapi.invalid'});
+}
@@ -0,0 +1,332 @@
+import createError from 'http-errors';
+import {parseJson} from './json.js';
+
+/**
+ * @typedef JsonPatchOperation
+ * An operation of a JSON Patch document as defined in RFC 6902
+ */
+export type JsonPatchOperation =
+  | {op: 'add' | 'replace' | 'test'; path: string; value: unknown}
+  | {op: 'remove'; path: string}
+  | {op: 'move' | 'copy'; from: string; path: string};
+
+/**
+ * @typedef JsonPatch
+ * @property operations The validated operations of the patch document
+ * @property apply Function to apply the operations to a copy of the target, throws 409 errors when an operation can not be applied
+ */
+export type JsonPatch = {
+  operations: JsonPatchOperation[];
+  apply: <T>(target: T) => T;
+};
+
+/**
+ * @typedef MergePatch
+ * @property patch The merge patch document
+ * @property apply Function to apply the merge patch to a copy of the target
+ */
+export type MergePatch = {
+  patch: unknown;
+  apply: <T>(target: T) => T;
+};
+
+/**
+ * @typedef JsonPatchOptions
+ * @property maxOperations The maximum number of operations of a patch document, default is 1000
+ */
+export type JsonPatchOptions = {
+  maxOperations?: number;
+};
+
+const forbiddenSegments = ['__proto__', 'constructor'];
+
+/**
+ * Creates a parser for 'application/json-patch+json' bodies. The body is parsed with the default JSON parser and the operations are
+ * validated. Invalid patch documents are rejected with status 422.
+ * @param options The limits for the body
+ */
+export function getJsonPatchParser(options: JsonPatchOptions = {}) {
+  const {maxOperations = 1000} = options;
+  if (maxOperations < 0) {
+    throw new Error('maxOperations can not be smaller than 0');
+  }
+  return (payload: string): JsonPatch => {
+    const document = parseJson(payload);
+    if (Array.isArray(document) && document.length > maxOperations) {
+      throw createError(413, 'too many operations', {limit: maxOperations, type: 'operations.too.many'});
+    }
+    return createJsonPatch(document);
+  };
+}
+
+/**
+ * Creates a parser for 'application/merge-patch+json' bodies. The body is parsed with the default JSON parser and the keys of the
+ * objects are validated. Invalid patch documents are rejected with status 422.
+ */
+export function getMergePatchParser() {
+  return (payload: string): MergePatch => createMergePatch(parseJson(payload));
+}
+
+/**
+ * Validates a JSON Patch document and creates the patch
+ * @param document The parsed patch document
+ */
+export function createJsonPatch(document: unknown): JsonPatch {
+  if (!Array.isArray(document)) {
+    throw invalidPatch('JSON Patch document has to be an array');
+  }
+  const operations = document.map((operation: unknown, index): JsonPatchOperation => {
+    if (typeof operation !== 'object' || operation === null || Array.isArray(operation)) {
+      throw invalidPatch(`Operation ${index} has to be an object`);
+    }
+    const {op, path, from} = <Record<string, unknown>>operation;
+    if (typeof path !== 'string') {
+      throw invalidPatch(`Operation ${index} has to have a 'path'`);
+    }
+    const pathSegments = parsePointer(path);
+    switch (op) {
+      case 'add':
+      case 'replace':
+      case 'test':
+        if (!('value' in operation)) {
+          throw invalidPatch(`Operation ${index} has to have a 'value'`);
+        }
+        return {op, path, value: (<{value: unknown}>operation).value};
+      case 'remove':
+        return {op, path};
+      case 'move':
+      case 'copy': {
+        if (typeof from !== 'string') {
+          throw invalidPatch(`Operation ${index} has to have a 'from'`);
+        }
+        const fromSegments = parsePointer(from);
+        if (op === 'move' && fromSegments.length < pathSegments.length
+          && fromSegments.every((segment, segmentIndex) => segment === pathSegments[segmentIndex])) {
+          throw invalidPatch(`Operation ${index} can not move a value into one of its children`);
+        }
+        return {op, from, path};
+      }
+      default:
+        throw invalidPatch(`Operation ${index} has an invalid 'op'`);
+    }
+  });
+  return {
+    operations,
+    apply: <T>(target: T) => <T>operations.reduce(applyOperation, clone(target)),
+  };
+}
+
+/**
+ * Validates a JSON Merge Patch document and creates the patch
+ * @param document The parsed patch document
+ */
+export function createMergePatch(document: unknown): MergePatch {
+  const objects = [document];
+  while (objects.length > 0) {
+    const object = objects.pop();
+    if (typeof object === 'object' && object !== null && !Array.isArray(object)) {
+      Object.entries(object).forEach(([key, value]) => {
+        checkSegment(key);
+        objects.push(value);
+      });
+    }
+  }
+  return {
+    patch: document,
+    apply: <T>(target: T) => <T>mergePatch(clone(target), document),
+  };
+}
+
+/**
+ * Parses a JSON Pointer as defined in RFC 6901 and refuses segments which could pollute the prototype
+ * @param pointer The JSON Pointer
+ * @returns The unescaped reference tokens
+ */
+export function parsePointer(pointer: string) {
+  if (pointer === '') {
+    return [];
+  }
+  if (pointer[0] !== '/' || /~[^01]|~$/.test(pointer)) {
+    throw invalidPatch(`Invalid JSON Pointer '${pointer}'`);
+  }
+  return pointer.slice(1).split('/').map((segment) => {
+    const unescaped = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+    checkSegment(unescaped);
+    return unescaped;
+  });
+}
+
+/**
+ * Applies a single operation to the document
+ * @param document The document which is changed in place except for the root
+ * @param operation The operation
+ * @param index The index of the operation
+ */
+function applyOperation(document: unknown, operation: JsonPatchOperation, index: number) {
+  switch (operation.op) {
+    case 'add':
+      return add(document, parsePointer(operation.path), clone(operation.value), index);
+    case 'remove':
+      return remove(document, parsePointer(operation.path), index);
+    case 'replace':
+      return replace(document, parsePointer(operation.path), clone(operation.value), index);
+    case 'move': {
+      const value = get(document, parsePointer(operation.from), index);
+      return add(remove(document, parsePointer(operation.from), index), parsePointer(operation.path), value, index);
+    }
+    case 'copy':
+      return add(document, parsePointer(operation.path), clone(get(document, parsePointer(operation.from), index)), index);
+    default:
+      if (!isEqual(get(document, parsePointer(operation.path), index), operation.value)) {
+        throw conflict(`Test of operation ${index} failed`);
+      }
+      return document;
+  }
+}
+
+function get(document: unknown, segments: string[], index: number) {
+  return segments.reduce((value, segment) => {
+    const container = getContainer(value, segment, index);
+    return container[<keyof typeof container>getKey(container, segment, false, index)];
+  }, document);
+}
+
+function add(document: unknown, segments: string[], value: unknown, index: number) {
+  if (segments.length === 0) {
+    return value;
+  }
+  const segment = segments[segments.length - 1];
+  const container = getContainer(get(document, segments.slice(0, -1), index), segment, index);
+  const key = getKey(container, segment, true, index);
+  if (Array.isArray(container)) {
+    container.splice(<number>key, 0, value);
+  } else {
+    setProperty(container, <string>key, value);
+  }
+  return document;
+}
+
+function replace(document: unknown, segments: string[], value: unknown, index: number) {
+  if (segments.length === 0) {
+    return value;
+  }
+  const segment = segments[segments.length - 1];
+  const container = getContainer(get(document, segments.slice(0, -1), index), segment, index);
+  const key = getKey(container, segment, false, index);
+  if (Array.isArray(container)) {
+    container[<number>key] = value;
+  } else {
+    setProperty(container, <string>key, value);
+  }
+  return document;
+}
+
+function remove(document: unknown, segments: string[], index: number) {
+  if (segments.length === 0) {
+    return undefined;
+  }
+  const segment = segments[segments.length - 1];
+  const container = getContainer(get(document, segments.slice(0, -1), index), segment, index);
+  const key = getKey(container, segment, false, index);
+  if (Array.isArray(container)) {
+    container.splice(<number>key, 1);
+  } else {
+    delete container[<string>key];
+  }
+  return document;
+}
+
+function getContainer(value: unknown, segment: string, index: number) {
+  if (typeof value !== 'object' || value === null) {
+    throw conflict(`Path of operation ${index} does not exist at '${segment}'`);
+  }
+  return <unknown[] | Record<string, unknown>>value;
+}
+
+/**
+ * Gets the array index or the object key for a reference token
+ * @param container The array or object
+ * @param segment The reference token
+ * @param adding Allows the index after the last element and '-' for arrays and missing keys for objects
+ * @param index The index of the operation
+ */
+function getKey(container: unknown[] | Record<string, unknown>, segment: string, adding: boolean, index: number) {
+  if (Array.isArray(container)) {
+    const arrayIndex = segment === '-' ? container.length : /^(0|[1-9]\d*)$/.test(segment) ? Number(segment) : NaN;
+    if (!(arrayIndex < container.length || (adding && arrayIndex === container.length))) {
+      throw conflict(`Path of operation ${index} does not exist at '${segment}'`);
+    }
+    return arrayIndex;
+  }
+  if (!adding && !Object.prototype.hasOwnProperty.call(container, segment)) {
+    throw conflict(`Path of operation ${index} does not exist at '${segment}'`);
+  }
+  return segment;
+}
+
+/**
+ * Applies a merge patch as defined in RFC 7386
+ * @param target The target which is changed in place
+ * @param patch The merge patch
+ */
+function mergePatch(target: unknown, patch: unknown): unknown {
+  if (typeof patch !== 'object' || patch === null || Array.isArray(patch)) {
+    return clone(patch);
+  }
+  const result = <Record<string, unknown>>(typeof target === 'object' && target !== null && !Array.isArray(target) ? target : {});
+  Object.entries(patch).forEach(([key, value]) => {
+    checkSegment(key);
+    if (value === null) {
+      delete result[key];
+    } else {
+      setProperty(result, key, mergePatch(result[key], value));
+    }
+  });
+  return result;
+}
+
+/**
+ * Clones a JSON value
+ * @param value The value
+ */
+function clone(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(clone);
+  }
+  if (typeof value === 'object' && value !== null) {
+    const object: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, property]) => setProperty(object, key, clone(property)));
+    return object;
+  }
+  return value;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((value, index) => isEqual(value, b[index]));
+  }
+  if (typeof a === 'object' && a !== null && typeof b === 'object' && b !== null) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => Object.prototype.hasOwnProperty.call(b, key)
+      && isEqual((<Record<string, unknown>>a)[key], (<Record<string, unknown>>b)[key]));
+  }
+  return a === b;
+}
+
+function setProperty(object: Record<string, unknown>, key: string, value: unknown) {
+  Object.defineProperty(object, key, {value, enumerable: true, writable: true, configurable: true});
+}
+
+function checkSegment(segment: string) {
+  if (forbiddenSegments.includes(segment)) {
+    throw invalidPatch(`'${segment}' is not allowed in patch documents`);
+  }
+}
+
+function invalidPatch(message: string) {
+  return createError(422, message, {type: 'patch.invalid'});
+}
+
+function conflict(message: string) {
+  return createError(409, message, {type: 'patch.conflict'});
+}
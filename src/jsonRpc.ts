@@ -0,0 +1,121 @@
+import createError from 'http-errors';
+import {parseJson} from './json.js';
+
+/**
+ * @typedef JsonRpcRequest
+ * @property jsonrpc The version of the protocol, always '2.0'
+ * @property method The name of the method to be invoked
+ * @property params The parameters of the method by position or by name
+ * @property id The identifier of the request, not set for notifications
+ */
+export type JsonRpcRequest = {
+  jsonrpc: '2.0';
+  method: string;
+  params?: unknown[] | Record<string, unknown>;
+  id?: string | number | null;
+};
+
+/**
+ * @typedef JsonRpcError
+ * The error of an invalid request, it is thrown or returned in place of an invalid request of a batch
+ * @property code The JSON-RPC error code, -32700 for parse errors and -32600 for invalid requests
+ * @property id The identifier of the invalid request if it could be detected, otherwise null
+ */
+export interface JsonRpcError extends Error {
+  status: number;
+  type: string;
+  code: number;
+  id: string | number | null;
+}
+
+/**
+ * @typedef JsonRpcOptions
+ * @property maxBatchSize The maximum number of requests in a batch, default is 100
+ */
+export type JsonRpcOptions = {
+  maxBatchSize?: number;
+};
+
+/**
+ * @const jsonRpcErrorCodes
+ * The JSON-RPC error codes of the errors created by the parser
+ */
+export const jsonRpcErrorCodes = {
+  parseError: -32700,
+  invalidRequest: -32600,
+};
+
+/**
+ * Creates a parser for JSON-RPC 2.0 requests. The body is parsed with the default JSON parser and the envelope of the request or of each
+ * request of a batch is validated. Thrown errors carry the JSON-RPC error code in the property 'code'. Invalid requests of a batch do not
+ * fail the batch, they are replaced by JsonRpcErrors, so that a response can be created for each request.
+ * @param options The limits for the body
+ */
+export function getJsonRpcParser(options: JsonRpcOptions = {}) {
+  const {maxBatchSize = 100} = options;
+  if (maxBatchSize < 1) {
+    throw new Error('maxBatchSize can not be smaller than 1');
+  }
+  return (payload: string): JsonRpcRequest | (JsonRpcRequest | JsonRpcError)[] => {
+    let raw: unknown;
+    try {
+      raw = parseJson(payload);
+    } catch (err: unknown) {
+      throw createJsonRpcError(
+        err instanceof SyntaxError ? jsonRpcErrorCodes.parseError : jsonRpcErrorCodes.invalidRequest,
+        (<Error>err).message,
+        null,
+      );
+    }
+    if (!Array.isArray(raw)) {
+      const request = validateRequest(raw);
+      if (request instanceof Error) {
+        throw request;
+      }
+      return request;
+    }
+    if (raw.length === 0) {
+      throw createJsonRpcError(jsonRpcErrorCodes.invalidRequest, 'Invalid Request: batch has to contain at least one request', null);
+    }
+    if (raw.length > maxBatchSize) {
+      throw createError(413, 'batch too large', {
+        code: jsonRpcErrorCodes.invalidRequest,
+        id: null,
+        limit: maxBatchSize,
+        type: 'batch.too.large',
+      });
+    }
+    return raw.map(validateRequest);
+  };
+}
+
+/**
+ * Validates the envelope of a single JSON-RPC request
+ * @param request The parsed request
+ * @returns The request or the error when the request is invalid
+ */
+function validateRequest(request: unknown): JsonRpcRequest | JsonRpcError {
+  if (typeof request !== 'object' || request === null || Array.isArray(request)) {
+    return createJsonRpcError(jsonRpcErrorCodes.invalidRequest, 'Invalid Request: request has to be an object', null);
+  }
+  const {jsonrpc, method, params, id} = <Record<string, unknown>>request;
+  const validId = id === null || typeof id === 'string' || typeof id === 'number';
+  if (id !== undefined && !validId) {
+    return createJsonRpcError(jsonRpcErrorCodes.invalidRequest, `Invalid Request: 'id' has to be a string, a number or null`, null);
+  }
+  const errorId = validId ? <string | number | null>id : null;
+  if (jsonrpc !== '2.0') {
+    return createJsonRpcError(jsonRpcErrorCodes.invalidRequest, `Invalid Request: 'jsonrpc' has to be '2.0'`, errorId);
+  }
+  if (typeof method !== 'string') {
+    return createJsonRpcError(jsonRpcErrorCodes.invalidRequest, `Invalid Request: 'method' has to be a string`, errorId);
+  }
+  if (params !== undefined && (typeof params !== 'object' || params === null)) {
+    return createJsonRpcError(jsonRpcErrorCodes.invalidRequest, `Invalid Request: 'params' has to be an array or an object`, errorId);
+  }
+  return <JsonRpcRequest>request;
+}
+
+function createJsonRpcError(code: number, message: string, id: string | number | null): JsonRpcError {
+  return <JsonRpcError><unknown>createError(400, message, {code, id, type: 'entity.parse.failed'});
+}
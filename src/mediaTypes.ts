@@ -39,6 +39,16 @@ export function getMediaTypeMatchers(mediaTypeIdentifier: MediaTypeIdentifier |
     .map((identifier) => typeof identifier === 'string' ? getMediaTypeIdentifier(identifier) : identifier);
 }
 
+/**
+ * Function to create a MediaTypeFunction which matches all media types with a structured syntax suffix, e.g. 'application/atom+xml' for
+ * the suffix 'xml'
+ * @param suffix The structured syntax suffix without '+'
+ * @param type The type of the media type, matches all types when not set
+ */
+export function getSuffixMatcher(suffix: string, type?: string): MediaTypeFunction {
+  return (mediaType: MediaType) => (!type || mediaType[0] === type) && mediaType[1].endsWith(`+${suffix}`);
+}
+
 /**
  * Function to create the MediaTypeMatcher from a string
  * @param mediaTypeIdentifier
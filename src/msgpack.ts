@@ -0,0 +1,279 @@
+import createError from 'http-errors';
+import bytes from 'bytes';
+import {Buffer} from 'buffer';
+
+/**
+ * @typedef MsgpackValue
+ * A decoded MessagePack object
+ */
+export type MsgpackValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | Buffer
+  | Date
+  | MsgpackValue[]
+  | MsgpackObject
+  | MsgpackExtension
+  | Map<MsgpackValue, MsgpackValue>;
+
+/**
+ * @typedef MsgpackObject
+ * A MessagePack map decoded to an object, integer keys are converted to strings
+ */
+export type MsgpackObject = {[key: string]: MsgpackValue};
+
+/**
+ * @typedef MsgpackExtension
+ * @property type The type of an extension without decoder
+ * @property data The data of the extension
+ */
+export type MsgpackExtension = {
+  type: number;
+  data: Buffer;
+};
+
+/**
+ * @typedef MsgpackOptions
+ * @property mapType 'object' to decode maps to objects with string or integer keys, 'map' to decode maps to Map objects with any keys,
+ * default is 'object'
+ * @property maxDepth The maximum nesting depth of arrays and maps, default is 64
+ * @property maxCollectionSize The maximum number of elements of an array or entries of a map, default is 100000
+ * @property maxStringLength The maximum length of a string, binary or extension in bytes as a number or as a bytes string, default is '1mb'
+ * @property extensions Decoders for extension types which are called with the data of the extension, they overwrite the decoder of the
+ * timestamp extension type -1
+ */
+export type MsgpackOptions = {
+  mapType?: 'object' | 'map';
+  maxDepth?: number;
+  maxCollectionSize?: number;
+  maxStringLength?: number | string;
+  extensions?: Record<number, (data: Buffer) => MsgpackValue>;
+};
+
+const defaultExtensions: Record<number, (data: Buffer) => MsgpackValue> = {
+  // Timestamp extension type with 32, 64 or 96 bits
+  [-1]: (data) => {
+    switch (data.length) {
+      case 4:
+        return new Date(data.readUInt32BE(0) * 1000);
+      case 8: {
+        const nanoseconds = data.readUInt32BE(0) >>> 2;
+        const seconds = (data.readUInt32BE(0) & 0x3) * 2 ** 32 + data.readUInt32BE(4);
+        return new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6));
+      }
+      case 12:
+        return new Date(Number(data.readBigInt64BE(4)) * 1000 + Math.floor(data.readUInt32BE(0) / 1e6));
+      default:
+        throw parseError('Invalid length of timestamp extension');
+    }
+  },
+};
+
+/**
+ * Creates a parser for 'application/msgpack' bodies. Binaries are decoded to Buffers, 64-bit integers which are not safe integers to
+ * BigInts and the timestamp extension type to Dates. Extensions without decoder are returned as MsgpackExtension objects. As for JSON,
+ * '__proto__' keys are not allowed on the main level and are own properties on nested objects.
+ * @param options The output format, the decoders of extension types and the limits for the body
+ */
+export function getMsgpackParser(options: MsgpackOptions = {}) {
+  const {mapType = 'object', maxDepth = 64, maxCollectionSize = 100000} = options;
+  const maxStringLength = typeof options.maxStringLength === 'string'
+    ? bytes(options.maxStringLength)
+    : options.maxStringLength === undefined ? bytes('1mb') : options.maxStringLength;
+  const extensions = {...defaultExtensions, ...options.extensions};
+  if (maxCollectionSize < 0) {
+    throw new Error('maxCollectionSize can not be smaller than 0');
+  }
+  return (payload: Buffer) => {
+    const raw = decodeMsgpack(payload, {mapType, maxDepth, maxCollectionSize, maxStringLength, extensions});
+    // Prevent prototype pollution of first level in the same way as for JSON bodies
+    if (typeof raw === 'object' && raw !== null && Object.getPrototypeOf(raw) === Object.prototype
+      && Object.prototype.hasOwnProperty.call(raw, '__proto__')) {
+      throw parseError('__proto__ key not allowed in MessagePack body on main level');
+    }
+    return raw;
+  };
+}
+
+/**
+ * Decodes a buffer which contains exactly one MessagePack object
+ * @param buffer The buffer
+ * @param options The output format, the decoders of extension types and the limits
+ */
+export function decodeMsgpack(buffer: Buffer, options: Required<Omit<MsgpackOptions, 'maxStringLength'>> & {maxStringLength: number}) {
+  const decoder = new TextDecoder('utf-8', {fatal: true});
+  let position = 0;
+
+  const value = decodeObject(0);
+  if (position !== buffer.length) {
+    throw parseError('Unexpected data after the end of the object');
+  }
+  return value;
+
+  //-------------------------------------------------
+  function decodeObject(depth: number): MsgpackValue {
+    const format = readBytes(1)[0];
+    if (format <= 0x7f) return format;
+    if (format >= 0xe0) return format - 0x100;
+    if (format <= 0x8f) return decodeMap(format & 0x0f, depth);
+    if (format <= 0x9f) return decodeArray(format & 0x0f, depth);
+    if (format <= 0xbf) return decodeString(format & 0x1f);
+    switch (format) {
+      case 0xc0:
+        return null;
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc4:
+        return Buffer.from(readBytes(getLength(readBytes(1).readUInt8(0))));
+      case 0xc5:
+        return Buffer.from(readBytes(getLength(readBytes(2).readUInt16BE(0))));
+      case 0xc6:
+        return Buffer.from(readBytes(getLength(readBytes(4).readUInt32BE(0))));
+      case 0xc7:
+        return decodeExtension(readBytes(1).readUInt8(0));
+      case 0xc8:
+        return decodeExtension(readBytes(2).readUInt16BE(0));
+      case 0xc9:
+        return decodeExtension(readBytes(4).readUInt32BE(0));
+      case 0xca:
+        return readBytes(4).readFloatBE(0);
+      case 0xcb:
+        return readBytes(8).readDoubleBE(0);
+      case 0xcc:
+        return readBytes(1).readUInt8(0);
+      case 0xcd:
+        return readBytes(2).readUInt16BE(0);
+      case 0xce:
+        return readBytes(4).readUInt32BE(0);
+      case 0xcf:
+        return toInteger(readBytes(8).readBigUInt64BE(0));
+      case 0xd0:
+        return readBytes(1).readInt8(0);
+      case 0xd1:
+        return readBytes(2).readInt16BE(0);
+      case 0xd2:
+        return readBytes(4).readInt32BE(0);
+      case 0xd3:
+        return toInteger(readBytes(8).readBigInt64BE(0));
+      case 0xd4:
+      case 0xd5:
+      case 0xd6:
+      case 0xd7:
+      case 0xd8:
+        return decodeExtension(2 ** (format - 0xd4));
+      case 0xd9:
+        return decodeString(readBytes(1).readUInt8(0));
+      case 0xda:
+        return decodeString(readBytes(2).readUInt16BE(0));
+      case 0xdb:
+        return decodeString(readBytes(4).readUInt32BE(0));
+      case 0xdc:
+        return decodeArray(readBytes(2).readUInt16BE(0), depth);
+      case 0xdd:
+        return decodeArray(readBytes(4).readUInt32BE(0), depth);
+      case 0xde:
+        return decodeMap(readBytes(2).readUInt16BE(0), depth);
+      case 0xdf:
+        return decodeMap(readBytes(4).readUInt32BE(0), depth);
+      default:
+        throw parseError(`Invalid format 0x${format.toString(16)}`);
+    }
+  }
+
+  function decodeArray(length: number, depth: number) {
+    checkCollection(length, 1, depth);
+    const array: MsgpackValue[] = [];
+    for (let index = 0; index < length; index++) {
+      array.push(decodeObject(depth + 1));
+    }
+    return array;
+  }
+
+  function decodeMap(length: number, depth: number) {
+    checkCollection(length, 2, depth);
+    if (options.mapType === 'map') {
+      const map = new Map<MsgpackValue, MsgpackValue>();
+      for (let index = 0; index < length; index++) {
+        map.set(decodeObject(depth + 1), decodeObject(depth + 1));
+      }
+      return map;
+    }
+    const object: MsgpackObject = {};
+    for (let index = 0; index < length; index++) {
+      const key = decodeObject(depth + 1);
+      if (typeof key !== 'string' && typeof key !== 'number' && typeof key !== 'bigint') {
+        throw parseError('Only string and integer map keys are supported for objects');
+      }
+      // Set '__proto__' as own property in the same way as JSON.parse does
+      Object.defineProperty(object, String(key), {value: decodeObject(depth + 1), enumerable: true, writable: true, configurable: true});
+    }
+    return object;
+  }
+
+  function decodeString(length: number) {
+    try {
+      return decoder.decode(readBytes(getLength(length)));
+    } catch (err: unknown) {
+      if ((<{status?: number}>err).status) throw err;
+      throw parseError('Invalid UTF-8 in string');
+    }
+  }
+
+  function decodeExtension(length: number): MsgpackValue {
+    const type = readBytes(1).readInt8(0);
+    const data = Buffer.from(readBytes(getLength(length)));
+    if (Object.prototype.hasOwnProperty.call(options.extensions, type)) {
+      return options.extensions[type](data);
+    }
+    const extension: MsgpackExtension = Object.create(null);
+    extension.type = type;
+    extension.data = data;
+    return extension;
+  }
+
+  function checkCollection(length: number, objectsPerEntry: number, depth: number) {
+    if (depth >= options.maxDepth) {
+      throw createError(413, 'MessagePack object too deeply nested', {limit: options.maxDepth, type: 'depth.too.large'});
+    }
+    if (length > options.maxCollectionSize) {
+      throw createError(413, 'collection too large', {limit: options.maxCollectionSize, type: 'collection.too.large'});
+    }
+    // Each object needs at least one byte, so the length can be checked before the objects are decoded
+    if (length * objectsPerEntry > buffer.length - position) {
+      throw parseError('Unexpected end of data');
+    }
+  }
+
+  function getLength(length: number) {
+    if (length > options.maxStringLength) {
+      throw createError(413, 'string too large', {limit: options.maxStringLength, type: 'string.too.large'});
+    }
+    return length;
+  }
+
+  function readBytes(length: number) {
+    if (position + length > buffer.length) {
+      throw parseError('Unexpected end of data');
+    }
+    const chunk = buffer.subarray(position, position + length);
+    position += length;
+    return chunk;
+  }
+}
+
+/**
+ * Converts a 64-bit integer to a number when it is a safe integer
+ * @param value The integer
+ */
+function toInteger(value: bigint) {
+  return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+}
+
+function parseError(message: string) {
+  return createError(400, message, {type: 'entity.parse.failed'});
+}
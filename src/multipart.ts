@@ -0,0 +1,315 @@
+import createError from 'http-errors';
+import bytes from 'bytes';
+import {Buffer} from 'buffer';
+import {ParsedMediaType} from 'content-type';
+import {Request} from './bodyParser.js';
+import {StreamParser} from './bufferEncoding.js';
+
+/**
+ * @typedef MultipartHeaders
+ * The headers of a body part with lower case header names
+ */
+export type MultipartHeaders = Record<string, string>;
+
+/**
+ * @typedef MultipartHandlers
+ * @property onPartBegin function called with the headers of each body part
+ * @property onPartData function called with the chunks of the content of the current body part
+ * @property onPartEnd function called when the current body part is complete
+ */
+export type MultipartHandlers = {
+  onPartBegin: (headers: MultipartHeaders) => void;
+  onPartData: (chunk: Buffer) => void;
+  onPartEnd: () => void;
+};
+
+/**
+ * @typedef MultipartFile
+ * @property fieldName The name of the form field
+ * @property fileName The file name supplied by the client
+ * @property contentType The content type of the file, 'application/octet-stream' when not supplied
+ * @property size The size of the file in bytes
+ * @property data The content of the file
+ */
+export type MultipartFile = {
+  fieldName: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  data: Buffer;
+};
+
+/**
+ * @typedef MultipartFields
+ * The text fields of the form, fields with repeated names are collected in an array
+ */
+export type MultipartFields = Record<string, string | string[]>;
+
+/**
+ * @typedef MultipartFiles
+ * The files of the form grouped by the name of the form field
+ */
+export type MultipartFiles = Record<string, MultipartFile[]>;
+
+/**
+ * @typedef MultipartOptions
+ * @property maxParts The maximum number of parts, default is 1000
+ * @property maxFieldSize The maximum size of a text field as a number in bytes or as a bytes string, default is '1mb'
+ * @property maxFileSize The maximum size of a single file as a number in bytes or as a bytes string, default is no limit
+ * @property maxHeaderSize The maximum size of the headers of a part in bytes, default is 8192
+ */
+export type MultipartOptions = {
+  maxParts?: number;
+  maxFieldSize?: number | string;
+  maxFileSize?: number | string;
+  maxHeaderSize?: number;
+};
+
+const CRLF = Buffer.from('\r\n');
+const HEADER_END = Buffer.from('\r\n\r\n');
+
+/**
+ * Creates a stream parser for 'multipart/form-data' bodies. The text fields are returned as the body, the files are set on the
+ * property 'files' of the request. The total size of the body is limited by the limit of the parser configuration.
+ * @param options The limits for the parts of the body
+ */
+export function getMultipartParser(options: MultipartOptions = {}) {
+  const maxParts = options.maxParts === undefined ? 1000 : options.maxParts;
+  const maxFieldSize = getLimit(options.maxFieldSize, '1mb');
+  const maxFileSize = getLimit(options.maxFileSize, Infinity);
+  if (maxParts < 0) {
+    throw new Error('maxParts can not be smaller than 0');
+  }
+  return <U, V>(mediaType: ParsedMediaType, req: Request<U, V>): StreamParser<MultipartFields> => {
+    const fields: MultipartFields = Object.create(null);
+    const files: MultipartFiles = Object.create(null);
+    let parts = 0;
+    let part: {name: string, fileName?: string, contentType?: string, charset: BufferEncoding, size: number, chunks: Buffer[]} | undefined;
+
+    const splitter = getMultipartSplitter(getBoundary(mediaType), {
+      onPartBegin: (headers) => {
+        parts++;
+        if (parts > maxParts) {
+          throw createError(413, 'too many parts', {type: 'parts.too.many'});
+        }
+        const disposition = parseHeaderParameters(headers['content-disposition'] || '');
+        if (disposition.value.toLowerCase() !== 'form-data' || disposition.parameters.name === undefined) {
+          throw createError(400, `Invalid 'Content-Disposition' header in part ${parts}`, {type: 'part.invalid'});
+        }
+        const partType = parseHeaderParameters(headers['content-type'] || '');
+        const charset = partType.parameters.charset?.toLowerCase();
+        part = {
+          name: disposition.parameters.name,
+          fileName: disposition.parameters.filename,
+          contentType: partType.value || undefined,
+          charset: charset && Buffer.isEncoding(charset) ? charset : 'utf-8',
+          size: 0,
+          chunks: [],
+        };
+      },
+      onPartData: (chunk) => {
+        const currentPart = <NonNullable<typeof part>>part;
+        currentPart.size += chunk.length;
+        if (currentPart.fileName === undefined && currentPart.size > maxFieldSize) {
+          throw createError(413, `field '${currentPart.name}' too large`, {limit: maxFieldSize, type: 'field.too.large'});
+        }
+        if (currentPart.fileName !== undefined && currentPart.size > maxFileSize) {
+          throw createError(413, `file '${currentPart.fileName}' too large`, {limit: maxFileSize, type: 'file.too.large'});
+        }
+        currentPart.chunks.push(chunk);
+      },
+      onPartEnd: () => {
+        const {name, fileName, contentType, charset, size, chunks} = <NonNullable<typeof part>>part;
+        if (fileName === undefined) {
+          const value = Buffer.concat(chunks).toString(charset);
+          const existing = fields[name];
+          fields[name] = existing === undefined ? value : Array.isArray(existing) ? [...existing, value] : [existing, value];
+        } else {
+          (files[name] = files[name] || []).push({
+            fieldName: name,
+            fileName,
+            contentType: contentType || 'application/octet-stream',
+            size,
+            data: Buffer.concat(chunks),
+          });
+        }
+        part = undefined;
+      },
+    }, options.maxHeaderSize);
+
+    return {
+      onData: splitter.onData,
+      onEnd: () => {
+        splitter.onEnd();
+        (<{files?: MultipartFiles}>req).files = files;
+        return fields;
+      },
+    };
+  };
+}
+
+/**
+ * Creates a parser which splits a multipart body into its parts while the chunks of the stream are arriving. Only the tail of the
+ * data which could contain the beginning of a delimiter is buffered.
+ * @param boundary The boundary from the media type of the request
+ * @param handlers The functions to handle the parts
+ * @param maxHeaderSize The maximum size of the headers of a part in bytes
+ */
+export function getMultipartSplitter(boundary: string, handlers: MultipartHandlers, maxHeaderSize = 8192) {
+  // The first delimiter is not preceded by a line break, so we prepend one to find all delimiters in the same way
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  let pending = Buffer.from(CRLF);
+  let state: 'preamble' | 'delimiter' | 'headers' | 'body' | 'epilogue' = 'preamble';
+
+  return {onData, onEnd};
+
+  //-------------------------------------------------
+  function onData(chunk: Buffer) {
+    pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+    let progress = true;
+    while (progress) {
+      progress = false;
+      if (state === 'preamble') {
+        const index = pending.indexOf(delimiter);
+        if (index === -1) {
+          pending = pending.subarray(Math.max(0, pending.length - delimiter.length + 1));
+        } else {
+          pending = pending.subarray(index + delimiter.length);
+          state = 'delimiter';
+          progress = true;
+        }
+      } else if (state === 'delimiter') {
+        let index = 0;
+        while (index < pending.length && (pending[index] === 0x20 || pending[index] === 0x09)) index++;
+        if (pending.length - index >= 2) {
+          if (pending[index] === 0x2d && pending[index + 1] === 0x2d) {
+            state = 'epilogue';
+          } else if (pending[index] === 0x0d && pending[index + 1] === 0x0a) {
+            state = 'headers';
+            // keep the line break so that a part without headers ends directly with the header end sequence
+            pending = pending.subarray(index);
+            progress = true;
+          } else {
+            throw createError(400, 'Malformed multipart delimiter', {type: 'multipart.invalid'});
+          }
+        }
+      } else if (state === 'headers') {
+        const index = pending.indexOf(HEADER_END);
+        if ((index === -1 ? pending.length : index) > maxHeaderSize) {
+          throw createError(413, 'part headers too large', {limit: maxHeaderSize, type: 'headers.too.large'});
+        }
+        if (index !== -1) {
+          handlers.onPartBegin(parseHeaders(pending.subarray(CRLF.length, index).toString('utf-8')));
+          pending = pending.subarray(index + HEADER_END.length);
+          state = 'body';
+          progress = true;
+        }
+      } else if (state === 'body') {
+        const index = pending.indexOf(delimiter);
+        if (index === -1) {
+          const end = pending.length - delimiter.length + 1;
+          if (end > 0) {
+            handlers.onPartData(pending.subarray(0, end));
+            pending = pending.subarray(end);
+          }
+        } else {
+          if (index > 0) {
+            handlers.onPartData(pending.subarray(0, index));
+          }
+          handlers.onPartEnd();
+          pending = pending.subarray(index + delimiter.length);
+          state = 'delimiter';
+          progress = true;
+        }
+      } else {
+        pending = Buffer.alloc(0);
+      }
+    }
+  }
+
+  function onEnd() {
+    if (state !== 'epilogue') {
+      throw createError(400, 'Unexpected end of multipart body', {type: 'multipart.incomplete'});
+    }
+  }
+}
+
+/**
+ * Gets the boundary from the parameters of the media type
+ * @param mediaType The parsed media type of the request
+ */
+export function getBoundary(mediaType: ParsedMediaType) {
+  const boundary = mediaType.parameters.boundary;
+  if (!boundary || boundary.length > 70) {
+    throw createError(400, `Missing or invalid boundary for media type '${mediaType.type}'`, {type: 'boundary.invalid'});
+  }
+  return boundary;
+}
+
+/**
+ * Parses the header lines of a part. Header names are converted to lower case, repeated headers are joined with a comma.
+ * @param headerString The header lines without the terminating empty line
+ */
+export function parseHeaders(headerString: string): MultipartHeaders {
+  const headers: MultipartHeaders = Object.create(null);
+  headerString.split('\r\n').filter((line) => line !== '').forEach((line) => {
+    const index = line.indexOf(':');
+    if (index < 1) {
+      throw createError(400, `Malformed part header '${line}'`, {type: 'multipart.invalid'});
+    }
+    const name = line.slice(0, index).trim().toLowerCase();
+    const value = line.slice(index + 1).trim();
+    headers[name] = headers[name] === undefined ? value : `${headers[name]}, ${value}`;
+  });
+  return headers;
+}
+
+/**
+ * Parses a header value with parameters like 'form-data; name="field"; filename="file.txt"'. Parameter names are converted to lower
+ * case, extended parameters like "filename*=UTF-8''file.txt" replace the plain parameter.
+ * @param header The header value
+ */
+export function parseHeaderParameters(header: string) {
+  const parameters: Record<string, string> = Object.create(null);
+  const match = /^\s*([^;\s]*)\s*/.exec(header);
+  const value = match ? match[1] : '';
+  const parameterRegExp = /;\s*([^\s=;]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g;
+  let parameterMatch: RegExpExecArray | null;
+  while ((parameterMatch = parameterRegExp.exec(header)) !== null) {
+    const name = parameterMatch[1].toLowerCase();
+    const parameterValue = parameterMatch[2] !== undefined ? parameterMatch[2].replace(/\\(.)/g, '$1') : parameterMatch[3].trim();
+    if (name.endsWith('*')) {
+      const extendedValue = decodeExtendedParameter(parameterValue);
+      if (extendedValue !== undefined) {
+        parameters[name.slice(0, -1)] = extendedValue;
+      }
+    } else if (parameters[name] === undefined) {
+      parameters[name] = parameterValue;
+    }
+  }
+  return {value, parameters};
+}
+
+/**
+ * Decodes an extended parameter value as defined in RFC 5987, returns undefined if the charset is not supported
+ * @param value The parameter value in the form charset'language'percent-encoded-value
+ */
+function decodeExtendedParameter(value: string) {
+  const match = /^([^']*)'[^']*'(.*)$/.exec(value);
+  if (!match) return undefined;
+  const charset = match[1].toLowerCase();
+  const bytesArray = Buffer.from(match[2].replace(/%([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+  if (charset === 'utf-8' || charset === 'utf8') return bytesArray.toString('utf-8');
+  if (charset === 'iso-8859-1' || charset === 'latin1') return bytesArray.toString('latin1');
+  return undefined;
+}
+
+/**
+ * Converts a limit as a bytes string or number to a number of bytes
+ * @param limit The limit from the options
+ * @param defaultLimit The limit if the option is not set
+ */
+function getLimit(limit: number | string | undefined, defaultLimit: number | string) {
+  const value = limit === undefined ? defaultLimit : limit;
+  return typeof value === 'string' ? bytes(value) : value;
+}
@@ -0,0 +1,219 @@
+import createError from 'http-errors';
+import bytes from 'bytes';
+import {Buffer} from 'buffer';
+import {ParsedMediaType} from 'content-type';
+import {Request} from './bodyParser.js';
+import {StreamParser} from './bufferEncoding.js';
+
+/**
+ * @typedef NdjsonOptions
+ * @property maxRecordSize The maximum size of a single record as a number in bytes or as a bytes string, default is '1mb'
+ * @property maxRecords The maximum number of records, default is 10000
+ * @property highWaterMark The number of parsed records which are buffered before the request is paused, default is 16
+ * @property reviver The reviver which is supplied to JSON.parse
+ */
+export type NdjsonOptions = {
+  maxRecordSize?: number | string;
+  maxRecords?: number;
+  highWaterMark?: number;
+  reviver?: (key: string, value: unknown) => unknown;
+};
+
+const LF = 0x0a;
+const RS = 0x1e;
+
+/**
+ * An async iterator without records which is used as the body of empty requests
+ */
+export const emptyRecords: AsyncIterableIterator<unknown> = (async function* () { /* no records */ })();
+
+/**
+ * Creates a stream parser for newline delimited JSON ('application/x-ndjson', 'application/jsonl') and JSON text sequences
+ * ('application/json-seq', RFC 7464). The body is an async iterator which is handed to the next middleware immediately and which yields
+ * the records while they arrive. Errors are thrown by the iterator after the records preceding the error and have the zero based index of
+ * the failing record in the property 'record'. The request is paused while the iterator is not consumed.
+ * @param options The limits for the records
+ */
+export function getNdjsonParser(options: NdjsonOptions = {}) {
+  const {maxRecords = 10000, highWaterMark = 16, reviver} = options;
+  const maxRecordSize = typeof options.maxRecordSize === 'string'
+    ? bytes(options.maxRecordSize)
+    : options.maxRecordSize === undefined ? bytes('1mb') : options.maxRecordSize;
+  if (maxRecords < 0) {
+    throw new Error('maxRecords can not be smaller than 0');
+  }
+  if (highWaterMark < 1) {
+    throw new Error('highWaterMark can not be smaller than 1');
+  }
+  return <U, V>(mediaType: ParsedMediaType, req: Request<U, V>): StreamParser<AsyncIterableIterator<unknown>> => {
+    const charset = mediaType.parameters.charset?.toLowerCase();
+    if (charset !== undefined && charset !== 'utf-8' && charset !== 'utf8') {
+      throw createError(415, `Unsupported charset '${charset}', records have to be encoded in UTF-8`, {
+        charset,
+        type: 'charset.unsupported',
+      });
+    }
+    const isSequence = mediaType.type === 'application/json-seq';
+    const separator = isSequence ? RS : LF;
+    const records = getRecordQueue(req, highWaterMark);
+    let pending: Buffer[] = [];
+    let pendingSize = 0;
+    let index = 0;
+    let leading = isSequence;
+
+    return {
+      onData: (chunk) => {
+        if (records.isClosed()) return;
+        let start = 0;
+        let end: number;
+        while ((end = chunk.indexOf(separator, start)) !== -1) {
+          addPending(chunk.subarray(start, end));
+          endRecord();
+          start = end + 1;
+        }
+        addPending(chunk.subarray(start));
+      },
+      onEnd: () => {
+        if (!records.isClosed()) {
+          endRecord();
+          records.end();
+        }
+        return records.iterator;
+      },
+      body: records.iterator,
+      onError: (err) => records.fail(err),
+    };
+
+    //-------------------------------------------------
+    function addPending(part: Buffer) {
+      pendingSize += part.length;
+      if (pendingSize > maxRecordSize) {
+        throw createError(413, `record ${index} too large`, {limit: maxRecordSize, record: index, type: 'record.too.large'});
+      }
+      if (part.length > 0) pending.push(part);
+    }
+
+    function endRecord() {
+      const record = Buffer.concat(pending);
+      pending = [];
+      pendingSize = 0;
+      const text = record.toString('utf-8');
+      if (leading) {
+        leading = false;
+        if (text.trim() !== '') {
+          throw createError(400, 'JSON text sequence does not start with a record separator', {record: index, type: 'entity.parse.failed'});
+        }
+        return;
+      }
+      if (text.trim() === '') return;
+      if (index >= maxRecords) {
+        throw createError(413, 'too many records', {limit: maxRecords, record: index, type: 'records.too.many'});
+      }
+      let value: unknown;
+      try {
+        value = JSON.parse(text, reviver);
+      } catch (err: unknown) {
+        throw createError(400, `${(<Error>err).message} in record ${index}`, {record: index, type: 'entity.parse.failed'});
+      }
+      // A top level number, boolean or null which is not followed by a line feed may be truncated (RFC 7464, section 2.4)
+      if (isSequence && record[record.length - 1] !== LF && (value === null || typeof value !== 'object') && typeof value !== 'string') {
+        throw createError(400, `Truncated record ${index}`, {record: index, type: 'entity.parse.failed'});
+      }
+      if (value !== null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, '__proto__')) {
+        throw createError(400, `__proto__ key not allowed in record ${index}`, {record: index, type: 'entity.parse.failed'});
+      }
+      index++;
+      records.push(value);
+    }
+  };
+}
+
+/**
+ * Creates the queue of the parsed records which is consumed with an async iterator. The request is paused when the number of queued
+ * records reaches the high water mark and resumed when the records are consumed, requests without stream are not paused.
+ * @param req The request
+ * @param highWaterMark The number of queued records when the request is paused
+ */
+function getRecordQueue<U, V>(req: Request<U, V>, highWaterMark: number) {
+  const queue: unknown[] = [];
+  let waiting: {resolve: (result: IteratorResult<unknown>) => void, reject: (err: Error) => void} | undefined;
+  let error: Error | undefined;
+  let ended = false;
+  let closed = false;
+  let paused = false;
+
+  const iterator: AsyncIterableIterator<unknown> = {
+    [Symbol.asyncIterator]: () => iterator,
+    next: () => {
+      if (queue.length > 0) {
+        const value = queue.shift();
+        if (paused && queue.length < highWaterMark) {
+          paused = false;
+          req.resume();
+        }
+        return Promise.resolve({value, done: false});
+      }
+      if (error) {
+        const err = error;
+        error = undefined;
+        closed = true;
+        return Promise.reject(err);
+      }
+      if (ended || closed) {
+        return Promise.resolve({value: undefined, done: true});
+      }
+      return new Promise((resolve, reject) => {
+        waiting = {resolve, reject};
+      });
+    },
+    return: () => {
+      // The remaining records are discarded when the consumer stops the iteration
+      closed = true;
+      queue.length = 0;
+      if (paused) {
+        paused = false;
+        req.resume();
+      }
+      return Promise.resolve({value: undefined, done: true});
+    },
+  };
+
+  return {
+    iterator,
+    isClosed: () => closed,
+    push: (value: unknown) => {
+      if (closed) return;
+      if (waiting) {
+        const {resolve} = waiting;
+        waiting = undefined;
+        resolve({value, done: false});
+        return;
+      }
+      queue.push(value);
+      // Embedded bodies are parsed with a plain object as request, which can not be paused
+      if (!paused && queue.length >= highWaterMark && typeof req.pause === 'function') {
+        paused = true;
+        req.pause();
+      }
+    },
+    end: () => {
+      ended = true;
+      if (waiting) {
+        const {resolve} = waiting;
+        waiting = undefined;
+        resolve({value: undefined, done: true});
+      }
+    },
+    fail: (err: Error) => {
+      if (closed || ended) return;
+      if (waiting) {
+        const {reject} = waiting;
+        waiting = undefined;
+        closed = true;
+        reject(err);
+        return;
+      }
+      error = err;
+    },
+  };
+}
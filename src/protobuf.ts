@@ -0,0 +1,432 @@
+import createError from 'http-errors';
+import {Buffer} from 'buffer';
+import {ParsedMediaType} from 'content-type';
+
+/**
+ * @typedef ProtobufFieldDescriptor
+ * @property type The scalar type or the name of the message or enum type, for map fields the type of the values
+ * @property id The field number
+ * @property rule 'repeated' for repeated fields
+ * @property keyType The scalar type of the keys of map fields
+ * @property options The options of the field, packed encoding is always accepted for repeated scalar fields
+ */
+export type ProtobufFieldDescriptor = {
+  type: string;
+  id: number;
+  rule?: 'optional' | 'required' | 'repeated';
+  keyType?: string;
+  options?: Record<string, unknown>;
+};
+
+/**
+ * @typedef ProtobufMessageDescriptor
+ * @property fields The fields of the message by name
+ * @property nested The nested message and enum types
+ */
+export type ProtobufMessageDescriptor = {
+  fields: Record<string, ProtobufFieldDescriptor>;
+  nested?: Record<string, ProtobufDescriptor>;
+  [key: string]: unknown;
+};
+
+/**
+ * @typedef ProtobufEnumDescriptor
+ * @property values The values of the enum by name
+ */
+export type ProtobufEnumDescriptor = {
+  values: Record<string, number>;
+  [key: string]: unknown;
+};
+
+/**
+ * @typedef ProtobufNamespaceDescriptor
+ * @property nested The nested packages, message and enum types
+ */
+export type ProtobufNamespaceDescriptor = {
+  nested?: Record<string, ProtobufDescriptor>;
+  [key: string]: unknown;
+};
+
+/**
+ * @typedef ProtobufDescriptor
+ * A JSON descriptor in the format of protobuf.js, e.g. created with 'pbjs -t json'
+ */
+export type ProtobufDescriptor = ProtobufMessageDescriptor | ProtobufEnumDescriptor | ProtobufNamespaceDescriptor;
+
+/**
+ * @typedef ProtobufUnknownField
+ * @property id The field number
+ * @property wireType The wire type of the field
+ * @property value The value of varint and fixed fields or the data of length-delimited fields
+ */
+export type ProtobufUnknownField = {
+  id: number;
+  wireType: number;
+  value: number | bigint | Buffer;
+};
+
+/**
+ * @typedef ProtobufValue
+ * A decoded field value
+ */
+export type ProtobufValue = number | bigint | string | boolean | Buffer | ProtobufMessage | ProtobufValue[] | ProtobufUnknownField[];
+
+/**
+ * @typedef ProtobufMessage
+ * A decoded message with the fields which are present in the body, unknown fields are preserved in '$unknownFields'
+ */
+export type ProtobufMessage = {[field: string]: ProtobufValue};
+
+/**
+ * @typedef ProtobufOptions
+ * @property descriptor The JSON descriptor with the message types
+ * @property messageType The fully qualified name of the message type when the media type has no 'proto' parameter
+ * @property unknownFields 'drop' to ignore unknown fields, 'preserve' to keep them in the property '$unknownFields', default is 'drop'
+ * @property maxDepth The maximum nesting depth of messages, default is 64
+ */
+export type ProtobufOptions = {
+  descriptor: ProtobufDescriptor;
+  messageType?: string;
+  unknownFields?: 'drop' | 'preserve';
+  maxDepth?: number;
+};
+
+type CompiledField = {
+  name: string;
+  type: string;
+  repeated: boolean;
+  kind: 'scalar' | 'enum' | 'message';
+  target?: string;
+  key?: CompiledField;
+  value?: CompiledField;
+};
+
+type CompiledMessage = Map<number, CompiledField>;
+
+const WIRE_VARINT = 0;
+const WIRE_I64 = 1;
+const WIRE_LEN = 2;
+const WIRE_I32 = 5;
+
+const scalarWireTypes: Record<string, number> = {
+  double: WIRE_I64,
+  float: WIRE_I32,
+  int32: WIRE_VARINT,
+  int64: WIRE_VARINT,
+  uint32: WIRE_VARINT,
+  uint64: WIRE_VARINT,
+  sint32: WIRE_VARINT,
+  sint64: WIRE_VARINT,
+  fixed32: WIRE_I32,
+  fixed64: WIRE_I64,
+  sfixed32: WIRE_I32,
+  sfixed64: WIRE_I64,
+  bool: WIRE_VARINT,
+  string: WIRE_LEN,
+  bytes: WIRE_LEN,
+};
+
+/**
+ * Creates a parser for 'application/x-protobuf' and 'application/protobuf' bodies which decodes the wire format with the message types
+ * of a JSON descriptor. The message type is selected with the media type parameter 'proto', e.g. 'application/protobuf; proto=pkg.Message'.
+ * Absent fields are not set, 64-bit integers which are not safe integers are decoded to BigInts and enums to the names of their values.
+ * @param options The descriptor, the message type and the handling of unknown fields
+ */
+export function getProtobufParser(options: ProtobufOptions) {
+  const {unknownFields = 'drop', maxDepth = 64} = options;
+  const {messages, enums} = compileDescriptor(options.descriptor);
+  const defaultMessageType = options.messageType?.replace(/^\./, '');
+  if (defaultMessageType !== undefined && !messages.has(defaultMessageType)) {
+    throw new Error(`Message type '${defaultMessageType}' is not defined in the descriptor`);
+  }
+  return (payload: Buffer, mediaType?: ParsedMediaType) => {
+    const messageType = mediaType?.parameters.proto?.replace(/^\./, '') || defaultMessageType;
+    if (messageType === undefined) {
+      throw createError(415, `Media type parameter 'proto' has to be specified`, {type: 'mediaType.unsupported'});
+    }
+    if (!messages.has(messageType)) {
+      throw createError(415, `Message type '${messageType}' is not supported`, {type: 'mediaType.unsupported'});
+    }
+    return decodeProtobuf(payload, messageType, messages, enums, unknownFields === 'preserve', maxDepth);
+  };
+}
+
+/**
+ * Compiles the message and enum types of a JSON descriptor and resolves the types of the fields
+ * @param descriptor The JSON descriptor
+ */
+export function compileDescriptor(descriptor: ProtobufDescriptor) {
+  const messageDescriptors = new Map<string, ProtobufMessageDescriptor>();
+  const enums = new Map<string, Map<number, string>>();
+  const namespaces: [string, ProtobufDescriptor][] = [['', descriptor]];
+  while (namespaces.length > 0) {
+    const [name, namespace] = <[string, ProtobufDescriptor]>namespaces.pop();
+    if ('fields' in namespace && namespace.fields) {
+      messageDescriptors.set(name, <ProtobufMessageDescriptor>namespace);
+    } else if ('values' in namespace && namespace.values) {
+      enums.set(name, new Map(Object.entries(<Record<string, number>>namespace.values).map(([valueName, value]) => [value, valueName])));
+    }
+    Object.entries(<Record<string, ProtobufDescriptor>>namespace.nested || {}).forEach(([nestedName, nested]) => {
+      namespaces.push([name ? `${name}.${nestedName}` : nestedName, nested]);
+    });
+  }
+  const messages = new Map<string, CompiledMessage>();
+  messageDescriptors.forEach((message, messageName) => {
+    const fields: CompiledMessage = new Map();
+    Object.entries(message.fields).forEach(([fieldName, field]) => {
+      if (!Number.isInteger(field.id) || field.id < 1 || fields.has(field.id)) {
+        throw new Error(`Invalid field number of field '${fieldName}' in message type '${messageName}'`);
+      }
+      if (field.keyType !== undefined) {
+        // Map fields are encoded as repeated entry messages with the key as field 1 and the value as field 2
+        const key = compileField('key', field.keyType, false, messageName);
+        if (key.kind !== 'scalar' || ['double', 'float', 'bytes'].includes(key.type)) {
+          throw new Error(`Invalid key type of map field '${fieldName}' in message type '${messageName}'`);
+        }
+        const value = compileField('value', field.type, false, messageName);
+        fields.set(field.id, {name: fieldName, type: 'map', repeated: false, kind: 'scalar', key, value});
+      } else {
+        fields.set(field.id, compileField(fieldName, field.type, field.rule === 'repeated', messageName));
+      }
+    });
+    messages.set(messageName, fields);
+  });
+  return {messages, enums};
+
+  //-------------------------------------------------
+  function compileField(name: string, type: string, repeated: boolean, scope: string): CompiledField {
+    if (type in scalarWireTypes) {
+      return {name, type, repeated, kind: 'scalar'};
+    }
+    const target = resolveType(type, scope);
+    if (target === undefined) {
+      throw new Error(`Type '${type}' of field '${name}' in message type '${scope}' is not defined in the descriptor`);
+    }
+    return {name, type, repeated, kind: messageDescriptors.has(target) ? 'message' : 'enum', target};
+  }
+
+  function resolveType(type: string, scope: string) {
+    if (type.startsWith('.')) {
+      const name = type.slice(1);
+      return messageDescriptors.has(name) || enums.has(name) ? name : undefined;
+    }
+    // Search from the innermost scope to the outermost scope as protoc does
+    const parts = scope.split('.');
+    for (let index = parts.length; index >= 0; index--) {
+      const name = [...parts.slice(0, index), type].join('.');
+      if (messageDescriptors.has(name) || enums.has(name)) {
+        return name;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Decodes a buffer in the protobuf wire format
+ * @param buffer The buffer
+ * @param messageType The fully qualified name of the message type
+ * @param messages The compiled message types
+ * @param enums The enum types
+ * @param preserveUnknownFields Keep unknown fields in the property '$unknownFields'
+ * @param maxDepth The maximum nesting depth of messages
+ */
+export function decodeProtobuf(
+  buffer: Buffer,
+  messageType: string,
+  messages: Map<string, CompiledMessage>,
+  enums: Map<string, Map<number, string>>,
+  preserveUnknownFields: boolean,
+  maxDepth: number,
+) {
+  const decoder = new TextDecoder('utf-8', {fatal: true});
+  return decodeMessage(0, buffer.length, <CompiledMessage>messages.get(messageType), 0);
+
+  //-------------------------------------------------
+  function decodeMessage(start: number, end: number, fields: CompiledMessage, depth: number) {
+    if (depth >= maxDepth) {
+      throw createError(413, 'protobuf message too deeply nested', {limit: maxDepth, type: 'depth.too.large'});
+    }
+    const message: ProtobufMessage = {};
+    const unknown: ProtobufUnknownField[] = [];
+    const cursor = {position: start, end};
+    while (cursor.position < end) {
+      const tag = readVarint(cursor);
+      const id = Number(tag >> BigInt(3));
+      const wireType = Number(tag & BigInt(7));
+      if (id < 1 || id > 0x1fffffff) {
+        throw parseError(`Invalid field number ${id}`);
+      }
+      const field = fields.get(id);
+      if (!field) {
+        const value = readUnknown(cursor, wireType, id);
+        if (preserveUnknownFields) unknown.push({id, wireType, value});
+        continue;
+      }
+      if (field.type === 'map') {
+        expectWireType(wireType, WIRE_LEN, field);
+        const [entryStart, entryEnd] = readLength(cursor);
+        const entry = decodeMessage(entryStart, entryEnd, new Map([[1, <CompiledField>field.key], [2, <CompiledField>field.value]]), depth + 1);
+        const map = <ProtobufMessage>(message[field.name] || (message[field.name] = Object.create(null)));
+        const key = entry.key === undefined ? getDefault(<CompiledField>field.key) : entry.key;
+        map[String(key)] = entry.value === undefined ? getDefault(<CompiledField>field.value) : entry.value;
+        continue;
+      }
+      const packable = field.kind === 'enum' || (field.kind === 'scalar' && scalarWireTypes[field.type] !== WIRE_LEN);
+      if (field.repeated && packable && wireType === WIRE_LEN) {
+        const [packedStart, packedEnd] = readLength(cursor);
+        const packed = {position: packedStart, end: packedEnd};
+        const values = <ProtobufValue[]>(message[field.name] || (message[field.name] = []));
+        while (packed.position < packedEnd) {
+          values.push(readValue(packed, field, depth));
+        }
+        continue;
+      }
+      expectWireType(wireType, field.kind === 'message' ? WIRE_LEN : field.kind === 'enum' ? WIRE_VARINT : scalarWireTypes[field.type], field);
+      const value = readValue(cursor, field, depth);
+      if (field.repeated) {
+        (<ProtobufValue[]>(message[field.name] || (message[field.name] = []))).push(value);
+      } else {
+        message[field.name] = value;
+      }
+    }
+    if (unknown.length > 0) {
+      message.$unknownFields = unknown;
+    }
+    return message;
+  }
+
+  function readValue(cursor: {position: number, end: number}, field: CompiledField, depth: number): ProtobufValue {
+    if (field.kind === 'message') {
+      const [start, end] = readLength(cursor);
+      return decodeMessage(start, end, <CompiledMessage>messages.get(<string>field.target), depth + 1);
+    }
+    if (field.kind === 'enum') {
+      const value = Number(BigInt.asIntN(32, readVarint(cursor)));
+      return (<Map<number, string>>enums.get(<string>field.target)).get(value) ?? value;
+    }
+    switch (field.type) {
+      case 'int32':
+        return Number(BigInt.asIntN(32, readVarint(cursor)));
+      case 'uint32':
+        return Number(BigInt.asUintN(32, readVarint(cursor)));
+      case 'int64':
+        return toInteger(BigInt.asIntN(64, readVarint(cursor)));
+      case 'uint64':
+        return toInteger(readVarint(cursor));
+      case 'sint32':
+      case 'sint64': {
+        const value = readVarint(cursor);
+        const decoded = BigInt.asIntN(64, (value >> BigInt(1)) ^ -(value & BigInt(1)));
+        return field.type === 'sint32' ? Number(BigInt.asIntN(32, decoded)) : toInteger(decoded);
+      }
+      case 'bool':
+        return readVarint(cursor) !== BigInt(0);
+      case 'fixed32':
+        return readBytes(cursor, 4).readUInt32LE(0);
+      case 'sfixed32':
+        return readBytes(cursor, 4).readInt32LE(0);
+      case 'float':
+        return readBytes(cursor, 4).readFloatLE(0);
+      case 'fixed64':
+        return toInteger(readBytes(cursor, 8).readBigUInt64LE(0));
+      case 'sfixed64':
+        return toInteger(readBytes(cursor, 8).readBigInt64LE(0));
+      case 'double':
+        return readBytes(cursor, 8).readDoubleLE(0);
+      case 'string': {
+        const [start, end] = readLength(cursor);
+        try {
+          return decoder.decode(buffer.subarray(start, end));
+        } catch {
+          throw parseError(`Invalid UTF-8 in field '${field.name}'`);
+        }
+      }
+      default: {
+        const [start, end] = readLength(cursor);
+        return Buffer.from(buffer.subarray(start, end));
+      }
+    }
+  }
+
+  function readUnknown(cursor: {position: number, end: number}, wireType: number, id: number) {
+    switch (wireType) {
+      case WIRE_VARINT:
+        return toInteger(readVarint(cursor));
+      case WIRE_I64:
+        return toInteger(readBytes(cursor, 8).readBigUInt64LE(0));
+      case WIRE_LEN: {
+        const [start, end] = readLength(cursor);
+        return Buffer.from(buffer.subarray(start, end));
+      }
+      case WIRE_I32:
+        return readBytes(cursor, 4).readUInt32LE(0);
+      default:
+        throw parseError(`Unsupported wire type ${wireType} of field ${id}`);
+    }
+  }
+
+  function readVarint(cursor: {position: number, end: number}) {
+    let value = BigInt(0);
+    for (let shift = 0; shift < 70; shift += 7) {
+      const byte = readBytes(cursor, 1)[0];
+      value |= BigInt(byte & 0x7f) << BigInt(shift);
+      if (byte < 0x80) {
+        return BigInt.asUintN(64, value);
+      }
+    }
+    throw parseError('Varint is too long');
+  }
+
+  function readLength(cursor: {position: number, end: number}) {
+    const length = readVarint(cursor);
+    if (length > BigInt(cursor.end - cursor.position)) {
+      throw parseError('Unexpected end of data');
+    }
+    const start = cursor.position;
+    cursor.position += Number(length);
+    return [start, cursor.position];
+  }
+
+  function readBytes(cursor: {position: number, end: number}, length: number) {
+    if (cursor.position + length > cursor.end) {
+      throw parseError('Unexpected end of data');
+    }
+    const chunk = buffer.subarray(cursor.position, cursor.position + length);
+    cursor.position += length;
+    return chunk;
+  }
+
+  function getDefault(field: CompiledField): ProtobufValue {
+    if (field.kind === 'message') return {};
+    if (field.kind === 'enum') return (<Map<number, string>>enums.get(<string>field.target)).get(0) ?? 0;
+    switch (field.type) {
+      case 'string':
+        return '';
+      case 'bytes':
+        return Buffer.alloc(0);
+      case 'bool':
+        return false;
+      default:
+        return 0;
+    }
+  }
+}
+
+function expectWireType(wireType: number, expected: number, field: CompiledField) {
+  if (wireType !== expected) {
+    throw parseError(`Invalid wire type ${wireType} of field '${field.name}'`);
+  }
+}
+
+/**
+ * Converts a 64-bit integer to a number when it is a safe integer
+ * @param value The integer
+ */
+function toInteger(value: bigint) {
+  return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+}
+
+function parseError(message: string) {
+  return createError(400, message, {type: 'entity.parse.failed'});
+}
@@ -0,0 +1,233 @@
+import createError from 'http-errors';
+import {parseXml, XmlElement, XmlNode, XmlOptions} from './xml.js';
+
+/**
+ * @typedef SvgRemoval
+ * An element or attribute which was removed from the SVG document
+ * @property type Whether an element with its content or an attribute was removed
+ * @property name The name of the element or the attribute
+ * @property path The path of the element or of the element of the attribute, e.g. 'svg/g/script'
+ * @property reason 'forbidden' when not allowed by the policy, 'event' for event handlers, 'script' for script URLs and 'external' for
+ * references to external resources
+ */
+export type SvgRemoval = {
+  type: 'element' | 'attribute';
+  name: string;
+  path: string;
+  reason: 'forbidden' | 'event' | 'script' | 'external';
+};
+
+/**
+ * @typedef SanitizedSvg
+ * @property svg The serialized SVG document without the removed elements and attributes
+ * @property removed The removed elements and attributes in document order
+ */
+export type SanitizedSvg = {
+  svg: string;
+  removed: SvgRemoval[];
+};
+
+/**
+ * @typedef SvgOptions
+ * @property mode 'strip' to remove unsafe elements and attributes, 'reject' to reject documents containing them, default is 'strip'
+ * @property elements The allowed elements, default is svgElements
+ * @property attributes The allowed attributes, default is svgAttributes
+ * @property allowHref Function deciding if a reference in 'href' or 'xlink:href' is allowed, default allows fragment references and
+ * base64 encoded PNG, JPEG, GIF and WebP data URLs
+ */
+export type SvgOptions = Pick<XmlOptions, 'maxDepth' | 'maxAttributes' | 'maxEntityExpansions' | 'allowDoctype'> & {
+  mode?: 'strip' | 'reject';
+  elements?: string[];
+  attributes?: string[];
+  allowHref?: (href: string, element: string) => boolean;
+};
+
+/**
+ * @const svgElements
+ * The elements allowed by default, which can not execute scripts, embed other documents or be animated
+ */
+export const svgElements = [
+  'svg', 'g', 'defs', 'title', 'desc', 'symbol', 'use', 'image', 'switch',
+  'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'text', 'tspan', 'textPath',
+  'linearGradient', 'radialGradient', 'stop', 'pattern', 'clipPath', 'mask', 'marker', 'filter',
+  'feBlend', 'feColorMatrix', 'feComponentTransfer', 'feComposite', 'feConvolveMatrix', 'feDiffuseLighting', 'feDisplacementMap',
+  'feDistantLight', 'feDropShadow', 'feFlood', 'feFuncA', 'feFuncB', 'feFuncG', 'feFuncR', 'feGaussianBlur', 'feImage', 'feMerge',
+  'feMergeNode', 'feMorphology', 'feOffset', 'fePointLight', 'feSpecularLighting', 'feSpotLight', 'feTile', 'feTurbulence',
+];
+
+/**
+ * @const svgAttributes
+ * The attributes allowed by default, the geometry, presentation, text and filter attributes of the elements in svgElements
+ */
+export const svgAttributes = [
+  'xmlns', 'xmlns:xlink', 'version', 'id', 'class', 'style', 'lang', 'xml:lang', 'xml:space', 'href', 'xlink:href', 'xlink:title',
+  'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy', 'fr', 'width', 'height', 'd', 'points', 'pathLength',
+  'viewBox', 'preserveAspectRatio', 'transform', 'transform-origin',
+  'gradientUnits', 'gradientTransform', 'spreadMethod', 'offset', 'stop-color', 'stop-opacity', 'patternUnits', 'patternContentUnits',
+  'patternTransform', 'clipPathUnits', 'maskUnits', 'maskContentUnits', 'markerUnits', 'markerWidth', 'markerHeight', 'refX', 'refY',
+  'orient',
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit',
+  'stroke-dasharray', 'stroke-dashoffset', 'stroke-opacity', 'opacity', 'clip-path', 'clip-rule', 'mask', 'filter', 'marker-start',
+  'marker-mid', 'marker-end', 'display', 'visibility', 'color', 'color-interpolation', 'color-interpolation-filters', 'vector-effect',
+  'shape-rendering', 'text-rendering', 'image-rendering', 'paint-order', 'overflow',
+  'font-family', 'font-size', 'font-style', 'font-weight', 'font-variant', 'font-stretch', 'text-anchor', 'dominant-baseline',
+  'alignment-baseline', 'baseline-shift', 'letter-spacing', 'word-spacing', 'text-decoration', 'writing-mode', 'dx', 'dy', 'rotate',
+  'textLength', 'lengthAdjust', 'startOffset', 'method', 'spacing',
+  'filterUnits', 'primitiveUnits', 'in', 'in2', 'result', 'stdDeviation', 'mode', 'operator', 'k1', 'k2', 'k3', 'k4', 'values', 'type',
+  'tableValues', 'slope', 'intercept', 'amplitude', 'exponent', 'order', 'kernelMatrix', 'divisor', 'bias', 'targetX', 'targetY',
+  'edgeMode', 'preserveAlpha', 'surfaceScale', 'diffuseConstant', 'specularConstant', 'specularExponent', 'kernelUnitLength', 'scale',
+  'xChannelSelector', 'yChannelSelector', 'azimuth', 'elevation', 'z', 'pointsAtX', 'pointsAtY', 'pointsAtZ', 'limitingConeAngle',
+  'radius', 'baseFrequency', 'numOctaves', 'seed', 'stitchTiles', 'flood-color', 'flood-opacity', 'lighting-color',
+];
+
+const scriptUrlRegExp = /^(?:javascript|vbscript):/i;
+const cssUrlRegExp = /url\(\s*(['"]?)(.*?)\1\s*\)/gi;
+const cssEscapeRegExp = /\\(?:([0-9a-f]{1,6})[ \t\n\r\f]?|\r\n|([^]))/gi;
+
+/**
+ * Allows fragment references and base64 encoded raster images
+ * @param href The value of the reference
+ */
+function allowLocalHref(href: string) {
+  return href.startsWith('#') || /^data:image\/(?:png|jpeg|gif|webp);base64,[A-Za-z0-9+/=\s]*$/i.test(href);
+}
+
+/**
+ * Replaces the escapes and removes the comments of CSS, so that escaped or interrupted URLs and rules can be detected
+ * @param value The CSS of an attribute
+ */
+function unescapeCss(value: string) {
+  return value.replace(cssEscapeRegExp, (escape: string, hex?: string, char?: string) => {
+    if (hex === undefined) {
+      return char === undefined || /[\n\r\f]/.test(char) ? '' : char;
+    }
+    const codePoint = parseInt(hex, 16);
+    return codePoint === 0 || codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)
+      ? '\ufffd'
+      : String.fromCodePoint(codePoint);
+  }).replace(/\/\*[^]*?(?:\*\/|$)/g, '');
+}
+
+/**
+ * Creates a parser for SVG documents, which removes or rejects the elements and attributes not allowed by the policy. Script elements,
+ * event handler attributes and script URLs are removed in every case, references in 'href' and 'xlink:href' and CSS URLs in attributes
+ * are checked with allowHref. The document is parsed with the XML parser, so comments, processing instructions and the document type
+ * declaration are dropped.
+ * @param options The policy and the limits for the document
+ */
+export function getSvgParser(options: SvgOptions = {}) {
+  const {
+    mode = 'strip',
+    elements = svgElements,
+    attributes = svgAttributes,
+    allowHref = allowLocalHref,
+    maxDepth = 64,
+    maxAttributes = 256,
+    maxEntityExpansions = 10000,
+    allowDoctype = true,
+  } = options;
+  const allowedElements = new Set(elements.filter((element) => element.toLowerCase() !== 'script'));
+  const allowedAttributes = new Set(attributes.filter((attribute) => !/^on/i.test(attribute)));
+  return (payload: string): SanitizedSvg => {
+    const root = parseXml(payload, {maxDepth, maxAttributes, maxEntityExpansions, allowDoctype, preserveWhitespace: true});
+    if (root.name !== 'svg') {
+      throw createError(400, `Root element '${root.name}' is not 'svg'`, {type: 'svg.invalid'});
+    }
+    const removed: SvgRemoval[] = [];
+    const svg = serializeElement(sanitizeElement(root, 'svg'));
+    if (mode === 'reject' && removed.length > 0) {
+      const [{type, name, path}] = removed;
+      throw createError(400, `Unsafe ${type} '${name}' at '${path}'`, {type: 'svg.unsafe', removed});
+    }
+    return {svg, removed};
+
+    function sanitizeElement(element: XmlElement, path: string): XmlElement {
+      const sanitizedAttributes: Record<string, string> = {};
+      Object.entries(element.attributes).forEach(([name, value]) => {
+        const reason = getAttributeRemovalReason(element.name, name, value);
+        if (reason) {
+          removed.push({type: 'attribute', name, path, reason});
+        } else {
+          sanitizedAttributes[name] = value;
+        }
+      });
+      const children: XmlNode[] = [];
+      element.children.forEach((child) => {
+        if (typeof child === 'string') {
+          children.push(child);
+        } else if (allowedElements.has(child.name)) {
+          children.push(sanitizeElement(child, `${path}/${child.name}`));
+        } else {
+          removed.push({type: 'element', name: child.name, path: `${path}/${child.name}`, reason: 'forbidden'});
+        }
+      });
+      return {name: element.name, attributes: sanitizedAttributes, children};
+    }
+  };
+
+  function getAttributeRemovalReason(element: string, name: string, value: string): SvgRemoval['reason'] | undefined {
+    if (/^on/i.test(name)) {
+      return 'event';
+    }
+    if (!allowedAttributes.has(name)) {
+      return 'forbidden';
+    }
+    // Browsers ignore whitespace and control characters in the scheme of URLs
+    const url = value.replace(/[\u0000- ]/g, '');
+    if (scriptUrlRegExp.test(url)) {
+      return 'script';
+    }
+    if ((name === 'href' || name.endsWith(':href')) && !allowHref(value.trim(), element)) {
+      return 'external';
+    }
+    const css = unescapeCss(value);
+    const cssUrls = [...css.matchAll(cssUrlRegExp)].map(([, , cssUrl]) => cssUrl.trim());
+    if (cssUrls.some((cssUrl) => scriptUrlRegExp.test(cssUrl.replace(/[\u0000- ]/g, '')))) {
+      return 'script';
+    }
+    if (cssUrls.some((cssUrl) => !allowHref(cssUrl, element)) || /@import|expression\s*\(/i.test(css)) {
+      return 'external';
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Serializes an element of the lightweight DOM without recursion
+ * @param root The element
+ */
+function serializeElement(root: XmlElement) {
+  const parts: string[] = [];
+  const stack: (XmlNode | {end: string})[] = [root];
+  while (stack.length > 0) {
+    const node = <XmlNode | {end: string}>stack.pop();
+    if (typeof node === 'string') {
+      parts.push(escapeXml(node, /[&<>]/g));
+    } else if ('end' in node) {
+      parts.push(`</${node.end}>`);
+    } else {
+      const attributes = Object.entries(node.attributes).map(([name, value]) => ` ${name}="${escapeXml(value, /[&<>"\t\n\r]/g)}"`);
+      if (node.children.length === 0) {
+        parts.push(`<${node.name}${attributes.join('')}/>`);
+      } else {
+        parts.push(`<${node.name}${attributes.join('')}>`);
+        stack.push({end: node.name}, ...[...node.children].reverse());
+      }
+    }
+  }
+  return parts.join('');
+}
+
+/**
+ * Replaces the characters with character references
+ * @param value The text or the value of an attribute
+ * @param characters The characters to replace
+ */
+function escapeXml(value: string, characters: RegExp) {
+  return value.replace(characters, (character) => ({
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+  }[character] || `&#${character.charCodeAt(0)};`));
+}
@@ -0,0 +1,38 @@
+import createError from 'http-errors';
+import {ParsedUrlQuery} from 'querystring';
+import {parameterCount} from './bufferEncoding.js';
+
+/**
+ * Creates a parser for HTML form submissions with the enctype 'text/plain', where each field is sent as 'name=value' line. The name ends
+ * at the first '=', lines without '=' are names with an empty value. Repeated names are collected in arrays and the number of fields is
+ * limited in the same way as by the parser for 'application/x-www-form-urlencoded'. As these bodies can not be distinguished from other
+ * 'text/plain' bodies by the media type, the parser should only be configured for the routes receiving the form.
+ * @param maxKeys The maximum number of fields, default is 1000, no limit when Infinity
+ */
+export function getTextFormParser(maxKeys = 1000) {
+  if (maxKeys < 0) {
+    throw new Error('maxKeys can not be smaller than 0');
+  }
+  maxKeys = maxKeys === Infinity ? 0 : maxKeys;
+  return (payload: string): ParsedUrlQuery => {
+    const lines = payload.replace(/\r?\n$/, '');
+    if (parameterCount(lines, maxKeys, '\n') === undefined) {
+      throw createError(413, 'too many parameters', {type: 'parameters.too.many'});
+    }
+    const fields: ParsedUrlQuery = Object.create(null);
+    if (lines === '') {
+      return fields;
+    }
+    lines.split(/\r?\n/).forEach((line) => {
+      const separatorIndex = line.indexOf('=');
+      const [name, value] = separatorIndex === -1 ? [line, ''] : [line.slice(0, separatorIndex), line.slice(separatorIndex + 1)];
+      const field = fields[name];
+      if (Array.isArray(field)) {
+        field.push(value);
+      } else {
+        fields[name] = field === undefined ? value : [field, value];
+      }
+    });
+    return fields;
+  };
+}
@@ -0,0 +1,314 @@
+import createError from 'http-errors';
+
+/**
+ * @typedef XmlElement
+ * The element of the lightweight DOM
+ * @property name The qualified name of the element
+ * @property attributes The attributes of the element
+ * @property children The child elements and the text nodes of the element
+ */
+export type XmlElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+};
+
+/**
+ * @typedef XmlNode
+ * A node of the lightweight DOM, text nodes are strings
+ */
+export type XmlNode = XmlElement | string;
+
+/**
+ * @typedef XmlValue
+ * The value of an element in the object tree. Elements without attributes and child elements are converted to their text, repeated
+ * child elements are collected in an array.
+ */
+export type XmlValue = string | XmlObject | XmlValue[];
+
+/**
+ * @typedef XmlObject
+ * An element with attributes or child elements in the object tree
+ */
+export type XmlObject = {[name: string]: XmlValue};
+
+/**
+ * @typedef XmlOptions
+ * @property output 'object' to convert the document to a plain object tree, 'dom' to convert it to a lightweight DOM, default is 'object'
+ * @property maxDepth The maximum nesting depth of elements, default is 64
+ * @property maxAttributes The maximum number of attributes of an element, default is 256
+ * @property maxEntityExpansions The maximum number of entity and character references in the document, default is 10000
+ * @property allowDoctype Allow a document type declaration, which is skipped and never expanded, default is false
+ * @property preserveWhitespace Keep text nodes which only contain whitespace, default is false
+ * @property attributePrefix The prefix for the keys of attributes in the object tree, default is '@'
+ * @property textKey The key of the text of elements with attributes or child elements in the object tree, default is '#text'
+ */
+export type XmlOptions = {
+  output?: 'object' | 'dom';
+  maxDepth?: number;
+  maxAttributes?: number;
+  maxEntityExpansions?: number;
+  allowDoctype?: boolean;
+  preserveWhitespace?: boolean;
+  attributePrefix?: string;
+  textKey?: string;
+};
+
+const predefinedEntities: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: '\'',
+};
+
+const nameRegExp = /[:A-Z_a-z\u00C0-\uFFFF][:A-Z_a-z\u00C0-\uFFFF.0-9\u00B7-]*/y;
+const whitespaceRegExp = /[ \t\r\n]*/y;
+
+/**
+ * Creates a parser for XML documents. Only the predefined entities and character references are expanded, document type declarations
+ * are rejected by default and external entities are never loaded.
+ * @param options The output format and the limits for the document
+ */
+export function getXmlParser(options: XmlOptions & {output: 'dom'}): (payload: string) => XmlElement;
+export function getXmlParser(options?: XmlOptions & {output?: 'object'}): (payload: string) => XmlObject;
+export function getXmlParser(options?: XmlOptions): (payload: string) => XmlElement | XmlObject;
+export function getXmlParser(options: XmlOptions = {}) {
+  const {
+    output = 'object',
+    maxDepth = 64,
+    maxAttributes = 256,
+    maxEntityExpansions = 10000,
+    allowDoctype = false,
+    preserveWhitespace = false,
+    attributePrefix = '@',
+    textKey = '#text',
+  } = options;
+  return (payload: string) => {
+    const root = parseXml(payload, {maxDepth, maxAttributes, maxEntityExpansions, allowDoctype, preserveWhitespace});
+    if (output === 'dom') {
+      return root;
+    }
+    const tree: XmlObject = Object.create(null);
+    tree[root.name] = toXmlValue(root, attributePrefix, textKey);
+    return tree;
+  };
+}
+
+/**
+ * Parses an XML document to a lightweight DOM without recursion
+ * @param xml The XML document
+ * @param options The limits for the document
+ */
+export function parseXml(xml: string, options: Required<Omit<XmlOptions, 'output' | 'attributePrefix' | 'textKey'>>) {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+  let entityExpansions = 0;
+  let position = xml.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  while (position < xml.length) {
+    if (xml[position] !== '<') {
+      const end = xml.indexOf('<', position);
+      const text = xml.slice(position, end === -1 ? xml.length : end);
+      position = end === -1 ? xml.length : end;
+      if (stack.length === 0) {
+        if (text.trim() !== '') {
+          throw parseError('Text outside of the root element');
+        }
+      } else if (preserve(text)) {
+        stack[stack.length - 1].children.push(decodeEntities(text));
+      }
+    } else if (xml.startsWith('<?', position)) {
+      position = skipTo('?>', 'Unterminated processing instruction');
+    } else if (xml.startsWith('<!--', position)) {
+      position = skipTo('-->', 'Unterminated comment');
+    } else if (xml.startsWith('<![CDATA[', position)) {
+      const end = xml.indexOf(']]>', position);
+      if (end === -1 || stack.length === 0) {
+        throw parseError('Invalid CDATA section');
+      }
+      const text = xml.slice(position + 9, end);
+      if (preserve(text)) {
+        stack[stack.length - 1].children.push(text);
+      }
+      position = end + 3;
+    } else if (xml.startsWith('<!DOCTYPE', position)) {
+      if (!options.allowDoctype) {
+        throw createError(400, 'Document type declaration is not allowed', {type: 'doctype.forbidden'});
+      }
+      if (root || stack.length > 0) {
+        throw parseError('Document type declaration after the root element');
+      }
+      const subset = /^<!DOCTYPE[^[>]*(\[)?/.exec(xml.slice(position));
+      position = subset && subset[1]
+        ? skipPattern(/\]\s*>/g, 'Unterminated document type declaration')
+        : skipTo('>', 'Unterminated document type declaration');
+    } else if (xml.startsWith('</', position)) {
+      position += 2;
+      const name = readName();
+      skipWhitespace();
+      if (xml[position] !== '>') {
+        throw parseError(`Invalid end tag '${name}'`);
+      }
+      position++;
+      const element = stack.pop();
+      if (!element || element.name !== name) {
+        throw parseError(`Unexpected end tag '${name}'`);
+      }
+    } else {
+      position++;
+      const element: XmlElement = {name: readName(), attributes: Object.create(null), children: []};
+      if (root && stack.length === 0) {
+        throw parseError('Multiple root elements');
+      }
+      if (stack.length >= options.maxDepth) {
+        throw createError(413, 'XML document too deeply nested', {limit: options.maxDepth, type: 'depth.too.large'});
+      }
+      let attributeCount = 0;
+      for (;;) {
+        const hasWhitespace = skipWhitespace();
+        if (xml.startsWith('/>', position) || xml[position] === '>') break;
+        if (!hasWhitespace || position >= xml.length) {
+          throw parseError(`Invalid start tag '${element.name}'`);
+        }
+        const name = readName();
+        skipWhitespace();
+        if (xml[position] !== '=') {
+          throw parseError(`Invalid attribute '${name}'`);
+        }
+        position++;
+        skipWhitespace();
+        const quote = xml[position];
+        const end = quote === '"' || quote === '\'' ? xml.indexOf(quote, position + 1) : -1;
+        if (end === -1 || xml.slice(position + 1, end).includes('<')) {
+          throw parseError(`Invalid value of attribute '${name}'`);
+        }
+        if (name in element.attributes) {
+          throw parseError(`Duplicate attribute '${name}'`);
+        }
+        if (++attributeCount > options.maxAttributes) {
+          throw createError(413, 'too many attributes', {limit: options.maxAttributes, type: 'attributes.too.many'});
+        }
+        const value = xml.slice(position + 1, end);
+        element.attributes[name] = decodeEntities(value);
+        position = end + 1;
+      }
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else {
+        root = element;
+      }
+      if (xml[position] === '>') {
+        stack.push(element);
+        position++;
+      } else {
+        position += 2;
+      }
+    }
+  }
+  if (!root || stack.length > 0) {
+    throw parseError(root ? `Unclosed element '${stack[stack.length - 1].name}'` : 'Missing root element');
+  }
+  return root;
+
+  //-------------------------------------------------
+  function preserve(text: string) {
+    return text !== '' && (options.preserveWhitespace || text.trim() !== '');
+  }
+
+  function readName() {
+    nameRegExp.lastIndex = position;
+    const match = nameRegExp.exec(xml);
+    if (!match) {
+      throw parseError(`Invalid name at position ${position}`);
+    }
+    position = nameRegExp.lastIndex;
+    return match[0];
+  }
+
+  function skipWhitespace() {
+    whitespaceRegExp.lastIndex = position;
+    whitespaceRegExp.exec(xml);
+    const skipped = whitespaceRegExp.lastIndex > position;
+    position = whitespaceRegExp.lastIndex;
+    return skipped;
+  }
+
+  function skipTo(end: string, message: string) {
+    const index = xml.indexOf(end, position);
+    if (index === -1) {
+      throw parseError(message);
+    }
+    return index + end.length;
+  }
+
+  function skipPattern(pattern: RegExp, message: string) {
+    pattern.lastIndex = position;
+    const match = pattern.exec(xml);
+    if (!match) {
+      throw parseError(message);
+    }
+    return match.index + match[0].length;
+  }
+
+  function decodeEntities(text: string) {
+    if (!text.includes('&')) return text;
+    return text.replace(/&([^;&]*)(;?)/g, (reference: string, name: string, semicolon: string) => {
+      if (++entityExpansions > options.maxEntityExpansions) {
+        throw createError(413, 'too many entity references', {limit: options.maxEntityExpansions, type: 'entities.too.many'});
+      }
+      if (semicolon === '') {
+        throw parseError(`Unterminated entity reference '${reference}'`);
+      }
+      if (name[0] === '#') {
+        const codePoint = name[1] === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        if (!/^#(x[0-9a-fA-F]+|[0-9]+)$/.test(name) || codePoint > 0x10ffff || codePoint === 0) {
+          throw parseError(`Invalid character reference '${reference}'`);
+        }
+        return String.fromCodePoint(codePoint);
+      }
+      if (!Object.prototype.hasOwnProperty.call(predefinedEntities, name)) {
+        throw parseError(`Undefined entity '${reference}'`);
+      }
+      return predefinedEntities[name];
+    });
+  }
+}
+
+/**
+ * Converts an element of the lightweight DOM to the value in the object tree
+ * @param element The element
+ * @param attributePrefix The prefix for the keys of attributes
+ * @param textKey The key for the text of the element
+ */
+function toXmlValue(element: XmlElement, attributePrefix: string, textKey: string): XmlValue {
+  const attributes = Object.entries(element.attributes);
+  const childElements = <XmlElement[]>element.children.filter((child) => typeof child !== 'string');
+  const text = element.children.filter((child) => typeof child === 'string').join('');
+  if (attributes.length === 0 && childElements.length === 0) {
+    return text;
+  }
+  const value: XmlObject = Object.create(null);
+  attributes.forEach(([name, attributeValue]) => {
+    value[`${attributePrefix}${name}`] = attributeValue;
+  });
+  childElements.forEach((child) => {
+    const childValue = toXmlValue(child, attributePrefix, textKey);
+    const existing = value[child.name];
+    if (existing === undefined) {
+      value[child.name] = childValue;
+    } else if (Array.isArray(existing)) {
+      existing.push(childValue);
+    } else {
+      value[child.name] = [existing, childValue];
+    }
+  });
+  if (text.trim() !== '') {
+    value[textKey] = text;
+  }
+  return value;
+}
+
+function parseError(message: string) {
+  return createError(400, message, {type: 'entity.parse.failed'});
+}
@@ -0,0 +1,104 @@
+import createError from 'http-errors';
+import {CST, parseDocument, Parser} from 'yaml';
+
+/**
+ * @typedef YamlOptions
+ * @property maxAliasCount The maximum number of resolved aliases weighted by the size of the aliased nodes, default is 100
+ * @property maxDepth The maximum nesting depth of mappings and sequences, default is 64
+ */
+export type YamlOptions = {
+  maxAliasCount?: number;
+  maxDepth?: number;
+};
+
+/**
+ * Creates a parser for YAML documents which only uses the core schema of YAML 1.2. Custom and other tags are rejected, so no objects
+ * other than plain objects, arrays, strings, numbers, booleans and null are created. As for JSON, '__proto__' keys are not allowed on
+ * the main level.
+ * @param options The limits for the document
+ */
+export function getYamlParser(options: YamlOptions = {}) {
+  const {maxAliasCount = 100, maxDepth = 64} = options;
+  if (maxAliasCount < 0) {
+    throw new Error('maxAliasCount can not be smaller than 0');
+  }
+  return (payload: string) => {
+    // The composer of the yaml library is recursive, so the nesting is checked on the tokens before the document is composed
+    for (const token of new Parser().parse(payload)) {
+      if (getTokenDepth(token, maxDepth) > maxDepth) {
+        throw createError(413, 'YAML document too deeply nested', {limit: maxDepth, type: 'depth.too.large'});
+      }
+    }
+    const document = parseDocument(payload, {
+      version: '1.2',
+      schema: 'core',
+      resolveKnownTags: false,
+      merge: false,
+      uniqueKeys: true,
+    });
+    const [error] = [...document.errors, ...document.warnings.filter(({code}) => code === 'TAG_RESOLVE_FAILED')];
+    if (error) {
+      throw createError(400, error.message, {type: 'entity.parse.failed'});
+    }
+    let raw: unknown;
+    try {
+      raw = document.toJS({maxAliasCount});
+    } catch (err: unknown) {
+      if (err instanceof ReferenceError) {
+        throw createError(413, 'too many aliases', {limit: maxAliasCount, type: 'aliases.too.many'});
+      }
+      throw err;
+    }
+    if (getDepth(raw, maxDepth) > maxDepth) {
+      throw createError(413, 'YAML document too deeply nested', {limit: maxDepth, type: 'depth.too.large'});
+    }
+    // Prevent prototype pollution of first level in the same way as for JSON bodies
+    if (typeof raw === 'object' && raw !== null && !Array.isArray(raw) && Object.prototype.hasOwnProperty.call(raw, '__proto__')) {
+      throw new Error('__proto__ key not allowed in YAML body on main level');
+    }
+    return raw;
+  };
+}
+
+/**
+ * Gets the nesting depth of the collections of a token of the concrete syntax tree without recursion, stops when the depth exceeds the
+ * maximum depth
+ * @param token The token
+ * @param maxDepth The maximum depth
+ */
+function getTokenDepth(token: CST.Token, maxDepth: number) {
+  const stack: [CST.Token, number][] = [[token, 0]];
+  let depth = 0;
+  while (stack.length > 0) {
+    const [current, currentDepth] = <[CST.Token, number]>stack.pop();
+    if (current.type === 'document' && current.value) {
+      stack.push([current.value, currentDepth]);
+    }
+    if (current.type !== 'block-map' && current.type !== 'block-seq' && current.type !== 'flow-collection') continue;
+    depth = Math.max(depth, currentDepth + 1);
+    if (depth > maxDepth) break;
+    (<{key?: CST.Token | null, value?: CST.Token}[]>current.items).forEach(({key, value}) => {
+      if (key) stack.push([key, currentDepth + 1]);
+      if (value) stack.push([value, currentDepth + 1]);
+    });
+  }
+  return depth;
+}
+
+/**
+ * Gets the nesting depth of objects and arrays without recursion, stops when the depth exceeds the maximum depth
+ * @param value The value
+ * @param maxDepth The maximum depth
+ */
+function getDepth(value: unknown, maxDepth: number) {
+  const stack: [unknown, number][] = [[value, 0]];
+  let depth = 0;
+  while (stack.length > 0) {
+    const [current, currentDepth] = <[unknown, number]>stack.pop();
+    if (typeof current !== 'object' || current === null) continue;
+    depth = Math.max(depth, currentDepth + 1);
+    if (depth > maxDepth) break;
+    Object.values(current).forEach((child) => stack.push([child, currentDepth + 1]));
+  }
+  return depth;
+}
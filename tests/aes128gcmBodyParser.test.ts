@@ -0,0 +1,183 @@
+import request from 'supertest';
+import {Buffer} from 'buffer';
+import {createCipheriv, hkdfSync, randomBytes} from 'crypto';
+import {bodyParser, DefaultOptions, getAes128gcmDecryptor, ParserConfigurations} from '../src';
+import * as http from 'http';
+
+const inputKey = Buffer.from('yqdlZ-tYemfogSmv7Ws5PQ', 'base64url');
+const keys: Record<string, Buffer> = {'': inputKey, a1: randomBytes(16)};
+const resolver = (keyId: Buffer) => keys[keyId.toString()];
+
+function encrypt(
+  plaintext: Buffer,
+  {recordSize = 4096, keyId = '', padding = 0}: {recordSize?: number, keyId?: string, padding?: number} = {},
+) {
+  const salt = randomBytes(16);
+  const key = Buffer.from(hkdfSync('sha256', keys[keyId], salt, 'Content-Encoding: aes128gcm\0', 16));
+  const nonce = Buffer.from(hkdfSync('sha256', keys[keyId], salt, 'Content-Encoding: nonce\0', 12));
+  const header = Buffer.alloc(21);
+  salt.copy(header);
+  header.writeUInt32BE(recordSize, 16);
+  header[20] = keyId.length;
+  const records = [header, Buffer.from(keyId)];
+  const dataSize = recordSize - 17 - padding;
+  for (let sequence = 0, offset = 0; ; sequence++, offset += dataSize) {
+    const last = offset + dataSize >= plaintext.length;
+    const recordNonce = Buffer.from(nonce);
+    recordNonce[11] ^= sequence;
+    const cipher = createCipheriv('aes-128-gcm', key, recordNonce);
+    records.push(
+      cipher.update(Buffer.concat([plaintext.slice(offset, offset + dataSize), Buffer.from([last ? 2 : 1]), Buffer.alloc(padding)])),
+      cipher.final(),
+      cipher.getAuthTag(),
+    );
+    if (last) break;
+  }
+  return Buffer.concat(records);
+}
+
+function decrypt(body: Buffer, limit: number | null = null, chunkSize = 7) {
+  return new Promise<Buffer>((resolve, reject) => {
+    const decryptor = getAes128gcmDecryptor(resolver)({limit});
+    const chunks: Buffer[] = [];
+    decryptor.on('data', (chunk: Buffer) => chunks.push(chunk));
+    decryptor.on('error', reject);
+    decryptor.on('end', () => resolve(Buffer.concat(chunks)));
+    for (let index = 0; index < body.length; index += chunkSize) {
+      decryptor.write(body.slice(index, index + chunkSize));
+    }
+    decryptor.end();
+  });
+}
+
+describe('getAes128gcmDecryptor', () => {
+  it('should decrypt the example of RFC 8188', async () => {
+    const body = Buffer.from('I1BsxtFttlv3u_Oo94xnmwAAEAAA-NAVub2qFgBEuQKRapoZu-IxkIva3MEB1PD-ly8Thjg', 'base64url');
+    expect((await decrypt(body)).toString()).toBe('I am the walrus');
+  });
+  it('should decrypt multiple records with padding and a key id', async () => {
+    const plaintext = randomBytes(100);
+    expect(await decrypt(encrypt(plaintext, {recordSize: 25, keyId: 'a1'}))).toEqual(plaintext);
+    expect(await decrypt(encrypt(plaintext, {recordSize: 40, padding: 3}), null, 1000)).toEqual(plaintext);
+    expect(await decrypt(encrypt(Buffer.alloc(0)))).toEqual(Buffer.alloc(0));
+  });
+  it('should resolve keys asynchronously', async () => {
+    const body = encrypt(Buffer.from('hello'), {keyId: 'a1'});
+    const decryptor = getAes128gcmDecryptor(async (keyId) => keys[keyId.toString()])();
+    const chunks: Buffer[] = [];
+    decryptor.on('data', (chunk: Buffer) => chunks.push(chunk));
+    await new Promise((resolve) => {
+      decryptor.on('end', resolve);
+      decryptor.end(body);
+    });
+    expect(Buffer.concat(chunks).toString()).toBe('hello');
+  });
+  it('should throw when the authentication tag does not match', async () => {
+    const body = encrypt(randomBytes(50), {recordSize: 30});
+    body[body.length - 1] ^= 1;
+    await expect(decrypt(body)).rejects.toEqual(expect.objectContaining({
+      message: 'authentication tag of record 3 did not match',
+      status: 400,
+      type: 'encryption.tag.invalid',
+    }));
+  });
+  it('should throw when the key is missing', async () => {
+    await expect(decrypt(Buffer.concat([encrypt(Buffer.from('a')).slice(0, 20), Buffer.from([1]), Buffer.from('b')])))
+      .rejects.toEqual(expect.objectContaining({status: 400, type: 'encryption.key.missing'}));
+  });
+  it('should throw when the header is invalid', async () => {
+    const body = encrypt(Buffer.from('a'));
+    body.writeUInt32BE(17, 16);
+    await expect(decrypt(body)).rejects.toEqual(expect.objectContaining({
+      message: 'record size 17 of encryption header is too small',
+      status: 400,
+      type: 'encryption.header.invalid',
+    }));
+    await expect(decrypt(body.slice(0, 20))).rejects.toEqual(expect.objectContaining({
+      message: 'encryption header is incomplete',
+      type: 'encryption.header.invalid',
+    }));
+  });
+  [
+    ['truncated', (body: Buffer) => body.slice(0, 21 + 30), 'encrypted content is truncated'],
+    ['truncated within a record', (body: Buffer) => body.slice(0, 21 + 30 + 20), 'authentication tag of record 1 did not match'],
+    ['too short', (body: Buffer) => body.slice(0, 21 + 30 + 10), 'record 1 is too short'],
+    ['extended', (body: Buffer) => Buffer.concat([body, randomBytes(20)]), 'encrypted content has data after the last record'],
+  ].forEach(([name, change, message]) => {
+    it(`should throw when the content is ${name}`, async () => {
+      await expect(decrypt((<(body: Buffer) => Buffer>change)(encrypt(randomBytes(26), {recordSize: 30}))))
+        .rejects.toEqual(expect.objectContaining({message, status: 400}));
+    });
+  });
+  it('should throw when the padding is invalid', async () => {
+    const body = encrypt(Buffer.from('a'), {padding: 1});
+    const key = Buffer.from(hkdfSync('sha256', inputKey, body.slice(0, 16), 'Content-Encoding: aes128gcm\0', 16));
+    const nonce = Buffer.from(hkdfSync('sha256', inputKey, body.slice(0, 16), 'Content-Encoding: nonce\0', 12));
+    const cipher = createCipheriv('aes-128-gcm', key, nonce);
+    const record = Buffer.concat([cipher.update(Buffer.from([97, 3])), cipher.final(), cipher.getAuthTag()]);
+    await expect(decrypt(Buffer.concat([body.slice(0, 21), record]))).rejects.toEqual(expect.objectContaining({
+      message: 'record 0 has an invalid padding',
+      type: 'encryption.record.invalid',
+    }));
+  });
+  it('should 413 when the encrypted content is larger than the limit', async () => {
+    const body = encrypt(randomBytes(50), {recordSize: 30});
+    expect((await decrypt(body, body.length)).length).toBe(50);
+    await expect(decrypt(body, body.length - 1)).rejects.toEqual(expect.objectContaining({
+      limit: body.length - 1,
+      status: 413,
+      type: 'entity.too.large',
+    }));
+  });
+});
+
+describe('handles aes128gcm encrypted requests', () => {
+  it('should parse encrypted content', (done) => {
+    const test = request(createServer()).post('/');
+    test.set('Content-Type', 'application/json');
+    test.set('Content-Encoding', 'aes128gcm');
+    test.write(encrypt(Buffer.from('{"user":"tobi"}'), {recordSize: 20}));
+    test.expect(200, '{"user":"tobi"}', done);
+  });
+  it('should 400 when the authentication tag does not match', (done) => {
+    const body = encrypt(Buffer.from('{"user":"tobi"}'));
+    body[30] ^= 1;
+    const test = request(createServer()).post('/');
+    test.set('Content-Type', 'application/json');
+    test.set('Content-Encoding', 'aes128gcm');
+    test.set('X-Error-Property', 'type');
+    test.write(body);
+    test.expect(400, 'encryption.tag.invalid', done);
+  });
+  it('should 413 when the encrypted content is larger than the limit', (done) => {
+    const test = request(createServer({defaultLimit: 100, inflate: 'aes128gcm'})).post('/');
+    test.set('Content-Type', 'application/json');
+    test.set('Content-Encoding', 'aes128gcm');
+    test.write(encrypt(Buffer.from(`"${'a'.repeat(80)}"`), {recordSize: 18}));
+    test.expect(413, 'request entity too large', done);
+  });
+  it('should 415 when aes128gcm is not allowed', (done) => {
+    const test = request(createServer({inflate: 'gzip'})).post('/');
+    test.set('Content-Type', 'application/json');
+    test.set('Content-Encoding', 'aes128gcm');
+    test.set('X-Error-Property', 'type');
+    test.write(encrypt(Buffer.from('{}')));
+    test.expect(415, 'encoding.unsupported', done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {inflate: 'aes128gcm'}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : 'application/json', undefined, {
+      aes128gcm: getAes128gcmDecryptor(resolver),
+    })
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      res.statusCode = err ? (err.status || 500) : 200;
+      res.end(err ? err[<string>req.headers['x-error-property'] || 'message'] : JSON.stringify((<any>req).body));
+    });
+  });
+}
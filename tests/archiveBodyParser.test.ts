@@ -0,0 +1,287 @@
+import request from 'supertest';
+import {Buffer} from 'buffer';
+import zlib from 'zlib';
+import {Archive, ArchiveEntry, ArchiveOptions, bodyParser, DefaultOptions, getArchiveParserConfiguration, ParserConfigurations} from '../src';
+import * as http from 'http';
+
+type TestEntry = {name: string, data?: string | Buffer, typeFlag?: string, store?: boolean, size?: number, flags?: number};
+
+const modified = new Date(2021, 5, 1, 12, 30, 10);
+
+function createTarHeader(name: string, size: number, typeFlag: string) {
+  const header = Buffer.alloc(512);
+  header.write(name, 0, 100, 'utf-8');
+  header.write('0000644\0', 100, 'latin1');
+  header.write('0000000\0', 108, 'latin1');
+  header.write('0000000\0', 116, 'latin1');
+  header.write(`${size.toString(8).padStart(11, '0')}\0`, 124, 'latin1');
+  header.write(`${Math.floor(modified.getTime() / 1000).toString(8).padStart(11, '0')}\0`, 136, 'latin1');
+  header.write(typeFlag, 156, 'latin1');
+  header.write('ustar\x0000', 257, 'latin1');
+  header.write('        ', 148, 'latin1');
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'latin1');
+  return header;
+}
+
+function createTar(entries: TestEntry[]) {
+  return Buffer.concat([
+    ...entries.flatMap(({name, data = '', typeFlag = '0'}) => {
+      const content = Buffer.from(data);
+      return [createTarHeader(name, content.length, typeFlag), content, Buffer.alloc((512 - content.length % 512) % 512)];
+    }),
+    Buffer.alloc(1024),
+  ]);
+}
+
+function createZip(entries: TestEntry[]) {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+  const time = (modified.getHours() << 11) | (modified.getMinutes() << 5) | (modified.getSeconds() / 2);
+  const date = ((modified.getFullYear() - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate();
+  entries.forEach(({name, data = '', store = false, size, flags = 0x800}) => {
+    const content = Buffer.from(data);
+    const compressed = store ? content : zlib.deflateRawSync(content);
+    const fileName = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(store ? 0 : 8, 8);
+    local.writeUInt16LE(fileName.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(flags, 8);
+    central.writeUInt16LE(store ? 0 : 8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc32(content), 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(size === undefined ? content.length : size, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+    localParts.push(local, fileName, compressed);
+    centralParts.push(central, fileName);
+    offset += local.length + fileName.length + compressed.length;
+  });
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+function crc32(buffer: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function parse(body: Buffer, type: string, options?: ArchiveOptions) {
+  return <Archive>(<(payload: Buffer, mediaType: {type: string, parameters: Record<string, string>}) => Archive>
+    getArchiveParserConfiguration(options).parser)(body, {type, parameters: {}});
+}
+
+const files = [
+  {name: 'docs/', typeFlag: '5'},
+  {name: 'docs/readme.txt', data: 'hello world'},
+  {name: 'data.csv', data: 'a,b\n1,2\n'.repeat(200)},
+];
+
+describe('getArchiveParserConfiguration', () => {
+  it('should extract zip archives', () => {
+    const archive = parse(createZip([{name: 'docs/', store: true}, ...files.slice(1), {name: 'empty.txt', store: true}]), 'application/zip');
+    expect(archive.format).toBe('zip');
+    expect(archive.entries.map(({name, type, size}) => ({name, type, size}))).toEqual([
+      {name: 'docs/', type: 'directory', size: 0},
+      {name: 'docs/readme.txt', type: 'file', size: 11},
+      {name: 'data.csv', type: 'file', size: 1600},
+      {name: 'empty.txt', type: 'file', size: 0},
+    ]);
+    expect(archive.entries[0].data).toBe(undefined);
+    expect(archive.entries[1].data?.toString()).toBe('hello world');
+    expect(archive.entries[2].data?.toString()).toBe('a,b\n1,2\n'.repeat(200));
+    expect(archive.entries[3].data).toEqual(Buffer.alloc(0));
+    expect(archive.entries[1].modified).toEqual(modified);
+  });
+  it('should extract tar archives', () => {
+    const archive = parse(createTar(files), 'application/x-tar');
+    expect(archive.format).toBe('tar');
+    expect(archive.entries.map(({name, type, size}) => ({name, type, size}))).toEqual([
+      {name: 'docs/', type: 'directory', size: 0},
+      {name: 'docs/readme.txt', type: 'file', size: 11},
+      {name: 'data.csv', type: 'file', size: 1600},
+    ]);
+    expect(archive.entries[1].data?.toString()).toBe('hello world');
+    expect(archive.entries[1].modified).toEqual(modified);
+  });
+  it('should read long names of pax and GNU headers', () => {
+    const longName = `${'directory/'.repeat(15)}file.txt`;
+    const paxRecord = ` path=${longName}\n`;
+    const paxLength = paxRecord.length + String(paxRecord.length + 3).length;
+    const archive = parse(createTar([
+      {name: 'PaxHeader', typeFlag: 'x', data: `${paxLength}${paxRecord}`},
+      {name: 'ignored', data: 'pax'},
+      {name: '././@LongLink', typeFlag: 'L', data: `${longName}\0`},
+      {name: 'ignored', data: 'gnu'},
+    ]), 'application/x-tar');
+    expect(archive.entries.map(({name, data}) => [name, data?.toString()])).toEqual([[longName, 'pax'], [longName, 'gnu']]);
+  });
+  it('should only list the entries', () => {
+    const archive = parse(createZip([{name: 'a.txt', data: 'a', flags: 0x801}]), 'application/zip', {extract: false});
+    expect(archive.entries).toEqual([{name: 'a.txt', type: 'file', size: 1, modified}]);
+  });
+  it('should hand the content to onEntry', () => {
+    const extracted: [string, string][] = [];
+    const onEntry = (entry: ArchiveEntry, data: Buffer) => extracted.push([entry.name, data.toString()]);
+    const archive = parse(createTar(files.slice(0, 2)), 'application/x-tar', {onEntry});
+    expect(extracted).toEqual([['docs/readme.txt', 'hello world']]);
+    expect(archive.entries[1].data).toBe(undefined);
+  });
+  [
+    '../evil.txt',
+    'docs/../../evil.txt',
+    '/etc/passwd',
+    'C:\\Windows\\evil.txt',
+    '..\\evil.txt',
+  ].forEach((name) => {
+    it(`should reject the entry name ${name}`, () => {
+      [createZip([{name}]), createTar([{name}])].forEach((body, index) => {
+        expect(() => parse(body, index === 0 ? 'application/zip' : 'application/x-tar')).toThrow(expect.objectContaining({
+          message: `Invalid entry name '${name}'`,
+          status: 400,
+          type: 'entry.name.invalid',
+        }));
+      });
+    });
+  });
+  [
+    [{maxEntries: 2}, 'too many entries', 'entries.too.many'],
+    [{maxEntrySize: 1000}, 'entry \'data.csv\' too large', 'entry.too.large'],
+    [{maxTotalSize: '1kb'}, 'uncompressed archive too large', 'archive.too.large'],
+    [{maxRatio: 10}, 'compression ratio of entry \'data.csv\' too high', 'ratio.too.high'],
+  ].forEach(([options, message, type]) => {
+    it(`should 413 with ${JSON.stringify(options)}`, () => {
+      expect(() => parse(createZip(files), 'application/zip', <ArchiveOptions>options))
+        .toThrow(expect.objectContaining({message, status: 413, type}));
+    });
+  });
+  it('should reject zip entries larger than their declared size', () => {
+    expect(() => parse(createZip([{name: 'bomb', data: Buffer.alloc(10000), size: 100}]), 'application/zip'))
+      .toThrow(expect.objectContaining({message: 'Entry \'bomb\' can not be decompressed to its size', status: 400}));
+    expect(() => parse(createZip([{name: 'a', data: 'ab', size: 1, store: true}]), 'application/zip'))
+      .toThrow('Entry \'a\' does not match its size or checksum');
+  });
+  [
+    ['application/zip', Buffer.from('no zip'), 'End of central directory of zip archive not found'],
+    ['application/zip', createZip([{name: 'a', data: 'a', flags: 0x801}]), 'Entry \'a\' is encrypted'],
+    ['application/x-tar', createTar(files).slice(0, 1100), 'Tar archive is truncated'],
+    ['application/x-tar', createTar([{name: 'link', typeFlag: '2'}]), 'Type \'2\' of entry \'link\' is not supported'],
+    ['application/x-tar', Buffer.concat([Buffer.alloc(1), createTar(files).slice(1)]), 'Invalid checksum of tar header at offset 0'],
+    ['application/x-tar', createTar([{name: 'PaxHeader', typeFlag: 'x', data: '14 size=-1536\n'}, {name: 'a', data: 'a'.repeat(2000)}]),
+      'Invalid size \'-1536\' in pax extended header'],
+    ['application/x-tar', createTar([{name: 'PaxHeader', typeFlag: 'x', data: '12 size=1e3\n'}, {name: 'a', data: 'a'}]),
+      'Invalid size \'1e3\' in pax extended header'],
+  ].forEach(([type, body, message]) => {
+    it(`should 400 with ${message}`, () => {
+      expect(() => parse(<Buffer>body, <string>type)).toThrow(expect.objectContaining({message, status: 400}));
+    });
+  });
+  it('throws when the options are invalid', () => {
+    expect(() => getArchiveParserConfiguration({maxEntries: -1})).toThrow('maxEntries can not be smaller than 0');
+    expect(() => getArchiveParserConfiguration({maxTotalSize: -1})).toThrow('maxTotalSize can not be smaller than 0');
+    expect(() => getArchiveParserConfiguration({maxEntrySize: -1})).toThrow('maxEntrySize can not be smaller than 0');
+    expect(() => getArchiveParserConfiguration({maxRatio: 0.5})).toThrow('maxRatio can not be smaller than 1');
+  });
+});
+
+describe('handles archive uploads', () => {
+  it('should parse zip archives', (done) => {
+    const test = request(createServer()).post('/');
+    test.set('Content-Type', 'application/zip');
+    test.write(createZip(files));
+    test.expect(200, '["docs/",0,"docs/readme.txt",11,"data.csv",1600]', done);
+  });
+  it('should parse gzip compressed tar archives', (done) => {
+    const test = request(createServer()).post('/');
+    test.set('Content-Type', 'application/gzip');
+    test.write(zlib.gzipSync(createTar(files)));
+    test.expect(200, '["docs/",0,"docs/readme.txt",11,"data.csv",1600]', done);
+  });
+  it('should apply the limit to the compressed tar archive', (done) => {
+    const test = request(createServer({defaultLimit: 1000})).post('/');
+    test.set('Content-Type', 'application/gzip');
+    test.write(zlib.gzipSync(createTar(files)));
+    test.expect(200, '["docs/",0,"docs/readme.txt",11,"data.csv",1600]', done);
+  });
+  it('should limit the compression ratio of gzip compressed tar archives', (done) => {
+    const body = zlib.gzipSync(createTar([{name: 'zeros', data: Buffer.alloc(100000)}]));
+    const test = request(createServer(undefined, getArchiveParserConfiguration({maxRatio: 1000}))).post('/');
+    test.set('Content-Type', 'application/gzip');
+    test.write(body);
+    test.expect(200, '["zeros",100000]', () => {
+      const test = request(createServer()).post('/');
+      test.set('Content-Type', 'application/gzip');
+      test.write(body);
+      test.expect(413, 'Parse error: compression ratio of archive too high', done);
+    });
+  });
+  it('should stop the decompression of gzip compressed tar archives larger than maxTotalSize', (done) => {
+    const test = request(createServer(undefined, getArchiveParserConfiguration({maxTotalSize: 50000, maxEntries: 1, maxRatio: 10000})))
+      .post('/');
+    test.set('Content-Type', 'application/gzip');
+    test.write(zlib.gzipSync(createTar([{name: 'zeros', data: Buffer.alloc(1000000)}])));
+    test.expect(413, 'Parse error: uncompressed archive too large', done);
+  });
+  it('should 400 for invalid gzip compression', (done) => {
+    const test = request(createServer()).post('/');
+    test.set('Content-Type', 'application/gzip');
+    test.write(createTar(files));
+    test.expect(400, 'incorrect header check', done);
+  });
+  it('should decompress tar archives with the content encoding', (done) => {
+    const test = request(createServer()).post('/');
+    test.set('Content-Type', 'application/x-tar');
+    test.set('Content-Encoding', 'gzip');
+    test.write(zlib.gzipSync(createTar(files)));
+    test.expect(200, '["docs/",0,"docs/readme.txt",11,"data.csv",1600]', done);
+  });
+  it('should 413 when the decompressed tar archive is larger than the limit', (done) => {
+    const test = request(createServer({defaultLimit: 1000})).post('/');
+    test.set('Content-Type', 'application/x-tar');
+    test.set('Content-Encoding', 'gzip');
+    test.write(zlib.gzipSync(createTar(files)));
+    test.expect(413, 'request entity too large', done);
+  });
+  it('should 400 for path traversal', (done) => {
+    const test = request(createServer()).post('/');
+    test.set('Content-Type', 'application/x-tar');
+    test.write(createTar([{name: '../../etc/passwd', data: 'root'}]));
+    test.expect(400, 'Parse error: Invalid entry name \'../../etc/passwd\'', done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : getArchiveParserConfiguration())
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      res.statusCode = err ? (err.status || 500) : 200;
+      res.end(err ? err.message : JSON.stringify((<Archive>(<any>req).body).entries.flatMap(({name, size}) => [name, size])));
+    });
+  });
+}
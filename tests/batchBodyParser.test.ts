@@ -0,0 +1,153 @@
+import request from 'supertest';
+import {bodyParser, DefaultOptions, getBatchParser, ParserConfigurations} from '../src';
+import * as http from 'http';
+import {parseHttpMessage} from '../src/batch';
+import {Buffer} from 'buffer';
+
+const boundary = 'batch_36522ad7-fc75-4b56-8c71-56071383e77b';
+
+function batchBody(parts: string[]) {
+  return `${parts.map((part) => `--${boundary}\r\n${part}\r\n`).join('')}--${boundary}--\r\n`;
+}
+
+function httpPart(message: string, contentId?: string) {
+  return `Content-Type: application/http\r\nContent-Transfer-Encoding: binary\r\n${
+    contentId ? `Content-ID: ${contentId}\r\n` : ''
+  }\r\n${message}`;
+}
+
+describe('multipart/mixed batch requests', () => {
+  it('should parse embedded requests', (done) => {
+    request(createServer())
+      .post('/$batch')
+      .set('Content-Type', `multipart/mixed; boundary=${boundary}`)
+      .send(batchBody([
+        httpPart('GET /service/Customers(1) HTTP/1.1\r\nAccept: application/json\r\n', '1'),
+        httpPart('POST /service/Customers HTTP/1.1\r\nContent-Type: application/json\r\n\r\n{"user":"tobi"}', '2'),
+      ]))
+      .expect(200, JSON.stringify([
+        {contentId: '1', method: 'GET', url: '/service/Customers(1)', httpVersion: 'HTTP/1.1', headers: {accept: 'application/json'}},
+        {
+          contentId: '2',
+          method: 'POST',
+          url: '/service/Customers',
+          httpVersion: 'HTTP/1.1',
+          headers: {'content-type': 'application/json'},
+          body: {user: 'tobi'},
+        },
+      ]), done);
+  });
+  it('should select the parser configuration by the media type of the embedded request', (done) => {
+    request(createServer())
+      .post('/$batch')
+      .set('Content-Type', `multipart/mixed; boundary=${boundary}`)
+      .send(batchBody([
+        httpPart('POST /a HTTP/1.1\r\nContent-Type: application/x-www-form-urlencoded\r\n\r\nuser=tobi'),
+        httpPart('POST /b HTTP/1.1\r\nContent-Type: text/plain; charset=latin1\r\n\r\nBjørn'),
+      ]))
+      .expect(200, JSON.stringify([
+        {method: 'POST', url: '/a', httpVersion: 'HTTP/1.1', headers: {'content-type': 'application/x-www-form-urlencoded'}, body: {user: 'tobi'}},
+        {method: 'POST', url: '/b', httpVersion: 'HTTP/1.1', headers: {'content-type': 'text/plain; charset=latin1'}, body: 'BjÃ¸rn'},
+      ]), done);
+  });
+  it('should keep errors of embedded requests apart', (done) => {
+    request(createServer())
+      .post('/$batch')
+      .set('Content-Type', `multipart/mixed; boundary=${boundary}`)
+      .send(batchBody([
+        httpPart('POST /a HTTP/1.1\r\nContent-Type: application/json\r\n\r\n{"user"'),
+        httpPart('POST /b HTTP/1.1\r\nContent-Type: image/png\r\n\r\nPNG'),
+        'Content-Type: text/plain\r\n\r\nGET /c HTTP/1.1',
+        httpPart('invalid request line'),
+        httpPart('POST /d HTTP/1.1\r\nContent-Type: application/json\r\n\r\n{"user":"tobi"}'),
+      ]))
+      .expect((res) => {
+        const requests = JSON.parse(res.text);
+        expect(requests.map((request: {error?: {status: number, type: string}}) => request.error && [request.error.status, request.error.type]))
+          .toEqual([
+            [400, 'entity.parse.failed'],
+            [415, 'mediaType.unsupported'],
+            [415, 'mediaType.unsupported'],
+            [400, 'request.invalid'],
+            undefined,
+          ]);
+        expect(requests[0].url).toBe('/a');
+        expect(requests[4].body).toEqual({user: 'tobi'});
+      })
+      .expect(200, done);
+  });
+  it('should apply the limit of the parser configuration to embedded bodies', (done) => {
+    request(createServer(undefined, {matcher: 'multipart/mixed', streamParser: getBatchParser(['application/json'], {defaultLimit: 10})}))
+      .post('/$batch')
+      .set('Content-Type', `multipart/mixed; boundary=${boundary}`)
+      .send(batchBody([
+        httpPart('POST /a HTTP/1.1\r\nContent-Type: application/json\r\n\r\n{"user":"tobi"}'),
+      ]))
+      .expect(200, /"error":{"status":413,"type":"entity.too.large"/, done);
+  });
+  it('should 413 when too many requests', (done) => {
+    request(createServer(undefined, {matcher: 'multipart/mixed', streamParser: getBatchParser(undefined, {maxParts: 1})}))
+      .post('/$batch')
+      .set('Content-Type', `multipart/mixed; boundary=${boundary}`)
+      .set('X-Error-Property', 'type')
+      .send(batchBody([httpPart('GET /a HTTP/1.1'), httpPart('GET /b HTTP/1.1')]))
+      .expect(413, 'parts.too.many', done);
+  });
+  it('should 400 when the batch is incomplete', (done) => {
+    request(createServer())
+      .post('/$batch')
+      .set('Content-Type', `multipart/mixed; boundary=${boundary}`)
+      .send(`--${boundary}\r\n${httpPart('GET /a HTTP/1.1')}`)
+      .expect(400, 'Parse error: Unexpected end of multipart body', done);
+  });
+  it('throws when maxParts < 0', () => {
+    expect(() => getBatchParser(undefined, {maxParts: -1})).toThrow('maxParts can not be smaller than 0');
+  });
+});
+
+describe('Parsing application/http messages', () => {
+  it('parses messages with LF line breaks', () => {
+    const message = parseHttpMessage(Buffer.from('PATCH /a HTTP/1.0\nContent-Type: text/plain\n\nbody'));
+    expect({...message, headers: {...message.headers}, body: message.body.toString()}).toEqual({
+      method: 'PATCH',
+      url: '/a',
+      httpVersion: 'HTTP/1.0',
+      headers: {'content-type': 'text/plain'},
+      body: 'body',
+    });
+  });
+  it('uses the content length to cut the body', () => {
+    expect(parseHttpMessage(Buffer.from('POST /a HTTP/1.1\r\nContent-Length: 2\r\n\r\nbody\r\n')).body.toString()).toBe('bo');
+  });
+  it('throws when the content length is too large', () => {
+    expect(() => parseHttpMessage(Buffer.from('POST /a HTTP/1.1\r\nContent-Length: 20\r\n\r\nbody')))
+      .toThrow('request size did not match content length');
+  });
+  ['-1', '3abc', '', '0x2'].forEach((contentLength) => {
+    it(`throws for the content length '${contentLength}'`, () => {
+      expect(() => parseHttpMessage(Buffer.from(`POST /a HTTP/1.1\r\nContent-Length: ${contentLength}\r\n\r\nabcd`)))
+        .toThrow(expect.objectContaining({message: `Invalid content length '${contentLength}'`, status: 400, type: 'request.size.invalid'}));
+    });
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : {matcher: 'multipart/mixed', streamParser: getBatchParser()})
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      if (err) {
+        res.statusCode = err.status || 500;
+        // @ts-ignore
+        res.end(err[req.headers['x-error-property'] || 'message']);
+      } else {
+        res.statusCode = 200;
+        // @ts-ignore
+        res.end(JSON.stringify(req.body));
+      }
+    });
+  });
+}
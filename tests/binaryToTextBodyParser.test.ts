@@ -0,0 +1,168 @@
+import request from 'supertest';
+import {
+  bodyParser,
+  ChunkedBufferEncoder,
+  DefaultOptions,
+  getBase32Decoder,
+  getBase58Decoder,
+  getBase64Decoder,
+  getBase85Decoder,
+  getZ85Decoder,
+  ParserConfigurations,
+} from '../src';
+import * as http from 'http';
+
+function decode(decoder: ChunkedBufferEncoder<Buffer, Buffer | string>, chunks: string[]) {
+  const encoder = decoder.create ? decoder.create() : decoder;
+  return encoder.reduce([...chunks.map((chunk) => encoder.onData(Buffer.from(chunk, 'latin1'))), encoder.onEnd()]);
+}
+
+function decodeSplits(decoder: ChunkedBufferEncoder<Buffer, Buffer | string>, encoded: string) {
+  return Array.from({length: encoded.length + 1}, (_, index) => decode(decoder, [encoded.slice(0, index), encoded.slice(index)]));
+}
+
+const bytes = Buffer.from([0, 0, 1, 2, 250, 251, 252, 253, 254, 255, 72, 101, 108, 108, 111]);
+
+describe('binary to text decoders', () => {
+  [
+    ['base64', getBase64Decoder, bytes.toString('base64')],
+    ['base64 without padding', getBase64Decoder, bytes.subarray(1).toString('base64').replace(/=/g, '')],
+    ['base64url', getBase64Decoder, bytes.subarray(2).toString('base64url')],
+    ['base32', getBase32Decoder, 'AAAACAX27P6P37X7JBSWY3DP'],
+    ['base32 with padding', getBase32Decoder, 'AAAACAX27P6P37X7JBSWY3A='],
+    ['base58', getBase58Decoder, '11Ldp3EW4VvEqpy6DuwRz'],
+    ['base85', getBase85Decoder, '!!!$$qYU3hrr5N#Ci""'],
+    ['base85 with delimiters and z', getBase85Decoder, '<~z!<W,pr;HWp87cURDZ~>'],
+    ['z85', getZ85Decoder, '00021@ps}d@ps}d@p7m$'],
+  ].forEach(([description, getDecoder, encoded]) => {
+    it(`should decode ${description} split at every position`, () => {
+      const decoder = (<() => ChunkedBufferEncoder<Buffer, Buffer | string>>getDecoder)();
+      const expected = decode(decoder, [<string>encoded]);
+      expect(expected.length).toBeGreaterThan(0);
+      decodeSplits(decoder, <string>encoded).forEach((decoded) => expect(decoded).toEqual(expected));
+    });
+  });
+  it('should decode the reference values', () => {
+    expect(decode(getBase64Decoder(), [bytes.toString('base64')])).toEqual(bytes);
+    expect(decode(getBase64Decoder(), ['SGVs', 'bG8-_w'])).toEqual(Buffer.from([72, 101, 108, 108, 111, 62, 255]));
+    expect(decode(getBase32Decoder(), ['JBSWY3DP', 'EBLW64TMMQ'])).toEqual(Buffer.from('Hello World'));
+    expect(decode(getBase32Decoder(), ['mzxw6ytboi======'])).toEqual(Buffer.from('foobar'));
+    expect(decode(getBase58Decoder(), ['JxF12TrwUP45BMd'])).toEqual(Buffer.from('Hello World'));
+    expect(decode(getBase58Decoder(), ['1112'])).toEqual(Buffer.from([0, 0, 0, 1]));
+    expect(decode(getBase58Decoder(), ['111'])).toEqual(Buffer.from([0, 0, 0]));
+    expect(decode(getBase85Decoder(), ['<~87cURD]i,"Ebo7~>'])).toEqual(Buffer.from('Hello World'));
+    expect(decode(getBase85Decoder(), ['z', 'z'])).toEqual(Buffer.alloc(8));
+    expect(decode(getZ85Decoder(), ['HelloWorld'])).toEqual(Buffer.from([0x86, 0x4f, 0xd2, 0x6f, 0xb5, 0x59, 0xf7, 0x5b]));
+  });
+  it('should ignore whitespace and convert to the output encoding', () => {
+    expect(decode(getBase64Decoder({outputEncoding: 'utf8'}), ['SGVs\r\n', ' bG8=\n'])).toBe('Hello');
+    expect(decode(getBase32Decoder({outputEncoding: 'hex'}), ['74\t'])).toBe('ff');
+    expect(decode(getBase58Decoder({outputEncoding: 'utf8'}), ['JxF12Tr wUP\n45BMd'])).toBe('Hello World');
+  });
+  [
+    ['an invalid base64 character', getBase64Decoder, ['SGV', 's!'], 'Invalid base64 character \'!\' at offset 4'],
+    ['data after base64 padding', getBase64Decoder, ['SG==', 'SG'], 'Invalid base64 character \'S\' at offset 4'],
+    ['a single base64 character', getBase64Decoder, ['SGVsb'], 'Incomplete base64 group at offset 5'],
+    ['base64 padding without data', getBase64Decoder, ['='], 'Invalid base64 character \'=\' at offset 0'],
+    ['an incomplete base32 group', getBase32Decoder, ['JBS'], 'Incomplete base32 group at offset 3'],
+    ['an invalid base32 character', getBase32Decoder, ['JBS1'], 'Invalid base32 character \'1\' at offset 3'],
+    ['an invalid base58 character', getBase58Decoder, ['Jx', 'F0'], 'Invalid base58 character \'0\' at offset 3'],
+    ['z inside of a base85 group', getBase85Decoder, ['87z'], 'Invalid base85 character \'z\' at offset 2'],
+    ['a base85 group which overflows', getBase85Decoder, ['s8W-"'], 'Invalid base85 group at offset 4'],
+    ['data after the base85 end', getBase85Decoder, ['87cUR~>D'], 'Invalid base85 character \'D\' at offset 7'],
+    ['a single base85 character', getBase85Decoder, ['87cURD'], 'Incomplete base85 group at offset 6'],
+    ['an incomplete z85 group', getZ85Decoder, ['Hello', 'Wor'], 'Incomplete z85 group at offset 8'],
+    ['an invalid z85 character', getZ85Decoder, ['Hel"o'], 'Invalid z85 character \'"\' at offset 3'],
+  ].forEach(([description, getDecoder, chunks, message]) => {
+    it(`should 400 for ${description}`, () => {
+      const decoder = (<() => ChunkedBufferEncoder<Buffer, Buffer | string>>getDecoder)();
+      expect(() => decode(decoder, <string[]>chunks)).toThrow(expect.objectContaining({message, status: 400, type: 'encoding.invalid'}));
+    });
+  });
+  it('should 413 when the base58 body is too long', () => {
+    const encoded = '1'.repeat(2048);
+    expect(decode(getBase58Decoder(), [encoded.slice(0, 1000), `${encoded.slice(1000)}\n`])).toEqual(Buffer.alloc(2048));
+    expect(() => decode(getBase58Decoder(), [encoded, '1'])).toThrow(expect.objectContaining({
+      limit: 2048,
+      status: 413,
+      type: 'entity.too.large',
+    }));
+    expect(decode(getBase58Decoder({maxLength: 15}), ['JxF12TrwUP45BMd'])).toEqual(Buffer.from('Hello World'));
+    expect(() => decode(getBase58Decoder({maxLength: 14}), ['JxF12TrwUP45BMd'])).toThrow('base58 body too long');
+  });
+  it('throws when maxLength is invalid', () => {
+    expect(() => getBase58Decoder({maxLength: -1})).toThrow('maxLength can not be smaller than 0');
+  });
+  it('should create decoders with their own state', () => {
+    const decoder = getBase64Decoder();
+    const first = (<() => ChunkedBufferEncoder<Buffer, Buffer | string>>decoder.create)();
+    const second = (<() => ChunkedBufferEncoder<Buffer, Buffer | string>>decoder.create)();
+    expect(first.onData(Buffer.from('SG'))).toEqual(Buffer.alloc(0));
+    expect(second.onData(Buffer.from('bG8='))).toEqual(Buffer.from('lo'));
+    expect(first.onData(Buffer.from('Vs'))).toEqual(Buffer.from('Hel'));
+    expect(decoder.encodings).toEqual(['base64']);
+    expect(getBase85Decoder().encodings).toEqual(['base85', 'ascii85']);
+    expect(getZ85Decoder({encodings: ['x-z85']}).encodings).toEqual(['x-z85']);
+  });
+});
+
+describe('handles bodies with binary to text charsets', () => {
+  it('should decode base64 bodies sent in chunks', (done) => {
+    const test = request(createServer()).post('/');
+    test.set('Content-Type', 'text/plain; charset=base64');
+    test.set('Transfer-Encoding', 'chunked');
+    test.write('SGVsbG8g');
+    test.write('V29y');
+    test.write('bGQ');
+    test.expect(200, '"Hello World"', done);
+  });
+  it('should decode concurrent bodies independently', (done) => {
+    const server = createServer({}, {matcher: 'text/plain', encodings: ['base32'], parser: (payload: string) => payload}, [
+      getBase32Decoder({outputEncoding: 'utf8'}),
+    ]);
+    let count = 0;
+    const end = (err?: Error) => {
+      if (err) done(err);
+      else if (++count === 2) done();
+    };
+    ['JBSWY3DP', 'KRSXG5A='].forEach((encoded, index) => {
+      const test = request(server).post('/');
+      test.set('Content-Type', 'text/plain; charset=base32');
+      test.write(encoded.slice(0, 3));
+      test.write(encoded.slice(3));
+      test.expect(200, index === 0 ? '"Hello"' : '"Test"', end);
+    });
+  });
+  it('should 413 for too long base58 bodies', (done) => {
+    request(createServer({}, {matcher: 'text/plain', encodings: ['base58'], parser: (payload: Buffer) => payload}, [getBase58Decoder()]))
+      .post('/')
+      .set('Content-Type', 'text/plain; charset=base58')
+      .send('2'.repeat(3000))
+      .expect(413, 'Parse error: base58 body too long', done);
+  });
+  it('should 400 for invalid encoded bodies', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'text/plain; charset=base64')
+      .send('SGVs*G8')
+      .expect(400, 'Parse error: Invalid base64 character \'*\' at offset 4', done);
+  });
+});
+
+function createServer (
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  opts: DefaultOptions | Function = {},
+  parserConfigurations?: ParserConfigurations<any, any>,
+  bufferEncodings: ChunkedBufferEncoder<Buffer, Buffer | string>[] = [getBase64Decoder({outputEncoding: 'utf8'})],
+) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations, <any[]>bufferEncodings)
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      res.statusCode = err ? (err.status || 500) : 200;
+      res.end(err ? err.message : JSON.stringify((<any>req).body));
+    });
+  });
+}
@@ -0,0 +1,174 @@
+import request from 'supertest';
+import {bodyParser, CalendarComponent, DefaultOptions, getCalendarParserConfiguration, ParserConfigurations} from '../src';
+import * as http from 'http';
+
+function parse(lines: string[], configuration = getCalendarParserConfiguration()) {
+  return <CalendarComponent>(<(payload: string) => CalendarComponent>configuration.parser)(lines.join('\r\n'));
+}
+
+const invitation = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Example Corp.//CalDAV Client//EN',
+  'METHOD:REQUEST',
+  'BEGIN:VTIMEZONE',
+  'TZID:Europe/Berlin',
+  'BEGIN:STANDARD',
+  'DTSTART:19701025T030000',
+  'TZOFFSETFROM:+0200',
+  'TZOFFSETTO:+0100',
+  'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+  'BEGIN:VEVENT',
+  'UID:20261019T120000-1@example.com',
+  'DTSTART;TZID=Europe/Berlin:20261020T100000',
+  'SUMMARY:Planning\\, review\\; and retro',
+  'DESCRIPTION:Agenda:\\n1. Backlog\\N2. Sprint goal. This line is longer than',
+  '  seventy-five octets and therefore fold',
+  '\ted.',
+  'ORGANIZER;CN="Doe, Jane":mailto:jane@example.com',
+  'ATTENDEE;ROLE=REQ-PARTICIPANT;DELEGATED-FROM="mailto:a@example.com","mailto:b@example.com";CN=Caret ^\'Bob^\' ^^:mailto:bob@example.com',
+  'CATEGORIES:MEETING,PLANNING\\,Q4',
+  'EXDATE;TZID=Europe/Berlin:20261027T100000,20261103T100000',
+  'SEQUENCE:2',
+  'X-CUSTOM;VALUE=INTEGER:-3',
+  'BEGIN:VALARM',
+  'ACTION:DISPLAY',
+  'TRIGGER:-PT15M',
+  'END:VALARM',
+  'END:VEVENT',
+  'BEGIN:VTODO',
+  'UID:todo-1@example.com',
+  'PERCENT-COMPLETE:40',
+  'END:VTODO',
+  'END:VCALENDAR',
+  '',
+];
+
+describe('getCalendarParserConfiguration', () => {
+  it('should build the component tree', () => {
+    const calendar = parse(invitation);
+    expect(calendar.name).toBe('VCALENDAR');
+    expect(calendar.properties).toEqual([
+      {name: 'VERSION', parameters: {}, value: '2.0'},
+      {name: 'PRODID', parameters: {}, value: '-//Example Corp.//CalDAV Client//EN'},
+      {name: 'METHOD', parameters: {}, value: 'REQUEST'},
+    ]);
+    expect(calendar.components.map(({name, components}) => [name, components.map((component) => component.name)])).toEqual([
+      ['VTIMEZONE', ['STANDARD']],
+      ['VEVENT', ['VALARM']],
+      ['VTODO', []],
+    ]);
+    expect(calendar.components[0].components[0].properties[3]).toEqual({name: 'RRULE', parameters: {}, value: 'FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU'});
+    expect(calendar.components[2].properties[1]).toEqual({name: 'PERCENT-COMPLETE', parameters: {}, value: 40});
+  });
+  it('should decode the parameters and the values', () => {
+    expect(parse(invitation).components[1].properties).toEqual([
+      {name: 'UID', parameters: {}, value: '20261019T120000-1@example.com'},
+      {name: 'DTSTART', parameters: {TZID: 'Europe/Berlin'}, value: '20261020T100000'},
+      {name: 'SUMMARY', parameters: {}, value: 'Planning, review; and retro'},
+      {
+        name: 'DESCRIPTION',
+        parameters: {},
+        value: 'Agenda:\n1. Backlog\n2. Sprint goal. This line is longer than seventy-five octets and therefore folded.',
+      },
+      {name: 'ORGANIZER', parameters: {CN: 'Doe, Jane'}, value: 'mailto:jane@example.com'},
+      {
+        name: 'ATTENDEE',
+        parameters: {ROLE: 'REQ-PARTICIPANT', 'DELEGATED-FROM': ['mailto:a@example.com', 'mailto:b@example.com'], CN: 'Caret "Bob" ^'},
+        value: 'mailto:bob@example.com',
+      },
+      {name: 'CATEGORIES', parameters: {}, value: ['MEETING', 'PLANNING,Q4']},
+      {name: 'EXDATE', parameters: {TZID: 'Europe/Berlin'}, value: ['20261027T100000', '20261103T100000']},
+      {name: 'SEQUENCE', parameters: {}, value: 2},
+      {name: 'X-CUSTOM', parameters: {VALUE: 'INTEGER'}, value: -3},
+    ]);
+  });
+  it('should accept bare line feeds and lower case names', () => {
+    expect((<(payload: string) => CalendarComponent>getCalendarParserConfiguration().parser)('begin:vcalendar\nx-note:a\\nb\nend:vcalendar\n'))
+      .toEqual({name: 'VCALENDAR', properties: [{name: 'X-NOTE', parameters: {}, value: 'a\nb'}], components: []});
+  });
+  [
+    ['a missing calendar object', [], 'Missing calendar object'],
+    ['another root component', ['BEGIN:VEVENT', 'END:VEVENT'], 'Expected component \'VCALENDAR\' in line 1 but got \'VEVENT\''],
+    ['a second calendar object', ['BEGIN:VCALENDAR', 'END:VCALENDAR', 'BEGIN:VCALENDAR', 'END:VCALENDAR'],
+      'Unexpected component after the end of the calendar object in line 3'],
+    ['a property outside of a component', ['VERSION:2.0'], 'Property \'VERSION\' outside of a component in line 1'],
+    ['a wrong end', ['BEGIN:VCALENDAR', 'BEGIN:VEVENT', 'END:VCALENDAR'], 'Unexpected end of component \'VCALENDAR\' in line 3'],
+    ['a missing end', ['BEGIN:VCALENDAR', 'BEGIN:VTODO', 'END:VTODO'], 'Missing end of component \'VCALENDAR\''],
+    ['a line without a value', ['BEGIN:VCALENDAR', 'VERSION'], 'Malformed content line 2'],
+    ['a malformed parameter', ['BEGIN:VCALENDAR', 'X-A;B:c'], 'Malformed parameter in content line 2'],
+    ['a duplicate parameter', ['BEGIN:VCALENDAR', 'X-A;B=1;b=2:c'], 'Duplicate parameter \'B\' in content line 2'],
+    ['an invalid integer', ['BEGIN:VCALENDAR', 'BEGIN:VTODO', 'PRIORITY:high'], 'Invalid integer value of property \'PRIORITY\' in line 3'],
+    ['an invalid component name', ['BEGIN:VCALENDAR', 'BEGIN:V EVENT'], 'Invalid component name \'V EVENT\' in line 2'],
+  ].forEach(([description, lines, message]) => {
+    it(`should 400 for ${description}`, () => {
+      expect(() => parse(<string[]>lines)).toThrow(expect.objectContaining({message, status: 400, type: 'calendar.invalid'}));
+    });
+  });
+  it('should 413 when the limits are exceeded', () => {
+    expect(() => parse(invitation, getCalendarParserConfiguration({maxComponents: 5}))).toThrow(expect.objectContaining({
+      limit: 5,
+      status: 413,
+      type: 'components.too.many',
+    }));
+    expect(parse(invitation, getCalendarParserConfiguration({maxLineLength: 140})).name).toBe('VCALENDAR');
+    expect(() => parse(invitation, getCalendarParserConfiguration({maxLineLength: 110}))).toThrow(expect.objectContaining({
+      message: 'content line 18 too long',
+      status: 413,
+      type: 'line.too.long',
+    }));
+  });
+  it('throws when the options are invalid', () => {
+    expect(() => getCalendarParserConfiguration({maxComponents: -1})).toThrow('maxComponents can not be smaller than 0');
+    expect(() => getCalendarParserConfiguration({maxLineLength: -1})).toThrow('maxLineLength can not be smaller than 0');
+  });
+});
+
+describe('handles text/calendar requests', () => {
+  it('should parse text/calendar', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'text/calendar')
+      .send(invitation.join('\r\n'))
+      .expect(200, '["VTIMEZONE","VEVENT","VTODO"]', done);
+  });
+  it('should decode utf-8 by default', (done) => {
+    request(createServer(undefined, {...getCalendarParserConfiguration(), verify: (req, res, buffer, body) => {
+      if ((<CalendarComponent>body).properties[0].value !== 'Grüße') throw new Error('not decoded');
+    }}))
+      .post('/')
+      .set('Content-Type', 'text/calendar')
+      .send(Buffer.from('BEGIN:VCALENDAR\r\nX-GREETING:Grüße\r\nEND:VCALENDAR'))
+      .expect(200, '[]', done);
+  });
+  it('should 415 for other charsets', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'text/calendar; charset=latin1')
+      .send(invitation.join('\r\n'))
+      .expect(415, done);
+  });
+  it('should 400 for invalid calendars', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'text/calendar')
+      .send('BEGIN:VCALENDAR\r\n')
+      .expect(400, 'Parse error: Missing end of component \'VCALENDAR\'', done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : getCalendarParserConfiguration())
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      res.statusCode = err ? (err.status || 500) : 200;
+      res.end(err ? err.message : JSON.stringify((<CalendarComponent>(<any>req).body).components.map(({name}) => name)));
+    });
+  });
+}
@@ -0,0 +1,187 @@
+import request from 'supertest';
+import {bodyParser, DefaultOptions, getCborParser, ParserConfigurations} from '../src';
+import * as http from 'http';
+import {Buffer} from 'buffer';
+
+const decode = (hex: string) => getCborParser()(Buffer.from(hex, 'hex'));
+
+describe('decodes CBOR', () => {
+  // Examples of RFC 8949, appendix A
+  [
+    ['00', 0],
+    ['17', 23],
+    ['1818', 24],
+    ['1903e8', 1000],
+    ['1a000f4240', 1000000],
+    ['1b000000e8d4a51000', 1000000000000],
+    ['1bffffffffffffffff', BigInt('18446744073709551615')],
+    ['c249010000000000000000', BigInt('18446744073709551616')],
+    ['3bffffffffffffffff', BigInt('-18446744073709551616')],
+    ['c349010000000000000000', BigInt('-18446744073709551617')],
+    ['20', -1],
+    ['3863', -100],
+    ['3903e7', -1000],
+    ['f90000', 0],
+    ['f93c00', 1],
+    ['fb3ff199999999999a', 1.1],
+    ['f93e00', 1.5],
+    ['f97bff', 65504],
+    ['fa47c35000', 100000],
+    ['f90001', 5.960464477539063e-8],
+    ['f9c400', -4],
+    ['f97c00', Infinity],
+    ['f9fc00', -Infinity],
+    ['f4', false],
+    ['f5', true],
+    ['f6', null],
+    ['f7', undefined],
+    ['c074323031332d30332d32315432303a30343a30305a', new Date('2013-03-21T20:04:00Z')],
+    ['c11a514b67b0', new Date(1363896240000)],
+    ['c1fb41d452d9ec200000', new Date(1363896240500)],
+    ['4401020304', Buffer.from('01020304', 'hex')],
+    ['60', ''],
+    ['6449455446', 'IETF'],
+    ['62c3bc', 'ü'],
+    ['8301820203820405', [1, [2, 3], [4, 5]]],
+    ['a26161016162820203', {a: 1, b: [2, 3]}],
+    ['a201020304', {1: 2, 3: 4}],
+    ['5f42010243030405ff', Buffer.from('0102030405', 'hex')],
+    ['7f657374726561646d696e67ff', 'streaming'],
+    ['9fff', []],
+    ['9f018202039f0405ffff', [1, [2, 3], [4, 5]]],
+    ['bf61610161629f0203ffff', {a: 1, b: [2, 3]}],
+    ['d9d9f783010203', [1, 2, 3]],
+  ].forEach(([hex, expected]) => {
+    it(`should decode ${hex}`, () => {
+      expect(decode(<string>hex)).toEqual(expected);
+    });
+  });
+  it('should decode NaN and negative zero', () => {
+    expect(decode('f97e00')).toBeNaN();
+    expect(Object.is(decode('f98000'), -0)).toBe(true);
+  });
+  it('should decode tags without decoder to CborTag objects', () => {
+    expect(decode('d74401020304')).toEqual({tag: 23, value: Buffer.from('01020304', 'hex')});
+  });
+  it('should decode tags with supplied decoders', () => {
+    const parser = getCborParser({tags: {23: (value) => (<Buffer>value).toString('hex')}});
+    expect(parser(Buffer.from('d74401020304', 'hex'))).toBe('01020304');
+  });
+  it('should decode maps to Map objects', () => {
+    const parser = getCborParser({mapType: 'map'});
+    expect(parser(Buffer.from('a28101f50302', 'hex'))).toEqual(new Map<unknown, unknown>([[[1], true], [3, 2]]));
+  });
+  it('should not pollute the prototype', () => {
+    const parsed = <Record<string, unknown>>decode('a1695f5f70726f746f5f5fa168706f6c6c75746564f5');
+    expect(Object.prototype.hasOwnProperty.call(parsed, '__proto__')).toBe(true);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe('when CBOR is malformed or too large', () => {
+  [
+    ['', 'Unexpected end of data'],
+    ['1c', 'Invalid additional information 28'],
+    ['0001', 'Unexpected data after the end of the data item'],
+    ['ff', 'Unexpected break'],
+    ['81ff', 'Unexpected break'],
+    ['62c3', 'Unexpected end of data'],
+    ['9bffffffffffffffff', 'Unexpected end of data'],
+    ['61ff', 'Invalid UTF-8 in text string'],
+    ['5f01ff', 'Invalid chunk of indefinite length string'],
+    ['1f', 'Invalid indefinite length of major type 0'],
+    ['f820', 'Unsupported simple value 32'],
+    ['a2616101616102', 'Duplicate map key \'a\''],
+    ['a18001', 'Only text and integer map keys are supported for objects'],
+    ['c06161', 'Invalid date/time string of tag 0'],
+    ['c06a323031332d30332d3231', 'Invalid date/time string of tag 0'],
+    ['c06e4d617263682032312c2032303133', 'Invalid date/time string of tag 0'],
+    ['c16161', 'Invalid epoch-based date/time of tag 1'],
+    ['c11bffffffffffffffff', 'Invalid epoch-based date/time of tag 1'],
+    ['c1f97e00', 'Invalid epoch-based date/time of tag 1'],
+    ['c26161', 'Invalid bignum of tag 2'],
+  ].forEach(([hex, message]) => {
+    it(`should throw for ${hex || 'empty data'}`, () => {
+      expect(() => decode(hex)).toThrow(message);
+    });
+  });
+  it('should 413 when nested too deeply', () => {
+    expect(() => getCborParser({maxDepth: 2})(Buffer.from('81818180', 'hex'))).toThrow(expect.objectContaining({
+      status: 413,
+      type: 'depth.too.large',
+    }));
+  });
+  it('should 413 when too many data items', () => {
+    expect(() => getCborParser({maxItems: 3})(Buffer.from('83010203', 'hex'))).toThrow(expect.objectContaining({
+      status: 413,
+      type: 'items.too.many',
+    }));
+  });
+  it('should 413 when a string is too large', () => {
+    expect(() => getCborParser({maxStringLength: 3})(Buffer.from('6449455446', 'hex'))).toThrow(expect.objectContaining({
+      status: 413,
+      type: 'string.too.large',
+    }));
+    expect(() => getCborParser({maxStringLength: 3})(Buffer.from('5f420102420304ff', 'hex'))).toThrow(expect.objectContaining({
+      status: 413,
+      type: 'string.too.large',
+    }));
+  });
+  it('throws when maxItems is invalid', () => {
+    expect(() => getCborParser({maxItems: -1})).toThrow('maxItems can not be smaller than 0');
+  });
+});
+
+describe('handles application/cbor', () => {
+  it('should parse CBOR', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .send(Buffer.from('a3646e616d6564746f6269646461746142010263626967c249010000000000000000', 'hex'))
+      .expect(200, '{"name":"tobi","data":{"type":"Buffer","data":[1,2]},"big":"18446744073709551616"}', done);
+  });
+  it('should parse media types with +cbor suffix', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/senml+cbor')
+      .send(Buffer.from('8201820203', 'hex'))
+      .expect(200, '[1,[2,3]]', done);
+  });
+  it('should 400 for malformed CBOR', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .set('X-Error-Property', 'type')
+      .send(Buffer.from('8301', 'hex'))
+      .expect(400, 'entity.parse.failed', done);
+  });
+  it('should 413 when too many data items', (done) => {
+    request(createServer(undefined, {matcher: 'application/cbor', parser: getCborParser({maxItems: 2})}))
+      .post('/')
+      .set('Content-Type', 'application/cbor')
+      .set('X-Error-Property', 'type')
+      .send(Buffer.from('83010203', 'hex'))
+      .expect(413, 'items.too.many', done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : 'application/cbor')
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      if (err) {
+        res.statusCode = err.status || 500;
+        // @ts-ignore
+        res.end(err[req.headers['x-error-property'] || 'message']);
+      } else {
+        res.statusCode = 200;
+        // @ts-ignore
+        res.end(JSON.stringify(req.body, (key, value) => typeof value === 'bigint' ? value.toString() : value));
+      }
+    });
+  });
+}
@@ -0,0 +1,230 @@
+import request from 'supertest';
+import createError from 'http-errors';
+import {Buffer} from 'buffer';
+import {bodyParser, DefaultOptions, getBinaryCloudEvent, getCloudEventsParser, ParserConfigurations, Request} from '../src';
+import * as http from 'http';
+
+const event = {
+  specversion: '1.0',
+  id: 'A234-1234-1234',
+  source: '/mycontext',
+  type: 'com.example.someevent',
+  time: '2018-04-05T17:31:00Z',
+  comexampleextension1: 'value',
+  comexampleothervalue: 5,
+};
+
+function parse(body: string, type = 'application/cloudevents+json', headers: Record<string, string> = {}) {
+  const streamParser = getCloudEventsParser(['application/json', 'text/plain'], {maxEvents: 2})(
+    {type, parameters: {}},
+    <Request<unknown, unknown>><unknown>{headers: {'content-type': type, ...headers}},
+  );
+  streamParser.onData(Buffer.from(body));
+  return streamParser.onEnd();
+}
+
+describe('parses CloudEvents in structured mode', () => {
+  it('should parse an event with JSON data', () => {
+    expect(parse(JSON.stringify({...event, datacontenttype: 'application/json', data: {a: [1]}}))).toEqual({
+      ...event,
+      datacontenttype: 'application/json',
+      data: {a: [1]},
+    });
+  });
+  it('should parse base64 encoded data with the parser for the data content type', () => {
+    expect(parse(JSON.stringify({...event, datacontenttype: 'application/json', data_base64: 'eyJhIjogMX0='}))).toEqual({
+      ...event,
+      datacontenttype: 'application/json',
+      data: {a: 1},
+    });
+    expect(parse(JSON.stringify({...event, data_base64: 'AAEC'}))).toEqual({...event, data: Buffer.from([0, 1, 2])});
+  });
+  it('should remove attributes with null values', () => {
+    expect(parse(JSON.stringify({...event, subject: null, data: null}))).toEqual(event);
+  });
+  it('should parse batches', () => {
+    expect(parse(JSON.stringify([event, {...event, id: 'B'}]), 'application/cloudevents-batch+json')).toEqual([event, {...event, id: 'B'}]);
+    expect(parse('[]', 'application/cloudevents-batch+json')).toEqual([]);
+  });
+  [
+    ['[]', 'Event has to be an object'],
+    [{...event, specversion: undefined}, 'Missing required attribute \'specversion\''],
+    [{...event, specversion: '0.3'}, 'Unsupported specversion \'0.3\''],
+    [{...event, id: undefined}, 'Missing required attribute \'id\''],
+    [{...event, source: ''}, 'Attribute \'source\' has to be a non-empty string'],
+    [{...event, type: 1}, 'Attribute \'type\' has to be a non-empty string'],
+    [{...event, subject: true}, 'Attribute \'subject\' has to be a string'],
+    [{...event, time: '05.04.2018'}, 'Attribute \'time\' has to be a RFC 3339 timestamp'],
+    [{...event, 'com.example': 'a'}, 'Invalid attribute name \'com.example\''],
+    [{...event, ext: 1.5}, 'Attribute \'ext\' has to be a string, a boolean or an integer'],
+    [{...event, ext: 2 ** 31}, 'Attribute \'ext\' has to be a string, a boolean or an integer'],
+    [{...event, ext: {}}, 'Attribute \'ext\' has to be a string, a boolean or an integer'],
+    [{...event, data: 'a', data_base64: 'YQ=='}, 'Event can not have both \'data\' and \'data_base64\''],
+    [{...event, data_base64: 'YQ'}, 'Attribute \'data_base64\' has to be a base64 encoded string'],
+    [{...event, datacontenttype: 'application/json', data_base64: 'eyJfX3Byb3RvX18iOnsiYSI6MX19'},
+      'Invalid data: __proto__ key not allowed in JSON body on main level', 'entity.parse.failed'],
+  ].forEach(([body, message, type = 'cloudevent.invalid']) => {
+    it(`should throw ${message}`, () => {
+      expect(() => parse(typeof body === 'string' ? body : JSON.stringify(body))).toThrow(expect.objectContaining({message, status: 400, type}));
+    });
+  });
+  it('should add the index of the failing event of a batch', () => {
+    expect(() => parse(JSON.stringify([event, {...event, id: ''}]), 'application/cloudevents-batch+json'))
+      .toThrow(expect.objectContaining({message: 'Event 1: Attribute \'id\' has to be a non-empty string', type: 'cloudevent.invalid'}));
+    expect(() => parse(JSON.stringify(event), 'application/cloudevents-batch+json')).toThrow('Batch of events has to be an array');
+  });
+  it('should keep the type and the limit of the errors of the data', () => {
+    const streamParser = getCloudEventsParser<unknown, unknown, unknown>({matcher: 'application/x-deep', parser: () => {
+      throw createError(413, 'too deeply nested', {limit: 2, type: 'depth.too.large'});
+    }})(
+      {type: 'application/cloudevents-batch+json', parameters: {}},
+      <Request<unknown, unknown>><unknown>{headers: {}},
+    );
+    streamParser.onData(Buffer.from(JSON.stringify([{...event, datacontenttype: 'application/x-deep', data_base64: 'YQ=='}])));
+    expect(() => streamParser.onEnd()).toThrow(expect.objectContaining({
+      message: 'Event 0: Invalid data: too deeply nested',
+      limit: 2,
+      status: 413,
+      type: 'depth.too.large',
+    }));
+  });
+  it('should 413 when the batch has too many events', () => {
+    expect(() => parse(JSON.stringify([event, event, event]), 'application/cloudevents-batch+json')).toThrow(expect.objectContaining({
+      status: 413,
+      type: 'events.too.many',
+    }));
+  });
+  it('should 415 for other event formats and charsets', () => {
+    expect(() => parse('', 'application/cloudevents+xml')).toThrow(expect.objectContaining({status: 415, type: 'mediaType.unsupported'}));
+    expect(() => getCloudEventsParser()(
+      {type: 'application/cloudevents+json', parameters: {charset: 'latin1'}},
+      <Request<unknown, unknown>><unknown>{headers: {}},
+    )).toThrow(expect.objectContaining({status: 415, type: 'charset.unsupported'}));
+  });
+  it('throws when maxEvents is invalid', () => {
+    expect(() => getCloudEventsParser(undefined, {maxEvents: -1})).toThrow('maxEvents can not be smaller than 0');
+  });
+});
+
+describe('parses CloudEvents in binary mode', () => {
+  const headers = {
+    'ce-specversion': '1.0',
+    'ce-id': 'A234-1234-1234',
+    'ce-source': '/mycontext',
+    'ce-type': 'com.example.someevent',
+    'ce-subject': '%E2%82%AC%20100',
+  };
+  it('should create the event from the headers', () => {
+    expect(getBinaryCloudEvent({...headers, 'content-type': 'text/plain', host: 'localhost'})).toEqual({
+      specversion: '1.0',
+      id: 'A234-1234-1234',
+      source: '/mycontext',
+      type: 'com.example.someevent',
+      subject: '€ 100',
+      datacontenttype: 'text/plain',
+    });
+  });
+  [
+    [{...headers, 'ce-specversion': undefined}, 'Missing required attribute \'specversion\''],
+    [{...headers, 'ce-source': undefined}, 'Missing required attribute \'source\''],
+    [{...headers, 'ce-subject': '%E2%82'}, 'Header \'ce-subject\' is not correctly percent-encoded'],
+    [{...headers, 'ce-datacontenttype': 'text/plain'}, 'Attribute \'datacontenttype\' has to be set with the header \'Content-Type\''],
+    [{...headers, 'ce-my_extension': 'a'}, 'Invalid attribute name \'my_extension\''],
+  ].forEach(([eventHeaders, message]) => {
+    it(`should throw ${message}`, () => {
+      expect(() => getBinaryCloudEvent(<http.IncomingHttpHeaders>eventHeaders))
+        .toThrow(expect.objectContaining({message, status: 400, type: 'cloudevent.invalid'}));
+    });
+  });
+  it('should parse the data with the parser for the content type', () => {
+    expect(parse('{"a": 1}', 'application/json', headers)).toEqual({
+      ...getBinaryCloudEvent({...headers, 'content-type': 'application/json'}),
+      data: {a: 1},
+    });
+  });
+});
+
+describe('handles CloudEvents over HTTP', () => {
+  it('should parse application/cloudevents+json', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/cloudevents+json')
+      .send(JSON.stringify({...event, data: 'hello'}))
+      .expect(200, {...event, data: 'hello'}, done);
+  });
+  it('should parse application/cloudevents-batch+json', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/cloudevents-batch+json')
+      .send(JSON.stringify([event]))
+      .expect(200, [event], done);
+  });
+  it('should parse events in binary mode', (done) => {
+    request(createServer(undefined, binaryConfiguration))
+      .post('/')
+      .set('Content-Type', 'text/plain; charset=utf-8')
+      .set('ce-specversion', '1.0')
+      .set('ce-id', '1')
+      .set('ce-source', '/source')
+      .set('ce-type', 'example')
+      .set('ce-partitionkey', 'a%2Cb')
+      .send('hello')
+      .expect(200, {
+        specversion: '1.0',
+        id: '1',
+        source: '/source',
+        type: 'example',
+        partitionkey: 'a,b',
+        datacontenttype: 'text/plain; charset=utf-8',
+        data: 'hello',
+      }, done);
+  });
+  it('should 400 in binary mode without attributes', (done) => {
+    request(createServer(undefined, binaryConfiguration))
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send('{"a": 1}')
+      .expect(400, 'Parse error: Missing required attribute \'specversion\'', done);
+  });
+  it('should 415 when the data has an unsupported content type', (done) => {
+    request(createServer(undefined, binaryConfiguration))
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .set('ce-specversion', '1.0')
+      .set('ce-id', '1')
+      .set('ce-source', '/source')
+      .set('ce-type', 'example')
+      .set('X-Error-Property', 'type')
+      .send('<a/>')
+      .expect(415, 'mediaType.unsupported', done);
+  });
+});
+
+const binaryConfiguration = {
+  matcher: '*/*',
+  streamParser: getCloudEventsParser(['application/json', 'text/plain']),
+  defaultEncoding: 'utf-8',
+  encodings: true,
+};
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : 'application/cloudevents+json')
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      if (err) {
+        res.statusCode = err.status || 500;
+        // @ts-ignore
+        res.end(err[req.headers['x-error-property'] || 'message']);
+      } else {
+        res.statusCode = 200;
+        res.setHeader('Content-Type', 'application/json');
+        // @ts-ignore
+        res.end(JSON.stringify(req.body));
+      }
+    });
+  });
+}
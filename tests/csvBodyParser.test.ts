@@ -0,0 +1,162 @@
+import request from 'supertest';
+import {bodyParser, DefaultOptions, getCsvParser, ParserConfigurations} from '../src';
+import * as http from 'http';
+import {Buffer} from 'buffer';
+
+describe('handles text/csv', () => {
+  it('should parse CSV to arrays of rows', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'text/csv')
+      .send('name,pet\r\ntobi,loki\r\nloki,ferret\r\n')
+      .expect(200, '[["name","pet"],["tobi","loki"],["loki","ferret"]]', done);
+  });
+  it('should map rows to the header row when header=present', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'text/csv; header=present')
+      .send('name,pet\ntobi,loki\nloki,ferret')
+      .expect(200, '[{"name":"tobi","pet":"loki"},{"name":"loki","pet":"ferret"}]', done);
+  });
+  it('should not map rows when header=absent overrides the option', (done) => {
+    request(createServer(undefined, {matcher: 'text/csv', parser: getCsvParser({header: true})}))
+      .post('/')
+      .set('Content-Type', 'text/csv; header=absent')
+      .send('name,pet\ntobi,loki')
+      .expect(200, '[["name","pet"],["tobi","loki"]]', done);
+  });
+  it('should map rows with header option', (done) => {
+    request(createServer(undefined, {matcher: 'text/csv', parser: getCsvParser({header: true})}))
+      .post('/')
+      .set('Content-Type', 'text/csv')
+      .send('name,pet\ntobi,loki')
+      .expect(200, '[{"name":"tobi","pet":"loki"}]', done);
+  });
+  it('should parse quoted fields', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'text/csv')
+      .send('"name","description"\r\n"tobi","says ""hi"",\r\nand leaves"\r\n""\r\n')
+      .expect(200, JSON.stringify([['name', 'description'], ['tobi', 'says "hi",\r\nand leaves'], ['']]), done);
+  });
+  it('should keep empty fields and skip empty lines', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'text/csv')
+      .send('a,,c\n\n,b,\n')
+      .expect(200, '[["a","","c"],["","b",""]]', done);
+  });
+  it('should use the delimiter option', (done) => {
+    request(createServer(undefined, {matcher: 'text/csv', parser: getCsvParser({delimiter: ';'})}))
+      .post('/')
+      .set('Content-Type', 'text/csv')
+      .send('name;pet\ntobi;"lo;ki"')
+      .expect(200, '[["name","pet"],["tobi","lo;ki"]]', done);
+  });
+  it('should honor the charset', (done) => {
+    const test = request(createServer()).post('/');
+    test.set('Content-Type', 'text/csv; charset=latin1');
+    test.write(Buffer.concat([Buffer.from('name\n'), Buffer.from('426af8726e', 'hex')]));
+    test.expect(200, '[["name"],["Bjørn"]]', done);
+  });
+  it('should strip the byte order mark', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'text/csv; header=present')
+      .send('﻿name\ntobi')
+      .expect(200, '[{"name":"tobi"}]', done);
+  });
+  it('should handle Content-Length: 0', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'text/csv')
+      .set('Content-Length', '0')
+      .expect(200, '[]', done);
+  });
+});
+
+describe('handles text/tab-separated-values', () => {
+  it('should parse TSV without quoting', (done) => {
+    request(createServer(undefined, 'text/tab-separated-values'))
+      .post('/')
+      .set('Content-Type', 'text/tab-separated-values; header=present')
+      .send('name\tquote\ntobi\t"hi"')
+      .expect(200, '[{"name":"tobi","quote":"\\"hi\\""}]', done);
+  });
+});
+
+describe('when CSV is invalid', () => {
+  [
+    ['a,"b', 'Unterminated quoted field in row 1'],
+    ['a,"b"c', 'Invalid character after quoted field in row 1'],
+    ['a,b"c', 'Invalid quote in unquoted field in row 1'],
+  ].forEach(([csv, message]) => {
+    it(`should 400 for ${csv}`, (done) => {
+      request(createServer())
+        .post('/')
+        .set('Content-Type', 'text/csv')
+        .send(csv)
+        .expect(400, `Parse error: ${message}`, done);
+    });
+  });
+  it('should 400 when a row does not match the header row', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'text/csv; header=present')
+      .send('name,pet\ntobi')
+      .expect(400, 'Parse error: Row 2 has 1 columns, expected 2', done);
+  });
+  it('should 400 for duplicate columns in the header row', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'text/csv; header=present')
+      .send('name,name\ntobi,loki')
+      .expect(400, 'Parse error: Duplicate column \'name\' in header row', done);
+  });
+  it('should not pollute the prototype', () => {
+    const records = <Record<string, string>[]>getCsvParser({header: true})('__proto__,name\npolluted,tobi');
+    expect(records[0].__proto__).toBe('polluted');
+    expect(({} as Record<string, unknown>).name).toBeUndefined();
+  });
+  it('should 413 when too many rows', (done) => {
+    request(createServer(undefined, {matcher: 'text/csv', parser: getCsvParser({maxRows: 2})}))
+      .post('/')
+      .set('Content-Type', 'text/csv')
+      .set('X-Error-Property', 'type')
+      .send('a\nb\nc')
+      .expect(413, 'rows.too.many', done);
+  });
+  it('should 413 when too many columns', (done) => {
+    request(createServer(undefined, {matcher: 'text/csv', parser: getCsvParser({maxColumns: 2})}))
+      .post('/')
+      .set('Content-Type', 'text/csv')
+      .set('X-Error-Property', 'type')
+      .send('a,b,c')
+      .expect(413, 'columns.too.many', done);
+  });
+  it('throws when the delimiter is invalid', () => {
+    expect(() => getCsvParser({delimiter: '"'})).toThrow('delimiter has to be a single character');
+    expect(() => getCsvParser({delimiter: ';;'})).toThrow('delimiter has to be a single character');
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : 'text/csv')
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      if (err) {
+        res.statusCode = err.status || 500;
+        // @ts-ignore
+        res.end(err[req.headers['x-error-property'] || 'message']);
+      } else {
+        res.statusCode = 200;
+        // @ts-ignore
+        res.end(JSON.stringify(req.body));
+      }
+    });
+  });
+}
@@ -0,0 +1,174 @@
+import request from 'supertest';
+import {Buffer} from 'buffer';
+import {bodyParser, DefaultOptions, getDnsMessageParser, ParserConfigurations} from '../src';
+import * as http from 'http';
+
+function name(domain: string) {
+  return Buffer.concat([
+    ...domain.split('.').filter((label) => label !== '').map((label) => Buffer.concat([Buffer.from([label.length]), Buffer.from(label)])),
+    Buffer.from([0]),
+  ]);
+}
+
+function uint16(...values: number[]) {
+  const buffer = Buffer.alloc(values.length * 2);
+  values.forEach((value, index) => buffer.writeUInt16BE(value, index * 2));
+  return buffer;
+}
+
+function record(owner: Buffer, type: number, data: Buffer, recordClass = 1, ttl = 300) {
+  const fields = Buffer.alloc(10);
+  fields.writeUInt16BE(type, 0);
+  fields.writeUInt16BE(recordClass, 2);
+  fields.writeUInt32BE(ttl, 4);
+  fields.writeUInt16BE(data.length, 8);
+  return Buffer.concat([owner, fields, data]);
+}
+
+const pointer = Buffer.from([0xc0, 0x0c]);
+const header = {id: 0xabcd, qr: true, opcode: 0, aa: false, tc: false, rd: true, ra: true, z: false, ad: false, cd: false, rcode: 0};
+
+const query = Buffer.concat([uint16(0xabcd, 0x0100, 1, 0, 0, 0), name('example.com'), uint16(1, 1)]);
+const response = Buffer.concat([
+  uint16(0xabcd, 0x8180, 1, 2, 0, 1),
+  name('example.com'),
+  uint16(28, 1),
+  record(pointer, 1, Buffer.from([93, 184, 216, 34])),
+  record(pointer, 28, Buffer.from('20010db8000000000000000000000001', 'hex')),
+  record(Buffer.from([0]), 41, Buffer.concat([uint16(10, 8), Buffer.from('0102030405060708', 'hex')]), 4096, 0x8000),
+]);
+
+const parse = getDnsMessageParser();
+
+describe('getDnsMessageParser', () => {
+  it('should parse a query', () => {
+    expect(parse(query)).toEqual({
+      header: {...header, qr: false, ra: false},
+      question: [{name: 'example.com', type: 1, class: 1}],
+      answer: [],
+      authority: [],
+      additional: [],
+    });
+  });
+  it('should parse a response with compressed names', () => {
+    expect(parse(response)).toEqual({
+      header,
+      question: [{name: 'example.com', type: 28, class: 1}],
+      answer: [
+        {name: 'example.com', type: 1, class: 1, ttl: 300, data: '93.184.216.34'},
+        {name: 'example.com', type: 28, class: 1, ttl: 300, data: '2001:db8::1'},
+      ],
+      authority: [],
+      additional: [{name: '.', type: 41, class: 4096, ttl: 0x8000, data: [{code: 10, data: Buffer.from('0102030405060708', 'hex')}]}],
+    });
+  });
+  it('should decode the data of the record types', () => {
+    const message = Buffer.concat([
+      uint16(1, 0x8400, 0, 4, 2, 0),
+      record(name('example.com'), 15, Buffer.concat([uint16(10), name('mail').slice(0, -1), pointer])),
+      record(pointer, 16, Buffer.concat([Buffer.from([5]), Buffer.from('v=spf'), Buffer.from([0])])),
+      record(Buffer.concat([name('_sip._tcp').slice(0, -1), pointer]), 33, Buffer.concat([uint16(1, 5, 5060), pointer])),
+      record(name('www'), 5, pointer),
+      record(pointer, 6, Buffer.concat([name('ns.example.com'), name('admin.example.com'), Buffer.from('0000000100000e10000002580012750000000e10', 'hex')])),
+      record(pointer, 99, Buffer.from('abc')),
+    ]);
+    expect(parse(message)).toEqual({
+      header: {...header, id: 1, aa: true, rd: false, ra: false},
+      question: [],
+      answer: [
+        {name: 'example.com', type: 15, class: 1, ttl: 300, data: {preference: 10, exchange: 'mail.example.com'}},
+        {name: 'example.com', type: 16, class: 1, ttl: 300, data: ['v=spf', '']},
+        {name: '_sip._tcp.example.com', type: 33, class: 1, ttl: 300, data: {priority: 1, weight: 5, port: 5060, target: 'example.com'}},
+        {name: 'www', type: 5, class: 1, ttl: 300, data: 'example.com'},
+      ],
+      authority: [
+        {
+          name: 'example.com',
+          type: 6,
+          class: 1,
+          ttl: 300,
+          data: {mname: 'ns.example.com', rname: 'admin.example.com', serial: 1, refresh: 3600, retry: 600, expire: 1209600, minimum: 3600},
+        },
+        {name: 'example.com', type: 99, class: 1, ttl: 300, data: Buffer.from('abc')},
+      ],
+      additional: [],
+    });
+  });
+  it('should escape special characters of labels', () => {
+    const message = Buffer.concat([uint16(1, 0, 1, 0, 0, 0), Buffer.from([5, 0x61, 0x2e, 0x20, 0x5c, 0xff, 0]), uint16(1, 1)]);
+    expect(parse(message).question[0].name).toBe('a\\.\\032\\\\\\255');
+  });
+  it('should not decode the data when decodeData is false', () => {
+    expect(getDnsMessageParser({decodeData: false})(response).answer[0].data).toEqual(Buffer.from([93, 184, 216, 34]));
+  });
+  [
+    ['a pointer to itself', Buffer.concat([uint16(1, 0, 1, 0, 0, 0), pointer, uint16(1, 1)]),
+      'Compression pointer at offset 12 does not point to a previous name'],
+    ['a pointer loop', Buffer.concat([uint16(1, 0, 1, 0, 0, 0), Buffer.from([1, 0x61, 0xc0, 0x0c]), uint16(1, 1)]),
+      'Compression pointer at offset 14 does not point to a previous name'],
+    ['a forward pointer', Buffer.concat([uint16(1, 0, 1, 0, 0, 0), Buffer.from([0xc0, 0x10]), uint16(1, 1), name('a')]),
+      'Compression pointer at offset 12 does not point to a previous name'],
+    ['a too long name', Buffer.concat([uint16(1, 0, 1, 0, 0, 0), name(`${'a'.repeat(63)}.`.repeat(4)), uint16(1, 1)]),
+      'Name at offset 12 is longer than 255 bytes'],
+    ['a too long pointer chain', Buffer.concat([
+      uint16(1, 0, 129, 0, 0, 0),
+      name('a'),
+      uint16(1, 1),
+      ...Array.from({length: 128}, (_, index) => uint16(0xc000 + (index === 0 ? 12 : 19 + (index - 1) * 6), 1, 1)),
+    ]), `Name at offset ${19 + 127 * 6} has more than 127 compression pointers`],
+    ['an extended label type', Buffer.concat([uint16(1, 0, 1, 0, 0, 0), Buffer.from([0x41, 0]), uint16(1, 1)]),
+      'Unsupported label type at offset 12'],
+    ['a truncated message', response.slice(0, response.length - 3), `Message is truncated at offset ${response.length - 3}`],
+    ['a truncated header', Buffer.from([1, 2, 3]), 'Message is truncated at offset 3'],
+    ['data after the last record', Buffer.concat([query, Buffer.from([0])]), `Unexpected data after the last record at offset ${query.length}`],
+    ['an invalid data length', Buffer.concat([uint16(1, 0, 0, 1, 0, 0), record(name('a'), 1, Buffer.from([1, 2, 3, 4, 5]))]),
+      'Invalid length of the data of the record \'a\''],
+  ].forEach(([description, message, error]) => {
+    it(`should 400 for ${description}`, () => {
+      expect(() => parse(<Buffer>message)).toThrow(expect.objectContaining({message: error, status: 400, type: 'dns.message.invalid'}));
+    });
+  });
+  it('should 413 for messages larger than 65535 bytes', () => {
+    expect(() => parse(Buffer.alloc(65536))).toThrow(expect.objectContaining({
+      limit: 65535,
+      received: 65536,
+      status: 413,
+      type: 'entity.too.large',
+    }));
+  });
+});
+
+describe('handles DNS-over-HTTPS requests', () => {
+  it('should parse application/dns-message', (done) => {
+    const test = request(createServer()).post('/');
+    test.set('Content-Type', 'application/dns-message');
+    test.write(query);
+    test.expect(200, '[{"name":"example.com","type":1,"class":1}]', done);
+  });
+  it('should apply the limit of the parser configuration', (done) => {
+    const test = request(createServer({defaultLimit: 20})).post('/');
+    test.set('Content-Type', 'application/dns-message');
+    test.write(query);
+    test.expect(413, 'request entity too large', done);
+  });
+  it('should 413 for messages larger than 65535 bytes with a higher limit', (done) => {
+    const test = request(createServer({defaultLimit: '100kb'})).post('/');
+    test.set('Content-Type', 'application/dns-message');
+    test.write(Buffer.alloc(70000));
+    test.expect(413, 'Parse error: DNS message too large', done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : 'application/dns-message')
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      res.statusCode = err ? (err.status || 500) : 200;
+      res.end(err ? err.message : JSON.stringify((<any>req).body.question));
+    });
+  });
+}
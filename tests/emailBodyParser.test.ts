@@ -0,0 +1,220 @@
+import request from 'supertest';
+import {Buffer} from 'buffer';
+import {ParsedMediaType} from 'content-type';
+import {
+  bodyParser, DefaultOptions, EmailMessage, getEmailParserConfiguration, ParserConfigurations, Request, StreamParserFactory,
+} from '../src';
+import * as http from 'http';
+
+const mediaType: ParsedMediaType = {type: 'message/rfc822', parameters: {}};
+
+function parse(message: string | Buffer, configuration = getEmailParserConfiguration()) {
+  const payload = typeof message === 'string' ? Buffer.from(message.replace(/\n/g, '\r\n')) : message;
+  const streamParser = (<StreamParserFactory<Buffer, EmailMessage>>configuration.streamParser)(mediaType, <Request<Buffer, EmailMessage>>{});
+  streamParser.onData(payload);
+  return streamParser.onEnd();
+}
+
+const multipartMessage = [
+  'From: =?UTF-8?Q?J=C3=BCrgen?= <juergen@example.com>',
+  'To: support@example.com',
+  'Subject: =?utf-8?B?w4RwZmVs?= =?utf-8?Q?_und_Birnen?=',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed;',
+  ' boundary="outer"',
+  '',
+  'This is a multi-part message in MIME format.',
+  '--outer',
+  'Content-Type: multipart/alternative; boundary=inner',
+  '',
+  '--inner',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Gr=C3=BC=C3=9Fe, this is a long line which is wrapped with a soft line bre=',
+  'ak   ',
+  '--inner',
+  'Content-Type: text/html; charset="UTF-8"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from('<p>Grüße</p>').toString('base64').replace(/(.{8})/, '$1\n'),
+  '--inner--',
+  '--outer',
+  'Content-Type: image/png',
+  'Content-Transfer-Encoding: base64',
+  'Content-ID: <logo@example.com>',
+  'Content-Disposition: inline',
+  '',
+  'iVBORw0KGgo=',
+  '--outer',
+  'Content-Type: application/pdf; name="=?utf-8?Q?Rechnung_M=C3=A4rz.pdf?="',
+  'Content-Disposition: attachment',
+  'Content-Transfer-Encoding: base64',
+  '',
+  'JVBERi0=',
+  '--outer',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Disposition: attachment; filename*=UTF-8\'\'notes%20%C3%A4.txt',
+  '',
+  'notes',
+  '--outer--',
+  'epilogue',
+].join('\n');
+
+describe('getEmailParserConfiguration', () => {
+  it('should parse the headers and the body of a plain message', () => {
+    expect(parse('Subject: Hello\n =?ISO-8859-1?Q?W=F6rld?=\nX-Tag: a\nX-Tag: b\n\nBody\n')).toEqual({
+      headers: {'subject': 'Hello Wörld', 'x-tag': 'a, b'},
+      text: 'Body\r\n',
+      attachments: [],
+    });
+  });
+  it('should walk nested multipart bodies and decode the parts', () => {
+    expect(parse(multipartMessage)).toEqual({
+      headers: {
+        'from': 'Jürgen <juergen@example.com>',
+        'to': 'support@example.com',
+        'subject': 'Äpfel und Birnen',
+        'mime-version': '1.0',
+        'content-type': 'multipart/mixed; boundary="outer"',
+      },
+      text: 'Grüße, this is a long line which is wrapped with a soft line break',
+      html: '<p>Grüße</p>',
+      attachments: [
+        {
+          contentType: 'image/png',
+          disposition: 'inline',
+          contentId: 'logo@example.com',
+          size: 8,
+          data: Buffer.from('iVBORw0KGgo=', 'base64'),
+        },
+        {fileName: 'Rechnung März.pdf', contentType: 'application/pdf', disposition: 'attachment', size: 5, data: Buffer.from('%PDF-')},
+        {fileName: 'notes ä.txt', contentType: 'text/plain', disposition: 'attachment', size: 5, data: Buffer.from('notes')},
+      ],
+    });
+  });
+  it('should strip the trailing whitespace of quoted-printable lines in linear time', () => {
+    const whitespace = ' \t'.repeat(50000);
+    const start = Date.now();
+    expect(parse(`Content-Transfer-Encoding: quoted-printable\n\n${whitespace}x${whitespace}\na=3D${whitespace}`).text)
+      .toBe(`${whitespace}x\r\na=`);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+  it('should decode the charsets with the buffer encodings', () => {
+    const latin1 = Buffer.concat([
+      Buffer.from('Content-Type: text/plain; charset=ISO-8859-1\r\nContent-Transfer-Encoding: 8bit\r\n\r\n'),
+      Buffer.from('Grüße', 'latin1'),
+    ]);
+    expect(parse(latin1).text).toBe('Grüße');
+  });
+  it('should keep encoded words with unsupported charsets', () => {
+    expect(parse('Subject: =?koi8-r?B?8NLJ18XU?= =?utf-8?Q?!?=\n\n').headers.subject).toBe('=?koi8-r?B?8NLJ18XU?=!');
+  });
+  it('should 415 for parts with unsupported charsets', () => {
+    expect(() => parse('Content-Type: text/plain; charset=koi8-r\n\ntext')).toThrow(expect.objectContaining({
+      charset: 'koi8-r',
+      status: 415,
+      type: 'charset.unsupported',
+    }));
+  });
+  it('should 415 for unsupported transfer encodings', () => {
+    expect(() => parse('Content-Transfer-Encoding: x-uuencode\n\ntext')).toThrow(expect.objectContaining({
+      status: 415,
+      type: 'encoding.unsupported',
+    }));
+  });
+  it('should convert messages with bare line feeds', () => {
+    expect(parse(Buffer.from('Content-Type: multipart/mixed; boundary=b\n\n--b\n\nfirst\n--b\n\nsecond\n--b--\n'))).toEqual({
+      headers: {'content-type': 'multipart/mixed; boundary=b'},
+      text: 'first\nsecond',
+      attachments: [],
+    });
+  });
+  [
+    ['a malformed header', 'Subject Hello\n\n', 'Malformed header \'Subject Hello\''],
+    ['a missing boundary', 'Content-Type: multipart/mixed\n\n', 'Missing or invalid boundary for media type \'multipart/mixed\''],
+    ['a missing delimiter', 'Content-Type: multipart/mixed; boundary=b\n\ntext', 'Missing boundary \'b\' in multipart body'],
+    ['a missing closing delimiter', 'Content-Type: multipart/mixed; boundary=b\n\n--b\n\ntext\n--bb--',
+      'Missing closing boundary of multipart body'],
+    ['invalid base64', 'Content-Transfer-Encoding: base64\n\nAA*A', 'Invalid base64 content in email part'],
+  ].forEach(([description, message, error]) => {
+    it(`should 400 for ${description}`, () => {
+      expect(() => parse(message)).toThrow(expect.objectContaining({message: error, status: 400, type: 'email.invalid'}));
+    });
+  });
+  it('should 413 when the limits are exceeded', () => {
+    const nested = 'Content-Type: multipart/mixed; boundary=a\n\n--a\nContent-Type: multipart/mixed; boundary=b\n\n--b\n\ntext\n--b--\n--a--';
+    expect(parse(nested, getEmailParserConfiguration({maxDepth: 2})).text).toBe('text');
+    expect(() => parse(nested, getEmailParserConfiguration({maxDepth: 1}))).toThrow(expect.objectContaining({
+      status: 413,
+      type: 'depth.too.large',
+    }));
+    expect(() => parse(nested, getEmailParserConfiguration({maxParts: 1}))).toThrow(expect.objectContaining({
+      status: 413,
+      type: 'parts.too.many',
+    }));
+    expect(() => parse(`Subject: ${'a'.repeat(100)}\n\n`, getEmailParserConfiguration({maxHeaderSize: 100}))).toThrow(expect.objectContaining({
+      status: 413,
+      type: 'headers.too.large',
+    }));
+  });
+  it('throws when the options are invalid', () => {
+    expect(() => getEmailParserConfiguration({maxParts: -1})).toThrow('maxParts can not be smaller than 0');
+    expect(() => getEmailParserConfiguration({maxDepth: -1})).toThrow('maxDepth can not be smaller than 0');
+    expect(() => getEmailParserConfiguration({maxHeaderSize: -1})).toThrow('maxHeaderSize can not be smaller than 0');
+  });
+});
+
+describe('handles inbound email webhooks', () => {
+  it('should parse message/rfc822', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'message/rfc822')
+      .send(multipartMessage.replace(/\n/g, '\r\n'))
+      .expect(200, JSON.stringify({
+        subject: 'Äpfel und Birnen',
+        text: 'Grüße, this is a long line which is wrapped with a soft line break',
+        attachments: ['image/png', 'application/pdf', 'text/plain'],
+      }), done);
+  });
+  it('should decode the charsets with the buffer encodings of the body parser', (done) => {
+    const rot13 = {
+      encodings: ['x-rot13'],
+      transform: (buffer: Buffer) => buffer.toString().replace(/[a-z]/gi, (char) => {
+        const base = char <= 'Z' ? 65 : 97;
+        return String.fromCharCode((char.charCodeAt(0) - base + 13) % 26 + base);
+      }),
+    };
+    request(createServer(bodyParser({}, getEmailParserConfiguration(), <any[]>[rot13])))
+      .post('/')
+      .set('Content-Type', 'message/rfc822')
+      .send('Subject: =?x-rot13?Q?Uryyb?=\r\nContent-Type: text/plain; charset=x-rot13\r\n\r\nJbeyq')
+      .expect(200, JSON.stringify({subject: 'Hello', text: 'World', attachments: []}), done);
+  });
+  it('should 400 for invalid messages', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'message/rfc822')
+      .send('Content-Type: multipart/mixed; boundary=b\r\n\r\ntext')
+      .expect(400, 'Parse error: Missing boundary \'b\' in multipart body', done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : getEmailParserConfiguration())
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      res.statusCode = err ? (err.status || 500) : 200;
+      const email = (<{body: EmailMessage}><unknown>req).body;
+      res.end(err ? err.message : JSON.stringify({
+        subject: email.headers.subject,
+        text: email.text,
+        attachments: email.attachments.map(({contentType}) => contentType),
+      }));
+    });
+  });
+}
@@ -0,0 +1,172 @@
+import request from 'supertest';
+import {bodyParser, DefaultOptions, getGraphqlParser, ParserConfigurations} from '../src';
+import * as http from 'http';
+import {createHash} from 'crypto';
+
+const query = 'query Pet($id: ID!) { pet(id: $id) { name ...on Cat { lives } } }';
+const sha256Hash = createHash('sha256').update(query).digest('hex');
+const withApplicationJson: ParserConfigurations<any, any> = ['application/graphql', {matcher: 'application/json', parser: getGraphqlParser()}];
+
+describe('handles GraphQL requests', () => {
+  it('should normalize application/json', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send({query, variables: {id: '1'}})
+      .expect(200, {query, variables: {id: '1'}, operationName: null, extensions: null}, done);
+  });
+  it('should normalize application/graphql-response+json', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/graphql-response+json')
+      .send(JSON.stringify({query, operationName: 'Pet', variables: null, extensions: {trace: true}}))
+      .expect(200, {query, variables: null, operationName: 'Pet', extensions: {trace: true}}, done);
+  });
+  it('should not match application/json by default', (done) => {
+    request(createServer(undefined, 'application/graphql'))
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send({a: 1})
+      .expect(415, done);
+  });
+  it('should normalize application/graphql', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/graphql')
+      .send('{ pets { name } }')
+      .expect(200, {query: '{ pets { name } }', variables: null, operationName: null, extensions: null}, done);
+  });
+  [
+    ['[]', 'GraphQL request has to be an object'],
+    ['{}', '\'query\' has to be a string'],
+    ['{"query": 1}', '\'query\' has to be a string'],
+    ['{"query": "{a}", "operationName": 1}', '\'operationName\' has to be a string'],
+    ['{"query": "{a}", "variables": []}', '\'variables\' has to be an object'],
+    ['{"query": "{a}", "variables": "{}"}', '\'variables\' has to be an object'],
+    ['{"query": "{a}", "extensions": 1}', '\'extensions\' has to be an object'],
+    ['{"__proto__": {"query": "{a}"}}', '__proto__ key not allowed in JSON body on main level'],
+  ].forEach(([body, message]) => {
+    it(`should 400 for ${body}`, (done) => {
+      request(createServer())
+        .post('/')
+        .set('Content-Type', 'application/json')
+        .send(body)
+        .expect(400, `Parse error: ${message}`, done);
+    });
+  });
+});
+
+describe('limits the query document', () => {
+  it('should count tokens', () => {
+    const parser = getGraphqlParser({maxTokens: 27});
+    expect(parser(JSON.stringify({query}))).toEqual(expect.objectContaining({query}));
+    expect(() => getGraphqlParser({maxTokens: 26})(JSON.stringify({query}))).toThrow(expect.objectContaining({
+      status: 413,
+      type: 'tokens.too.many',
+    }));
+  });
+  it('should ignore commas, comments and white space and count strings and numbers as single tokens', () => {
+    const document = '# comment\n{ a(b: "x, y", c: """block "" \\""" string""", d: -1.5e3, e: [1, 2]) }';
+    expect(getGraphqlParser({maxTokens: 20})(document, {type: 'application/graphql', parameters: {}})).toEqual(expect.objectContaining({
+      query: document,
+    }));
+    expect(() => getGraphqlParser({maxTokens: 19})(document, {type: 'application/graphql', parameters: {}})).toThrow('too many tokens');
+  });
+  [
+    ['{ a(b: "unterminated) }', 'Syntax Error: Unexpected "\\"" in query at position 7'],
+    ['{ a(b: 01) }', 'Syntax Error: Unexpected "0" in query at position 7'],
+    ['{ a ? }', 'Syntax Error: Unexpected "?" in query at position 4'],
+  ].forEach(([document, message]) => {
+    it(`should throw for ${document}`, () => {
+      expect(() => getGraphqlParser()(document, {type: 'application/graphql', parameters: {}})).toThrow(expect.objectContaining({
+        message,
+        status: 400,
+      }));
+    });
+  });
+  it('should 413 when the query is too large', (done) => {
+    request(createServer(undefined, {matcher: 'application/graphql', parser: getGraphqlParser({maxQueryLength: 10})}))
+      .post('/')
+      .set('Content-Type', 'application/graphql')
+      .set('X-Error-Property', 'type')
+      .send('{ pets { name } }')
+      .expect(413, 'query.too.large', done);
+  });
+  it('throws when maxTokens is invalid', () => {
+    expect(() => getGraphqlParser({maxTokens: -1})).toThrow('maxTokens can not be smaller than 0');
+  });
+});
+
+describe('handles persisted queries', () => {
+  const persistedQuery = {version: 1, sha256Hash};
+  it('should register and resolve persisted queries', (done) => {
+    const persistedQueries = new Map<string, string>();
+    const server = createServer(undefined, {matcher: 'application/json', parser: getGraphqlParser({persistedQueries})});
+    request(server)
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .set('X-Error-Property', 'type')
+      .send({extensions: {persistedQuery}})
+      .expect(400, 'persisted.query.not.found', (err) => {
+        if (err) return done(err);
+        request(server)
+          .post('/')
+          .set('Content-Type', 'application/json')
+          .send({query, extensions: {persistedQuery}})
+          .expect(200, (err) => {
+            if (err) return done(err);
+            expect(persistedQueries.get(sha256Hash)).toBe(query);
+            request(server)
+              .post('/')
+              .set('Content-Type', 'application/json')
+              .send({extensions: {persistedQuery}})
+              .expect(200, {query, variables: null, operationName: null, extensions: {persistedQuery}}, done);
+          });
+      });
+  });
+  it('should 400 when the hash does not match the query', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .set('X-Error-Property', 'type')
+      .send({query: '{ pets }', extensions: {persistedQuery}})
+      .expect(400, 'persisted.query.invalid', done);
+  });
+  it('should 400 without store for persisted queries', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .set('X-Error-Property', 'type')
+      .send({extensions: {persistedQuery}})
+      .expect(400, 'persisted.query.not.supported', done);
+  });
+  it('should 400 for unsupported versions', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send({query, extensions: {persistedQuery: {version: 2, sha256Hash}}})
+      .expect(400, 'Parse error: Unsupported persisted query', done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : withApplicationJson)
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      if (err) {
+        res.statusCode = err.status || 500;
+        // @ts-ignore
+        res.end(err[req.headers['x-error-property'] || 'message']);
+      } else {
+        res.statusCode = 200;
+        res.setHeader('Content-Type', 'application/json');
+        // @ts-ignore
+        res.end(JSON.stringify(req.body));
+      }
+    });
+  });
+}
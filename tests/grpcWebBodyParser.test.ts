@@ -0,0 +1,159 @@
+import request from 'supertest';
+import {Buffer} from 'buffer';
+import zlib from 'zlib';
+import {
+  bodyParser,
+  DefaultOptions,
+  getGrpcWebParser,
+  getProtobufParser,
+  ParserConfigurations,
+  Request,
+  StreamParserFactory,
+} from '../src';
+import * as http from 'http';
+
+const descriptor = {nested: {Greeting: {fields: {name: {type: 'string', id: 1}}}}};
+const greeting = Buffer.from('0a04746f6269', 'hex');
+
+function frame(message: Buffer, flags = 0) {
+  const header = Buffer.alloc(5);
+  header[0] = flags;
+  header.writeUInt32BE(message.length, 1);
+  return Buffer.concat([header, message]);
+}
+
+function parse(
+  chunks: (Buffer | string)[],
+  type = 'application/grpc-web',
+  headers: Record<string, string> = {},
+  limit: number | null = null,
+  parser: StreamParserFactory<unknown, unknown> = getGrpcWebParser({maxMessages: 3}),
+) {
+  const streamParser = parser({type, parameters: {}}, <Request<unknown, unknown>><unknown>{headers}, {limit});
+  chunks.forEach((chunk) => streamParser.onData(Buffer.from(chunk)));
+  return streamParser.onEnd();
+}
+
+describe('getGrpcWebParser', () => {
+  it('should deframe messages arriving in arbitrary chunks', () => {
+    const body = Buffer.concat([frame(greeting), frame(Buffer.from('b')), frame(Buffer.alloc(0))]);
+    const chunks = [...Array(body.length).keys()].map((index) => body.slice(index, index + 1));
+    expect(parse(chunks)).toEqual([greeting, Buffer.from('b'), Buffer.alloc(0)]);
+  });
+  it('should decode grpc-web-text incrementally', () => {
+    const body = frame(greeting).toString('base64');
+    expect(parse([body.slice(0, 3), body.slice(3, 9), `${body.slice(9)}\r\n`], 'application/grpc-web-text')).toEqual([greeting]);
+    expect(parse([frame(Buffer.from('a')).toString('base64') + frame(Buffer.from('bc')).toString('base64')], 'application/grpc-web-text+proto'))
+      .toEqual([Buffer.from('a'), Buffer.from('bc')]);
+  });
+  it('should decode the messages with the decoder', () => {
+    const parser = getGrpcWebParser({decoder: getProtobufParser({descriptor, messageType: 'Greeting'})});
+    expect(parse([frame(greeting), frame(greeting)], 'application/grpc-web+proto', {}, null, parser)).toEqual([{name: 'tobi'}, {name: 'tobi'}]);
+  });
+  it('should decompress compressed messages', () => {
+    expect(parse([frame(zlib.gzipSync(greeting), 1), frame(greeting)], undefined, {'grpc-encoding': 'gzip'})).toEqual([greeting, greeting]);
+    expect(parse([frame(zlib.deflateSync(greeting), 1)], undefined, {'grpc-encoding': 'deflate'})).toEqual([greeting]);
+  });
+  it('should apply the limit to each decompressed message', () => {
+    const message = zlib.gzipSync(Buffer.alloc(1000));
+    expect(parse([frame(message, 1)], undefined, {'grpc-encoding': 'gzip'}, 1000)).toEqual([Buffer.alloc(1000)]);
+    expect(() => parse([frame(message, 1)], undefined, {'grpc-encoding': 'gzip'}, 999)).toThrow(expect.objectContaining({
+      message: 'message too large',
+      status: 413,
+      type: 'entity.too.large',
+    }));
+  });
+  it('should apply the limit to all decompressed messages together', () => {
+    const message = frame(zlib.gzipSync(Buffer.alloc(400)), 1);
+    expect(parse([message, message], undefined, {'grpc-encoding': 'gzip'}, 800)).toEqual([Buffer.alloc(400), Buffer.alloc(400)]);
+    expect(() => parse([message, message, message], undefined, {'grpc-encoding': 'gzip'}, 1000)).toThrow(expect.objectContaining({
+      limit: 1000,
+      status: 413,
+      type: 'entity.too.large',
+    }));
+    expect(() => parse([message, message, frame(Buffer.alloc(201))], undefined, {'grpc-encoding': 'gzip'}, 1000))
+      .toThrow(expect.objectContaining({message: 'messages too large', limit: 1000, received: 1001, status: 413, type: 'entity.too.large'}));
+  });
+  it('should 413 when the length of a frame is larger than the limit', () => {
+    const header = frame(Buffer.alloc(1000)).slice(0, 5);
+    expect(() => parse([header], undefined, {}, 999)).toThrow(expect.objectContaining({
+      limit: 999,
+      received: 1000,
+      status: 413,
+      type: 'entity.too.large',
+    }));
+  });
+  it('should 413 when there are too many messages', () => {
+    expect(() => parse([frame(greeting), frame(greeting), frame(greeting), frame(greeting)])).toThrow(expect.objectContaining({
+      status: 413,
+      type: 'messages.too.many',
+    }));
+  });
+  [
+    ['an incomplete frame', [frame(greeting).slice(0, 8)], {}, 'Incomplete frame at the end of the body'],
+    ['a trailer frame', [frame(Buffer.from('grpc-status: 0\r\n'), 0x80)], {}, 'Trailer frames are not allowed in requests'],
+    ['a compressed message without encoding', [frame(zlib.gzipSync(greeting), 1)], {}, 'Compressed message without grpc-encoding'],
+    ['an invalid compression', [frame(greeting, 1)], {'grpc-encoding': 'gzip'}, 'Invalid gzip compression of message'],
+  ].forEach(([name, chunks, headers, message]) => {
+    it(`should 400 for ${name}`, () => {
+      expect(() => parse(<Buffer[]>chunks, undefined, <Record<string, string>>headers))
+        .toThrow(expect.objectContaining({message, status: 400, type: 'frame.invalid'}));
+    });
+  });
+  it('should 400 for invalid base64', () => {
+    expect(() => parse(['AAAA*AAA'], 'application/grpc-web-text')).toThrow('Invalid base64 encoding of grpc-web-text body');
+    expect(() => parse(['AAAAAA'], 'application/grpc-web-text')).toThrow('Invalid base64 encoding of grpc-web-text body');
+  });
+  it('should 415 for unsupported encodings', () => {
+    expect(() => parse([], undefined, {'grpc-encoding': 'snappy'})).toThrow(expect.objectContaining({
+      status: 415,
+      type: 'encoding.unsupported',
+    }));
+  });
+  it('throws when maxMessages is invalid', () => {
+    expect(() => getGrpcWebParser({maxMessages: -1})).toThrow('maxMessages can not be smaller than 0');
+  });
+});
+
+describe('handles gRPC-Web requests', () => {
+  it('should parse application/grpc-web', (done) => {
+    const test = request(createServer()).post('/');
+    test.set('Content-Type', 'application/grpc-web+proto');
+    test.write(Buffer.concat([frame(greeting), frame(Buffer.from('b'))]));
+    test.expect(200, '["0a04746f6269","62"]', done);
+  });
+  it('should parse application/grpc-web-text', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/grpc-web-text')
+      .send(frame(greeting).toString('base64'))
+      .expect(200, '["0a04746f6269"]', done);
+  });
+  it('should 413 when a decompressed message is larger than the limit', (done) => {
+    const test = request(createServer({defaultLimit: 100})).post('/');
+    test.set('Content-Type', 'application/grpc-web');
+    test.set('grpc-encoding', 'gzip');
+    test.write(frame(zlib.gzipSync(Buffer.alloc(1000)), 1));
+    test.expect(413, 'Parse error: message too large', done);
+  });
+  it('should 413 when the body is larger than the limit', (done) => {
+    const test = request(createServer({defaultLimit: 100})).post('/');
+    test.set('Content-Type', 'application/grpc-web');
+    test.write(Buffer.concat([frame(Buffer.alloc(60)), frame(Buffer.alloc(60))]));
+    test.expect(413, 'request entity too large', done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : 'application/grpc-web')
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      res.statusCode = err ? (err.status || 500) : 200;
+      res.end(err ? err.message : JSON.stringify((<Buffer[]>(<any>req).body).map((message) => message.toString('hex'))));
+    });
+  });
+}
@@ -0,0 +1,285 @@
+import request from 'supertest';
+import {Buffer} from 'buffer';
+import {
+  constants,
+  createCipheriv,
+  createHmac,
+  generateKeyPairSync,
+  publicEncrypt,
+  randomBytes,
+  sign,
+} from 'crypto';
+import {bodyParser, DefaultOptions, getJoseParserConfiguration, JoseMessage, JoseOptions, ParserConfigurations} from '../src';
+import * as http from 'http';
+
+const encode = (value: Buffer | string | Record<string, unknown>) => Buffer.from(
+  typeof value === 'object' && !Buffer.isBuffer(value) ? JSON.stringify(value) : value
+).toString('base64url');
+
+const rsa = generateKeyPairSync('rsa', {modulusLength: 2048});
+const ec = generateKeyPairSync('ec', {namedCurve: 'P-256'});
+const ed = generateKeyPairSync('ed25519');
+const hmacKey = randomBytes(32);
+const cek = randomBytes(32);
+
+const keys = [
+  rsa.privateKey.export({format: 'pem', type: 'pkcs8'}).toString(),
+  {...ec.publicKey.export({format: 'jwk'}), kid: 'ec'},
+  ed.publicKey.export({format: 'pem', type: 'spki'}).toString(),
+  {kty: 'oct', k: hmacKey.toString('base64url'), kid: 'hmac', use: 'sig'},
+  {kty: 'oct', k: cek.toString('base64url'), kid: 'dir', use: 'enc'},
+];
+const algorithms = ['RS256', 'PS256', 'ES256', 'EdDSA', 'HS256', 'dir', 'RSA-OAEP-256'];
+
+function signPayload(alg: string, payload: Buffer | string | Record<string, unknown>, header: Record<string, unknown> = {}) {
+  const signingInput = `${encode({alg, ...header})}.${encode(payload)}`;
+  const input = Buffer.from(signingInput);
+  const signature = {
+    RS256: () => sign('sha256', input, rsa.privateKey),
+    PS256: () => sign('sha256', input, {key: rsa.privateKey, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: 32}),
+    ES256: () => sign('sha256', input, {key: ec.privateKey, dsaEncoding: 'ieee-p1363'}),
+    EdDSA: () => sign(null, input, ed.privateKey),
+    HS256: () => createHmac('sha256', hmacKey).update(input).digest(),
+  }[<'RS256'>alg]();
+  return `${signingInput}.${encode(signature)}`;
+}
+
+function encrypt(alg: string, plaintext: string, header: Record<string, unknown> = {}) {
+  const protectedHeader = encode({alg, enc: 'A256GCM', ...header});
+  const key = alg === 'dir' ? cek : randomBytes(32);
+  const encryptedKey = alg === 'dir'
+    ? Buffer.alloc(0)
+    : publicEncrypt({key: rsa.publicKey, padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256'}, key);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(protectedHeader));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [protectedHeader, encode(encryptedKey), encode(iv), encode(ciphertext), encode(cipher.getAuthTag())].join('.');
+}
+
+function open(body: string, options: Partial<JoseOptions<unknown, unknown>> = {}, type = 'application/jose') {
+  const configuration = getJoseParserConfiguration({keys, algorithms, ...options}, ['application/json', 'text/plain']);
+  // @ts-ignore
+  const message: JoseMessage = configuration.parser(body, {type, parameters: {}});
+  // @ts-ignore
+  configuration.verify({}, {}, Buffer.from(body), message);
+  return message;
+}
+
+describe('verifies JWS', () => {
+  ['RS256', 'PS256', 'ES256', 'EdDSA', 'HS256'].forEach((alg) => {
+    it(`should verify ${alg} signatures`, () => {
+      expect(open(signPayload(alg, {a: 1}, {cty: 'json'}))).toEqual({payload: {a: 1}, signatureHeader: {alg, cty: 'json'}});
+    });
+  });
+  it('should verify the example of RFC 7515', () => {
+    const message = open(
+      'eyJ0eXAiOiJKV1QiLA0KICJhbGciOiJIUzI1NiJ9'
+      + '.eyJpc3MiOiJqb2UiLA0KICJleHAiOjEzMDA4MTkzODAsDQogImh0dHA6Ly9leGFtcGxlLmNvbS9pc19yb290Ijp0cnVlfQ'
+      + '.dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk',
+      {
+        keys: {keys: [{kty: 'oct', k: 'AyM1SysPpbyDfgZld3umj1qzKObwVMkoqQ-EstJQLr_T-1qS0gZH75aKtMN3Yj0iPS4hcgUuTwjAzZr1Z9CAow'}]},
+        algorithms: ['HS256'],
+        defaultContentType: 'application/json',
+      },
+    );
+    expect(message).toEqual({
+      payload: {iss: 'joe', exp: 1300819380, 'http://example.com/is_root': true},
+      signatureHeader: {typ: 'JWT', alg: 'HS256'},
+    });
+  });
+  it('should return the payload as buffer without content type', () => {
+    expect(open(signPayload('HS256', 'hello')).payload).toEqual(Buffer.from('hello'));
+  });
+  it('should verify the JSON serialization', () => {
+    const [protectedHeader, payload, signature] = signPayload('ES256', 'hello', {kid: 'ec'}).split('.');
+    const general = JSON.stringify({
+      payload,
+      signatures: [
+        {protected: encode({alg: 'HS512'}), signature: 'AAAA'},
+        {protected: protectedHeader, header: {cty: 'text/plain'}, signature},
+      ],
+    });
+    expect(open(general, {}, 'application/jose+json')).toEqual({payload: 'hello', signatureHeader: {alg: 'ES256', kid: 'ec', cty: 'text/plain'}});
+    const flattened = JSON.stringify({payload, protected: protectedHeader, header: {cty: 'text/plain'}, signature});
+    expect(open(flattened, {}, 'application/jose+json').payload).toBe('hello');
+  });
+  it('should use keys without kid for any kid', () => {
+    const pem = ec.publicKey.export({format: 'pem', type: 'spki'}).toString();
+    expect(open(signPayload('ES256', 'hello', {kid: 'partner-key-1'}), {keys: pem}).signatureHeader).toEqual({alg: 'ES256', kid: 'partner-key-1'});
+    expect(open(signPayload('RS256', 'hello', {kid: 'ec'})).payload).toEqual(Buffer.from('hello'));
+  });
+  [
+    [signPayload('HS256', 'hello').replace(/\.[^.]+$/, `.${encode(randomBytes(32))}`), 401, 'jose.signature.invalid'],
+    [signPayload('ES256', 'hello', {kid: 'unknown'}), 401, 'jose.key.missing'],
+    [signPayload('HS256', 'hello', {kid: 'ec'}), 401, 'jose.key.missing'],
+    [signPayload('HS256', 'hello').replace(/^[^.]+/, encode({alg: 'HS512'})), 403, 'jose.algorithm.forbidden'],
+    [`${encode({alg: 'none'})}.${encode('hello')}.`, 403, 'jose.algorithm.forbidden'],
+  ].forEach(([body, status, type]) => {
+    it(`should ${status} with ${type}`, () => {
+      expect(() => open(<string>body)).toThrow(expect.objectContaining({status, type}));
+    });
+  });
+});
+
+describe('decrypts JWE', () => {
+  it('should decrypt the example of RFC 7516', () => {
+    const message = open(
+      'eyJhbGciOiJBMTI4S1ciLCJlbmMiOiJBMTI4Q0JDLUhTMjU2In0.6KB707dM9YTIgHtLvtgWQ8mKwboJW3of9locizkDTHzBC2IlrT1oOQ'
+      + '.AxY8DCtDaGlsbGljb3RoZQ.KDlTtXchhZTGufMYmOYGS4HffxPSUrfmqCHXaI9wOGY.U0m_YmjN04DJvceFICbCVQ',
+      {keys: {keys: [{kty: 'oct', k: 'GawgguFyGrWKav7AX4VKUg'}]}, algorithms: ['A128KW'], requireSignature: false},
+    );
+    expect(message).toEqual({
+      payload: Buffer.from('Live long and prosper.'),
+      encryptionHeader: {alg: 'A128KW', enc: 'A128CBC-HS256'},
+    });
+  });
+  ['dir', 'RSA-OAEP-256'].forEach((alg) => {
+    it(`should decrypt ${alg} and verify the nested JWS`, () => {
+      expect(open(encrypt(alg, signPayload('EdDSA', {a: 1}, {cty: 'application/json'}), {cty: 'JWT'}))).toEqual({
+        payload: {a: 1},
+        signatureHeader: {alg: 'EdDSA', cty: 'application/json'},
+        encryptionHeader: {alg, enc: 'A256GCM', cty: 'JWT'},
+      });
+    });
+  });
+  it('should decrypt the JSON serialization', () => {
+    const [protectedHeader, , iv, ciphertext, tag] = encrypt('dir', signPayload('HS256', 'hello', {cty: 'text/plain'}), {cty: 'JOSE'})
+      .split('.');
+    const general = JSON.stringify({protected: protectedHeader, recipients: [{header: {kid: 'other'}}, {header: {kid: 'dir'}}], iv, ciphertext, tag});
+    expect(open(general, {}, 'application/jose+json').payload).toBe('hello');
+  });
+  it('should 403 when the encrypted payload is not signed', () => {
+    expect(() => open(encrypt('dir', '{"a": 1}', {cty: 'json'}))).toThrow(expect.objectContaining({status: 403, type: 'jose.signature.missing'}));
+    expect(open(encrypt('dir', '{"a": 1}', {cty: 'json'}), {requireSignature: false}).payload).toEqual({a: 1});
+  });
+  [
+    [encrypt('dir', 'hello').replace(/\.[^.]+$/, '.AAAAAAAAAAAAAAAAAAAAAA'), {}, 401, 'jose.decryption.failed'],
+    [encrypt('RSA-OAEP-256', 'hello'), {algorithms: ['RSA-OAEP-256'], encryptionAlgorithms: ['A128GCM']}, 403, 'jose.algorithm.forbidden'],
+    [encrypt('dir', 'hello'), {algorithms: ['HS256']}, 403, 'jose.algorithm.forbidden'],
+    [encrypt('dir', 'hello', {kid: 'hmac'}), {}, 401, 'jose.key.missing'],
+  ].forEach(([body, options, status, type]) => {
+    it(`should ${status} with ${type}`, () => {
+      expect(() => open(<string>body, <JoseOptions<unknown, unknown>>options)).toThrow(expect.objectContaining({status, type}));
+    });
+  });
+});
+
+describe('validates JOSE messages', () => {
+  [
+    ['a.b', 'Invalid JOSE compact serialization'],
+    [`${encode({alg: 'HS256'})}.a+b.AAAA`, '\'payload\' has to be base64url encoded'],
+    [`${encode('"alg"')}.${encode('a')}.AAAA`, 'Header has to be an object'],
+    [`${encode({typ: 'JWT'})}.${encode('a')}.AAAA`, 'Header parameter \'alg\' has to be a string'],
+    [`${encode({alg: 'HS256', crit: ['b64'], b64: false})}.${encode('a')}.AAAA`, 'Critical header parameters are not supported', 'jose.unsupported'],
+    [`${encode({alg: 'dir'})}..AAAA.AAAA.AAAA`, 'Header parameter \'enc\' has to be a string'],
+    [`${encode({alg: 'dir', enc: 'A256GCM', zip: 'DEF'})}..AAAA.AAAA.AAAA`, 'Compressed payloads are not supported', 'jose.unsupported'],
+    [encrypt('dir', encrypt('dir', 'hello'), {cty: 'JWT'}), 'Nested encryption is not supported', 'jose.unsupported'],
+  ].forEach(([body, message, type = 'jose.invalid']) => {
+    it(`should 400 for ${body}`, () => {
+      expect(() => open(body)).toThrow(expect.objectContaining({message, status: 400, type}));
+    });
+  });
+  [
+    ['[]', 'JOSE JSON serialization has to be an object'],
+    ['{"protected": "e30"}', 'JOSE JSON serialization has to contain a payload or a ciphertext'],
+    ['{"payload": "", "signatures": []}', '\'signatures\' has to be an array of objects'],
+    [`{"payload": "", "protected": "${encode({alg: 'HS256'})}", "header": {"alg": "HS256"}, "signature": ""}`,
+      'Header parameter \'alg\' is not disjoint'],
+    ['{"ciphertext": "", "recipients": {}}', '\'recipients\' has to be an array of objects'],
+  ].forEach(([body, message]) => {
+    it(`should 400 for ${body}`, () => {
+      expect(() => open(body, {}, 'application/jose+json')).toThrow(expect.objectContaining({message, status: 400, type: 'jose.invalid'}));
+    });
+  });
+  it('should keep the type and the limit of the errors of the payload', () => {
+    expect(() => open(signPayload('HS256', 'hello', {cty: 'text/plain'}), {defaultLimit: 2})).toThrow(expect.objectContaining({
+      message: 'Invalid payload: request entity too large',
+      limit: 2,
+      status: 413,
+      type: 'entity.too.large',
+    }));
+  });
+  [
+    [{algorithms: []}, 'algorithms has to contain at least one algorithm'],
+    [{algorithms: ['none']}, 'Unsupported algorithm \'none\''],
+    [{encryptionAlgorithms: ['A128CTR']}, 'Unsupported algorithm \'A128CTR\''],
+    [{keys: {}}, 'keys has to be a JWK Set, a PEM encoded key or an array of JSON Web Keys and PEM encoded keys'],
+    [{keys: [{kty: 'EC', crv: 'P-256', x: 'AA'}]}, /^Invalid key: /],
+  ].forEach(([options, message]) => {
+    it(`throws ${message}`, () => {
+      expect(() => getJoseParserConfiguration(<JoseOptions<unknown, unknown>>{keys, algorithms, ...<Record<string, unknown>>options}))
+        .toThrow(<string>message);
+    });
+  });
+});
+
+describe('handles application/jose and application/jose+json', () => {
+  it('should parse the verified payload', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/jose')
+      .send(signPayload('RS256', {user: 'tobi'}, {cty: 'json'}))
+      .expect(200, {payload: {user: 'tobi'}, signatureHeader: {alg: 'RS256', cty: 'json'}}, done);
+  });
+  it('should 401 through the verify function', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/jose')
+      .send(signPayload('ES256', {user: 'tobi'}).replace(/\.[^.]+$/, `.${encode(randomBytes(64))}`))
+      .expect(401, 'Verify function did not match: Signature verification failed', done);
+  });
+  it('should 403 for algorithms which are not allowed', (done) => {
+    request(createServer(undefined, getJoseParserConfiguration({keys, algorithms: ['RS256']})))
+      .post('/')
+      .set('Content-Type', 'application/jose')
+      .set('X-Error-Property', 'type')
+      .send(signPayload('HS256', {user: 'tobi'}))
+      .expect(403, 'jose.algorithm.forbidden', done);
+  });
+  it('should 400 for invalid messages', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/jose+json')
+      .send('{"payload": 1}')
+      .expect(400, 'Parse error: \'payload\' has to be base64url encoded', done);
+  });
+  it('should 400 with the error type for nested encryption', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/jose')
+      .set('X-Error-Property', 'type')
+      .send(encrypt('dir', encrypt('dir', 'hello'), {cty: 'JWT'}))
+      .expect(400, 'jose.unsupported', done);
+  });
+  it('should 415 when the content type of the payload is not supported', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/jose')
+      .set('X-Error-Property', 'type')
+      .send(signPayload('HS256', '<a/>', {cty: 'application/xml'}))
+      .expect(415, 'mediaType.unsupported', done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : getJoseParserConfiguration({keys, algorithms}, ['application/json']))
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      if (err) {
+        res.statusCode = err.status || 500;
+        // @ts-ignore
+        res.end(err[req.headers['x-error-property'] || 'message']);
+      } else {
+        res.statusCode = 200;
+        res.setHeader('Content-Type', 'application/json');
+        // @ts-ignore
+        res.end(JSON.stringify(req.body));
+      }
+    });
+  });
+}
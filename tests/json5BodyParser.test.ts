@@ -0,0 +1,175 @@
+import request from 'supertest';
+import {bodyParser, DefaultOptions, getJson5Parser, ParserConfigurations} from '../src';
+import * as http from 'http';
+
+const parse = (text: string, syntax: 'json' | 'jsonc' | 'json5') => getJson5Parser({syntax})(text);
+
+describe('parses JSON5', () => {
+  [
+    ['{unquoted: \'and you can quote me on that\',}', {unquoted: 'and you can quote me on that'}],
+    ['{\'singleQuotes\': \'I can use "double quotes" here\'}', {singleQuotes: 'I can use "double quotes" here'}],
+    ['"Look, Mom! \\\nNo \\\\n\'s!"', 'Look, Mom! No \\n\'s!'],
+    ['[0xdecaf, -0xC0FFEE, .8675309, 8675309., +1, 1e3]', [0xdecaf, -0xc0ffee, 0.8675309, 8675309, 1, 1000]],
+    ['[Infinity, -Infinity]', [Infinity, -Infinity]],
+    ['\'\\x41\\u0042\\0\\v\\a\'', 'AB\0\va'],
+    ['{$_a\\u00621: 1, ünïcödé: 2}', {$_ab1: 1, 'ünïcödé': 2}],
+    ['// comment\n/* block\ncomment */ [1, /* inline */ 2,]', [1, 2]],
+    ['\ufeff\u00a0\v{}\u2028', {}],
+  ].forEach(([text, expected]) => {
+    it(`should parse ${JSON.stringify(text)}`, () => {
+      expect(parse(<string>text, 'json5')).toEqual(expected);
+    });
+  });
+  it('should parse NaN', () => {
+    expect(parse('NaN', 'json5')).toBeNaN();
+  });
+  [
+    ['[1,,]', 'Unexpected character "," at line 1 column 4'],
+    ['{a: 1', 'Unexpected end of data'],
+    ['[01]', 'Unexpected character "1" at line 1 column 3'],
+    ['{\n  1a: 1}', 'Unexpected character "1" at line 2 column 3'],
+    ['\'a\nb\'', 'Unexpected character "\\n" at line 1 column 3'],
+    ['\'\\1\'', 'Unexpected character "1" at line 1 column 3'],
+    ['[1] /* unterminated', 'Unexpected end of data'],
+  ].forEach(([text, message]) => {
+    it(`should throw for ${JSON.stringify(text)}`, () => {
+      expect(() => parse(text, 'json5')).toThrow(expect.objectContaining({message, status: 400, type: 'entity.parse.failed'}));
+    });
+  });
+});
+
+describe('parses JSONC and JSON', () => {
+  it('should allow comments and trailing commas in JSONC', () => {
+    expect(parse('{\n  // comment\n  "a": [1, 2,], /* comment */\n}', 'jsonc')).toEqual({a: [1, 2]});
+  });
+  [
+    ['{a: 1}', 'Unexpected character "a" at line 1 column 2'],
+    ['\'a\'', 'Unexpected character "\'" at line 1 column 1'],
+    ['.5', 'Unexpected character "." at line 1 column 1'],
+    ['"\\v"', 'Unexpected character "v" at line 1 column 3'],
+    ['"\t"', 'Unexpected character "\\t" at line 1 column 2'],
+  ].forEach(([text, message]) => {
+    it(`should throw for JSON5 syntax ${JSON.stringify(text)} in JSONC`, () => {
+      expect(() => parse(text, 'jsonc')).toThrow(message);
+    });
+  });
+  [
+    ['[1,]', 'Unexpected character "]" at line 1 column 4'],
+    ['{"a": 1,}', 'Unexpected character "}" at line 1 column 9'],
+    ['// comment\n1', 'Unexpected character "/" at line 1 column 1'],
+  ].forEach(([text, message]) => {
+    it(`should throw for ${JSON.stringify(text)} in JSON`, () => {
+      expect(() => parse(text, 'json')).toThrow(message);
+    });
+  });
+  it('should parse JSON like JSON.parse', () => {
+    const text = '{"a": [1, -2.5e-3, true, false, null, "\\u00e4\\n\\/"], "b": {}}';
+    expect(parse(text, 'json')).toEqual(JSON.parse(text));
+  });
+  it('should set nested __proto__ keys as own properties', () => {
+    const parsed = <Record<string, Record<string, unknown>>>parse('{a: {__proto__: {polluted: true}}}', 'json5');
+    expect(Object.prototype.hasOwnProperty.call(parsed.a, '__proto__')).toBe(true);
+    expect(parsed.a.polluted).toBeUndefined();
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+  it('should 413 when nested too deeply', () => {
+    expect(() => getJson5Parser({maxDepth: 2})('[[[]]]')).toThrow(expect.objectContaining({status: 413, type: 'depth.too.large'}));
+  });
+  it('throws when the syntax is invalid', () => {
+    // @ts-ignore
+    expect(() => getJson5Parser({syntax: 'hjson'})).toThrow('Syntax \'hjson\' is not supported');
+  });
+});
+
+describe('handles application/json5', () => {
+  it('should parse JSON5', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/json5')
+      .send('{name: \'tobi\', pets: [\'loki\',],}')
+      .expect(200, '{"name":"tobi","pets":["loki"]}', done);
+  });
+  it('should parse media types with +json5 suffix', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/config+json5')
+      .send('[1, 2,]')
+      .expect(200, '[1,2]', done);
+  });
+  it('should handle Content-Length: 0', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/json5')
+      .set('Content-Length', '0')
+      .expect(200, '{}', done);
+  });
+  it('should 400 for __proto__ keys on main level', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/json5')
+      .send('{__proto__: {polluted: true}}')
+      .expect(400, 'Parse error: __proto__ key not allowed in JSON body on main level', done);
+  });
+  it('should 400 for malformed JSON5', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/json5')
+      .set('X-Error-Property', 'type')
+      .send('{name: tobi}')
+      .expect(400, 'entity.parse.failed', done);
+  });
+});
+
+describe('handles application/json with the variant parameter', () => {
+  const parserConfigurations: ParserConfigurations<any, any> = ['application/json5', {matcher: 'application/json', parser: getJson5Parser()}];
+  it('should parse JSONC with variant=jsonc', (done) => {
+    request(createServer(undefined, parserConfigurations))
+      .post('/')
+      .set('Content-Type', 'application/json; variant=jsonc')
+      .send('{"name": "tobi", // comment\n}')
+      .expect(200, '{"name":"tobi"}', done);
+  });
+  it('should parse strict JSON without variant', (done) => {
+    request(createServer(undefined, parserConfigurations))
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send('{"name": "tobi", // comment\n}')
+      .expect(400, 'Parse error: Unexpected character "/" at line 1 column 18', done);
+  });
+  it('should keep strict JSON for the default parser', (done) => {
+    request(createServer(undefined, 'application/json'))
+      .post('/')
+      .set('Content-Type', 'application/json; variant=jsonc')
+      .set('X-Error-Property', 'type')
+      .send('{"name": "tobi",}')
+      .expect(400, 'entity.parse.failed', done);
+  });
+  it('should 415 for unknown variants', (done) => {
+    request(createServer(undefined, parserConfigurations))
+      .post('/')
+      .set('Content-Type', 'application/json; variant=hjson')
+      .send('{}')
+      .expect(415, 'Parse error: Unsupported variant \'hjson\'', done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : 'application/json5')
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      if (err) {
+        res.statusCode = err.status || 500;
+        // @ts-ignore
+        res.end(err[req.headers['x-error-property'] || 'message']);
+      } else {
+        res.statusCode = 200;
+        // @ts-ignore
+        res.end(JSON.stringify(req.body));
+      }
+    });
+  });
+}
@@ -0,0 +1,164 @@
+import request from 'supertest';
+import {ParsedMediaType} from 'content-type';
+import {bodyParser, DefaultOptions, getJsonApiParserConfiguration, JsonApiDocument, ParserConfigurations} from '../src';
+import * as http from 'http';
+
+function parse(document: unknown, parameters: Record<string, string> = {}, configuration = getJsonApiParserConfiguration()) {
+  const parser = <(payload: string, mediaType: ParsedMediaType) => JsonApiDocument>configuration.parser;
+  return parser(typeof document === 'string' ? document : JSON.stringify(document), {type: 'application/vnd.api+json', parameters});
+}
+
+const article = {
+  type: 'articles',
+  id: '1',
+  attributes: {title: 'JSON:API paints my bikeshed!'},
+  relationships: {
+    author: {links: {related: 'http://example.com/articles/1/author'}, data: {type: 'people', id: '9'}},
+    comments: {data: [{type: 'comments', id: '5'}, {type: 'comments', id: '12', meta: {pinned: true}}]},
+  },
+  links: {self: 'http://example.com/articles/1'},
+};
+
+describe('getJsonApiParserConfiguration', () => {
+  it('should normalize a compound document', () => {
+    expect(parse({
+      jsonapi: {version: '1.1'},
+      links: {self: {href: 'http://example.com/articles', title: 'Articles'}, next: null},
+      data: [article],
+      included: [
+        {type: 'people', id: '9', attributes: {name: 'Dan'}},
+        {type: 'comments', id: '5', attributes: {body: 'First!'}},
+        {type: 'comments', id: '12'},
+      ],
+      meta: {total: 1},
+    }, {profile: 'http://example.com/profiles/timestamps'})).toEqual({
+      data: [article],
+      meta: {total: 1},
+      jsonapi: {version: '1.1'},
+      links: {self: {href: 'http://example.com/articles', title: 'Articles'}, next: null},
+      included: {
+        people: {9: {type: 'people', id: '9', attributes: {name: 'Dan'}, relationships: {}}},
+        comments: {
+          5: {type: 'comments', id: '5', attributes: {body: 'First!'}, relationships: {}},
+          12: {type: 'comments', id: '12', attributes: {}, relationships: {}},
+        },
+      },
+      extensions: [],
+      profiles: ['http://example.com/profiles/timestamps'],
+    });
+  });
+  it('should accept new resources, relationship linkage and error documents', () => {
+    expect(parse({data: {type: 'photos', lid: 'a', attributes: {src: 'http://example.com/a.jpg'}}}).data)
+      .toEqual({type: 'photos', lid: 'a', attributes: {src: 'http://example.com/a.jpg'}, relationships: {}});
+    expect(parse({data: {type: 'photos', attributes: {title: 'Ember Hamster', src: 'http://example.com/images/productivity.png'}}}).data)
+      .toEqual({type: 'photos', attributes: {title: 'Ember Hamster', src: 'http://example.com/images/productivity.png'}, relationships: {}});
+    expect(parse({data: [{type: 'tags', id: '2'}, {type: 'tags', id: '3'}]}).data).toEqual([
+      {type: 'tags', id: '2', attributes: {}, relationships: {}},
+      {type: 'tags', id: '3', attributes: {}, relationships: {}},
+    ]);
+    expect(parse({data: null}).data).toBeNull();
+    expect(parse({errors: [{status: '422', source: {pointer: '/data/attributes/title'}, detail: 'Title is required'}]}).errors)
+      .toEqual([{status: '422', source: {pointer: '/data/attributes/title'}, detail: 'Title is required'}]);
+  });
+  it('should index included resources safely', () => {
+    const document = parse('{"data": null, "included": [{"type": "__proto__", "id": "polluted"}, {"type": "x", "id": "__proto__"}]}');
+    expect(Object.keys(document.included)).toEqual(['__proto__', 'x']);
+    expect(document.included.x.__proto__).toEqual({type: 'x', id: '__proto__', attributes: {}, relationships: {}});
+    expect((<Record<string, unknown>>{}).polluted).toBeUndefined();
+  });
+  it('should keep the members of supported extensions', () => {
+    const configuration = getJsonApiParserConfiguration({extensions: ['https://jsonapi.org/ext/version']});
+    expect(parse({'data': {'type': 'a', 'id': '1', 'version:id': '42'}, 'version:since': '2026'},
+      {ext: 'https://jsonapi.org/ext/version', profile: 'http://a http://b'}, configuration)).toEqual({
+      'version:since': '2026',
+      'data': {type: 'a', id: '1', attributes: {}, relationships: {}},
+      'included': {},
+      'extensions': ['https://jsonapi.org/ext/version'],
+      'profiles': ['http://a', 'http://b'],
+    });
+  });
+  it('should 415 for unsupported media type parameters and extensions', () => {
+    expect(() => parse({data: null}, {charset: 'utf-8'})).toThrow(expect.objectContaining({
+      message: 'Unsupported media type parameter \'charset\' for \'application/vnd.api+json\'',
+      status: 415,
+      type: 'mediaType.unsupported',
+    }));
+    expect(() => parse({data: null}, {ext: 'https://jsonapi.org/ext/atomic'})).toThrow(expect.objectContaining({
+      extension: 'https://jsonapi.org/ext/atomic',
+      status: 415,
+      type: 'mediaType.unsupported',
+    }));
+  });
+  [
+    ['a document which is not an object', [], 'Document has to be an object'],
+    ['a document without primary members', {links: {}}, 'Document has to contain at least one of the members \'data\', \'errors\' or \'meta\''],
+    ['data and errors', {data: null, errors: []}, 'Document can not contain both the members \'data\' and \'errors\''],
+    ['included without data', {meta: {}, included: []}, 'Document can not contain the member \'included\' without the member \'data\''],
+    ['an unknown member', {data: null, foo: 1}, 'Document can not contain the member \'foo\''],
+    ['a resource without type', {data: {id: '1'}}, 'Member \'/data/type\' has to be a non-empty string'],
+    ['an included resource without id', {data: null, included: [{type: 'a'}]}, 'Member \'/included/0\' has to contain the member \'id\' or \'lid\''],
+    ['a linkage without id', {data: {type: 'a', relationships: {b: {data: {type: 'b'}}}}},
+      'Member \'/data/relationships/b/data\' has to contain the member \'id\' or \'lid\''],
+    ['a numeric id', {data: [{type: 'a', id: 1}]}, 'Member \'/data/0/id\' has to be a string'],
+    ['invalid attributes', {data: {type: 'a', id: '1', attributes: []}}, 'Member \'/data/attributes\' has to be an object'],
+    ['a field named type', {data: {type: 'a', id: '1', attributes: {type: 'b'}}}, 'Member \'/data\' can not have a field named \'type\''],
+    ['an attribute and a relationship with the same name', {data: {...article, attributes: {author: 'Dan'}}},
+      'Member \'/data\' can not have the attribute and the relationship \'author\''],
+    ['an empty relationship', {data: {type: 'a', id: '1', relationships: {b: {}}}},
+      'Member \'/data/relationships/b\' has to contain at least one of the members \'data\', \'links\' or \'meta\''],
+    ['an invalid linkage', {data: {type: 'a', id: '1', relationships: {b: {data: [{type: 'b', id: '1', attributes: {}}]}}}},
+      'Member \'/data/relationships/b/data/0\' can not contain the member \'attributes\''],
+    ['an invalid link', {data: null, links: {self: {title: 'a'}}}, 'Member \'/links/self/href\' has to be a string'],
+    ['a duplicate included resource', {data: null, included: [{type: 'a', id: '1'}, {type: 'a', id: '1'}]},
+      'Member \'/included/1\' is a duplicate of the resource of type \'a\' with id \'1\''],
+    ['an invalid error object', {errors: [{status: 422}]}, 'Member \'/errors/0/status\' has to be a string'],
+    ['an invalid jsonapi object', {meta: {}, jsonapi: {ext: 'a'}}, 'Member \'/jsonapi/ext\' has to be an array'],
+  ].forEach(([description, document, message]) => {
+    it(`should 400 for ${description}`, () => {
+      expect(() => parse(document)).toThrow(expect.objectContaining({message, status: 400, type: 'jsonapi.invalid'}));
+    });
+  });
+});
+
+describe('handles JSON:API requests', () => {
+  it('should parse application/vnd.api+json', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/vnd.api+json')
+      .send(JSON.stringify({data: {type: 'articles', attributes: {title: 'a'}, lid: '1'}, included: [{type: 'people', id: '9'}]}))
+      .expect(200, JSON.stringify({
+        data: {type: 'articles', lid: '1', attributes: {title: 'a'}, relationships: {}},
+        included: {people: {9: {type: 'people', id: '9', attributes: {}, relationships: {}}}},
+        extensions: [],
+        profiles: [],
+      }), done);
+  });
+  it('should 415 for media type parameters', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/vnd.api+json; charset=utf-8')
+      .send(JSON.stringify({data: null}))
+      .expect(415, 'Parse error: Unsupported media type parameter \'charset\' for \'application/vnd.api+json\'', done);
+  });
+  it('should 400 for invalid documents', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/vnd.api+json')
+      .send(JSON.stringify({data: {id: '1'}}))
+      .expect(400, 'Parse error: Member \'/data/type\' has to be a non-empty string', done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : getJsonApiParserConfiguration())
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      res.statusCode = err ? (err.status || 500) : 200;
+      res.end(err ? err.message : JSON.stringify((<any>req).body));
+    });
+  });
+}
@@ -0,0 +1,179 @@
+import request from 'supertest';
+import {
+  bodyParser,
+  createJsonPatch,
+  createMergePatch,
+  DefaultOptions,
+  getJsonPatchParser,
+  JsonPatch,
+  MergePatch,
+  ParserConfigurations,
+} from '../src';
+import * as http from 'http';
+
+const target = {foo: 'bar', baz: ['qux', 'quux'], 'a/b': {'m~n': 1}};
+
+describe('applies JSON Patch documents', () => {
+  // Examples of RFC 6902, appendix A
+  [
+    [[{op: 'add', path: '/baz', value: 'qux'}], {foo: 'bar', baz: 'qux', 'a/b': {'m~n': 1}}],
+    [[{op: 'add', path: '/baz/1', value: 'bar'}], {foo: 'bar', baz: ['qux', 'bar', 'quux'], 'a/b': {'m~n': 1}}],
+    [[{op: 'add', path: '/baz/-', value: ['x']}], {foo: 'bar', baz: ['qux', 'quux', ['x']], 'a/b': {'m~n': 1}}],
+    [[{op: 'remove', path: '/baz/0'}], {foo: 'bar', baz: ['quux'], 'a/b': {'m~n': 1}}],
+    [[{op: 'replace', path: '/a~1b/m~0n', value: 2}], {foo: 'bar', baz: ['qux', 'quux'], 'a/b': {'m~n': 2}}],
+    [[{op: 'move', from: '/foo', path: '/a~1b/foo'}], {baz: ['qux', 'quux'], 'a/b': {'m~n': 1, foo: 'bar'}}],
+    [[{op: 'move', from: '/baz/0', path: '/baz/1'}], {foo: 'bar', baz: ['quux', 'qux'], 'a/b': {'m~n': 1}}],
+    [[{op: 'copy', from: '/baz', path: '/copy'}], {foo: 'bar', baz: ['qux', 'quux'], 'a/b': {'m~n': 1}, copy: ['qux', 'quux']}],
+    [[{op: 'test', path: '/baz', value: ['qux', 'quux']}, {op: 'test', path: '/a~1b', value: {'m~n': 1}}], target],
+    [[{op: 'replace', path: '', value: [1]}], [1]],
+  ].forEach(([operations, expected]) => {
+    it(`should apply ${JSON.stringify(operations)}`, () => {
+      expect(createJsonPatch(operations).apply(target)).toEqual(expected);
+    });
+  });
+  it('should not change the target', () => {
+    createJsonPatch([{op: 'add', path: '/baz/-', value: 1}, {op: 'remove', path: '/foo'}]).apply(target);
+    expect(target).toEqual({foo: 'bar', baz: ['qux', 'quux'], 'a/b': {'m~n': 1}});
+  });
+  [
+    [[{op: 'add', path: '/baz/bat/x', value: 1}], 'Path of operation 0 does not exist at \'bat\''],
+    [[{op: 'add', path: '/baz/3', value: 1}], 'Path of operation 0 does not exist at \'3\''],
+    [[{op: 'remove', path: '/missing'}], 'Path of operation 0 does not exist at \'missing\''],
+    [[{op: 'replace', path: '/baz/01', value: 1}], 'Path of operation 0 does not exist at \'01\''],
+    [[{op: 'remove', path: '/foo'}, {op: 'test', path: '/baz/0', value: 'quux'}], 'Test of operation 1 failed'],
+  ].forEach(([operations, message]) => {
+    it(`should 409 for ${JSON.stringify(operations)}`, () => {
+      expect(() => createJsonPatch(operations).apply(target)).toThrow(expect.objectContaining({
+        message,
+        status: 409,
+        type: 'patch.conflict',
+      }));
+    });
+  });
+});
+
+describe('validates JSON Patch documents', () => {
+  [
+    [{op: 'add', path: '/a', value: 1}, 'JSON Patch document has to be an array'],
+    [[1], 'Operation 0 has to be an object'],
+    [[{op: 'add', value: 1}], 'Operation 0 has to have a \'path\''],
+    [[{op: 'add', path: '/a'}], 'Operation 0 has to have a \'value\''],
+    [[{op: 'test', path: '/a'}], 'Operation 0 has to have a \'value\''],
+    [[{op: 'copy', path: '/a'}], 'Operation 0 has to have a \'from\''],
+    [[{op: 'move', from: '/a', path: '/a/b'}], 'Operation 0 can not move a value into one of its children'],
+    [[{op: 'remove', path: '/a'}, {op: 'delete', path: '/a'}], 'Operation 1 has an invalid \'op\''],
+    [[{op: 'remove', path: 'a'}], 'Invalid JSON Pointer \'a\''],
+    [[{op: 'remove', path: '/a~2'}], 'Invalid JSON Pointer \'/a~2\''],
+    [[{op: 'add', path: '/__proto__/polluted', value: true}], '\'__proto__\' is not allowed in patch documents'],
+    [[{op: 'copy', from: '/constructor/prototype', path: '/a'}], '\'constructor\' is not allowed in patch documents'],
+  ].forEach(([document, message]) => {
+    it(`should 422 for ${JSON.stringify(document)}`, () => {
+      expect(() => createJsonPatch(document)).toThrow(expect.objectContaining({message, status: 422, type: 'patch.invalid'}));
+    });
+  });
+  it('should accept null values and ignore unknown members', () => {
+    expect(createJsonPatch([{op: 'add', path: '/a', value: null, extra: true}]).operations).toEqual([{op: 'add', path: '/a', value: null}]);
+  });
+  it('should 413 for too many operations', () => {
+    expect(() => getJsonPatchParser({maxOperations: 1})('[{"op": "remove", "path": "/a"}, {"op": "remove", "path": "/b"}]'))
+      .toThrow(expect.objectContaining({status: 413, type: 'operations.too.many'}));
+  });
+});
+
+describe('applies JSON Merge Patch documents', () => {
+  // Examples of RFC 7386, appendix A
+  [
+    [{a: 'b'}, {a: 'c'}, {a: 'c'}],
+    [{a: 'b'}, {b: 'c'}, {a: 'b', b: 'c'}],
+    [{a: 'b'}, {a: null}, {}],
+    [{a: 'b', b: 'c'}, {a: null}, {b: 'c'}],
+    [{a: ['b']}, {a: 'c'}, {a: 'c'}],
+    [{a: 'c'}, {a: ['b']}, {a: ['b']}],
+    [{a: {b: 'c'}}, {a: {b: 'd', c: null}}, {a: {b: 'd'}}],
+    [{a: [{b: 'c'}]}, {a: [1]}, {a: [1]}],
+    [['a', 'b'], ['c', 'd'], ['c', 'd']],
+    [{a: 'b'}, ['c'], ['c']],
+    [{a: 'foo'}, 'bar', 'bar'],
+    [{e: null}, {a: 1}, {e: null, a: 1}],
+    [[1, 2], {a: 'b', c: null}, {a: 'b'}],
+    [{}, {a: {bb: {ccc: null}}}, {a: {bb: {}}}],
+  ].forEach(([original, patch, expected]) => {
+    it(`should merge ${JSON.stringify(patch)} into ${JSON.stringify(original)}`, () => {
+      expect(createMergePatch(patch).apply(original)).toEqual(expected);
+    });
+  });
+  it('should not change the target', () => {
+    const original = {a: {b: 'c'}};
+    createMergePatch({a: {b: null, d: 1}}).apply(original);
+    expect(original).toEqual({a: {b: 'c'}});
+  });
+  it('should 422 for __proto__ and constructor keys', () => {
+    expect(() => createMergePatch(JSON.parse('{"a": {"__proto__": {"polluted": true}}}'))).toThrow(expect.objectContaining({
+      status: 422,
+      type: 'patch.invalid',
+    }));
+    expect(() => createMergePatch({a: [{constructor: 1}], constructor: {prototype: null}})).toThrow('\'constructor\' is not allowed');
+  });
+});
+
+describe('handles application/json-patch+json and application/merge-patch+json', () => {
+  it('should parse JSON Patch documents', (done) => {
+    request(createServer())
+      .patch('/')
+      .set('Content-Type', 'application/json-patch+json')
+      .send('[{"op": "replace", "path": "/foo", "value": "baz"}]')
+      .expect(200, '{"foo":"baz","baz":["qux","quux"],"a/b":{"m~n":1}}', done);
+  });
+  it('should parse JSON Merge Patch documents', (done) => {
+    request(createServer())
+      .patch('/')
+      .set('Content-Type', 'application/merge-patch+json')
+      .send('{"foo": null, "baz": ["x"]}')
+      .expect(200, '{"baz":["x"],"a/b":{"m~n":1}}', done);
+  });
+  it('should 422 for invalid patch documents', (done) => {
+    request(createServer())
+      .patch('/')
+      .set('Content-Type', 'application/json-patch+json')
+      .send('[{"op": "add", "path": "/__proto__/polluted", "value": true}]')
+      .expect(422, 'Parse error: \'__proto__\' is not allowed in patch documents', done);
+  });
+  it('should 409 when the patch can not be applied', (done) => {
+    request(createServer())
+      .patch('/')
+      .set('Content-Type', 'application/json-patch+json')
+      .set('X-Error-Property', 'type')
+      .send('[{"op": "test", "path": "/foo", "value": "baz"}]')
+      .expect(409, 'patch.conflict', done);
+  });
+  it('should 400 for malformed JSON', (done) => {
+    request(createServer())
+      .patch('/')
+      .set('Content-Type', 'application/merge-patch+json')
+      .set('X-Error-Property', 'type')
+      .send('{"foo": ')
+      .expect(400, 'entity.parse.failed', done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : ['application/json-patch+json', 'application/merge-patch+json'])
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      try {
+        if (err) throw err;
+        res.statusCode = 200;
+        // @ts-ignore
+        res.end(JSON.stringify((<JsonPatch | MergePatch>req.body).apply(target)));
+      } catch (err: any) {
+        res.statusCode = err.status || 500;
+        // @ts-ignore
+        res.end(err[req.headers['x-error-property'] || 'message']);
+      }
+    });
+  });
+}
@@ -0,0 +1,134 @@
+import request from 'supertest';
+import {bodyParser, DefaultOptions, getJsonRpcParser, jsonRpcErrorCodes, ParserConfigurations} from '../src';
+import * as http from 'http';
+
+const parse = (body: string) => getJsonRpcParser()(body);
+
+describe('validates JSON-RPC requests', () => {
+  [
+    {jsonrpc: '2.0', method: 'subtract', params: [42, 23], id: 1},
+    {jsonrpc: '2.0', method: 'subtract', params: {subtrahend: 23, minuend: 42}, id: 'a'},
+    {jsonrpc: '2.0', method: 'update', params: [1, 2, 3, 4, 5]},
+    {jsonrpc: '2.0', method: 'foobar', id: null},
+  ].forEach((rpcRequest) => {
+    it(`should accept ${JSON.stringify(rpcRequest)}`, () => {
+      expect(parse(JSON.stringify(rpcRequest))).toEqual(rpcRequest);
+    });
+  });
+  [
+    ['{"jsonrpc": "2.0", "method": "foobar, "params": "bar", "baz]', jsonRpcErrorCodes.parseError, null],
+    ['1', jsonRpcErrorCodes.invalidRequest, null],
+    ['[]', jsonRpcErrorCodes.invalidRequest, null],
+    ['{"jsonrpc": "1.0", "method": "foobar", "id": 1}', jsonRpcErrorCodes.invalidRequest, 1],
+    ['{"jsonrpc": "2.0", "method": 1, "params": "bar", "id": "a"}', jsonRpcErrorCodes.invalidRequest, 'a'],
+    ['{"jsonrpc": "2.0", "method": "foobar", "params": "bar"}', jsonRpcErrorCodes.invalidRequest, null],
+    ['{"jsonrpc": "2.0", "method": "foobar", "params": null, "id": 2}', jsonRpcErrorCodes.invalidRequest, 2],
+    ['{"jsonrpc": "2.0", "method": "foobar", "id": {}}', jsonRpcErrorCodes.invalidRequest, null],
+    ['{"jsonrpc": "2.0", "method": "foobar", "__proto__": {"a": 1}}', jsonRpcErrorCodes.invalidRequest, null],
+  ].forEach(([body, code, id]) => {
+    it(`should throw with code ${code} for ${body}`, () => {
+      expect(() => parse(<string>body)).toThrow(expect.objectContaining({code, id, status: 400, type: 'entity.parse.failed'}));
+    });
+  });
+});
+
+describe('handles JSON-RPC batches', () => {
+  it('should replace invalid requests of a batch by errors', () => {
+    const batch = <unknown[]>parse(JSON.stringify([
+      {jsonrpc: '2.0', method: 'sum', params: [1, 2, 4], id: '1'},
+      {jsonrpc: '2.0', method: 'notify_hello', params: [7]},
+      {foo: 'boo'},
+      {jsonrpc: '2.0', method: 1, id: 5},
+      1,
+    ]));
+    expect(batch.slice(0, 2)).toEqual([
+      {jsonrpc: '2.0', method: 'sum', params: [1, 2, 4], id: '1'},
+      {jsonrpc: '2.0', method: 'notify_hello', params: [7]},
+    ]);
+    batch.slice(2).forEach((entry, index) => {
+      expect(entry).toBeInstanceOf(Error);
+      expect(entry).toEqual(expect.objectContaining({code: jsonRpcErrorCodes.invalidRequest, id: [null, 5, null][index]}));
+    });
+  });
+  it('should 413 when the batch is too large', () => {
+    expect(() => getJsonRpcParser({maxBatchSize: 2})('[1, 2, 3]')).toThrow(expect.objectContaining({
+      code: jsonRpcErrorCodes.invalidRequest,
+      status: 413,
+      type: 'batch.too.large',
+    }));
+  });
+  it('throws when maxBatchSize is invalid', () => {
+    expect(() => getJsonRpcParser({maxBatchSize: 0})).toThrow('maxBatchSize can not be smaller than 1');
+  });
+});
+
+const withApplicationJson: ParserConfigurations<any, any> = ['application/json-rpc', {matcher: 'application/json', parser: getJsonRpcParser()}];
+
+describe('handles application/json-rpc', () => {
+  it('should parse JSON-RPC requests', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send({jsonrpc: '2.0', method: 'subtract', params: [42, 23], id: 1})
+      .expect(200, '{"jsonrpc":"2.0","method":"subtract","params":[42,23],"id":1}', done);
+  });
+  it('should not match application/json by default', (done) => {
+    request(createServer(undefined, ['application/json', 'application/json-rpc']))
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send({a: 1})
+      .expect(200, '{"a":1}', done);
+  });
+  it('should parse application/json-rpc', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/json-rpc')
+      .send('[{"jsonrpc": "2.0", "method": "a"}, {"jsonrpc": "2.0"}]')
+      .expect(200, '[{"jsonrpc":"2.0","method":"a"},{"code":-32600,"id":null}]', done);
+  });
+  it('should add the error code to parse errors', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .set('X-Error-Property', 'code')
+      .send('{"jsonrpc": "2.0", "method"')
+      .expect(400, '-32700', done);
+  });
+  it('should add the error code and the id to invalid requests', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .set('X-Error-Property', 'id')
+      .send({jsonrpc: '2.0', params: [], id: 'abc'})
+      .expect(400, 'abc', done);
+  });
+  it('should 413 when the batch is too large', (done) => {
+    request(createServer(undefined, {matcher: 'application/json', parser: getJsonRpcParser({maxBatchSize: 1})}))
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .set('X-Error-Property', 'code')
+      .send([{jsonrpc: '2.0', method: 'a'}, {jsonrpc: '2.0', method: 'b'}])
+      .expect(413, '-32600', done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : withApplicationJson)
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      if (err) {
+        res.statusCode = err.status || 500;
+        // @ts-ignore
+        res.end(String(err[req.headers['x-error-property'] || 'message']));
+      } else {
+        res.statusCode = 200;
+        // @ts-ignore
+        res.end(JSON.stringify(req.body, (key, value) => value instanceof Error ? {code: value.code, id: value.id} : value));
+      }
+    });
+  });
+}
@@ -1,4 +1,4 @@
-import {getMediaTypeMatchers, matchType, matchAnyType, MediaTypeTemplate, MediaType, MediaTypeMatchers} from '../src/mediaTypes';
+import {getMediaTypeMatchers, getSuffixMatcher, matchType, matchAnyType, MediaTypeTemplate, MediaType, MediaTypeMatchers} from '../src/mediaTypes';
 
 describe('Gets Media Type Matchers', () => {
   it('Gets gets an matcher from a string', () => {
@@ -57,3 +57,15 @@ describe('Matches from MediaTypeMatchers', () => {
     expect(matchAnyType(mediatypeMatchers, ['application', 'stream'])).toBeFalsy();
   });
 });
+
+describe('Matches structured syntax suffixes', () => {
+  it('Matches media types with suffix', () => {
+    expect(getSuffixMatcher('xml')(['application', 'atom+xml'])).toBeTruthy();
+    expect(getSuffixMatcher('xml')(['application', 'xml'])).toBeFalsy();
+    expect(getSuffixMatcher('xml')(['application', 'xml+json'])).toBeFalsy();
+  });
+  it('Matches media types with suffix and type', () => {
+    expect(getSuffixMatcher('xml', 'image')(['image', 'svg+xml'])).toBeTruthy();
+    expect(getSuffixMatcher('xml', 'image')(['application', 'svg+xml'])).toBeFalsy();
+  });
+});
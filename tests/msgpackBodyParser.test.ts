@@ -0,0 +1,155 @@
+import request from 'supertest';
+import {bodyParser, DefaultOptions, getMsgpackParser, ParserConfigurations} from '../src';
+import * as http from 'http';
+import {Buffer} from 'buffer';
+
+const decode = (hex: string) => getMsgpackParser()(Buffer.from(hex, 'hex'));
+
+describe('decodes MessagePack', () => {
+  [
+    ['00', 0],
+    ['7f', 127],
+    ['e0', -32],
+    ['ff', -1],
+    ['ccff', 255],
+    ['cd0100', 256],
+    ['ce00010000', 65536],
+    ['cf001fffffffffffff', Number.MAX_SAFE_INTEGER],
+    ['cf0020000000000000', BigInt('9007199254740992')],
+    ['d080', -128],
+    ['d18000', -32768],
+    ['d280000000', -2147483648],
+    ['d3ffffffffffffffff', -1],
+    ['d38000000000000000', BigInt('-9223372036854775808')],
+    ['ca3fc00000', 1.5],
+    ['cb3ff199999999999a', 1.1],
+    ['c0', null],
+    ['c2', false],
+    ['c3', true],
+    ['a0', ''],
+    ['d90474657374', 'test'],
+    ['a3e282ac', '€'],
+    ['c403010203', Buffer.from('010203', 'hex')],
+    ['dc00020102', [1, 2]],
+    ['de0001a16101', {a: 1}],
+    ['8101a161', {1: 'a'}],
+    ['82a46e616d65a4746f6269a4706574739191a46c6f6b69', {name: 'tobi', pets: [['loki']]}],
+    ['d6ff5e1e5c00', new Date(0x5e1e5c00 * 1000)],
+    ['d7ff7735940000000001', new Date(1500)],
+    ['c70cff00000000ffffffffffffffff', new Date(-1000)],
+  ].forEach(([hex, expected]) => {
+    it(`should decode ${hex}`, () => {
+      expect(decode(<string>hex)).toEqual(expected);
+    });
+  });
+  it('should decode extensions without decoder to MsgpackExtension objects', () => {
+    expect(decode('d401aa')).toEqual({type: 1, data: Buffer.from('aa', 'hex')});
+  });
+  it('should decode extensions with supplied decoders', () => {
+    const parser = getMsgpackParser({extensions: {1: (data) => data[0]}});
+    expect(parser(Buffer.from('d401aa', 'hex'))).toBe(0xaa);
+  });
+  it('should decode maps to Map objects', () => {
+    const parser = getMsgpackParser({mapType: 'map'});
+    expect(parser(Buffer.from('829101c3a16102', 'hex'))).toEqual(new Map<unknown, unknown>([[[1], true], ['a', 2]]));
+  });
+  it('should set nested __proto__ keys as own properties', () => {
+    const parsed = <Record<string, Record<string, unknown>>>decode('81a16181a95f5f70726f746f5f5f81a8706f6c6c75746564c3');
+    expect(Object.prototype.hasOwnProperty.call(parsed.a, '__proto__')).toBe(true);
+    expect(parsed.a.polluted).toBeUndefined();
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe('when MessagePack is malformed or too large', () => {
+  [
+    ['', 'Unexpected end of data'],
+    ['c1', 'Invalid format 0xc1'],
+    ['0001', 'Unexpected data after the end of the object'],
+    ['9201', 'Unexpected end of data'],
+    ['a2c3', 'Unexpected end of data'],
+    ['a1ff', 'Invalid UTF-8 in string'],
+    ['819001', 'Only string and integer map keys are supported for objects'],
+    ['c703ff000000', 'Invalid length of timestamp extension'],
+    ['81a95f5f70726f746f5f5f80', '__proto__ key not allowed in MessagePack body on main level'],
+  ].forEach(([hex, message]) => {
+    it(`should throw for ${hex || 'empty data'}`, () => {
+      expect(() => decode(hex)).toThrow(message);
+    });
+  });
+  it('should 413 when nested too deeply', () => {
+    expect(() => getMsgpackParser({maxDepth: 2})(Buffer.from('919190', 'hex'))).toThrow(expect.objectContaining({
+      status: 413,
+      type: 'depth.too.large',
+    }));
+  });
+  it('should 413 when a collection is too large', () => {
+    expect(() => decode('ddffffffff')).toThrow(expect.objectContaining({status: 413, type: 'collection.too.large'}));
+    expect(() => getMsgpackParser({maxCollectionSize: 1})(Buffer.from('82a16101a16202', 'hex'))).toThrow(expect.objectContaining({
+      status: 413,
+      type: 'collection.too.large',
+    }));
+  });
+  it('should 413 when a string is too large', () => {
+    expect(() => getMsgpackParser({maxStringLength: 3})(Buffer.from('a474657374', 'hex'))).toThrow(expect.objectContaining({
+      status: 413,
+      type: 'string.too.large',
+    }));
+  });
+  it('throws when maxCollectionSize is invalid', () => {
+    expect(() => getMsgpackParser({maxCollectionSize: -1})).toThrow('maxCollectionSize can not be smaller than 0');
+  });
+});
+
+describe('handles application/msgpack', () => {
+  it('should parse MessagePack', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/msgpack')
+      .send(Buffer.from('82a46e616d65a4746f6269a4706574739191a46c6f6b69', 'hex'))
+      .expect(200, '{"name":"tobi","pets":[["loki"]]}', done);
+  });
+  it('should parse application/x-msgpack', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/x-msgpack')
+      .send(Buffer.from('920102', 'hex'))
+      .expect(200, '[1,2]', done);
+  });
+  it('should 400 for __proto__ keys on main level', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/msgpack')
+      .send(Buffer.from('81a95f5f70726f746f5f5f81a8706f6c6c75746564c3', 'hex'))
+      .expect(400, 'Parse error: __proto__ key not allowed in MessagePack body on main level', done);
+  });
+  it('should 413 when a collection is too large', (done) => {
+    request(createServer(undefined, {matcher: 'application/msgpack', parser: getMsgpackParser({maxCollectionSize: 1})}))
+      .post('/')
+      .set('Content-Type', 'application/msgpack')
+      .set('X-Error-Property', 'type')
+      .send(Buffer.from('920102', 'hex'))
+      .expect(413, 'collection.too.large', done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : 'application/msgpack')
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      if (err) {
+        res.statusCode = err.status || 500;
+        // @ts-ignore
+        res.end(err[req.headers['x-error-property'] || 'message']);
+      } else {
+        res.statusCode = 200;
+        // @ts-ignore
+        res.end(JSON.stringify(req.body));
+      }
+    });
+  });
+}
@@ -0,0 +1,253 @@
+import request from 'supertest';
+import {bodyParser, DefaultOptions, ParserConfigurations, MultipartFiles} from '../src';
+import * as http from 'http';
+import zlib from 'zlib';
+import {getMultipartParser, getMultipartSplitter, parseHeaderParameters} from '../src/multipart';
+import {Buffer} from 'buffer';
+
+const boundary = 'AaB03x';
+
+function multipartBody(parts: string[]) {
+  return `${parts.map((part) => `--${boundary}\r\n${part}\r\n`).join('')}--${boundary}--\r\n`;
+}
+
+describe('multipart/form-data', () => {
+  it('should parse text fields', (done) => {
+    request(createServer())
+      .post('/')
+      .field('user', 'tobi')
+      .field('pet', 'loki')
+      .expect(200, '{"body":{"user":"tobi","pet":"loki"},"files":{}}', done);
+  });
+  it('should parse files', (done) => {
+    request(createServer())
+      .post('/')
+      .field('user', 'tobi')
+      .attach('document', Buffer.from('the user is tobi'), {filename: 'user.txt', contentType: 'text/plain'})
+      .expect(200, JSON.stringify({
+        body: {user: 'tobi'},
+        files: {document: [{fieldName: 'document', fileName: 'user.txt', contentType: 'text/plain', size: 16, data: 'the user is tobi'}]},
+      }), done);
+  });
+  it('should collect repeated fields and files', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', `multipart/form-data; boundary=${boundary}`)
+      .send(multipartBody([
+        'Content-Disposition: form-data; name="pet"\r\n\r\nloki',
+        'Content-Disposition: form-data; name="pet"\r\n\r\ntobi',
+        'Content-Disposition: form-data; name="pet"\r\n\r\nferret',
+        'Content-Disposition: form-data; name="image"; filename="a.bin"\r\n\r\nA',
+        'Content-Disposition: form-data; name="image"; filename="b.bin"\r\n\r\n',
+      ]))
+      .expect(200, JSON.stringify({
+        body: {pet: ['loki', 'tobi', 'ferret']},
+        files: {image: [
+          {fieldName: 'image', fileName: 'a.bin', contentType: 'application/octet-stream', size: 1, data: 'A'},
+          {fieldName: 'image', fileName: 'b.bin', contentType: 'application/octet-stream', size: 0, data: ''},
+        ]},
+      }), done);
+  });
+  it('should ignore preamble and epilogue', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', `multipart/form-data; boundary=${boundary}`)
+      .send(`preamble\r\n${multipartBody(['Content-Disposition: form-data; name="user"\r\n\r\ntobi'])}epilogue`)
+      .expect(200, '{"body":{"user":"tobi"},"files":{}}', done);
+  });
+  it('should keep line breaks in values', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', `multipart/form-data; boundary=${boundary}`)
+      .send(multipartBody(['Content-Disposition: form-data; name="text"\r\n\r\n\r\nline 1\r\n--line 2\r\n']))
+      .expect(200, '{"body":{"text":"\\r\\nline 1\\r\\n--line 2\\r\\n"},"files":{}}', done);
+  });
+  it('should decode the charset of a part', (done) => {
+    const test = request(createServer()).post('/');
+    test.set('Content-Type', `multipart/form-data; boundary=${boundary}`);
+    test.write(Buffer.concat([
+      Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="name"\r\nContent-Type: text/plain; charset=latin1\r\n\r\n`),
+      Buffer.from('426af8726e', 'hex'),
+      Buffer.from(`\r\n--${boundary}--`),
+    ]));
+    test.expect(200, '{"body":{"name":"Bjørn"},"files":{}}', done);
+  });
+  it('should decode extended file names', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', `multipart/form-data; boundary=${boundary}`)
+      .send(multipartBody([`Content-Disposition: form-data; name="file"; filename="a.txt"; filename*=UTF-8''%E8%AE%BA.txt\r\n\r\nA`]))
+      .expect(200, JSON.stringify({
+        body: {},
+        files: {file: [{fieldName: 'file', fileName: '论.txt', contentType: 'application/octet-stream', size: 1, data: 'A'}]},
+      }), done);
+  });
+  it('should parse the body when the chunks split the delimiter', (done) => {
+    const body = Buffer.from(multipartBody([
+      'Content-Disposition: form-data; name="user"\r\n\r\ntobi',
+      'Content-Disposition: form-data; name="file"; filename="user.txt"\r\n\r\nthe user is tobi',
+    ]));
+    const server = createServer();
+    const test = request(server).post('/');
+    test.set('Content-Type', `multipart/form-data; boundary=${boundary}`);
+    test.set('Transfer-Encoding', 'chunked');
+    for (let i = 0; i < body.length; i += 3) {
+      test.write(body.subarray(i, i + 3));
+    }
+    test.expect(200, JSON.stringify({
+      body: {user: 'tobi'},
+      files: {file: [{fieldName: 'file', fileName: 'user.txt', contentType: 'application/octet-stream', size: 16, data: 'the user is tobi'}]},
+    }), done);
+  });
+  it('should handle compression', (done) => {
+    zlib.gzip(multipartBody(['Content-Disposition: form-data; name="user"\r\n\r\ntobi']), (err, buffer) => {
+      const test = request(createServer({inflate: true})).post('/');
+      test.set('Content-Type', `multipart/form-data; boundary=${boundary}`);
+      test.set('Content-Encoding', 'gzip');
+      test.write(buffer);
+      test.expect(200, '{"body":{"user":"tobi"},"files":{}}', done);
+    });
+  });
+  it('should handle Content-Length: 0', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', `multipart/form-data; boundary=${boundary}`)
+      .set('Content-Length', '0')
+      .expect(200, '{"body":{}}', done);
+  });
+  it('should allow "__proto__" as field name without polluting the prototype', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', `multipart/form-data; boundary=${boundary}`)
+      .send(multipartBody(['Content-Disposition: form-data; name="__proto__"\r\n\r\npoison']))
+      .expect(200, '{"body":{"__proto__":"poison"},"files":{}}', done);
+  });
+});
+
+describe('invalid multipart/form-data', () => {
+  it('should 400 when boundary is missing', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'multipart/form-data')
+      .set('X-Error-Property', 'type')
+      .send('--AaB03x--')
+      .expect(400, 'boundary.invalid', done);
+  });
+  it('should 400 when body is incomplete', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', `multipart/form-data; boundary=${boundary}`)
+      .send(`--${boundary}\r\nContent-Disposition: form-data; name="user"\r\n\r\ntobi`)
+      .expect(400, 'Parse error: Unexpected end of multipart body', done);
+  });
+  it('should 400 when content disposition is missing', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', `multipart/form-data; boundary=${boundary}`)
+      .set('X-Error-Property', 'type')
+      .send(multipartBody(['Content-Type: text/plain\r\n\r\ntobi']))
+      .expect(400, 'part.invalid', done);
+  });
+  it('should 400 when delimiter is malformed', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', `multipart/form-data; boundary=${boundary}`)
+      .set('X-Error-Property', 'type')
+      .send(`--${boundary}garbage\r\n`)
+      .expect(400, 'multipart.invalid', done);
+  });
+});
+
+describe('multipart/form-data limits', () => {
+  it('should 413 when too many parts', (done) => {
+    request(createServer(undefined, {matcher: 'multipart/form-data', streamParser: getMultipartParser({maxParts: 2})}))
+      .post('/')
+      .field('a', '1')
+      .field('b', '2')
+      .field('c', '3')
+      .set('X-Error-Property', 'type')
+      .expect(413, 'parts.too.many', done);
+  });
+  it('should 413 when field is too large', (done) => {
+    request(createServer(undefined, {matcher: 'multipart/form-data', streamParser: getMultipartParser({maxFieldSize: 4})}))
+      .post('/')
+      .field('user', 'tobi!')
+      .set('X-Error-Property', 'type')
+      .expect(413, 'field.too.large', done);
+  });
+  it('should 413 when file is too large', (done) => {
+    request(createServer(undefined, {matcher: 'multipart/form-data', streamParser: getMultipartParser({maxFileSize: '10b'})}))
+      .post('/')
+      .field('user', 'tobi')
+      .attach('document', Buffer.from('the user is tobi'), 'user.txt')
+      .set('X-Error-Property', 'type')
+      .expect(413, 'file.too.large', done);
+  });
+  it('should 413 when part headers are too large', (done) => {
+    request(createServer(undefined, {matcher: 'multipart/form-data', streamParser: getMultipartParser({maxHeaderSize: 64})}))
+      .post('/')
+      .set('Content-Type', `multipart/form-data; boundary=${boundary}`)
+      .set('X-Error-Property', 'type')
+      .send(multipartBody([`Content-Disposition: form-data; name="${'a'.repeat(100)}"\r\n\r\ntobi`]))
+      .expect(413, 'headers.too.large', done);
+  });
+  it('should 413 when the total size is over the limit', (done) => {
+    request(createServer({defaultLimit: 100}))
+      .post('/')
+      .attach('document', Buffer.alloc(200, '.'), 'dots.txt')
+      .set('X-Error-Property', 'type')
+      .expect(413, 'entity.too.large', done);
+  });
+  it('throws when maxParts < 0', () => {
+    expect(() => getMultipartParser({maxParts: -1})).toThrow('maxParts can not be smaller than 0');
+  });
+});
+
+describe('Splitting multipart bodies', () => {
+  it('handles parts without headers', () => {
+    const parts: {headers: Record<string, string>, data: string}[] = [];
+    const splitter = getMultipartSplitter(boundary, {
+      onPartBegin: (headers) => parts.push({headers: {...headers}, data: ''}),
+      onPartData: (chunk) => parts[parts.length - 1].data += chunk.toString(),
+      onPartEnd: () => undefined,
+    });
+    splitter.onData(Buffer.from(`--${boundary}\r\n\r\nfirst\r\n--${boundary}  \r\nX-Header: 1\r\nx-header: 2\r\n\r\n\r\n--${boundary}--`));
+    splitter.onEnd();
+    expect(parts).toEqual([
+      {headers: {}, data: 'first'},
+      {headers: {'x-header': '1, 2'}, data: ''},
+    ]);
+  });
+  it('parses header parameters', () => {
+    expect(parseHeaderParameters('form-data; name="a \\"b\\""; filename=c.txt')).toEqual({
+      value: 'form-data',
+      parameters: {name: 'a "b"', filename: 'c.txt'},
+    });
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : 'multipart/form-data')
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      if (err) {
+        res.statusCode = err.status || 500;
+        // @ts-ignore
+        res.end(err[req.headers['x-error-property'] || 'message']);
+      } else {
+        const files = (<{files?: MultipartFiles}><unknown>req).files;
+        res.statusCode = 200;
+        res.end(JSON.stringify({
+          // @ts-ignore
+          body: req.body,
+          files: files && Object.fromEntries(Object.entries(files)
+            .map(([name, fieldFiles]) => [name, fieldFiles.map((file) => ({...file, data: file.data.toString()}))])),
+        }));
+      }
+    });
+  });
+}
@@ -0,0 +1,210 @@
+import request from 'supertest';
+import {bodyParser, DefaultOptions, getNdjsonParser, ParserConfigurations} from '../src';
+import * as http from 'http';
+import {AddressInfo} from 'net';
+import zlib from 'zlib';
+
+describe('handles application/x-ndjson', () => {
+  it('should parse newline delimited JSON', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/x-ndjson')
+      .send('{"name":"tobi"}\r\n\n[1,2]\n"loki"\nnull')
+      .expect(200, '[{"name":"tobi"},[1,2],"loki",null]', done);
+  });
+  it('should parse application/jsonl', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/jsonl; charset=utf-8')
+      .send('{"name":"tobi"}\n{"name":"loki"}\n')
+      .expect(200, '[{"name":"tobi"},{"name":"loki"}]', done);
+  });
+  it('should parse records split across chunks', (done) => {
+    const test = request(createServer()).post('/');
+    test.set('Content-Type', 'application/x-ndjson');
+    test.write('{"name":');
+    test.write('"tobi"}\n{"name"');
+    test.write(':"loki"}');
+    test.expect(200, '[{"name":"tobi"},{"name":"loki"}]', done);
+  });
+  it('should parse inflated records', (done) => {
+    const test = request(createServer({inflate: true})).post('/');
+    test.set('Content-Type', 'application/x-ndjson');
+    test.set('Content-Encoding', 'gzip');
+    test.write(zlib.gzipSync('{"name":"tobi"}\n{"name":"loki"}\n'));
+    test.expect(200, '[{"name":"tobi"},{"name":"loki"}]', done);
+  });
+  it('should hand the body to the next middleware before the request ends', (done) => {
+    const server = createServer(undefined, undefined, true).listen(0, () => {
+      const req = http.request({
+        port: (<AddressInfo>server.address()).port,
+        method: 'POST',
+        headers: {'Content-Type': 'application/x-ndjson', 'Transfer-Encoding': 'chunked'},
+      }, (res) => {
+        let response = '';
+        res.on('data', (chunk) => response += chunk);
+        res.on('end', () => {
+          server.close();
+          expect(response).toBe('{"name":"tobi"}');
+          done();
+        });
+        req.end('{"name":"loki"}\n');
+      });
+      req.write('{"name":"tobi"}\n');
+    });
+  });
+  it('should pause the request until the records are consumed', async () => {
+    const req = {pause: jest.fn(), resume: jest.fn()};
+    const parser = getNdjsonParser({highWaterMark: 2})({type: 'application/x-ndjson', parameters: {}}, <any>req);
+    const records = <AsyncIterableIterator<unknown>>parser.body;
+    parser.onData(Buffer.from('1\n2\n3\n'));
+    expect(req.pause).toHaveBeenCalledTimes(1);
+    expect(await records.next()).toEqual({value: 1, done: false});
+    expect(req.resume).not.toHaveBeenCalled();
+    expect(await records.next()).toEqual({value: 2, done: false});
+    expect(req.resume).toHaveBeenCalledTimes(1);
+    parser.onEnd();
+    expect(await records.next()).toEqual({value: 3, done: false});
+    expect(await records.next()).toEqual({value: undefined, done: true});
+  });
+  it('should not pause embedded bodies without request stream', async () => {
+    const parser = getNdjsonParser({highWaterMark: 2})({type: 'application/x-ndjson', parameters: {}}, <any>{headers: {}});
+    const records = <AsyncIterableIterator<unknown>>parser.body;
+    parser.onData(Buffer.from('1\n2\n3\n'));
+    parser.onEnd();
+    expect(await records.next()).toEqual({value: 1, done: false});
+    expect(await records.next()).toEqual({value: 2, done: false});
+    expect(await records.next()).toEqual({value: 3, done: false});
+    expect(await records.next()).toEqual({value: undefined, done: true});
+  });
+  it('should handle Content-Length: 0', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/x-ndjson')
+      .set('Content-Length', '0')
+      .expect(200, '[]', done);
+  });
+});
+
+describe('handles application/json-seq', () => {
+  it('should parse JSON text sequences', (done) => {
+    request(createServer(undefined, 'application/json-seq'))
+      .post('/')
+      .set('Content-Type', 'application/json-seq')
+      .send('\x1e{"name":"tobi"}\n\x1e\x1e[1,\n2]\n\x1e3\n')
+      .expect(200, '[{"name":"tobi"},[1,2],3]', done);
+  });
+  it('should 400 for truncated records', (done) => {
+    request(createServer(undefined, 'application/json-seq'))
+      .post('/')
+      .set('Content-Type', 'application/json-seq')
+      .send('\x1e{"name":"tobi"}\n\x1e12')
+      .expect(400, '[{"name":"tobi"}] Parse error: Truncated record 1', done);
+  });
+  it('should 400 when the sequence does not start with a record separator', (done) => {
+    request(createServer(undefined, 'application/json-seq'))
+      .post('/')
+      .set('Content-Type', 'application/json-seq')
+      .send('{"name":"tobi"}\n')
+      .expect(400, '[] Parse error: JSON text sequence does not start with a record separator', done);
+  });
+});
+
+describe('when records are invalid', () => {
+  it('should yield the records before the error and report the record index', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/x-ndjson')
+      .set('X-Error-Property', 'record')
+      .send('{"name":"tobi"}\n{"name":}\n{"name":"loki"}\n')
+      .expect(400, '[{"name":"tobi"}] 1', done);
+  });
+  it('should 400 for __proto__ keys', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/x-ndjson')
+      .send('{"__proto__":{"polluted":true}}')
+      .expect(400, '[] Parse error: __proto__ key not allowed in record 0', done);
+  });
+  it('should 413 when a record is too large', (done) => {
+    request(createServer(undefined, {matcher: 'application/x-ndjson', streamParser: getNdjsonParser({maxRecordSize: 16})}))
+      .post('/')
+      .set('Content-Type', 'application/x-ndjson')
+      .set('X-Error-Property', 'type')
+      .send('{"name":"tobi"}\n{"name":"ferret"}\n')
+      .expect(413, '[{"name":"tobi"}] record.too.large', done);
+  });
+  it('should 413 when too many records', (done) => {
+    request(createServer(undefined, {matcher: 'application/x-ndjson', streamParser: getNdjsonParser({maxRecords: 2})}))
+      .post('/')
+      .set('Content-Type', 'application/x-ndjson')
+      .set('X-Error-Property', 'type')
+      .send('1\n2\n3\n')
+      .expect(413, '[1,2] records.too.many', done);
+  });
+  it('should 413 when the body is larger than the limit', (done) => {
+    request(createServer(undefined, {matcher: 'application/x-ndjson', limit: 20}))
+      .post('/')
+      .set('Content-Type', 'application/x-ndjson')
+      .set('X-Error-Property', 'type')
+      .send('{"name":"tobi"}\n{"name":"loki"}\n')
+      .expect(413, /entity\.too\.large$/, done);
+  });
+  it('should 403 when the body can not be verified', (done) => {
+    request(createServer(undefined, {matcher: 'application/x-ndjson', verify: () => {
+      throw new Error('invalid signature');
+    }}))
+      .post('/')
+      .set('Content-Type', 'application/x-ndjson')
+      .send('{"name":"tobi"}\n')
+      .expect(403, '[{"name":"tobi"}] Verify function did not match: invalid signature', done);
+  });
+  it('should 415 for other charsets than UTF-8', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/x-ndjson; charset=latin1')
+      .set('X-Error-Property', 'type')
+      .send('{"name":"tobi"}\n')
+      .expect(415, 'charset.unsupported', done);
+  });
+  it('throws when the limits are invalid', () => {
+    expect(() => getNdjsonParser({maxRecords: -1})).toThrow('maxRecords can not be smaller than 0');
+    expect(() => getNdjsonParser({highWaterMark: 0})).toThrow('highWaterMark can not be smaller than 1');
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>, firstRecord = false) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : 'application/x-ndjson')
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, async function (err: any) {
+      if (err) {
+        res.statusCode = err.status || 500;
+        // @ts-ignore
+        res.end(err[req.headers['x-error-property'] || 'message']);
+        return;
+      }
+      const records: unknown[] = [];
+      try {
+        // @ts-ignore
+        for await (const record of req.body) {
+          if (firstRecord) {
+            res.end(JSON.stringify(record));
+            return;
+          }
+          records.push(record);
+        }
+      } catch (error: any) {
+        res.statusCode = error.status || 500;
+        // @ts-ignore
+        res.end(`${JSON.stringify(records)} ${error[req.headers['x-error-property'] || 'message']}`);
+        return;
+      }
+      res.statusCode = 200;
+      res.end(JSON.stringify(records));
+    });
+  });
+}
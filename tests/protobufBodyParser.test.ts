@@ -0,0 +1,178 @@
+import request from 'supertest';
+import {bodyParser, DefaultOptions, getProtobufParser, ParserConfigurations, ProtobufDescriptor} from '../src';
+import * as http from 'http';
+import {Buffer} from 'buffer';
+
+const descriptor: ProtobufDescriptor = {
+  nested: {
+    pkg: {
+      nested: {
+        Person: {
+          fields: {
+            name: {type: 'string', id: 1},
+            id: {type: 'int32', id: 2},
+            emails: {rule: 'repeated', type: 'string', id: 3},
+            scores: {rule: 'repeated', type: 'sint32', id: 4},
+            kind: {type: 'Kind', id: 5},
+            address: {type: 'Address', id: 6},
+            attributes: {keyType: 'string', type: 'int64', id: 7},
+            balance: {type: 'sfixed64', id: 8},
+            ratio: {type: 'double', id: 9},
+            active: {type: 'bool', id: 10},
+          },
+          nested: {
+            Kind: {values: {UNKNOWN: 0, ADMIN: 1}},
+          },
+        },
+        Address: {
+          fields: {
+            city: {type: 'string', id: 1},
+            parent: {type: '.pkg.Address', id: 2},
+          },
+        },
+      },
+    },
+  },
+};
+
+const person = '0a04746f6269109601' + '1a01611a0162' + '22020104' + '2801' + '32030a0178' + '3a050a01611001' + '5001';
+
+const decode = (hex: string) => getProtobufParser({descriptor, messageType: 'pkg.Person'})(Buffer.from(hex, 'hex'));
+
+describe('decodes protobuf messages', () => {
+  [
+    ['', {}],
+    [person, {
+      name: 'tobi',
+      id: 150,
+      emails: ['a', 'b'],
+      scores: [-1, 2],
+      kind: 'ADMIN',
+      address: {city: 'x'},
+      attributes: {a: 1},
+      active: true,
+    }],
+    ['20012004', {scores: [-1, 2]}],
+    ['10ffffffffffffffffff01', {id: -1}],
+    ['41ffffffffffffffff', {balance: -1}],
+    ['410000000000000080', {balance: BigInt('-9223372036854775808')}],
+    ['49000000000000f83f', {ratio: 1.5}],
+    ['2807', {kind: 7}],
+    ['3a021001', {attributes: {'': 1}}],
+    ['0a01610a0162', {name: 'b'}],
+    ['0a0161780510ffffffff0f', {name: 'a', id: -1}],
+  ].forEach(([hex, expected]) => {
+    it(`should decode ${hex || 'empty data'}`, () => {
+      expect(decode(<string>hex)).toEqual(expected);
+    });
+  });
+  it('should select the message type with the proto parameter', () => {
+    const parser = getProtobufParser({descriptor});
+    expect(parser(Buffer.from('0a0178', 'hex'), {type: 'application/protobuf', parameters: {proto: 'pkg.Address'}})).toEqual({city: 'x'});
+  });
+  it('should preserve unknown fields', () => {
+    const parser = getProtobufParser({descriptor, messageType: 'pkg.Address', unknownFields: 'preserve'});
+    expect(parser(Buffer.from('0a0178780582010201021d01000000', 'hex'))).toEqual({
+      city: 'x',
+      $unknownFields: [
+        {id: 15, wireType: 0, value: 5},
+        {id: 16, wireType: 2, value: Buffer.from('0102', 'hex')},
+        {id: 3, wireType: 5, value: 1},
+      ],
+    });
+  });
+  it('should not pollute the prototype with map keys', () => {
+    const parsed = <Record<string, Record<string, unknown>>>decode('3a0d0a095f5f70726f746f5f5f1001');
+    expect(Object.prototype.hasOwnProperty.call(parsed.attributes, '__proto__')).toBe(true);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe('when protobuf is malformed or too large', () => {
+  [
+    ['0a04746f', 'Unexpected end of data'],
+    ['0d00000000', 'Invalid wire type 5 of field \'name\''],
+    ['0001', 'Invalid field number 0'],
+    ['0a01ff', 'Invalid UTF-8 in field \'name\''],
+    ['10ffffffffffffffffffff01', 'Varint is too long'],
+    ['7b', 'Unsupported wire type 3 of field 15'],
+  ].forEach(([hex, message]) => {
+    it(`should throw for ${hex}`, () => {
+      expect(() => decode(hex)).toThrow(expect.objectContaining({message, status: 400, type: 'entity.parse.failed'}));
+    });
+  });
+  it('should 413 when nested too deeply', () => {
+    expect(() => getProtobufParser({descriptor, messageType: 'pkg.Address', maxDepth: 2})(Buffer.from('12021200', 'hex')))
+      .toThrow(expect.objectContaining({status: 413, type: 'depth.too.large'}));
+  });
+  it('should 415 when the message type is not defined', () => {
+    expect(() => getProtobufParser({descriptor})(Buffer.from('', 'hex'))).toThrow(expect.objectContaining({
+      status: 415,
+      type: 'mediaType.unsupported',
+    }));
+  });
+  it('throws when the descriptor is invalid', () => {
+    expect(() => getProtobufParser({descriptor: {nested: {A: {fields: {b: {type: 'B', id: 1}}}}}}))
+      .toThrow('Type \'B\' of field \'b\' in message type \'A\' is not defined in the descriptor');
+    expect(() => getProtobufParser({descriptor: {nested: {A: {fields: {b: {type: 'bool', id: 0}}}}}}))
+      .toThrow('Invalid field number of field \'b\' in message type \'A\'');
+    expect(() => getProtobufParser({descriptor, messageType: 'pkg.Unknown'}))
+      .toThrow('Message type \'pkg.Unknown\' is not defined in the descriptor');
+  });
+});
+
+describe('handles application/protobuf', () => {
+  it('should parse application/x-protobuf with the default message type', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/x-protobuf')
+      .send(Buffer.from('0a04746f6269410000000000000080', 'hex'))
+      .expect(200, '{"name":"tobi","balance":"-9223372036854775808"}', done);
+  });
+  it('should parse application/protobuf with the proto parameter', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/protobuf; proto=pkg.Address')
+      .send(Buffer.from('0a0178', 'hex'))
+      .expect(200, '{"city":"x"}', done);
+  });
+  it('should 400 for malformed protobuf', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/x-protobuf')
+      .set('X-Error-Property', 'type')
+      .send(Buffer.from('0a04746f', 'hex'))
+      .expect(400, 'entity.parse.failed', done);
+  });
+  it('should 415 for an unknown message type', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/protobuf; proto=pkg.Unknown')
+      .send(Buffer.from('0a0178', 'hex'))
+      .expect(415, 'Parse error: Message type \'pkg.Unknown\' is not supported', done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : {
+      matcher: ['application/x-protobuf', 'application/protobuf'],
+      parser: getProtobufParser({descriptor, messageType: 'pkg.Person'}),
+    })
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      if (err) {
+        res.statusCode = err.status || 500;
+        // @ts-ignore
+        res.end(err[req.headers['x-error-property'] || 'message']);
+      } else {
+        res.statusCode = 200;
+        // @ts-ignore
+        res.end(JSON.stringify(req.body, (key, value) => typeof value === 'bigint' ? value.toString() : value));
+      }
+    });
+  });
+}
@@ -0,0 +1,161 @@
+import request from 'supertest';
+import {bodyParser, DefaultOptions, getSvgParser, ParserConfigurations, svgElements} from '../src';
+import * as http from 'http';
+
+const svgNamespaces = 'xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"';
+
+describe('getSvgParser', () => {
+  it('should keep safe documents', () => {
+    const svg = `<svg ${svgNamespaces} viewBox="0 0 10 10"><defs><linearGradient id="g"><stop offset="0" stop-color="red"/></linearGradient>`
+      + '</defs><g fill="url(#g)"><rect width="10" height="10"/><use xlink:href="#g"/><text x="1">a &lt; b &amp; "c"</text></g></svg>';
+    expect(getSvgParser()(svg)).toEqual({svg, removed: []});
+  });
+  it('should drop the declarations, comments and processing instructions', () => {
+    expect(getSvgParser()('<?xml version="1.0"?>\n<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" '
+      + '"http://www.w3.org/Graphics/SVG/1.1/DTD/svg11.dtd">\n<svg><!-- comment --><path d="M0 0"/></svg>').svg)
+      .toBe('<svg><path d="M0 0"/></svg>');
+  });
+  it('should remove scripts, event handlers and foreign objects', () => {
+    expect(getSvgParser()('<svg onload="alert(1)"><script>alert(2)</script><g><foreignObject><div/></foreignObject>'
+      + '<circle r="1" ONCLICK="alert(3)"/></g></svg>')).toEqual({
+      svg: '<svg><g><circle r="1"/></g></svg>',
+      removed: [
+        {type: 'attribute', name: 'onload', path: 'svg', reason: 'event'},
+        {type: 'element', name: 'script', path: 'svg/script', reason: 'forbidden'},
+        {type: 'element', name: 'foreignObject', path: 'svg/g/foreignObject', reason: 'forbidden'},
+        {type: 'attribute', name: 'ONCLICK', path: 'svg/g/circle', reason: 'event'},
+      ],
+    });
+  });
+  it('should remove script URLs and external references', () => {
+    expect(getSvgParser()(`<svg ${svgNamespaces}><use href=" java&#9;script:alert(1)"/><use xlink:href="https://example.com/a.svg#b"/>`
+      + '<image href="data:image/png;base64,iVBORw0KGgo="/><image href="data:image/svg+xml;base64,PHN2Zy8+"/>'
+      + '<rect style="fill: url(\'https://example.com/x\')" filter="url(javascript:alert(1))" mask="url(#m)"/></svg>')).toEqual({
+      svg: `<svg ${svgNamespaces}><use/><use/><image href="data:image/png;base64,iVBORw0KGgo="/><image/><rect mask="url(#m)"/></svg>`,
+      removed: [
+        {type: 'attribute', name: 'href', path: 'svg/use', reason: 'script'},
+        {type: 'attribute', name: 'xlink:href', path: 'svg/use', reason: 'external'},
+        {type: 'attribute', name: 'href', path: 'svg/image', reason: 'external'},
+        {type: 'attribute', name: 'style', path: 'svg/rect', reason: 'external'},
+        {type: 'attribute', name: 'filter', path: 'svg/rect', reason: 'script'},
+      ],
+    });
+  });
+  [
+    'fill:\\75 rl(https://evil.example/x#a)',
+    'fill:u\\rl(https://evil.example/x#a)',
+    'fill:\\000055\\52 L(https://evil.example/x#a)',
+    'fill:url(\\68ttps://evil.example/x#a)',
+    'fill:u/**/rl(https://evil.example/x#a)',
+    '\\@import \'https://evil.example/a.css\'',
+    'width:expr\\65ssion(alert(1))',
+  ].forEach((style) => {
+    it(`should remove the escaped CSS ${style}`, () => {
+      expect(getSvgParser()(`<svg><rect style="${style}"/></svg>`)).toEqual({
+        svg: '<svg><rect/></svg>',
+        removed: [{type: 'attribute', name: 'style', path: 'svg/rect', reason: 'external'}],
+      });
+    });
+  });
+  it('should remove escaped script URLs in CSS', () => {
+    expect(getSvgParser()('<svg><rect style="fill:url(j\\61vascript:alert(1))"/><rect style="fill:url(#\\61)"/></svg>')).toEqual({
+      svg: '<svg><rect/><rect style="fill:url(#\\61)"/></svg>',
+      removed: [{type: 'attribute', name: 'style', path: 'svg/rect', reason: 'script'}],
+    });
+  });
+  it('should remove elements and attributes which are not allowed', () => {
+    expect(getSvgParser()('<svg xmlns:sodipodi="http://sodipodi"><style>@import url(a.css)</style><animate attributeName="href"/>'
+      + '<rect sodipodi:type="x" unknown="1"/></svg>').removed).toEqual([
+      {type: 'attribute', name: 'xmlns:sodipodi', path: 'svg', reason: 'forbidden'},
+      {type: 'element', name: 'style', path: 'svg/style', reason: 'forbidden'},
+      {type: 'element', name: 'animate', path: 'svg/animate', reason: 'forbidden'},
+      {type: 'attribute', name: 'sodipodi:type', path: 'svg/rect', reason: 'forbidden'},
+      {type: 'attribute', name: 'unknown', path: 'svg/rect', reason: 'forbidden'},
+    ]);
+  });
+  it('should use the allow lists of the options', () => {
+    const parser = getSvgParser({
+      elements: [...svgElements, 'a', 'script'],
+      attributes: ['href', 'onclick'],
+      allowHref: (href, element) => element === 'a' && href.startsWith('https://example.com/'),
+    });
+    expect(parser('<svg width="1"><a href="https://example.com/page" onclick="go()"><script/><rect/></a>'
+      + '<use href="https://example.com/page"/></svg>')).toEqual({
+      svg: '<svg><a href="https://example.com/page"><rect/></a><use/></svg>',
+      removed: [
+        {type: 'attribute', name: 'width', path: 'svg', reason: 'forbidden'},
+        {type: 'attribute', name: 'onclick', path: 'svg/a', reason: 'event'},
+        {type: 'element', name: 'script', path: 'svg/a/script', reason: 'forbidden'},
+        {type: 'attribute', name: 'href', path: 'svg/use', reason: 'external'},
+      ],
+    });
+  });
+  it('should reject unsafe documents', () => {
+    const parser = getSvgParser({mode: 'reject'});
+    expect(parser('<svg><rect/></svg>')).toEqual({svg: '<svg><rect/></svg>', removed: []});
+    expect(() => parser('<svg><g><script/></g></svg>')).toThrow(expect.objectContaining({
+      message: 'Unsafe element \'script\' at \'svg/g/script\'',
+      status: 400,
+      type: 'svg.unsafe',
+      removed: [{type: 'element', name: 'script', path: 'svg/g/script', reason: 'forbidden'}],
+    }));
+  });
+  it('should reject documents which are not SVG', () => {
+    expect(() => getSvgParser()('<html><script/></html>')).toThrow(expect.objectContaining({
+      message: 'Root element \'html\' is not \'svg\'',
+      type: 'svg.invalid',
+    }));
+    expect(() => getSvgParser({allowDoctype: false})('<!DOCTYPE svg><svg/>')).toThrow(expect.objectContaining({status: 400}));
+  });
+});
+
+describe('handles SVG uploads', () => {
+  it('should sanitize image/svg+xml', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'image/svg+xml')
+      .send('<svg onload="alert(1)"><circle r="1"/></svg>')
+      .expect(200, JSON.stringify({
+        svg: '<svg><circle r="1"/></svg>',
+        removed: [{type: 'attribute', name: 'onload', path: 'svg', reason: 'event'}],
+      }), done);
+  });
+  it('should 400 for unsafe documents in reject mode', (done) => {
+    request(createServer(undefined, {matcher: 'image/svg+xml', parser: getSvgParser({mode: 'reject'}), defaultEncoding: 'utf-8'}))
+      .post('/')
+      .set('Content-Type', 'image/svg+xml')
+      .send('<svg><script>alert(1)</script></svg>')
+      .expect(400, 'Parse error: Unsafe element \'script\' at \'svg/script\'', done);
+  });
+  it('should sanitize image/svg+xml together with the default media type application/xml', (done) => {
+    request(createServer(undefined, ['application/xml', 'image/svg+xml']))
+      .post('/')
+      .set('Content-Type', 'image/svg+xml')
+      .send('<svg><script>alert(1)</script><rect/></svg>')
+      .expect(200, JSON.stringify({
+        svg: '<svg><rect/></svg>',
+        removed: [{type: 'element', name: 'script', path: 'svg/script', reason: 'forbidden'}],
+      }), done);
+  });
+  it('should 400 for invalid XML', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'image/svg+xml')
+      .send('<svg><g></svg>')
+      .expect(400, done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : 'image/svg+xml')
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      res.statusCode = err ? (err.status || 500) : 200;
+      res.end(err ? err.message : JSON.stringify((<any>req).body));
+    });
+  });
+}
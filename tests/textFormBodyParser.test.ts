@@ -0,0 +1,97 @@
+import request from 'supertest';
+import {bodyParser, DefaultOptions, getTextFormParser, ParserConfigurations} from '../src';
+import * as http from 'http';
+
+const textFormConfiguration = {
+  matcher: 'text/plain',
+  parser: getTextFormParser(),
+  defaultEncoding: 'utf-8',
+  encodings: true,
+  emptyResponse: {},
+};
+
+describe('getTextFormParser', () => {
+  [
+    ['name=tobi\r\nage=3\r\n', {name: 'tobi', age: '3'}],
+    ['name=tobi\nage=3', {name: 'tobi', age: '3'}],
+    ['pet=cat\r\npet=dog\r\npet=fish\r\n', {pet: ['cat', 'dog', 'fish']}],
+    ['formula=a=b+c&d\r\n', {formula: 'a=b+c&d'}],
+    ['flag\r\n=value\r\nempty=\r\n', {flag: '', '': 'value', empty: ''}],
+    ['name=%20t%C3%B6bi', {name: '%20t%C3%B6bi'}],
+    ['\r\n', {}],
+  ].forEach(([body, fields]) => {
+    it(`should parse ${JSON.stringify(body)}`, () => {
+      expect(getTextFormParser()(<string>body)).toEqual(fields);
+    });
+  });
+  it('should create objects without prototype', () => {
+    const fields = getTextFormParser()('__proto__=a\r\nconstructor=b');
+    expect(Object.getPrototypeOf(fields)).toBe(null);
+    expect(fields).toEqual({['__proto__']: 'a', constructor: 'b'});
+  });
+  it('should 413 when there are too many fields', () => {
+    expect(getTextFormParser(2)('a=1\r\nb=2\r\n')).toEqual({a: '1', b: '2'});
+    expect(() => getTextFormParser(2)('a=1\r\nb=2\r\nc=3\r\n')).toThrow(expect.objectContaining({
+      status: 413,
+      type: 'parameters.too.many',
+    }));
+    expect(Object.keys(getTextFormParser(Infinity)('a=1\n'.repeat(2000)))).toEqual(['a']);
+  });
+  it('throws when maxKeys is invalid', () => {
+    expect(() => getTextFormParser(-1)).toThrow('maxKeys can not be smaller than 0');
+  });
+});
+
+describe('handles text/plain form submissions', () => {
+  it('should parse text/plain forms', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'text/plain')
+      .send('name=tobi\r\ncomment=hello world\r\n')
+      .expect(200, '{"name":"tobi","comment":"hello world"}', done);
+  });
+  it('should decode the charset', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'text/plain; charset=latin1')
+      .send(Buffer.from('name=töbi\r\n', 'latin1'))
+      .expect(200, '{"name":"töbi"}', done);
+  });
+  it('should be matched by a media type function', (done) => {
+    request(createServer(undefined, [
+      {...textFormConfiguration, matcher: ([type, subtype]: [string, string]) => type === 'text' && subtype === 'plain'},
+    ]))
+      .post('/')
+      .set('Content-Type', 'text/plain')
+      .send('a=1\r\na=2')
+      .expect(200, '{"a":["1","2"]}', done);
+  });
+  it('should 413 when there are too many fields', (done) => {
+    request(createServer(undefined, {...textFormConfiguration, parser: getTextFormParser(1)}))
+      .post('/')
+      .set('Content-Type', 'text/plain')
+      .send('a=1\r\nb=2')
+      .expect(413, 'Parse error: too many parameters', done);
+  });
+  it('should not change the default text/plain parser', (done) => {
+    request(createServer(undefined, 'text/plain'))
+      .post('/')
+      .set('Content-Type', 'text/plain')
+      .send('name=tobi\r\n')
+      .expect(200, '"name=tobi\\r\\n"', done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : textFormConfiguration)
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      res.statusCode = err ? (err.status || 500) : 200;
+      res.end(err ? err.message : JSON.stringify((<any>req).body));
+    });
+  });
+}
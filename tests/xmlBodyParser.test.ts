@@ -0,0 +1,151 @@
+import request from 'supertest';
+import {bodyParser, DefaultOptions, getXmlParser, ParserConfigurations} from '../src';
+import * as http from 'http';
+import {Buffer} from 'buffer';
+
+describe('handles application/xml', () => {
+  it('should parse XML to an object tree', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<?xml version="1.0"?><user id="1"><name>tobi</name><pet>loki</pet><pet>ferret</pet></user>')
+      .expect(200, '{"user":{"@id":"1","name":"tobi","pet":["loki","ferret"]}}', done);
+  });
+  it('should parse text/xml', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'text/xml')
+      .send('<name>tobi</name>')
+      .expect(200, '{"name":"tobi"}', done);
+  });
+  it('should parse media types with +xml suffix', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/atom+xml')
+      .send('<feed><title>tobi</title></feed>')
+      .expect(200, '{"feed":{"title":"tobi"}}', done);
+  });
+  it('should not parse image/svg+xml without sanitizing it', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'image/svg+xml')
+      .send('<svg onload="alert(1)"/>')
+      .expect(415, done);
+  });
+  it('should decode entities, character references and CDATA sections', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<text a="&quot;&#x41;&#66;&quot;">&lt;b&gt; &amp; <![CDATA[<i>]]><!-- comment --></text>')
+      .expect(200, '{"text":{"@a":"\\"AB\\"","#text":"<b> & <i>"}}', done);
+  });
+  it('should honor the charset', (done) => {
+    const test = request(createServer()).post('/');
+    test.set('Content-Type', 'application/xml; charset=latin1');
+    test.write(Buffer.concat([Buffer.from('<name>'), Buffer.from('426af8726e', 'hex'), Buffer.from('</name>')]));
+    test.expect(200, '{"name":"Bjørn"}', done);
+  });
+  it('should parse to a lightweight DOM', (done) => {
+    request(createServer(undefined, {matcher: 'application/xml', parser: getXmlParser({output: 'dom'})}))
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .send('<user id="1">\n  <name>tobi</name>\n  text\n</user>')
+      .expect(200, JSON.stringify({
+        name: 'user',
+        attributes: {id: '1'},
+        children: [{name: 'name', attributes: {}, children: ['tobi']}, '\n  text\n'],
+      }), done);
+  });
+  it('should not pollute the prototype', () => {
+    const parsed = getXmlParser()('<__proto__><polluted>yes</polluted></__proto__>');
+    expect(JSON.stringify(parsed)).toBe('{"__proto__":{"polluted":"yes"}}');
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+  it('should handle Content-Length: 0', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .set('Content-Length', '0')
+      .expect(200, '{}', done);
+  });
+});
+
+describe('when XML is invalid or insecure', () => {
+  [
+    ['<user><name>tobi</user>', 'Unexpected end tag \'user\''],
+    ['<user>', 'Unclosed element \'user\''],
+    ['<a/><b/>', 'Multiple root elements'],
+    ['text', 'Text outside of the root element'],
+    ['<a b="1" b="2"/>', 'Duplicate attribute \'b\''],
+    ['<a b=1/>', 'Invalid value of attribute \'b\''],
+    ['<a>&unknown;</a>', 'Undefined entity \'&unknown;\''],
+    ['<a>&amp b</a>', 'Unterminated entity reference \'&amp b\''],
+  ].forEach(([xml, message]) => {
+    it(`should 400 for ${xml}`, (done) => {
+      request(createServer())
+        .post('/')
+        .set('Content-Type', 'application/xml')
+        .send(xml)
+        .expect(400, `Parse error: ${message}`, done);
+    });
+  });
+  it('should reject document type declarations', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .set('X-Error-Property', 'type')
+      .send('<!DOCTYPE foo [<!ENTITY xxe SYSTEM "file:///etc/passwd">]><foo>&xxe;</foo>')
+      .expect(400, 'doctype.forbidden', done);
+  });
+  it('should never expand entities of an allowed document type declaration', () => {
+    const parser = getXmlParser({allowDoctype: true});
+    expect(parser('<!DOCTYPE foo [<!ELEMENT foo ANY>]><foo>bar</foo>')).toEqual({foo: 'bar'});
+    expect(() => parser('<!DOCTYPE foo [<!ENTITY xxe SYSTEM "file:///etc/passwd">]><foo>&xxe;</foo>')).toThrow('Undefined entity');
+    expect(() => parser('<!DOCTYPE lolz [<!ENTITY lol "lol"><!ENTITY lol1 "&lol;&lol;">]><lolz>&lol1;</lolz>')).toThrow('Undefined entity');
+  });
+  it('should 413 when nested too deeply', (done) => {
+    request(createServer(undefined, {matcher: 'application/xml', parser: getXmlParser({maxDepth: 2})}))
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .set('X-Error-Property', 'type')
+      .send('<a><b><c/></b></a>')
+      .expect(413, 'depth.too.large', done);
+  });
+  it('should 413 when too many attributes', (done) => {
+    request(createServer(undefined, {matcher: 'application/xml', parser: getXmlParser({maxAttributes: 1})}))
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .set('X-Error-Property', 'type')
+      .send('<a b="1" c="2"/>')
+      .expect(413, 'attributes.too.many', done);
+  });
+  it('should 413 when too many entity references', (done) => {
+    request(createServer(undefined, {matcher: 'application/xml', parser: getXmlParser({maxEntityExpansions: 2})}))
+      .post('/')
+      .set('Content-Type', 'application/xml')
+      .set('X-Error-Property', 'type')
+      .send('<a>&amp;&amp;&amp;</a>')
+      .expect(413, 'entities.too.many', done);
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : 'application/xml')
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      if (err) {
+        res.statusCode = err.status || 500;
+        // @ts-ignore
+        res.end(err[req.headers['x-error-property'] || 'message']);
+      } else {
+        res.statusCode = 200;
+        // @ts-ignore
+        res.end(JSON.stringify(req.body));
+      }
+    });
+  });
+}
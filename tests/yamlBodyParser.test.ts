@@ -0,0 +1,148 @@
+import request from 'supertest';
+import {bodyParser, DefaultOptions, getYamlParser, ParserConfigurations} from '../src';
+import * as http from 'http';
+
+describe('handles application/yaml', () => {
+  it('should parse YAML', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/yaml')
+      .send('user:\n  name: tobi\n  pets: [loki, ferret]\n  age: 3\n  active: true\n  owner: ~\n')
+      .expect(200, '{"user":{"name":"tobi","pets":["loki","ferret"],"age":3,"active":true,"owner":null}}', done);
+  });
+  it('should parse text/yaml', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'text/yaml')
+      .send('- tobi')
+      .expect(200, '["tobi"]', done);
+  });
+  it('should parse media types with +yaml suffix', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/openapi+yaml')
+      .send('openapi: 3.1.0')
+      .expect(200, '{"openapi":"3.1.0"}', done);
+  });
+  it('should resolve anchors and aliases', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/yaml')
+      .send('default: &pet {name: loki}\npets: [*pet, *pet]')
+      .expect(200, '{"default":{"name":"loki"},"pets":[{"name":"loki"},{"name":"loki"}]}', done);
+  });
+  it('should only use the core schema', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/yaml')
+      .send('date: 2001-12-14\nbool: yes\noctal: 0o17\nmerge: {<<: {a: 1}}')
+      .expect(200, '{"date":"2001-12-14","bool":"yes","octal":15,"merge":{"<<":{"a":1}}}', done);
+  });
+  it('should handle Content-Length: 0', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/yaml')
+      .set('Content-Length', '0')
+      .expect(200, '{}', done);
+  });
+});
+
+describe('when YAML is invalid or insecure', () => {
+  it('should 400 for invalid YAML', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/yaml')
+      .send('a: b: c')
+      .expect(400, /^Parse error: Nested mappings are not allowed in compact mappings/, done);
+  });
+  it('should 400 for duplicate keys', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/yaml')
+      .send('a: 1\na: 2')
+      .expect(400, /^Parse error: Map keys must be unique/, done);
+  });
+  [
+    '!!js/function "function () { return 1; }"',
+    '!!binary aGVsbG8=',
+    '!!timestamp 2001-12-14',
+    'a: !custom value',
+  ].forEach((yaml) => {
+    it(`should 400 for tag in ${yaml}`, (done) => {
+      request(createServer())
+        .post('/')
+        .set('Content-Type', 'application/yaml')
+        .send(yaml)
+        .expect(400, /^Parse error: Unresolved tag/, done);
+    });
+  });
+  it('should 400 for __proto__ keys on main level', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/yaml')
+      .send('__proto__:\n  polluted: true')
+      .expect(400, 'Parse error: __proto__ key not allowed in YAML body on main level', done);
+  });
+  it('should not pollute the prototype with nested __proto__ keys', () => {
+    const parsed = <Record<string, Record<string, unknown>>>getYamlParser()('a:\n  __proto__:\n    polluted: true');
+    expect(Object.prototype.hasOwnProperty.call(parsed.a, '__proto__')).toBe(true);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+  it('should 413 for exponential alias expansion', (done) => {
+    request(createServer())
+      .post('/')
+      .set('Content-Type', 'application/yaml')
+      .set('X-Error-Property', 'type')
+      .send([
+        'a: &a ["lol","lol","lol","lol","lol","lol","lol","lol","lol"]',
+        'b: &b [*a,*a,*a,*a,*a,*a,*a,*a,*a]',
+        'c: &c [*b,*b,*b,*b,*b,*b,*b,*b,*b]',
+        'd: &d [*c,*c,*c,*c,*c,*c,*c,*c,*c]',
+        'e: &e [*d,*d,*d,*d,*d,*d,*d,*d,*d]',
+      ].join('\n'))
+      .expect(413, 'aliases.too.many', done);
+  });
+  it('should 413 when nested too deeply', (done) => {
+    request(createServer(undefined, {matcher: 'application/yaml', parser: getYamlParser({maxDepth: 2})}))
+      .post('/')
+      .set('Content-Type', 'application/yaml')
+      .set('X-Error-Property', 'type')
+      .send('a:\n  b:\n    c: d')
+      .expect(413, 'depth.too.large', done);
+  });
+  it('should 413 for pathologically deep documents before composing them', (done) => {
+    const deepMapping = Array.from({length: 900}, (_, index) => `${' '.repeat(index)}a:`).join('\n') + ' b';
+    expect(() => getYamlParser()(deepMapping)).toThrow(expect.objectContaining({limit: 64, status: 413, type: 'depth.too.large'}));
+    expect(() => getYamlParser()('- '.repeat(5000) + 'a')).toThrow(expect.objectContaining({status: 413, type: 'depth.too.large'}));
+    request(createServer(undefined, {matcher: 'application/yaml', parser: getYamlParser()}))
+      .post('/')
+      .set('Content-Type', 'application/yaml')
+      .set('X-Error-Property', 'type')
+      .send('['.repeat(20000))
+      .expect(413, 'depth.too.large', done);
+  });
+  it('throws when maxAliasCount is invalid', () => {
+    expect(() => getYamlParser({maxAliasCount: -1})).toThrow('maxAliasCount can not be smaller than 0');
+  });
+});
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function createServer (opts: DefaultOptions | Function = {}, parserConfigurations?: ParserConfigurations<any, any>) {
+  const _bodyParser = typeof opts !== 'function'
+    ? bodyParser(opts, parserConfigurations ? parserConfigurations : 'application/yaml')
+    : opts;
+
+  return http.createServer(function (req, res) {
+    _bodyParser(req, res, function (err: any) {
+      if (err) {
+        res.statusCode = err.status || 500;
+        // @ts-ignore
+        res.end(err[req.headers['x-error-property'] || 'message']);
+      } else {
+        res.statusCode = 200;
+        // @ts-ignore
+        res.end(JSON.stringify(req.body));
+      }
+    });
+  });
+}